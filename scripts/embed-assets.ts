@@ -2,8 +2,9 @@
 /**
  * Embed SSOT assets into checked-in generated TS modules (v0.4.0).
  *
- * Walks tsfulmen's bundled Crucible asset trees and emits one ESM module per
- * domain under `src/assets/generated/`, each exporting an `EmbeddedAssetManifest`
+ * Walks tsfulmen's bundled Crucible asset trees, plus its own schemas/tsfulmen
+ * and config/tsfulmen trees, and emits one ESM module per domain under
+ * `src/assets/generated/`, each exporting an `EmbeddedAssetManifest`
  * ({ domain, files: { logicalPath -> raw text } }). These modules live in the
  * import graph, so a `bun --compile` single-file binary carries the assets with
  * no filesystem read. Generated modules are CHECKED IN (entarch decision); drift
@@ -47,6 +48,9 @@ const DOMAINS: DomainSpec[] = [
       "schemas/crucible-ts/**/*.schema.json",
       "schemas/crucible-ts/**/*.schema.yaml",
       "schemas/crucible-ts/**/*.schema.yml",
+      "schemas/tsfulmen/**/*.schema.json",
+      "schemas/tsfulmen/**/*.schema.yaml",
+      "schemas/tsfulmen/**/*.schema.yml",
     ],
   },
   {
@@ -61,7 +65,10 @@ const DOMAINS: DomainSpec[] = [
   },
   {
     name: "taxonomy",
-    patterns: ["config/crucible-ts/taxonomy/metrics.yaml"],
+    patterns: [
+      "config/crucible-ts/taxonomy/metrics.yaml",
+      "config/tsfulmen/taxonomy/metrics.yaml",
+    ],
   },
 ];
 
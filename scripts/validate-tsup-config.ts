@@ -33,6 +33,8 @@ async function main() {
     // Executable bin entries map to package.json `bin`, not `exports`, so they
     // are intentionally not exported (kept out of the library import graph).
     if (entry.startsWith("bin/")) continue;
+    // Worker-thread scripts are spawned by path, never imported.
+    if (entry.endsWith("-worker")) continue;
     const exportKey = `./${entry.replace(/\/index$/, "")}`;
     if (!pkg.exports[exportKey]) {
       orphanedEntries.push(`${entry} (no matching export ${exportKey})`);
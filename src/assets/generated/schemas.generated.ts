@@ -1,6 +1,6 @@
 // AUTO-GENERATED by scripts/embed-assets.ts. DO NOT EDIT.
 // Run `make embed-assets` to regenerate after `make sync-ssot`.
-// Domain: schemas (114 assets)
+// Domain: schemas (121 assets)
 import type { EmbeddedAssetManifest } from "../types.js";
 
 export const manifest: EmbeddedAssetManifest = {
@@ -120,6 +120,13 @@ export const manifest: EmbeddedAssetManifest = {
     "schemas/crucible-ts/upstream/3leaps/crucible/schemas/foundation/v0/types.schema.json": "{\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"$id\": \"https://schemas.3leaps.dev/foundation/v0/types.schema.json\",\n  \"title\": \"3leaps Foundation Types\",\n  \"description\": \"Shared type definitions used across 3leaps and partner ecosystem schemas. Import via $ref.\",\n  \"$defs\": {\n    \"slug\": {\n      \"type\": \"string\",\n      \"pattern\": \"^[a-z][a-z0-9]*(-[a-z0-9]+)*$\",\n      \"minLength\": 2,\n      \"maxLength\": 64,\n      \"description\": \"URL-safe lowercase identifier with hyphens\",\n      \"examples\": [\"my-project\", \"api-gateway\", \"user-service\"]\n    },\n    \"slugRef\": {\n      \"type\": \"string\",\n      \"pattern\": \"^[a-z][a-z0-9]*(-[a-z0-9]+)*$\",\n      \"description\": \"Reference to a slug defined elsewhere\"\n    },\n    \"timestamp\": {\n      \"type\": \"string\",\n      \"format\": \"date-time\",\n      \"description\": \"ISO 8601 timestamp with timezone (UTC preferred)\",\n      \"examples\": [\"2024-12-16T14:30:00Z\", \"2024-12-16T09:30:00-05:00\"]\n    },\n    \"semver\": {\n      \"type\": \"string\",\n      \"pattern\": \"^(0|[1-9]\\\\d*)\\\\.(0|[1-9]\\\\d*)\\\\.(0|[1-9]\\\\d*)(?:-((?:0|[1-9]\\\\d*|\\\\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\\\\.(?:0|[1-9]\\\\d*|\\\\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\\\\+([0-9a-zA-Z-]+(?:\\\\.[0-9a-zA-Z-]+)*))?$\",\n      \"description\": \"Semantic version string (SemVer 2.0.0)\",\n      \"examples\": [\"1.0.0\", \"2.1.0-beta.1\", \"18.1.3+build.456\"]\n    },\n    \"versionConstraint\": {\n      \"type\": \"string\",\n      \"pattern\": \"^(>=?|<=?|=|~|\\\\^)?\\\\d+(\\\\.\\\\d+)?(\\\\.\\\\d+)?$\",\n      \"description\": \"Version constraint for dependency resolution\",\n      \"examples\": [\">=1.0.0\", \"^2.0.0\", \"~18.1.0\", \"=3.0.0\"]\n    },\n    \"schemaVersion\": {\n      \"type\": \"string\",\n      \"pattern\": \"^\\\\d+\\\\.\\\\d+\\\\.\\\\d+$\",\n      \"description\": \"Semantic version of a schema this document conforms to\",\n      \"examples\": [\"1.0.0\", \"2.1.0\"]\n    },\n    \"url\": {\n      \"type\": \"string\",\n      \"format\": \"uri\",\n      \"pattern\": \"^https?://\",\n      \"description\": \"HTTP or HTTPS URL\",\n      \"examples\": [\"https://example.com\", \"http://localhost:8000\"]\n    },\n    \"hostname\": {\n      \"type\": \"string\",\n      \"format\": \"hostname\",\n      \"description\": \"Valid DNS hostname\",\n      \"examples\": [\"app.example.com\", \"api-01.internal\"]\n    },\n    \"domainName\": {\n      \"type\": \"string\",\n      \"pattern\": \"^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\\\\.)+[a-zA-Z]{2,}$\",\n      \"description\": \"Fully qualified domain name\",\n      \"examples\": [\"example.com\", \"app.mycompany.io\"]\n    },\n    \"port\": {\n      \"type\": \"integer\",\n      \"minimum\": 1,\n      \"maximum\": 65535,\n      \"description\": \"TCP/UDP port number\"\n    },\n    \"ipv4Address\": {\n      \"type\": \"string\",\n      \"format\": \"ipv4\",\n      \"description\": \"IPv4 address\",\n      \"examples\": [\"192.168.1.1\", \"10.0.0.1\"]\n    },\n    \"ipv6Address\": {\n      \"type\": \"string\",\n      \"format\": \"ipv6\",\n      \"description\": \"IPv6 address\"\n    },\n    \"cidrBlock\": {\n      \"type\": \"string\",\n      \"pattern\": \"^([0-9]{1,3}\\\\.){3}[0-9]{1,3}/[0-9]{1,2}$\",\n      \"description\": \"IPv4 CIDR notation\",\n      \"examples\": [\"10.0.0.0/8\", \"192.168.1.0/24\", \"0.0.0.0/0\"]\n    },\n    \"emailAddress\": {\n      \"type\": \"string\",\n      \"format\": \"email\",\n      \"description\": \"Email address\"\n    },\n    \"filePath\": {\n      \"type\": \"string\",\n      \"pattern\": \"^/[^\\\\0]*$\",\n      \"description\": \"Absolute POSIX file path\",\n      \"examples\": [\"/etc/config.yaml\", \"/var/lib/data\"]\n    },\n    \"relativePath\": {\n      \"type\": \"string\",\n      \"pattern\": \"^\\\\.?/?[^\\\\0]+$\",\n      \"description\": \"Relative file path (may start with ./ or just filename)\",\n      \"examples\": [\"./config.yaml\", \"configs/main.yaml\", \"../shared/base.yaml\"]\n    },\n    \"anyPath\": {\n      \"type\": \"string\",\n      \"pattern\": \"^(\\\\.?/)?[^\\\\0]+$\",\n      \"description\": \"File path (absolute or relative)\",\n      \"examples\": [\"/etc/config.yaml\", \"./config.yaml\", \"config.yaml\"]\n    },\n    \"sha256Hash\": {\n      \"type\": \"string\",\n      \"pattern\": \"^sha256:[a-f0-9]{64}$\",\n      \"description\": \"SHA-256 hash with prefix\",\n      \"examples\": [\"sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855\"]\n    },\n    \"nonEmptyString\": {\n      \"type\": \"string\",\n      \"minLength\": 1,\n      \"description\": \"String that cannot be empty\"\n    },\n    \"positiveInteger\": {\n      \"type\": \"integer\",\n      \"minimum\": 1,\n      \"description\": \"Integer greater than zero\"\n    },\n    \"nonNegativeInteger\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Integer zero or greater\"\n    },\n    \"percentage\": {\n      \"type\": \"number\",\n      \"minimum\": 0,\n      \"maximum\": 100,\n      \"description\": \"Percentage value 0-100\"\n    },\n    \"durationSeconds\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Duration in seconds\"\n    },\n    \"durationMilliseconds\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Duration in milliseconds\"\n    },\n    \"byteSize\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Size in bytes\"\n    },\n    \"keyValuePair\": {\n      \"type\": \"object\",\n      \"properties\": {\n        \"key\": {\n          \"type\": \"string\"\n        },\n        \"value\": {\n          \"type\": \"string\"\n        }\n      },\n      \"required\": [\"key\", \"value\"],\n      \"additionalProperties\": false\n    },\n    \"labelSet\": {\n      \"type\": \"object\",\n      \"additionalProperties\": {\n        \"type\": \"string\"\n      },\n      \"propertyNames\": {\n        \"pattern\": \"^[a-z][a-z0-9_]*$\"\n      },\n      \"description\": \"Key-value labels for metadata and filtering\"\n    },\n    \"tagList\": {\n      \"type\": \"array\",\n      \"items\": {\n        \"$ref\": \"#/$defs/slug\"\n      },\n      \"uniqueItems\": true,\n      \"description\": \"List of unique tag slugs\"\n    },\n    \"markdown\": {\n      \"type\": \"string\",\n      \"description\": \"Markdown-formatted text content\"\n    }\n  }\n}\n",
     "schemas/crucible-ts/web/branding/v1.0.0/site-branding.schema.json": "{\n  \"$id\": \"https://schemas.fulmenhq.dev/crucible/web/branding/v1.0.0/site-branding.schema.json\",\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"type\": \"object\",\n  \"title\": \"Fulmen Site Branding\",\n  \"description\": \"Standardized branding configuration for Fulmen web templates\",\n  \"properties\": {\n    \"name\": {\n      \"type\": \"string\",\n      \"description\": \"Site or application name (e.g., 'Pulsar Codex')\",\n      \"minLength\": 1,\n      \"maxLength\": 50\n    },\n    \"tagline\": {\n      \"type\": \"string\",\n      \"description\": \"Short descriptive tagline (e.g., 'Production-grade docs template')\",\n      \"maxLength\": 120\n    },\n    \"logo\": {\n      \"type\": \"object\",\n      \"description\": \"Primary logo configuration\",\n      \"properties\": {\n        \"src\": {\n          \"type\": \"string\",\n          \"format\": \"uri-reference\",\n          \"description\": \"Relative path or URL to logo image (SVG/PNG preferred, repo-local in public/)\"\n        },\n        \"alt\": {\n          \"type\": \"string\",\n          \"description\": \"Accessible alt text for the logo\",\n          \"minLength\": 1\n        },\n        \"width\": {\n          \"type\": \"number\",\n          \"minimum\": 32,\n          \"maximum\": 256,\n          \"description\": \"Preferred display width in pixels\"\n        },\n        \"height\": {\n          \"type\": \"number\",\n          \"minimum\": 32,\n          \"maximum\": 256,\n          \"description\": \"Preferred display height in pixels\"\n        }\n      },\n      \"required\": [\n        \"src\",\n        \"alt\"\n      ],\n      \"additionalProperties\": false\n    },\n    \"favicon\": {\n      \"type\": \"string\",\n      \"format\": \"uri-reference\",\n      \"description\": \"Path/URL to favicon (ICO/SVG, 16x16+ pixels, in public/)\"\n    },\n    \"appIcon\": {\n      \"type\": \"string\",\n      \"format\": \"uri-reference\",\n      \"description\": \"Path/URL to application icon for PWA/manifest (PNG/SVG, 192x192+)\"\n    },\n    \"logoPresentation\": {\n      \"type\": \"string\",\n      \"enum\": [\n        \"logo_only\",\n        \"logo_left_text_right\",\n        \"logo_top_text_bottom\",\n        \"text_only\",\n        \"gridbox_logo_text\"\n      ],\n      \"description\": \"Layout variant for logo and name/tagline: logo_only (logo includes text), logo_left_text_right (horizontal alignment), logo_top_text_bottom (vertical stack), text_only (no logo), gridbox_logo_text (flex/grid centered)\"\n    }\n  },\n  \"required\": [\n    \"name\",\n    \"logoPresentation\"\n  ],\n  \"additionalProperties\": false\n}\n",
     "schemas/crucible-ts/web/styling/v1.0.0/site-styling.schema.json": "{\n  \"$id\": \"https://schemas.fulmenhq.dev/crucible/web/styling/v1.0.0/site-styling.schema.json\",\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"type\": \"object\",\n  \"title\": \"Fulmen Site Styling\",\n  \"description\": \"Standardized styling configuration for Fulmen web templates, including palettes, typography, and icons\",\n  \"properties\": {\n    \"themes\": {\n      \"type\": \"object\",\n      \"description\": \"Light and dark mode palettes\",\n      \"properties\": {\n        \"light\": {\n          \"type\": \"object\",\n          \"description\": \"Light theme color palette\",\n          \"properties\": {\n            \"background\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Primary background (hex)\"\n            },\n            \"foreground\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Primary text (hex)\"\n            },\n            \"accent\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Accent color (hex)\"\n            },\n            \"success\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Success indicator (green, hex)\"\n            },\n            \"failure\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Failure/error (red, hex)\"\n            },\n            \"warning\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Warning (yellow/orange, hex)\"\n            },\n            \"critical\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Critical/alert (purple, hex)\"\n            },\n            \"info\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Info callout (blue, hex, optional)\"\n            },\n            \"note\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Note callout (cyan/teal, hex, optional)\"\n            },\n            \"caution\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Caution callout (softer orange, hex, optional)\"\n            },\n            \"categorical\": {\n              \"type\": \"array\",\n              \"description\": \"Categorical colors for charts/graphs (5-12 accessible colors)\",\n              \"items\": {\n                \"type\": \"string\",\n                \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\"\n              },\n              \"minItems\": 5,\n              \"maxItems\": 12,\n              \"uniqueItems\": true\n            }\n          },\n          \"required\": [\n            \"background\",\n            \"foreground\",\n            \"accent\",\n            \"success\",\n            \"failure\",\n            \"warning\",\n            \"critical\"\n          ],\n          \"additionalProperties\": false\n        },\n        \"dark\": {\n          \"$ref\": \"#/properties/themes/properties/light\"\n        }\n      },\n      \"required\": [\n        \"light\",\n        \"dark\"\n      ],\n      \"additionalProperties\": false\n    },\n    \"typography\": {\n      \"type\": \"object\",\n      \"description\": \"Font families and embedding options\",\n      \"properties\": {\n        \"fonts\": {\n          \"type\": \"object\",\n          \"description\": \"Font family definitions\",\n          \"properties\": {\n            \"body\": {\n              \"type\": \"object\",\n              \"description\": \"Body text font\",\n              \"properties\": {\n                \"family\": {\n                  \"type\": \"string\",\n                  \"description\": \"CSS font-family string (e.g., 'Inter, sans-serif')\"\n                },\n                \"src\": {\n                  \"type\": \"string\",\n                  \"format\": \"uri-reference\",\n                  \"description\": \"Path/URL to font file (WOFF2 in public/fonts/, or external URL)\"\n                },\n                \"weights\": {\n                  \"type\": \"array\",\n                  \"items\": {\n                    \"type\": \"number\",\n                    \"minimum\": 100,\n                    \"maximum\": 900\n                  },\n                  \"description\": \"Supported weights (e.g., [400, 700])\",\n                  \"minItems\": 1\n                },\n                \"size\": {\n                  \"type\": \"object\",\n                  \"properties\": {\n                    \"base\": {\n                      \"type\": \"string\",\n                      \"pattern\": \"^[0-9]+(\\\\.[0-9]+)?(px|rem|em)$\",\n                      \"description\": \"Base font size\"\n                    }\n                  },\n                  \"required\": [\n                    \"base\"\n                  ],\n                  \"additionalProperties\": false\n                }\n              },\n              \"required\": [\n                \"family\",\n                \"src\"\n              ],\n              \"additionalProperties\": false\n            },\n            \"code\": {\n              \"$ref\": \"#/properties/typography/properties/fonts/properties/body\"\n            },\n            \"heading\": {\n              \"$ref\": \"#/properties/typography/properties/fonts/properties/body\"\n            }\n          },\n          \"required\": [\n            \"body\",\n            \"code\"\n          ],\n          \"additionalProperties\": false\n        },\n        \"embed\": {\n          \"type\": \"boolean\",\n          \"default\": true,\n          \"description\": \"Embed fonts at build-time (true: WOFF2 from src; false: URL/CDN)\"\n        },\n        \"lineHeight\": {\n          \"type\": \"number\",\n          \"minimum\": 1.2,\n          \"maximum\": 2.0,\n          \"default\": 1.5,\n          \"description\": \"Base line-height\"\n        }\n      },\n      \"required\": [\n        \"fonts\"\n      ],\n      \"additionalProperties\": false\n    },\n    \"icons\": {\n      \"type\": \"object\",\n      \"description\": \"Icon configuration\",\n      \"properties\": {\n        \"registry\": {\n          \"type\": \"string\",\n          \"enum\": [\n            \"mdi\",\n            \"heroicons\",\n            \"lucide\",\n            \"tabler\"\n          ],\n          \"default\": \"mdi\",\n          \"description\": \"Icon set registry\"\n        },\n        \"prefix\": {\n          \"type\": \"string\",\n          \"default\": \"codex-\",\n          \"description\": \"CSS class prefix\"\n        },\n        \"size\": {\n          \"type\": \"number\",\n          \"default\": 24,\n          \"minimum\": 16,\n          \"maximum\": 48,\n          \"description\": \"Default size (px)\"\n        },\n        \"custom\": {\n          \"type\": \"array\",\n          \"items\": {\n            \"type\": \"object\",\n            \"properties\": {\n              \"name\": {\n                \"type\": \"string\",\n                \"description\": \"Icon name\"\n              },\n              \"src\": {\n                \"type\": \"string\",\n                \"format\": \"uri-reference\",\n                \"description\": \"Path to SVG in public/icons/\"\n              },\n              \"size\": {\n                \"type\": \"number\",\n                \"default\": 24,\n                \"description\": \"Icon size in pixels\"\n              }\n            },\n            \"required\": [\n              \"name\",\n              \"src\"\n            ],\n            \"additionalProperties\": false\n          },\n          \"description\": \"Custom icons\"\n        },\n        \"palette\": {\n          \"type\": \"object\",\n          \"description\": \"Icon fill colors for light/dark modes\",\n          \"properties\": {\n            \"light\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Fill color for light mode\"\n            },\n            \"dark\": {\n              \"type\": \"string\",\n              \"pattern\": \"^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$\",\n              \"description\": \"Fill color for dark mode\"\n            }\n          },\n          \"required\": [\n            \"light\",\n            \"dark\"\n          ],\n          \"additionalProperties\": false\n        }\n      },\n      \"required\": [\n        \"registry\"\n      ],\n      \"additionalProperties\": false\n    },\n    \"a11y\": {\n      \"type\": \"object\",\n      \"description\": \"Accessibility constraints for colors (WCAG 2.1 AA baseline; build-time validation)\",\n      \"properties\": {\n        \"minContrast\": {\n          \"type\": \"object\",\n          \"description\": \"Minimum contrast ratios for WCAG compliance\",\n          \"properties\": {\n            \"normal\": {\n              \"type\": \"number\",\n              \"minimum\": 3.0,\n              \"maximum\": 21.0,\n              \"default\": 4.5,\n              \"description\": \"Min ratio for normal text (AA: 4.5:1)\"\n            },\n            \"large\": {\n              \"type\": \"number\",\n              \"minimum\": 2.0,\n              \"maximum\": 21.0,\n              \"default\": 3.0,\n              \"description\": \"Min ratio for large text (AA: 3:1)\"\n            },\n            \"graphics\": {\n              \"type\": \"number\",\n              \"minimum\": 3.0,\n              \"maximum\": 21.0,\n              \"default\": 3.0,\n              \"description\": \"Min ratio for UI components/graphics\"\n            }\n          },\n          \"required\": [\n            \"normal\",\n            \"large\"\n          ],\n          \"additionalProperties\": false\n        },\n        \"level\": {\n          \"type\": \"string\",\n          \"enum\": [\n            \"AA\",\n            \"AAA\"\n          ],\n          \"default\": \"AA\",\n          \"description\": \"WCAG conformance level (build enforces ratios)\"\n        }\n      },\n      \"required\": [\n        \"minContrast\"\n      ],\n      \"additionalProperties\": false\n    }\n  },\n  \"required\": [\n    \"themes\",\n    \"typography\"\n  ],\n  \"additionalProperties\": false\n}\n",
+    "schemas/tsfulmen/library/fulhash/v1.0.0/checksum-string.schema.json": "{\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulhash/v1.0.0/checksum-string.schema.json\",\n  \"title\": \"FulHash Checksum String\",\n  \"description\": \"Canonical checksum string '<algorithm>:<hex>' (Crucible checksum-string v1.0.0 plus sha512, sha1, md5 and blake3)\",\n  \"type\": \"string\",\n  \"pattern\": \"^(xxh3-128:[0-9a-f]{32}|crc32:[0-9a-f]{8}|crc32c:[0-9a-f]{8}|sha256:[0-9a-f]{64}|sha512:[0-9a-f]{128}|sha1:[0-9a-f]{40}|md5:[0-9a-f]{32}|blake3:[0-9a-f]{64})$\"\n}\n",
+    "schemas/tsfulmen/library/fulhash/v1.0.0/digest.schema.json": "{\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulhash/v1.0.0/digest.schema.json\",\n  \"title\": \"FulHash Digest\",\n  \"description\": \"Standard digest payload returned by FulHash helpers (Crucible digest v1.0.0 plus sha512, sha1, md5 and blake3)\",\n  \"type\": \"object\",\n  \"properties\": {\n    \"algorithm\": {\n      \"type\": \"string\",\n      \"enum\": [\n        \"xxh3-128\",\n        \"crc32\",\n        \"crc32c\",\n        \"sha256\",\n        \"sha512\",\n        \"sha1\",\n        \"md5\",\n        \"blake3\"\n      ],\n      \"description\": \"Hash algorithm identifier\"\n    },\n    \"hex\": {\n      \"type\": \"string\",\n      \"description\": \"Lowercase hexadecimal representation of the digest\"\n    },\n    \"formatted\": {\n      \"type\": \"string\",\n      \"description\": \"Canonical string representation '<algorithm>:<hex>'\"\n    },\n    \"bytes\": {\n      \"type\": \"array\",\n      \"description\": \"Raw digest bytes (optional)\",\n      \"items\": {\n        \"type\": \"integer\",\n        \"minimum\": 0,\n        \"maximum\": 255\n      }\n    }\n  },\n  \"required\": [\"algorithm\", \"hex\", \"formatted\"],\n  \"additionalProperties\": false,\n  \"allOf\": [\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"xxh3-128\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{32}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^xxh3-128:[0-9a-f]{32}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 16,\n            \"maxItems\": 16\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"sha256\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{64}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^sha256:[0-9a-f]{64}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 32,\n            \"maxItems\": 32\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"crc32\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{8}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^crc32:[0-9a-f]{8}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 4,\n            \"maxItems\": 4\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"crc32c\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{8}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^crc32c:[0-9a-f]{8}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 4,\n            \"maxItems\": 4\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"sha512\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{128}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^sha512:[0-9a-f]{128}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 64,\n            \"maxItems\": 64\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"sha1\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{40}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^sha1:[0-9a-f]{40}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 20,\n            \"maxItems\": 20\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"md5\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{32}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^md5:[0-9a-f]{32}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 16,\n            \"maxItems\": 16\n          }\n        }\n      }\n    },\n    {\n      \"if\": {\n        \"properties\": {\n          \"algorithm\": {\n            \"const\": \"blake3\"\n          }\n        },\n        \"required\": [\"algorithm\"]\n      },\n      \"then\": {\n        \"properties\": {\n          \"hex\": {\n            \"type\": \"string\",\n            \"pattern\": \"^[0-9a-f]{64}$\"\n          },\n          \"formatted\": {\n            \"type\": \"string\",\n            \"pattern\": \"^blake3:[0-9a-f]{64}$\"\n          },\n          \"bytes\": {\n            \"type\": \"array\",\n            \"minItems\": 32,\n            \"maxItems\": 32\n          }\n        }\n      }\n    }\n  ]\n}\n",
+    "schemas/tsfulmen/library/fulpack/v1.0.0/archive-entry.schema.json": "{\n  \"$schema\": \"http://json-schema.org/draft-07/schema#\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulpack/v1.0.0/archive-entry.schema.json\",\n  \"title\": \"Archive Entry\",\n  \"description\": \"Metadata for a single archive entry (Crucible archive-entry v1.0.0 with checksums from any fulhash algorithm)\",\n  \"type\": \"object\",\n  \"required\": [\"path\", \"type\", \"size\"],\n  \"properties\": {\n    \"path\": {\n      \"type\": \"string\",\n      \"minLength\": 1,\n      \"description\": \"Normalized entry path within archive\"\n    },\n    \"type\": {\n      \"type\": \"string\",\n      \"enum\": [\"file\", \"directory\", \"symlink\"],\n      \"description\": \"Entry type from entry-types taxonomy\"\n    },\n    \"size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Uncompressed size in bytes\"\n    },\n    \"compressed_size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Compressed size in bytes (if available)\"\n    },\n    \"modified\": {\n      \"type\": \"string\",\n      \"format\": \"date-time\",\n      \"description\": \"Modification timestamp (ISO 8601 format)\"\n    },\n    \"checksum\": {\n      \"type\": \"string\",\n      \"pattern\": \"^([a-f0-9]{8}|[a-f0-9]{32}|[a-f0-9]{40}|[a-f0-9]{64}|[a-f0-9]{128})$\",\n      \"description\": \"Hex checksum computed with the archive manifest's checksum_algorithm\"\n    },\n    \"mode\": {\n      \"type\": \"string\",\n      \"pattern\": \"^0[0-7]{3,4}$\",\n      \"description\": \"Unix file permissions (octal string, e.g., '0644')\"\n    },\n    \"symlink_target\": {\n      \"type\": [\"string\", \"null\"],\n      \"description\": \"Target path if type is symlink, null otherwise\"\n    }\n  },\n  \"additionalProperties\": false\n}\n",
+    "schemas/tsfulmen/library/fulpack/v1.0.0/archive-info.schema.json": "{\n  \"$schema\": \"http://json-schema.org/draft-07/schema#\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulpack/v1.0.0/archive-info.schema.json\",\n  \"title\": \"Archive Info\",\n  \"description\": \"Metadata about an archive file (Crucible archive-info v1.0.0 plus the zstd, xz and bzip2 formats)\",\n  \"type\": \"object\",\n  \"required\": [\"format\", \"entry_count\", \"total_size\", \"compressed_size\"],\n  \"properties\": {\n    \"format\": {\n      \"type\": \"string\",\n      \"enum\": [\n        \"tar\",\n        \"tar.gz\",\n        \"zip\",\n        \"gzip\",\n        \"tar.zst\",\n        \"zst\",\n        \"tar.xz\",\n        \"tar.bz2\"\n      ],\n      \"description\": \"Archive format from archive-formats taxonomy\"\n    },\n    \"compression\": {\n      \"type\": \"string\",\n      \"enum\": [\"gzip\", \"deflate\", \"zstd\", \"xz\", \"bzip2\", \"none\"],\n      \"description\": \"Compression algorithm used\"\n    },\n    \"entry_count\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Total number of entries in the archive\"\n    },\n    \"total_size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Total uncompressed size in bytes\"\n    },\n    \"compressed_size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Compressed archive file size in bytes\"\n    },\n    \"compression_ratio\": {\n      \"type\": \"number\",\n      \"minimum\": 0,\n      \"description\": \"Compression ratio (total_size / compressed_size)\"\n    },\n    \"has_checksums\": {\n      \"type\": \"boolean\",\n      \"description\": \"Whether the archive contains checksums\"\n    },\n    \"checksum_algorithm\": {\n      \"type\": \"string\",\n      \"enum\": [\"xxh3-128\", \"sha256\", \"sha512\", \"sha1\", \"md5\"],\n      \"description\": \"Checksum algorithm used from fulhash module (xxh3-128 and sha256 are standard, others may require optional extensions)\"\n    },\n    \"created\": {\n      \"type\": \"string\",\n      \"format\": \"date-time\",\n      \"description\": \"Archive creation timestamp (ISO 8601 format)\"\n    }\n  },\n  \"additionalProperties\": false\n}\n",
+    "schemas/tsfulmen/library/fulpack/v1.0.0/archive-manifest.schema.json": "{\n  \"$schema\": \"http://json-schema.org/draft-07/schema#\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulpack/v1.0.0/archive-manifest.schema.json\",\n  \"title\": \"Archive Manifest\",\n  \"description\": \"Complete archive table of contents (Crucible archive-manifest v1.0.0 plus the zstd, xz and bzip2 formats and a manifest-level checksum_algorithm)\",\n  \"type\": \"object\",\n  \"required\": [\"format\", \"version\", \"generated\", \"entry_count\", \"entries\"],\n  \"properties\": {\n    \"format\": {\n      \"type\": \"string\",\n      \"enum\": [\n        \"tar\",\n        \"tar.gz\",\n        \"zip\",\n        \"gzip\",\n        \"tar.zst\",\n        \"zst\",\n        \"tar.xz\",\n        \"tar.bz2\"\n      ],\n      \"description\": \"Archive format from archive-formats taxonomy\"\n    },\n    \"version\": {\n      \"type\": \"string\",\n      \"pattern\": \"^\\\\d+\\\\.\\\\d+\\\\.\\\\d+$\",\n      \"description\": \"Manifest schema version (semantic versioning)\"\n    },\n    \"generated\": {\n      \"type\": \"string\",\n      \"format\": \"date-time\",\n      \"description\": \"Manifest generation timestamp (ISO 8601 format)\"\n    },\n    \"checksum_algorithm\": {\n      \"type\": \"string\",\n      \"enum\": [\n        \"xxh3-128\",\n        \"sha256\",\n        \"crc32\",\n        \"crc32c\",\n        \"sha512\",\n        \"sha1\",\n        \"md5\",\n        \"blake3\"\n      ],\n      \"description\": \"fulhash algorithm of the entry checksums\"\n    },\n    \"entry_count\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Total number of entries in manifest\"\n    },\n    \"total_size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Total uncompressed size in bytes\"\n    },\n    \"compressed_size\": {\n      \"type\": \"integer\",\n      \"minimum\": 0,\n      \"description\": \"Compressed archive file size in bytes\"\n    },\n    \"entries\": {\n      \"type\": \"array\",\n      \"items\": {\n        \"$ref\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulpack/v1.0.0/archive-entry.schema.json\"\n      },\n      \"description\": \"Array of archive entries\"\n    },\n    \"index\": {\n      \"type\": \"object\",\n      \"description\": \"Optional searchable index for fast lookups\",\n      \"properties\": {\n        \"by_path\": {\n          \"type\": \"object\",\n          \"additionalProperties\": {\n            \"type\": \"integer\",\n            \"minimum\": 0\n          },\n          \"description\": \"Map of entry paths to array indices\"\n        },\n        \"by_type\": {\n          \"type\": \"object\",\n          \"properties\": {\n            \"file\": {\n              \"type\": \"array\",\n              \"items\": {\n                \"type\": \"integer\",\n                \"minimum\": 0\n              }\n            },\n            \"directory\": {\n              \"type\": \"array\",\n              \"items\": {\n                \"type\": \"integer\",\n                \"minimum\": 0\n              }\n            },\n            \"symlink\": {\n              \"type\": \"array\",\n              \"items\": {\n                \"type\": \"integer\",\n                \"minimum\": 0\n              }\n            }\n          },\n          \"description\": \"Map of entry types to array indices\"\n        },\n        \"by_extension\": {\n          \"type\": \"object\",\n          \"additionalProperties\": {\n            \"type\": \"array\",\n            \"items\": {\n              \"type\": \"integer\",\n              \"minimum\": 0\n            }\n          },\n          \"description\": \"Map of file extensions to array indices\"\n        }\n      },\n      \"additionalProperties\": false\n    }\n  },\n  \"additionalProperties\": false\n}\n",
+    "schemas/tsfulmen/library/fulpack/v1.0.0/create-options.schema.json": "{\n  \"$schema\": \"http://json-schema.org/draft-07/schema#\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/library/fulpack/v1.0.0/create-options.schema.json\",\n  \"title\": \"Create Options\",\n  \"description\": \"Options for archive creation operation (Crucible create-options v1.0.0 plus deterministic)\",\n  \"type\": \"object\",\n  \"properties\": {\n    \"compression_level\": {\n      \"type\": \"integer\",\n      \"minimum\": 1,\n      \"maximum\": 9,\n      \"default\": 6,\n      \"description\": \"Compression level (1=fastest, 9=best compression, format-dependent)\"\n    },\n    \"include_patterns\": {\n      \"type\": \"array\",\n      \"items\": {\n        \"type\": \"string\"\n      },\n      \"description\": \"Glob patterns for files to include (e.g., ['**/*.py', '**/*.md'])\"\n    },\n    \"exclude_patterns\": {\n      \"type\": \"array\",\n      \"items\": {\n        \"type\": \"string\"\n      },\n      \"description\": \"Glob patterns for files to exclude (e.g., ['**/__pycache__', '**/.git'])\"\n    },\n    \"checksum_algorithm\": {\n      \"type\": \"string\",\n      \"enum\": [\"xxh3-128\", \"sha256\", \"sha512\", \"sha1\", \"md5\"],\n      \"default\": \"sha256\",\n      \"description\": \"Checksum algorithm for entry verification (xxh3-128 and sha256 are standard via fulhash module, others may require optional extensions)\"\n    },\n    \"preserve_permissions\": {\n      \"type\": \"boolean\",\n      \"default\": true,\n      \"description\": \"Preserve Unix file permissions in archive\"\n    },\n    \"follow_symlinks\": {\n      \"type\": \"boolean\",\n      \"default\": false,\n      \"description\": \"Follow symbolic links and archive their targets\"\n    },\n    \"deterministic\": {\n      \"type\": \"boolean\",\n      \"default\": false,\n      \"description\": \"Reproducible output: sorted entries, normalized ownership/permissions, mtimes from SOURCE_DATE_EPOCH\"\n    }\n  },\n  \"additionalProperties\": false\n}\n",
+    "schemas/tsfulmen/pathfinder/v1.0.0/snapshot.schema.json": "{\n  \"$schema\": \"https://json-schema.org/draft/2020-12/schema\",\n  \"$id\": \"https://schemas.fulmenhq.dev/tsfulmen/pathfinder/v1.0.0/snapshot.schema.json\",\n  \"title\": \"PathfinderSnapshot\",\n  \"description\": \"Manifest of the files found by a Pathfinder query\",\n  \"type\": \"object\",\n  \"required\": [\"version\", \"root\", \"createdAt\", \"entries\"],\n  \"properties\": {\n    \"version\": {\n      \"description\": \"Snapshot format version\",\n      \"const\": \"1.0.0\"\n    },\n    \"root\": {\n      \"type\": \"string\",\n      \"description\": \"Root the query ran against\"\n    },\n    \"createdAt\": {\n      \"type\": \"string\",\n      \"format\": \"date-time\",\n      \"description\": \"When the snapshot was taken\"\n    },\n    \"entries\": {\n      \"type\": \"array\",\n      \"description\": \"Files found, sorted by relative path\",\n      \"items\": {\n        \"type\": \"object\",\n        \"required\": [\"relativePath\", \"metadata\"],\n        \"properties\": {\n          \"relativePath\": {\n            \"type\": \"string\",\n            \"minLength\": 1,\n            \"description\": \"Path relative to the root, with forward slashes\"\n          },\n          \"metadata\": {\n            \"$ref\": \"https://schemas.fulmenhq.dev/crucible/pathfinder/v1.0.0/metadata.schema.json\",\n            \"description\": \"Pathfinder metadata, limited to the fields a snapshot records\",\n            \"properties\": {\n              \"permissions\": {\n                \"pattern\": \"^[0-7]{4}$\",\n                \"description\": \"Octal file mode\"\n              },\n              \"isSymlink\": {\n                \"type\": \"boolean\",\n                \"description\": \"Whether the path is a symbolic link\"\n              },\n              \"symlinkTarget\": {\n                \"type\": \"string\",\n                \"description\": \"Target of the symbolic link\"\n              }\n            },\n            \"propertyNames\": {\n              \"enum\": [\n                \"size\",\n                \"modified\",\n                \"permissions\",\n                \"checksum\",\n                \"checksumAlgorithm\",\n                \"checksumError\",\n                \"isSymlink\",\n                \"symlinkTarget\"\n              ]\n            }\n          }\n        },\n        \"additionalProperties\": false\n      }\n    }\n  },\n  \"additionalProperties\": false\n}\n",
   },
 };
 
@@ -1,12 +1,13 @@
 // AUTO-GENERATED by scripts/embed-assets.ts. DO NOT EDIT.
 // Run `make embed-assets` to regenerate after `make sync-ssot`.
-// Domain: taxonomy (1 assets)
+// Domain: taxonomy (2 assets)
 import type { EmbeddedAssetManifest } from "../types.js";
 
 export const manifest: EmbeddedAssetManifest = {
   domain: "taxonomy",
   files: {
     "config/crucible-ts/taxonomy/metrics.yaml": "$schema: https://json-schema.org/draft/2020-12/schema\n$id: https://schemas.fulmenhq.dev/config/taxonomy/metrics-v1.0.0.schema.json\ntitle: Fulmen Metrics Taxonomy\ndescription: Canonical registry of metric identifiers and default units used by Fulmen helper libraries.\ntype: object\n$defs:\n  metricName:\n    type: string\n    enum:\n      - schema_validations\n      - schema_validation_errors\n      - config_load_ms\n      - config_load_errors\n      - pathfinder_find_ms\n      - pathfinder_validation_errors\n      - pathfinder_security_warnings\n      - foundry_lookup_count\n      - logging_emit_count\n      - logging_emit_latency_ms\n      - goneat_command_duration_ms\n      - prometheus_exporter_refresh_duration_seconds\n      - prometheus_exporter_refresh_total\n      - prometheus_exporter_refresh_errors_total\n      - prometheus_exporter_refresh_inflight\n      - prometheus_exporter_http_requests_total\n      - prometheus_exporter_http_errors_total\n      - prometheus_exporter_restarts_total\n      - foundry_mime_detections_total_json\n      - foundry_mime_detections_total_xml\n      - foundry_mime_detections_total_yaml\n      - foundry_mime_detections_total_csv\n      - foundry_mime_detections_total_plain_text\n      - foundry_mime_detections_total_unknown\n      - foundry_mime_detection_ms_json\n      - foundry_mime_detection_ms_xml\n      - foundry_mime_detection_ms_yaml\n      - foundry_mime_detection_ms_csv\n      - foundry_mime_detection_ms_plain_text\n      - foundry_mime_detection_ms_unknown\n      - error_handling_wraps_total\n      - error_handling_wrap_ms\n      - fulhash_operations_total_xxh3_128\n      - fulhash_operations_total_sha256\n      - fulhash_hash_string_total\n      - fulhash_bytes_hashed_total\n      - fulhash_operation_ms\n      - fulencode_operation_total\n      - fulencode_operation_duration_seconds\n      - fulencode_bytes_processed_total\n      - fulencode_expansion_ratio_percent\n      - fulencode_detect_result_total\n      - fulencode_detect_duration_seconds\n      - fulencode_normalize_total\n      - fulencode_normalize_semantic_changes_total\n      - fulencode_security_violations_total\n      - fulencode_corrections_total\n      - fulencode_bom_operations_total\n      - fulencode_bom_mismatches_total\n      - fulencode_errors_total\n      - http_requests_total\n      - http_request_duration_seconds\n      - http_request_size_bytes\n      - http_response_size_bytes\n      - http_active_requests\n  metricUnit:\n    type: string\n    enum:\n      - count\n      - ms\n      - bytes\n      - percent\n      - s\nproperties:\n  version:\n    type: string\n    description: Taxonomy version (SemVer, aligned with Crucible releases).\n    pattern: \"^\\\\d+\\\\.\\\\d+\\\\.\\\\d+$\"\n  defaults:\n    type: object\n    description: Default configuration applied across metrics.\n    properties:\n      histogram_buckets:\n        type: object\n        description: Default histogram bucket boundaries grouped by metric suffix or unit.\n        properties:\n          ms_metrics:\n            type: array\n            description: Default millisecond buckets used when metric name ends with `_ms`.\n            items:\n              type: number\n          seconds_metrics:\n            type: array\n            description: Default second buckets used when metric unit is `s` (for HTTP latency and duration metrics).\n            items:\n              type: number\n          bytes_metrics:\n            type: array\n            description: Default byte buckets used when metric name ends with `_bytes` (for HTTP request/response size metrics).\n            items:\n              type: number\n        additionalProperties: false\n    additionalProperties: false\n  metrics:\n    type: array\n    description: Canonical metric entries.\n    items:\n      type: object\n      properties:\n        name:\n          $ref: \"#/$defs/metricName\"\n        unit:\n          $ref: \"#/$defs/metricUnit\"\n        description:\n          type: string\n      required:\n        - name\n        - unit\n      additionalProperties: false\n    minItems: 1\nrequired:\n  - version\n  - metrics\nadditionalProperties: false\nversion: \"0.4.15\"\ndefaults:\n  histogram_buckets:\n    ms_metrics:\n      - 1\n      - 5\n      - 10\n      - 50\n      - 100\n      - 500\n      - 1000\n      - 5000\n      - 10000\n    seconds_metrics:\n      - 0.005\n      - 0.01\n      - 0.025\n      - 0.05\n      - 0.1\n      - 0.25\n      - 0.5\n      - 1\n      - 2.5\n      - 5\n      - 10\n    bytes_metrics:\n      - 1024\n      - 10240\n      - 102400\n      - 1048576\n      - 10485760\n      - 104857600\nmetrics:\n  - name: schema_validations\n    unit: count\n    description: Total schema validation attempts.\n  - name: schema_validation_errors\n    unit: count\n    description: Failed schema validation attempts.\n  - name: config_load_ms\n    unit: ms\n    description: Duration of configuration load operations.\n  - name: config_load_errors\n    unit: count\n    description: Failed configuration load attempts.\n  - name: pathfinder_find_ms\n    unit: ms\n    description: Duration of pathfinder file discovery operations.\n  - name: pathfinder_validation_errors\n    unit: count\n    description: Failed pathfinder validation attempts.\n  - name: pathfinder_security_warnings\n    unit: count\n    description: Pathfinder security warnings (e.g., path traversal attempts).\n  - name: foundry_lookup_count\n    unit: count\n    description: Number of catalog lookups performed.\n  - name: logging_emit_count\n    unit: count\n    description: Total structured log events emitted.\n  - name: logging_emit_latency_ms\n    unit: ms\n    description: Time spent emitting structured log events.\n  - name: goneat_command_duration_ms\n    unit: ms\n    description: Duration of goneat command execution (instrumentation helper).\n  - name: prometheus_exporter_refresh_duration_seconds\n    unit: s\n    description: >\n      Time to refresh/export registry data into Prometheus collectors. Uses ADR-0007 buckets converted to seconds: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1.0, 5.0, 10.0]. Required labels: phase (collect|convert|export), result (success|error). Optional labels: error_type.\n\n  - name: prometheus_exporter_refresh_total\n    unit: count\n    description: >\n      Total refresh cycles attempted. Use with result label for success/error breakdown. Exporters SHOULD emit both this and prometheus_exporter_refresh_errors_total. Required labels: result (success|error). Optional labels: error_type.\n\n  - name: prometheus_exporter_refresh_errors_total\n    unit: count\n    description: >\n      Failed refresh cycles with detailed error classification. Sum MUST equal prometheus_exporter_refresh_total{result=\"error\"}. Required labels: error_type (validation|io|timeout|other). Optional labels: phase.\n\n  - name: prometheus_exporter_refresh_inflight\n    unit: count\n    description: >\n      Number of concurrent refresh operations currently running. Optional labels: phase.\n\n  - name: prometheus_exporter_http_requests_total\n    unit: count\n    description: >\n      HTTP scrape/exposition requests handled by exporter. Distinct from prom-client defaults; recommend disabling client defaults when using this. Required labels: status (HTTP code), path. Optional labels: client (high cardinality warning).\n\n  - name: prometheus_exporter_http_errors_total\n    unit: count\n    description: >\n      HTTP exposition failures (5xx, auth failures, timeouts). Required labels: status (HTTP code), path. Optional labels: client (high cardinality warning).\n\n  - name: prometheus_exporter_restarts_total\n    unit: count\n    description: >\n      Exporter refresh loop or HTTP server restarts. Required labels: reason (config_change|error|manual|other).\n\n  - name: foundry_mime_detections_total_json\n    unit: count\n    description: >\n      Total JSON MIME type detections performed by the Foundry module. Tracks usage patterns for JSON content processing.\n\n  - name: foundry_mime_detections_total_xml\n    unit: count\n    description: >\n      Total XML MIME type detections performed by the Foundry module. Tracks usage patterns for XML content processing.\n\n  - name: foundry_mime_detections_total_yaml\n    unit: count\n    description: >\n      Total YAML MIME type detections performed by the Foundry module. Tracks usage patterns for YAML content processing.\n\n  - name: foundry_mime_detections_total_csv\n    unit: count\n    description: >\n      Total CSV MIME type detections performed by the Foundry module. Tracks usage patterns for CSV content processing.\n\n  - name: foundry_mime_detections_total_plain_text\n    unit: count\n    description: >\n      Total plain text MIME type detections performed by the Foundry module. Tracks usage patterns for plain text content processing.\n\n  - name: foundry_mime_detections_total_unknown\n    unit: count\n    description: >\n      Total unknown/binary MIME type detections performed by the Foundry module. Tracks usage patterns for unknown content types.\n\n  - name: foundry_mime_detection_ms_json\n    unit: ms\n    description: >\n      JSON MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for JSON detection algorithms.\n\n  - name: foundry_mime_detection_ms_xml\n    unit: ms\n    description: >\n      XML MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for XML detection algorithms.\n\n  - name: foundry_mime_detection_ms_yaml\n    unit: ms\n    description: >\n      YAML MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for YAML detection algorithms.\n\n  - name: foundry_mime_detection_ms_csv\n    unit: ms\n    description: >\n      CSV MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for CSV detection algorithms.\n\n  - name: foundry_mime_detection_ms_plain_text\n    unit: ms\n    description: >\n      Plain text MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for plain text detection algorithms.\n\n  - name: foundry_mime_detection_ms_unknown\n    unit: ms\n    description: >\n      Unknown/binary MIME type detection latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance analysis for fallback detection logic.\n\n  - name: error_handling_wraps_total\n    unit: count\n    description: >\n      Total error wrap operations performed by the Error Handling module. Tracks error handling patterns and frequency across the application.\n\n  - name: error_handling_wrap_ms\n    unit: ms\n    description: >\n      Error wrap operation latency in milliseconds. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables detection of error handling performance regressions.\n\n  - name: fulhash_operations_total_xxh3_128\n    unit: count\n    description: >\n      Total XXH3-128 hash operations performed by the FulHash module. Tracks usage of the fast, non-cryptographic hash algorithm for performance-oriented scenarios.\n\n  - name: fulhash_operations_total_sha256\n    unit: count\n    description: >\n      Total SHA256 hash operations performed by the FulHash module. Tracks usage of the cryptographic hash algorithm for security-oriented scenarios.\n\n  - name: fulhash_hash_string_total\n    unit: count\n    description: >\n      Total string hash operations performed by the FulHash module (any algorithm). Tracks the common use case of hashing string data.\n\n  - name: fulhash_bytes_hashed_total\n    unit: bytes\n    description: >\n      Total bytes processed across all hash operations by the FulHash module. Counter value represents cumulative byte count. Enables capacity planning and throughput analysis.\n\n  - name: fulhash_operation_ms\n    unit: ms\n    description: >\n      Hash operation latency in milliseconds for all algorithms. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000]. Enables performance benchmarking across XXH3-128 and SHA256.\n\n  - name: fulencode_operation_total\n    unit: count\n    description: >\n      Total Fulencode operations executed. Required tags: operation (encode|decode|detect|normalize|bom), result (success|error). Optional tags: format (bounded set from EncodingFormat).\n\n  - name: fulencode_operation_duration_seconds\n    unit: s\n    description: >\n      Fulencode operation duration in seconds. Histogram metric. Required tags: operation (encode|decode|detect|normalize|bom), result (success|error). Optional tags: format. Uses default seconds buckets.\n\n  - name: fulencode_bytes_processed_total\n    unit: bytes\n    description: >\n      Total bytes processed by Fulencode. Counter or histogram payloads are permitted depending on implementation. Required tags: operation (encode|decode), direction (in|out), result (success|error). Optional tags: format.\n\n  - name: fulencode_expansion_ratio_percent\n    unit: percent\n    description: >\n      Expansion ratio (output/input) expressed as a percentage for encode/decode operations. Histogram metric. Required tags: operation (encode|decode), result (success|error). Optional tags: format. Implementations MUST emit value as ratio*100 (e.g., 250 = 2.5x expansion).\n\n  - name: fulencode_detect_result_total\n    unit: count\n    description: >\n      Total encoding detection outcomes. Required tags: encoding (detected encoding or unknown), confidence (high|medium|low), result (success|error). Optional tags: source (bom|validation|heuristic|multibase).\n\n  - name: fulencode_detect_duration_seconds\n    unit: s\n    description: >\n      Encoding detection duration in seconds. Histogram metric. Required tags: result (success|error). Optional tags: sample_size_bucket (<1kb|1-10kb|10-100kb|>100kb). Uses default seconds buckets.\n\n  - name: fulencode_normalize_total\n    unit: count\n    description: >\n      Total normalization operations executed. Required tags: profile (nfc|nfd|nfkc|nfkd|custom profile name), result (success|error).\n\n  - name: fulencode_normalize_semantic_changes_total\n    unit: count\n    description: >\n      Total semantic changes detected during normalization (typically NFKC/NFKD). Required tags: profile (nfkc|nfkd), change_type (ligatures|superscripts_subscripts|roman_numerals|circled_numbers|enclosed_alphanumerics|fractions|other).\n\n  - name: fulencode_security_violations_total\n    unit: count\n    description: >\n      Total security violations detected by Fulencode. Required tags: type (invalid_utf8|invalid_utf16|encoding_bomb|excessive_combining|zero_width|bidi_controls|bom_mismatch|other), operation (encode|decode|detect|normalize|bom).\n\n  - name: fulencode_corrections_total\n    unit: count\n    description: >\n      Total corrections applied in non-strict modes (replace/fallback). Required tags: error_mode (replace|fallback|ignore), error_type (invalid_utf8|invalid_utf16|invalid_encoding|bom_mismatch|other).\n\n  - name: fulencode_bom_operations_total\n    unit: count\n    description: >\n      Total BOM operations executed. Required tags: operation (detect|remove|add|validate|correct), bom_type (utf-8|utf-16le|utf-16be|utf-32le|utf-32be|none), result (success|error).\n\n  - name: fulencode_bom_mismatches_total\n    unit: count\n    description: >\n      Total BOM mismatch events detected. Required tags: detected_bom, expected_encoding, action (error|fix|ignore).\n\n  - name: fulencode_errors_total\n    unit: count\n    description: >\n      Total Fulencode errors by canonical error code. Required tags: operation (encode|decode|detect|normalize|bom), code (canonical FulencodeError code).\n\n  - name: http_requests_total\n    unit: count\n    description: >\n      Total HTTP server requests received. Counter metric tracking all HTTP requests by method, route, status, and service. Required labels: method (GET/POST/etc), route (templated path like /users/:id to avoid cardinality), status (HTTP status code), service (service identifier). Optional labels: outcome (2xx/4xx/5xx grouping derived from status). IMPORTANT: Use normalized/templated routes (e.g., /users/:id, not /users/123) to prevent cardinality explosion. Helpers SHOULD provide route normalization utilities.\n\n  - name: http_request_duration_seconds\n    unit: s\n    description: >\n      HTTP server request duration in seconds. Histogram metric measuring request latency from receipt to response. Uses default seconds buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]. Required labels: method, route (templated), status, service. Optional labels: outcome. Helpers exposing millisecond APIs MUST document unit conversion (1 second = 1000 ms). Use templated routes to control cardinality.\n\n  - name: http_request_size_bytes\n    unit: bytes\n    description: >\n      HTTP server request body size in bytes. Histogram metric measuring incoming request payload sizes. Uses default bytes buckets: [1024, 10240, 102400, 1048576, 10485760, 104857600] (1KB to 100MB). Required labels: method, route (templated), service. Enables monitoring payload patterns and capacity planning. Use templated routes to avoid cardinality issues.\n\n  - name: http_response_size_bytes\n    unit: bytes\n    description: >\n      HTTP server response body size in bytes. Histogram metric measuring outgoing response payload sizes. Uses default bytes buckets: [1024, 10240, 102400, 1048576, 10485760, 104857600] (1KB to 100MB). Required labels: method, route (templated), status, service. Optional labels: outcome. Tracks bandwidth usage and response patterns. Use templated routes to prevent cardinality explosion.\n\n  - name: http_active_requests\n    unit: count\n    description: >\n      Number of HTTP requests currently being processed. Gauge metric tracking concurrent request load. Required labels: service. Intentionally minimal labels to avoid cardinality. Helps monitor server capacity and saturation. Increment on request start, decrement on completion.\n",
+    "config/tsfulmen/taxonomy/metrics.yaml": "# tsfulmen Metrics Taxonomy Extensions\n# Metrics emitted by tsfulmen modules that are not part of the Crucible\n# metrics taxonomy (config/crucible-ts/taxonomy/metrics.yaml). The telemetry\n# taxonomy loader merges these definitions into the Crucible ones.\nversion: \"1.0.0\"\nmetrics:\n  - name: fulpack_operations_total\n    unit: count\n    description: >\n      Total Fulpack archive operations. Required tags: operation (from the fulpack operations taxonomy), result (success|error|aborted).\n\n  - name: fulpack_operation_ms\n    unit: ms\n    description: >\n      Fulpack archive operation latency in milliseconds, including failed and aborted operations. Required tags: operation. Uses ADR-0007 buckets: [1, 5, 10, 50, 100, 500, 1000, 5000, 10000].\n\n  - name: fulpack_entries_processed_total\n    unit: count\n    description: >\n      Total archive entries written, extracted, scanned or verified by Fulpack. Required tags: operation.\n\n  - name: fulpack_bytes_processed_total\n    unit: bytes\n    description: >\n      Total uncompressed entry bytes processed by Fulpack. Required tags: operation.\n\n  - name: fulpack_security_rejections_total\n    unit: count\n    description: >\n      Total entries rejected by Fulpack security checks (path traversal, absolute paths, symlink escapes, decompression bombs, checksum mismatches). Required tags: operation, code (fulpack error code).\n",
   },
 };
 
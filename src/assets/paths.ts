@@ -12,6 +12,9 @@ import { AssetResolutionError } from "./errors.js";
 /** Top-level directories that make up the SSOT asset namespace. */
 export const ASSET_NAMESPACES = ["schemas", "config", "docs"] as const;
 
+/** Shipped subtrees of each namespace: the Crucible sync and tsfulmen's own assets. */
+export const ASSET_SUBTREES = ["crucible-ts", "tsfulmen"] as const;
+
 function rejectCommon(value: string, kind: "path" | "pattern"): string[] {
   if (!value || value.trim() === "") {
     throw new AssetResolutionError(`Asset ${kind} must be a non-empty string`);
@@ -42,12 +45,13 @@ function assertNamespace(value: string, segments: string[], kind: "path" | "patt
       value,
     );
   }
-  // Tighten to the actually-shipped subtree (secrev): the package only ships the
+  // Tighten to the actually-shipped subtrees (secrev): the package only ships the
   // `crucible-ts` subtree of each namespace (config/crucible-ts, schemas/crucible-ts,
-  // docs/crucible-ts), so a path/pattern resolving elsewhere can never be a real asset.
-  if (segments[1] !== "crucible-ts") {
+  // docs/crucible-ts) plus its own config/tsfulmen and schemas/tsfulmen, so a
+  // path/pattern resolving elsewhere can never be a real asset.
+  if (!ASSET_SUBTREES.includes(segments[1] as (typeof ASSET_SUBTREES)[number])) {
     throw new AssetResolutionError(
-      `Asset ${kind} must be under <namespace>/crucible-ts/ : ${value}`,
+      `Asset ${kind} must be under <namespace>/{${ASSET_SUBTREES.join(",")}}/ : ${value}`,
       value,
     );
   }
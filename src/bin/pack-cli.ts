@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the `tsfulmen-pack` CLI.
+ *
+ * Dedicated bin entry (never imported by the library graph); see
+ * src/bin/schema-cli.ts for the compile-safety rationale.
+ */
+import { main } from "../fulpack/cli.js";
+
+void main();
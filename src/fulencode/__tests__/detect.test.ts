@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { decode, detectEncoding } from "../index.js";
+
+const utf8 = (s: string) => new TextEncoder().encode(s);
+const utf16le = (s: string) => Uint8Array.from(Buffer.from(s, "utf16le"));
+const utf16be = (s: string) => Uint8Array.from(Buffer.from(s, "utf16le").swap16());
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+// “café” in cp1252: curly quotes live in 0x80-0x9F
+const CP1252_QUOTED = Uint8Array.of(0x93, 0x63, 0x61, 0x66, 0xe9, 0x94);
+
+describe("detectEncoding", () => {
+  it.each([
+    ["utf-8", Uint8Array.of(0xef, 0xbb, 0xbf, 0x68, 0x69), 3],
+    ["utf-16le", Uint8Array.of(0xff, 0xfe, 0x68, 0x00), 2],
+    ["utf-16be", Uint8Array.of(0xfe, 0xff, 0x00, 0x68), 2],
+  ] as const)("should trust a %s byte order mark", (format, bytes, bomLength) => {
+    expect(detectEncoding(bytes)).toEqual([{ format, confidence: 1, bomLength }]);
+  });
+
+  it("should rank valid multi-byte UTF-8 first", () => {
+    const candidates = detectEncoding(utf8("Grüße aus Köln, 世界"));
+
+    expect(candidates[0]).toMatchObject({ format: "utf-8", bomLength: 0 });
+    expect(candidates[0].confidence).toBeGreaterThan(0.9);
+    expect(candidates.map((c) => c.format)).toContain("iso-8859-1");
+  });
+
+  it.each([
+    ["utf-16le", utf16le("Plain old text, no BOM")],
+    ["utf-16be", utf16be("Plain old text, no BOM")],
+  ] as const)("should recognize %s from NUL byte patterns", (format, bytes) => {
+    const [best] = detectEncoding(bytes);
+
+    expect(best.format).toBe(format);
+    expect(best.confidence).toBeGreaterThan(0.9);
+  });
+
+  it("should prefer cp1252 when 0x80-0x9F bytes are present", () => {
+    const candidates = detectEncoding(CP1252_QUOTED);
+
+    expect(candidates.map((c) => c.format)).toEqual(["cp1252", "iso-8859-1"]);
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+  });
+
+  it("should rule out cp1252 for bytes it leaves undefined", () => {
+    const candidates = detectEncoding(Uint8Array.of(0x61, 0x81, 0xe9));
+
+    expect(candidates.map((c) => c.format)).toEqual(["iso-8859-1"]);
+  });
+
+  it("should list every single-byte candidate for pure ASCII", () => {
+    const candidates = detectEncoding(utf8("hello, world\n"));
+
+    expect(candidates.map((c) => c.format)).toEqual(["utf-8", "ascii", "cp1252", "iso-8859-1"]);
+    expect(candidates.every((c) => c.confidence === 1)).toBe(true);
+  });
+
+  it("should give binary data low confidence", () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+    for (const candidate of detectEncoding(bytes)) {
+      expect(candidate.confidence).toBeLessThan(0.5);
+    }
+  });
+});
+
+describe("decode with format auto", () => {
+  it("should transcode detected text to UTF-8", async () => {
+    const result = await decode(CP1252_QUOTED, "auto");
+
+    expect(text(result.data)).toBe("“café”");
+    expect(result.format).toBe("cp1252");
+    expect(result.inputSize).toBe(CP1252_QUOTED.length);
+    expect(result.detection?.[0].format).toBe("cp1252");
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should strip the byte order mark", async () => {
+    const bytes = Uint8Array.of(0xfe, 0xff, ...utf16be("Grüße"));
+
+    const result = await decode(bytes, "auto");
+
+    expect(result.format).toBe("utf-16be");
+    expect(text(result.data)).toBe("Grüße");
+  });
+
+  it("should only choose among fallbackFormats when given", async () => {
+    const result = await decode(utf8("café"), "auto", { fallbackFormats: ["iso-8859-1"] });
+
+    expect(result.format).toBe("iso-8859-1");
+    expect(text(result.data)).toBe("cafÃ©");
+
+    await expect(
+      decode(utf8("café"), "auto", { fallbackFormats: ["utf-16le"] }),
+    ).rejects.toMatchObject({ code: "DETECTION_FAILED", operation: "detect" });
+  });
+
+  it("should warn when the best candidate is a guess", async () => {
+    const result = await decode(Uint8Array.of(0x01, 0x02, 0x81, 0x03), "auto");
+
+    expect(result.format).toBe("iso-8859-1");
+    expect(result.warnings).toContain("low_confidence_detection");
+  });
+});
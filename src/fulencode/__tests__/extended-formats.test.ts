@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { FulencodeError } from "../errors.js";
+import { EncodingFormat, fulencode } from "../index.js";
+
+const bytes = (hex: string) => Uint8Array.from(Buffer.from(hex, "hex"));
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe("fulencode extended formats", () => {
+  describe.each([
+    // Bitcoin / IETF draft vectors
+    [EncodingFormat.BASE58, text("Hello World!"), "2NEpo7TZRRrLZSi2U"],
+    [EncodingFormat.BASE58, bytes("0000287fb4cd"), "11233QC4"],
+    [
+      EncodingFormat.BASE58,
+      bytes("00eb15231dfceb60925886b67d065299925915aeb172c06647"),
+      "1NS17iag9jJgTHD1VXjvLCEnZuQ3rJDE9L",
+    ],
+    // Adobe Ascii85 (matches Python base64.a85encode)
+    [EncodingFormat.BASE85, text("Man is distinguished"), "9jqo^BlbD-BleB1DJ+*+F(f,q"],
+    [EncodingFormat.BASE85, bytes("00000000616263"), "z@:E^"],
+    // ZeroMQ RFC 32
+    [EncodingFormat.Z85, bytes("864fd26fb559f75b"), "HelloWorld"],
+    // RFC 2045 (matches Python quopri for "\n" line breaks)
+    [
+      EncodingFormat.QUOTED_PRINTABLE,
+      text("café = ok \nline two\t\r\nend"),
+      "caf=C3=A9 =3D ok=20\nline two=09\r\nend",
+    ],
+  ] as const)("%s", (format, data, encoded) => {
+    it(`should encode to ${JSON.stringify(encoded)} and back`, async () => {
+      const result = await fulencode.encode(data, format);
+      expect(result.data).toBe(encoded);
+
+      const decoded = await fulencode.decode(encoded, format);
+      expect(decoded.data).toEqual(data);
+      expect(decoded.warnings).toEqual([]);
+    });
+
+    it("should round-trip empty input", async () => {
+      const result = await fulencode.encode(new Uint8Array(0), format);
+
+      expect(result.data).toBe("");
+      expect((await fulencode.decode("", format)).data).toHaveLength(0);
+    });
+  });
+
+  describe("base58", () => {
+    it("should reject characters outside the alphabet unless lenient", async () => {
+      await expect(
+        fulencode.decode("2NEpo7TZ0RRrLZSi2U", EncodingFormat.BASE58),
+      ).rejects.toMatchObject({
+        code: "DECODE_FAILED",
+      });
+
+      const lenient = await fulencode.decode("2NEpo7TZ0RRrLZSi2U", EncodingFormat.BASE58, {
+        onError: "ignore",
+      });
+      expect(new TextDecoder().decode(lenient.data)).toBe("Hello World!");
+      expect(lenient.warnings).toContain("invalid_characters_skipped");
+    });
+
+    it("should require binary input", async () => {
+      await expect(fulencode.encode("text", EncodingFormat.BASE58)).rejects.toMatchObject({
+        code: "INVALID_INPUT_TYPE",
+      });
+    });
+  });
+
+  describe("base85", () => {
+    it("should accept delimiters and whitespace", async () => {
+      const decoded = await fulencode.decode(
+        "<~9jqo^BlbD-\n BleB1DJ+*+F(f,q~>",
+        EncodingFormat.BASE85,
+      );
+
+      expect(new TextDecoder().decode(decoded.data)).toBe("Man is distinguished");
+    });
+
+    it("should reject a dangling final character and out-of-range groups", async () => {
+      await expect(fulencode.decode("9jqo^B", EncodingFormat.BASE85)).rejects.toThrow(/dangling/);
+      await expect(fulencode.decode("uuuuu", EncodingFormat.BASE85)).rejects.toThrow(
+        /out of range/,
+      );
+    });
+
+    it("should wrap lines with lineLength", async () => {
+      const result = await fulencode.encode(text("Man is distinguished"), EncodingFormat.BASE85, {
+        lineLength: 10,
+      });
+
+      expect(result.data).toBe("9jqo^BlbD-\nBleB1DJ+*+\nF(f,q");
+      expect(
+        new TextDecoder().decode((await fulencode.decode(result.data, EncodingFormat.BASE85)).data),
+      ).toBe("Man is distinguished");
+    });
+  });
+
+  describe("z85", () => {
+    it("should require whole 4-byte groups when encoding", async () => {
+      await expect(fulencode.encode(bytes("864fd2"), EncodingFormat.Z85)).rejects.toMatchObject({
+        code: "ENCODE_FAILED",
+      });
+    });
+
+    it("should drop a partial group only when lenient", async () => {
+      await expect(fulencode.decode("HelloWorl", EncodingFormat.Z85)).rejects.toThrow(
+        /multiple of 5/,
+      );
+
+      const lenient = await fulencode.decode("HelloWorl", EncodingFormat.Z85, {
+        onError: "replace",
+      });
+      expect(lenient.data).toEqual(bytes("864fd26f"));
+      expect(lenient.warnings).toContain("invalid_characters_skipped");
+    });
+  });
+
+  describe("quoted-printable", () => {
+    it("should insert soft line breaks at lineLength", async () => {
+      const data = text("x".repeat(80));
+
+      const result = await fulencode.encode(data, EncodingFormat.QUOTED_PRINTABLE);
+      const narrow = await fulencode.encode(data, EncodingFormat.QUOTED_PRINTABLE, {
+        lineLength: 20,
+        lineEnding: "\r\n",
+      });
+
+      expect(result.data).toBe(`${"x".repeat(75)}=\n${"x".repeat(5)}`);
+      expect(narrow.data.split("\r\n").every((line) => line.length <= 20)).toBe(true);
+      expect((await fulencode.decode(narrow.data, EncodingFormat.QUOTED_PRINTABLE)).data).toEqual(
+        data,
+      );
+    });
+
+    it("should not split escape sequences across soft breaks", async () => {
+      const data = new Uint8Array(40).fill(0xff);
+
+      const result = await fulencode.encode(data, EncodingFormat.QUOTED_PRINTABLE, {
+        lineLength: 10,
+      });
+
+      for (const line of result.data.split("\n")) {
+        expect(line).toMatch(/^(=FF)*=?$/);
+      }
+      expect((await fulencode.decode(result.data, EncodingFormat.QUOTED_PRINTABLE)).data).toEqual(
+        data,
+      );
+    });
+
+    it("should drop transport whitespace and honor soft breaks when decoding", async () => {
+      const decoded = await fulencode.decode("a=\r\nb  \r\nc=3d", EncodingFormat.QUOTED_PRINTABLE);
+
+      expect(new TextDecoder().decode(decoded.data)).toBe("ab\r\nc=");
+    });
+
+    it("should keep malformed escapes only when lenient", async () => {
+      await expect(
+        fulencode.decode("a=ZZb", EncodingFormat.QUOTED_PRINTABLE),
+      ).rejects.toBeInstanceOf(FulencodeError);
+
+      const lenient = await fulencode.decode("a=ZZb é", EncodingFormat.QUOTED_PRINTABLE, {
+        onError: "ignore",
+      });
+      expect(new TextDecoder().decode(lenient.data)).toBe("a=ZZb é");
+      expect(lenient.warnings).toContain("invalid_characters_kept");
+    });
+  });
+
+  it("should handle checksum options like the other formats", async () => {
+    const result = await fulencode.encode(text("Hello World!"), EncodingFormat.BASE58, {
+      computeChecksum: "sha256",
+    });
+
+    expect(result.checksum).toBe(
+      "sha256:7f83b1657ff1fc53b92dc18148a1d65dfc2d4b1fa3d677284addd200126d9069",
+    );
+    await expect(
+      fulencode.encode(text("Hello World!"), EncodingFormat.Z85, { embedChecksum: true }),
+    ).rejects.toMatchObject({ code: "UNSUPPORTED_FEATURE" });
+  });
+});
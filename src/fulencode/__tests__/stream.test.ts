@@ -0,0 +1,238 @@
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { describe, expect, it } from "vitest";
+import { FulencodeError } from "../errors.js";
+import { decode, encode } from "../fulencode.js";
+import { createDecodeStream, createEncodeStream, type EncodeStream } from "../stream.js";
+import type { EncodingFormat } from "../types.js";
+
+const BYTES = Uint8Array.from({ length: 1000 }, (_, i) => (i * 37 + 11) & 0xff);
+const TEXT = "Grüße, 世界! 🎉 ".repeat(20);
+
+/**
+ * Feed `input` through `stream` in chunks of `size` bytes and collect the output
+ */
+async function run(
+  stream: NodeJS.ReadWriteStream,
+  input: Uint8Array,
+  size: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const source = Readable.from(
+    (function* () {
+      for (let i = 0; i < input.length; i += size) {
+        yield Buffer.from(input.subarray(i, i + size));
+      }
+    })(),
+  );
+  await pipeline(source, stream, async (output: AsyncIterable<Buffer>) => {
+    for await (const chunk of output) chunks.push(chunk);
+  });
+  return Buffer.concat(chunks);
+}
+
+describe("fulencode streams", () => {
+  describe("createEncodeStream", () => {
+    const formats: EncodingFormat[] = [
+      "base64",
+      "base64url",
+      "base64_raw",
+      "base32",
+      "base32hex",
+      "hex",
+    ];
+
+    describe.each(formats)("%s", (format) => {
+      it.each([
+        1, 2, 3, 4, 5, 7, 64, 1000,
+      ])("should match encode() with %i-byte chunks", async (size) => {
+        const expected = await encode(BYTES, format);
+
+        const output = await run(createEncodeStream(format), BYTES, size);
+
+        expect(output.toString()).toBe(expected.data);
+      });
+    });
+
+    it("should honor padding and hexCase", async () => {
+      const bytes = new TextEncoder().encode("foobar");
+
+      expect(
+        (await run(createEncodeStream("base32", { padding: true }), bytes, 4)).toString(),
+      ).toBe("MZXW6YTBOI======");
+      expect(
+        (
+          await run(createEncodeStream("base64url", { padding: false }), bytes.subarray(0, 4), 1)
+        ).toString(),
+      ).toBe("Zm9vYg");
+      expect(
+        (await run(createEncodeStream("hex", { hexCase: "upper" }), bytes, 5)).toString(),
+      ).toBe("666F6F626172");
+    });
+
+    it("should wrap lines across chunk boundaries", async () => {
+      const options = { lineLength: 76, lineEnding: "\r\n" as const };
+      const expected = await encode(BYTES, "base64", options);
+
+      const output = await run(createEncodeStream("base64", options), BYTES, 10);
+
+      expect(output.toString()).toBe(expected.data);
+      expect(output.toString().endsWith("\r\n")).toBe(false);
+    });
+
+    it.each([
+      "utf-8",
+      "utf-16le",
+      "utf-16be",
+    ] as const)("should decode %s text split inside characters", async (format) => {
+      const bytes =
+        format === "utf-8"
+          ? Buffer.from(TEXT, "utf8")
+          : format === "utf-16le"
+            ? Buffer.from(TEXT, "utf16le")
+            : Buffer.from(TEXT, "utf16le").swap16();
+
+      const output = await run(createEncodeStream(format), bytes, 3);
+
+      expect(output.toString("utf8")).toBe(TEXT);
+    });
+
+    it("should reject invalid UTF-8 in strict mode only", async () => {
+      const invalid = Uint8Array.of(0x61, 0xff, 0x62);
+
+      await expect(run(createEncodeStream("utf-8"), invalid, 1)).rejects.toMatchObject({
+        code: "ENCODE_FAILED",
+      });
+      const lenient = await run(createEncodeStream("utf-8", { onError: "replace" }), invalid, 1);
+      expect(lenient.toString()).toBe("a�b");
+    });
+
+    it("should compute the input checksum incrementally", async () => {
+      const expected = await encode(BYTES, "base64", { computeChecksum: "sha256" });
+      const stream = createEncodeStream("base64", { computeChecksum: "sha256" });
+
+      await run(stream, BYTES, 33);
+
+      expect(stream.result).toEqual({
+        format: "base64",
+        inputSize: BYTES.length,
+        outputSize: expected.outputSize,
+        checksum: expected.checksum,
+        checksumAlgorithm: "sha256",
+        warnings: [],
+      });
+    });
+
+    it("should fail as soon as maxEncodedSize is exceeded", async () => {
+      const stream: EncodeStream = createEncodeStream("hex", { maxEncodedSize: 100 });
+      let received = 0;
+      stream.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+      });
+
+      const error = await run(stream, BYTES, 10).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(FulencodeError);
+      expect(error).toMatchObject({ code: "OUTPUT_TOO_LARGE", operation: "encode" });
+      expect(received).toBeLessThanOrEqual(100);
+    });
+
+    it("should reject unsupported formats and checksums up front", () => {
+      expect(() => createEncodeStream("cp1252")).toThrow(FulencodeError);
+      expect(() => createEncodeStream("base64", { computeChecksum: "md5" })).toThrow(
+        expect.objectContaining({ code: "UNSUPPORTED_CHECKSUM" }),
+      );
+      expect(() => createEncodeStream("base64", { embedChecksum: true })).toThrow(
+        expect.objectContaining({ code: "UNSUPPORTED_FEATURE" }),
+      );
+    });
+  });
+
+  describe("createDecodeStream", () => {
+    const formats: EncodingFormat[] = [
+      "base64",
+      "base64url",
+      "base64_raw",
+      "base32",
+      "base32hex",
+      "hex",
+    ];
+
+    describe.each(formats)("%s", (format) => {
+      it.each([1, 3, 5, 8, 77])("should match decode() with %i-byte chunks", async (size) => {
+        const encoded = (await encode(BYTES, format, { lineLength: 60 })).data;
+
+        const output = await run(createDecodeStream(format), Buffer.from(encoded), size);
+
+        expect(Uint8Array.from(output)).toEqual(BYTES);
+      });
+    });
+
+    it("should accept unpadded input", async () => {
+      const output = await run(createDecodeStream("base64"), Buffer.from("Zm9vYg"), 4);
+
+      expect(output.toString()).toBe("foob");
+    });
+
+    it.each([
+      ["base64", "Zm9v!mFy"],
+      ["base64", "Zg==Zm9v"],
+      ["hex", "abc"],
+      ["hex", "zz"],
+      ["base32", "MZXW6===MZXW6==="],
+    ] as const)("should reject invalid %s input %s", async (format, input) => {
+      await expect(run(createDecodeStream(format), Buffer.from(input), 2)).rejects.toMatchObject({
+        code: "DECODE_FAILED",
+        inputFormat: format,
+      });
+    });
+
+    it("should skip invalid characters when not strict", async () => {
+      const output = await run(
+        createDecodeStream("base64", { onError: "ignore" }),
+        Buffer.from("Zm9v!YmFy"),
+        3,
+      );
+
+      expect(output.toString()).toBe("foobar");
+    });
+
+    it("should reject whitespace when it is not ignored", async () => {
+      await expect(
+        run(createDecodeStream("hex", { ignoreWhitespace: false }), Buffer.from("ab\ncd"), 2),
+      ).rejects.toThrow(FulencodeError);
+    });
+
+    it.each([
+      "utf-8",
+      "utf-16le",
+      "utf-16be",
+      "iso-8859-1",
+    ] as const)("should encode text to %s like decode()", async (format) => {
+      const text = format === "iso-8859-1" ? "Grüße, café" : TEXT;
+      const expected = await decode(text, format);
+
+      const output = await run(createDecodeStream(format), Buffer.from(text, "utf8"), 1);
+
+      expect(Uint8Array.from(output)).toEqual(expected.data);
+    });
+
+    it("should compute the decoded checksum and enforce maxDecodedSize", async () => {
+      const encoded = Buffer.from((await encode(BYTES, "base64")).data);
+      const stream = createDecodeStream("base64", { computeChecksum: "xxh3-128" });
+
+      await run(stream, encoded, 50);
+
+      const expected = await decode(encoded.toString(), "base64", { computeChecksum: "xxh3-128" });
+      expect(stream.result).toMatchObject({
+        inputSize: encoded.length,
+        outputSize: BYTES.length,
+        checksum: expected.checksum,
+        checksumAlgorithm: "xxh3-128",
+      });
+      await expect(
+        run(createDecodeStream("base64", { maxDecodedSize: 500 }), encoded, 50),
+      ).rejects.toMatchObject({ code: "OUTPUT_TOO_LARGE", operation: "decode" });
+    });
+  });
+});
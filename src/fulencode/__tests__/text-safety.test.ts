@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { FulencodeError } from "../errors.js";
+import { inspectText, normalize } from "../index.js";
+
+describe("normalize", () => {
+  it.each([
+    ["nfc", "cafe\u0301", "café"],
+    ["nfd", "café", "cafe\u0301"],
+    ["nfkc", "ﬁle²", "file2"],
+    ["nfkd", "é①", "e\u03011"],
+  ] as const)("should apply %s", (profile, input, expected) => {
+    const result = normalize(input, profile);
+
+    expect(result.text).toBe(expected);
+    expect(result.profile).toBe(profile);
+    expect(result.transformationsApplied).toEqual([profile]);
+    expect(result.inputLength).toBe([...input].length);
+    expect(result.outputLength).toBe([...expected].length);
+  });
+
+  it("should report compatibility mappings as semantic changes", () => {
+    const result = normalize("ﬁnal Ⅷ x² Ａ", "nfkc");
+
+    expect(result.semanticChanges).toEqual([
+      { position: 0, original: "ﬁ", normalized: "fi", reason: "ligatures" },
+      { position: 5, original: "Ⅷ", normalized: "VIII", reason: "roman_numerals" },
+      { position: 8, original: "²", normalized: "2", reason: "superscripts_subscripts" },
+      { position: 10, original: "Ａ", normalized: "A", reason: "fullwidth_forms" },
+    ]);
+    expect(result.warnings).toEqual(["semantic_change"]);
+    expect(normalize("ﬁ", "nfkc", { warnSemanticChange: false }).semanticChanges).toEqual([]);
+    expect(normalize("cafe\u0301", "nfc").semanticChanges).toEqual([]);
+  });
+
+  it("should apply folding options in order", () => {
+    const result = normalize("  Café,   naïve  RÉSUMÉ! ", "nfkd", {
+      stripAccents: true,
+      caseFold: true,
+      removePunctuation: true,
+      compressWhitespace: true,
+    });
+
+    expect(result.text).toBe("cafe naive resume");
+    expect(result.transformationsApplied).toEqual([
+      "nfkd",
+      "strip_accents",
+      "case_fold",
+      "remove_punctuation",
+      "compress_whitespace",
+    ]);
+  });
+
+  it("should reject combining mark floods", () => {
+    const flood = `e${"\u0301".repeat(11)}`;
+
+    expect(() => normalize(flood, "nfc")).toThrow(
+      expect.objectContaining({
+        code: "EXCESSIVE_COMBINING_MARKS",
+        operation: "normalize",
+        details: expect.objectContaining({ codepointOffset: 1 }),
+      }),
+    );
+    expect(normalize(flood, "nfc", { maxCombiningMarks: 20 }).text).toBe(flood.normalize("NFC"));
+  });
+
+  it("should reject zero-width and bidi characters only when asked", () => {
+    expect(normalize("pay\u200Bpal", "nfc").text).toBe("pay\u200Bpal");
+    expect(() => normalize("pay\u200Dpal", "nfc", { rejectZeroWidth: true })).toThrow(
+      expect.objectContaining({ code: "ZERO_WIDTH_CHARACTER" }),
+    );
+    expect(() => normalize("abc\u202Edef", "nfc", { rejectBidiControls: true })).toThrow(
+      expect.objectContaining({ code: "BIDI_CONTROL_CHARACTER" }),
+    );
+  });
+
+  it("should reject unknown profiles", () => {
+    expect(() => normalize("x", "nfx" as never)).toThrow(
+      expect.objectContaining({ code: "INVALID_OPTIONS" }),
+    );
+  });
+});
+
+describe("inspectText", () => {
+  it("should pass ordinary text in any single script", () => {
+    for (const text of ["alice_smith", "Müller-Lüdenscheidt", "мама", "東京タワー", "\u{1F44B}"]) {
+      expect(inspectText(text)).toEqual({ safe: true, findings: [] });
+    }
+  });
+
+  it("should find bidi overrides and zero-width characters", () => {
+    const { safe, findings } = inspectText("invoice\u202Efdp.exe\u200B");
+
+    expect(safe).toBe(false);
+    expect(findings).toEqual([
+      { type: "bidi_control", position: 7, character: "\u202E", codepoint: "U+202E" },
+      { type: "zero_width", position: 15, character: "\u200B", codepoint: "U+200B" },
+    ]);
+  });
+
+  it("should allow joiners and newlines only when asked", () => {
+    const family = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}";
+
+    expect(inspectText(family).findings.map((f) => f.type)).toEqual(["zero_width", "zero_width"]);
+    expect(inspectText(family, { allowJoiners: true }).safe).toBe(true);
+    expect(inspectText("a\tb\nc").findings).toHaveLength(2);
+    expect(inspectText("a\tb\nc", { allowNewlines: true }).safe).toBe(true);
+    expect(inspectText("a\u0007b", { allowNewlines: true }).findings[0]).toMatchObject({
+      type: "control_character",
+      codepoint: "U+0007",
+    });
+  });
+
+  it("should flag Cyrillic lookalikes in a Latin word", () => {
+    const { findings } = inspectText("pаypаl.com");
+
+    expect(findings).toEqual([
+      {
+        type: "mixed_script",
+        position: 1,
+        character: "а",
+        codepoint: "U+0430",
+        scripts: ["Latin", "Cyrillic"],
+      },
+      { type: "confusable", position: 1, character: "а", codepoint: "U+0430", lookalike: "a" },
+      { type: "confusable", position: 4, character: "а", codepoint: "U+0430", lookalike: "a" },
+    ]);
+  });
+
+  it("should flag whole-script confusables and compatibility lookalikes", () => {
+    // Cyrillic "рау" reads as "pay"
+    expect(inspectText("рау").findings.map((f) => f.lookalike)).toEqual(["p", "a", "y"]);
+    expect(inspectText("ｐａｙ").findings.map((f) => f.lookalike)).toEqual(["p", "a", "y"]);
+  });
+
+  it("should allow Japanese script mixes but not others", () => {
+    expect(inspectText("東京とTokyoタワー").safe).toBe(true);
+    expect(inspectText("abcא").findings[0]).toMatchObject({
+      type: "mixed_script",
+      scripts: ["Latin", "Hebrew"],
+    });
+  });
+
+  it("should report combining mark floods once per run", () => {
+    const { findings } = inspectText(`ok Z${"\u0336".repeat(12)}`, { maxCombiningMarks: 4 });
+
+    expect(findings).toEqual([
+      {
+        type: "excessive_combining_marks",
+        position: 4,
+        character: "\u0336",
+        codepoint: "U+0336",
+        count: 12,
+      },
+    ]);
+  });
+
+  it("should throw the first finding as a FulencodeError in strict mode", () => {
+    let error: unknown;
+    try {
+      inspectText("admin\u200B\u202E", { strict: true });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(FulencodeError);
+    expect(error).toMatchObject({
+      code: "ZERO_WIDTH_CHARACTER",
+      operation: "normalize",
+      details: { codepointOffset: 5, codepoint: "U+200B" },
+    });
+    expect((error as FulencodeError).details?.findings).toHaveLength(2);
+    expect(inspectText("admin", { strict: true }).safe).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+// Bitcoin alphabet: no 0, O, I or l
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function buildDecodeMap(): Map<string, number> {
+  const map = new Map<string, number>();
+  for (let i = 0; i < BASE58_ALPHABET.length; i++) {
+    map.set(BASE58_ALPHABET[i], i);
+  }
+  return map;
+}
+
+/**
+ * Encode bytes as base58 (Bitcoin alphabet); each leading zero byte becomes "1".
+ * Quadratic in the input length - meant for identifiers and keys, not bulk data.
+ */
+export function encodeBase58(data: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < data.length && data[zeros] === 0) zeros++;
+
+  // Little-endian base58 digits of the big-endian input number
+  const digits: number[] = [];
+  for (let i = zeros; i < data.length; i++) {
+    let carry = data[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let out = "1".repeat(zeros);
+  for (let i = digits.length - 1; i >= 0; i--) {
+    out += BASE58_ALPHABET[digits[i]];
+  }
+  return out;
+}
+
+export function decodeBase58(
+  input: string,
+  options: { strict: boolean; warnings: string[] },
+): Uint8Array {
+  const decodeMap = buildDecodeMap();
+
+  let s = input;
+  if (!options.strict) {
+    const filtered = [...s].filter((ch) => decodeMap.has(ch)).join("");
+    if (filtered.length !== s.length) options.warnings.push("invalid_characters_skipped");
+    s = filtered;
+  }
+
+  let zeros = 0;
+  while (zeros < s.length && s[zeros] === "1") zeros++;
+
+  // Little-endian bytes of the base58 number
+  const bytes: number[] = [];
+  for (let i = zeros; i < s.length; i++) {
+    const v = decodeMap.get(s[i]);
+    if (v === undefined) {
+      throw new Error(`Invalid base58 character: ${s[i]}`);
+    }
+    let carry = v;
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const out = new Uint8Array(zeros + bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    out[zeros + i] = bytes[bytes.length - 1 - i];
+  }
+  return out;
+}
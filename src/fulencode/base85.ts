@@ -0,0 +1,165 @@
+// ZeroMQ RFC 32 alphabet; Ascii85 uses the contiguous range "!" (33) to "u" (117)
+const Z85_ALPHABET =
+  "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#";
+
+const MAX_GROUP = 0xffffffff;
+
+function groupValue(data: Uint8Array, offset: number): number {
+  // Big-endian, zero-padded past the end of the data
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    value = value * 256 + (data[offset + i] ?? 0);
+  }
+  return value;
+}
+
+function groupDigits(value: number): number[] {
+  const digits = [0, 0, 0, 0, 0];
+  let rest = value;
+  for (let i = 4; i >= 0; i--) {
+    digits[i] = rest % 85;
+    rest = Math.floor(rest / 85);
+  }
+  return digits;
+}
+
+function pushGroup(out: number[], value: number, count: number): void {
+  for (let i = 0; i < count; i++) {
+    out.push((value >>> (24 - 8 * i)) & 0xff);
+  }
+}
+
+/**
+ * Encode bytes as Adobe Ascii85 without the "<~ ~>" delimiters.
+ * All-zero groups become "z"; a final partial group of n bytes becomes n+1 characters.
+ */
+export function encodeAscii85(data: Uint8Array): string {
+  let out = "";
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const count = Math.min(4, data.length - offset);
+    const value = groupValue(data, offset);
+    if (count === 4 && value === 0) {
+      out += "z";
+      continue;
+    }
+    const digits = groupDigits(value);
+    for (let i = 0; i <= count; i++) {
+      out += String.fromCharCode(digits[i] + 33);
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode Adobe Ascii85. Whitespace and "<~ ~>" delimiters are accepted;
+ * lenient mode skips other invalid characters and a dangling final character.
+ */
+export function decodeAscii85(
+  input: string,
+  options: { strict: boolean; warnings: string[] },
+): Uint8Array {
+  let s = input.replace(/\s/g, "");
+  if (s.startsWith("<~")) s = s.slice(2);
+  if (s.endsWith("~>")) s = s.slice(0, -2);
+
+  const out: number[] = [];
+  let group: number[] = [];
+  let skipped = false;
+
+  const flush = (digits: number[], count: number) => {
+    let value = 0;
+    for (const digit of digits) value = value * 85 + digit;
+    if (value > MAX_GROUP) {
+      throw new Error("Invalid ascii85 group (value out of range)");
+    }
+    pushGroup(out, value, count);
+  };
+
+  for (const ch of s) {
+    if (ch === "z" && group.length === 0) {
+      pushGroup(out, 0, 4);
+      continue;
+    }
+    const code = ch.charCodeAt(0) - 33;
+    if (code < 0 || code > 84) {
+      if (options.strict) throw new Error(`Invalid ascii85 character: ${ch}`);
+      skipped = true;
+      continue;
+    }
+    group.push(code);
+    if (group.length === 5) {
+      flush(group, 4);
+      group = [];
+    }
+  }
+
+  if (group.length === 1) {
+    if (options.strict) throw new Error("Invalid ascii85 length (dangling final character)");
+    skipped = true;
+  } else if (group.length > 1) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    flush(group, count);
+  }
+
+  if (skipped) options.warnings.push("invalid_characters_skipped");
+  return Uint8Array.from(out);
+}
+
+/**
+ * Encode bytes as Z85 (ZeroMQ RFC 32); the input length must be a multiple of 4.
+ */
+export function encodeZ85(data: Uint8Array): string {
+  if (data.length % 4 !== 0) {
+    throw new Error(`Invalid z85 input length ${data.length} (must be a multiple of 4)`);
+  }
+  let out = "";
+  for (let offset = 0; offset < data.length; offset += 4) {
+    for (const digit of groupDigits(groupValue(data, offset))) {
+      out += Z85_ALPHABET[digit];
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode Z85; lenient mode skips invalid characters and drops a trailing partial group.
+ */
+export function decodeZ85(
+  input: string,
+  options: { strict: boolean; warnings: string[] },
+): Uint8Array {
+  const codes: number[] = [];
+  let skipped = false;
+  for (const ch of input) {
+    const code = Z85_ALPHABET.indexOf(ch);
+    if (code === -1) {
+      if (options.strict) throw new Error(`Invalid z85 character: ${ch}`);
+      skipped = true;
+      continue;
+    }
+    codes.push(code);
+  }
+
+  const extra = codes.length % 5;
+  if (extra !== 0) {
+    if (options.strict) {
+      throw new Error(`Invalid z85 length ${codes.length} (must be a multiple of 5)`);
+    }
+    codes.length -= extra;
+    skipped = true;
+  }
+
+  const out: number[] = [];
+  for (let i = 0; i < codes.length; i += 5) {
+    let value = 0;
+    for (let j = 0; j < 5; j++) value = value * 85 + codes[i + j];
+    if (value > MAX_GROUP) {
+      throw new Error("Invalid z85 group (value out of range)");
+    }
+    pushGroup(out, value, 4);
+  }
+
+  if (skipped) options.warnings.push("invalid_characters_skipped");
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,176 @@
+/**
+ * Fulencode charset detection - ranks likely text encodings for bytes of unknown origin.
+ */
+
+import { getBOMOffset } from "../foundry/magic-numbers.js";
+import type { EncodingCandidate, EncodingFormat } from "./types.js";
+
+// cp1252 maps 0x80-0x9F to printable characters, except these five
+const CP1252_UNDEFINED = new Set([0x81, 0x8d, 0x8f, 0x90, 0x9d]);
+
+// cp1252 characters for 0x80-0x9F; undefined bytes keep their C1 code point
+const CP1252_HIGH =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+// Share of NUL bytes in one lane of the byte pairs that marks UTF-16 text
+const UTF16_NUL_THRESHOLD = 0.3;
+
+interface ByteStats {
+  highBytes: number;
+  c1Bytes: number;
+  cp1252Undefined: number;
+  latinLetters: number;
+  controlBytes: number;
+  evenNuls: number;
+  oddNuls: number;
+}
+
+function collectStats(bytes: Uint8Array): ByteStats {
+  const stats: ByteStats = {
+    highBytes: 0,
+    c1Bytes: 0,
+    cp1252Undefined: 0,
+    latinLetters: 0,
+    controlBytes: 0,
+    evenNuls: 0,
+    oddNuls: 0,
+  };
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === 0) {
+      if (i % 2 === 0) stats.evenNuls++;
+      else stats.oddNuls++;
+    }
+    if (byte >= 0x80) {
+      stats.highBytes++;
+      if (byte <= 0x9f) stats.c1Bytes++;
+      if (CP1252_UNDEFINED.has(byte)) stats.cp1252Undefined++;
+      // À-ÿ except × and ÷
+      if (byte >= 0xc0 && byte !== 0xd7 && byte !== 0xf7) stats.latinLetters++;
+    } else if (
+      (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) ||
+      byte === 0x7f
+    ) {
+      stats.controlBytes++;
+    }
+  }
+
+  return stats;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function round(confidence: number): number {
+  return Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
+}
+
+/**
+ * Detect the likely text encoding of `bytes`.
+ *
+ * Returns candidates ranked by confidence (0-1). A byte order mark is
+ * conclusive and yields a single candidate. Otherwise UTF-16 is inferred
+ * from NUL bytes in alternating positions, UTF-8 from strict validity, and
+ * cp1252 / ISO-8859-1 from how the bytes above 0x7F are distributed.
+ * iso-8859-1 is always included because any byte sequence decodes as it.
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingCandidate[] {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const utf8Bom = getBOMOffset(buffer);
+  if (utf8Bom > 0) return [{ format: "utf-8", confidence: 1, bomLength: utf8Bom }];
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return [{ format: "utf-16le", confidence: 1, bomLength: 2 }];
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return [{ format: "utf-16be", confidence: 1, bomLength: 2 }];
+  }
+
+  const stats = collectStats(bytes);
+  const candidates: EncodingCandidate[] = [];
+  const add = (format: EncodingFormat, confidence: number) => {
+    candidates.push({ format, confidence: round(confidence), bomLength: 0 });
+  };
+
+  if (bytes.length >= 2 && bytes.length % 2 === 0) {
+    const pairs = bytes.length / 2;
+    const even = stats.evenNuls / pairs;
+    const odd = stats.oddNuls / pairs;
+    // Mostly-Latin UTF-16 has a NUL high byte in nearly every code unit
+    if (odd >= UTF16_NUL_THRESHOLD && even < 0.05) add("utf-16le", 0.5 + odd * 0.45);
+    if (even >= UTF16_NUL_THRESHOLD && odd < 0.05) add("utf-16be", 0.5 + even * 0.45);
+  }
+
+  // Control characters are rare in text of any single-byte encoding
+  const textScore =
+    bytes.length === 0 ? 1 : 1 - Math.min(1, (stats.controlBytes / bytes.length) * 10);
+
+  if (stats.highBytes === 0) {
+    // Pure ASCII reads the same in every candidate
+    add("utf-8", textScore);
+    add("ascii", textScore);
+    add("cp1252", textScore);
+    add("iso-8859-1", textScore);
+  } else {
+    const utf8 = isValidUtf8(bytes);
+    if (utf8) add("utf-8", 0.99 * textScore);
+
+    // Accented letters dominate the high half of real Latin-1 text
+    const single = (utf8 ? 0.2 : 0.4 + 0.5 * (stats.latinLetters / stats.highBytes)) * textScore;
+    if (stats.cp1252Undefined > 0) {
+      add("iso-8859-1", single * 0.5);
+    } else if (stats.c1Bytes > 0) {
+      // C1 controls are implausible as ISO-8859-1 but are punctuation in cp1252
+      add("cp1252", single);
+      add("iso-8859-1", single * 0.5);
+    } else {
+      add("cp1252", single);
+      add("iso-8859-1", single);
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Decode `bytes` as text in a detected `candidate`, skipping its byte order mark
+ */
+export function decodeDetectedText(bytes: Uint8Array, candidate: EncodingCandidate): string {
+  const body = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).subarray(
+    candidate.bomLength,
+  );
+
+  switch (candidate.format) {
+    case "utf-8":
+      return body.toString("utf8");
+    case "utf-16le":
+      return body.toString("utf16le");
+    case "utf-16be":
+      return Buffer.from(body.subarray(0, body.length - (body.length % 2)))
+        .swap16()
+        .toString("utf16le");
+    case "iso-8859-1":
+      // The WHATWG "iso-8859-1" label is an alias for windows-1252
+      return body.toString("latin1");
+    case "ascii":
+      return body.toString("ascii");
+    case "cp1252": {
+      // Node's TextDecoder treats windows-1252 as plain Latin-1
+      let out = "";
+      for (const byte of body) {
+        out += byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+      }
+      return out;
+    }
+    default:
+      throw new Error(`Not a text encoding: ${candidate.format}`);
+  }
+}
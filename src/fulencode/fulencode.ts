@@ -1,8 +1,13 @@
-import { Algorithm } from "../crucible/fulhash/types.js";
 import { hashBytes } from "../fulhash/hash.js";
+import { Algorithm } from "../fulhash/types.js";
 import { decodeBase32, encodeBase32 } from "./base32.js";
+import { decodeBase58, encodeBase58 } from "./base58.js";
+import { decodeAscii85, decodeZ85, encodeAscii85, encodeZ85 } from "./base85.js";
+import { decodeDetectedText, detectEncoding } from "./detect.js";
 import { FulencodeError } from "./errors.js";
+import { decodeQuotedPrintable, encodeQuotedPrintable } from "./quoted-printable.js";
 import type {
+  DecodeFormat,
   DecodeOptions,
   DecodingResult,
   EncodeOptions,
@@ -47,11 +52,11 @@ function base64UrlFromBytes(data: Uint8Array): string {
   return base64FromBytes(data).replace(/\+/g, "-").replace(/\//g, "_");
 }
 
-function applyBase64Padding(s: string, padding: boolean): string {
+export function applyBase64Padding(s: string, padding: boolean): string {
   return padding ? s.padEnd(Math.ceil(s.length / 4) * 4, "=") : s.replace(/=+$/g, "");
 }
 
-function decodeBase64Strict(
+export function decodeBase64Strict(
   input: string,
   variant: "base64" | "base64url",
   validatePadding: boolean,
@@ -77,24 +82,31 @@ function decodeBase64Strict(
   return Uint8Array.from(Buffer.from(s, "base64"));
 }
 
-async function computeChecksumIfRequested(
-  data: Uint8Array,
-  algorithm?: string,
-): Promise<{ checksum?: string; checksumAlgorithm?: string }> {
-  if (!algorithm) return {};
-
+/**
+ * Map a computeChecksum option to its FulHash algorithm
+ */
+export function resolveChecksumAlgorithm(
+  algorithm: string,
+  operation: "encode" | "decode" = "encode",
+): Algorithm {
   if (algorithm !== "sha256" && algorithm !== "xxh3-128") {
     throw new FulencodeError({
       code: "UNSUPPORTED_CHECKSUM",
       message: `Unsupported checksum algorithm: ${algorithm}`,
-      operation: "encode",
+      operation,
       details: { algorithm },
     });
   }
+  return algorithm === "sha256" ? Algorithm.SHA256 : Algorithm.XXH3_128;
+}
 
-  const digest = await hashBytes(data, {
-    algorithm: algorithm === "sha256" ? Algorithm.SHA256 : Algorithm.XXH3_128,
-  });
+async function computeChecksumIfRequested(
+  data: Uint8Array,
+  algorithm?: string,
+): Promise<{ checksum?: string; checksumAlgorithm?: string }> {
+  if (!algorithm) return {};
+
+  const digest = await hashBytes(data, { algorithm: resolveChecksumAlgorithm(algorithm) });
 
   return { checksum: digest.toString(), checksumAlgorithm: algorithm };
 }
@@ -152,6 +164,27 @@ export async function encode(
         data = encodeBase32(inputBytes, format, { padding });
         break;
       }
+      case "base58": {
+        inputBytes = requireBytes(input, format);
+        data = encodeBase58(inputBytes);
+        break;
+      }
+      case "base85": {
+        inputBytes = requireBytes(input, format);
+        data = encodeAscii85(inputBytes);
+        break;
+      }
+      case "z85": {
+        inputBytes = requireBytes(input, format);
+        data = encodeZ85(inputBytes);
+        break;
+      }
+      case "quoted-printable": {
+        // Wraps itself with soft line breaks (RFC 2045 default: 76 characters)
+        inputBytes = requireBytes(input, format);
+        data = encodeQuotedPrintable(inputBytes, { lineLength: lineLength ?? 76, lineEnding });
+        break;
+      }
       case "utf-8": {
         if (typeof input === "string") {
           // Pass-through for already-decoded text; decode() is the canonical text->bytes operation.
@@ -252,7 +285,7 @@ export async function encode(
     });
   }
 
-  if (lineLength !== null) {
+  if (lineLength !== null && format !== "quoted-printable") {
     data = wrapLines(data, lineLength, lineEnding);
   }
 
@@ -278,11 +311,67 @@ export async function encode(
   };
 }
 
+/**
+ * Detect the text encoding of `input` and decode it to UTF-8 bytes.
+ * `fallbackFormats`, when given, limits the candidates that may be chosen.
+ */
+async function decodeAuto(
+  input: string | Uint8Array,
+  options: DecodeOptions,
+): Promise<DecodingResult> {
+  const warnings: string[] = [];
+  const maxDecodedSize = options.maxDecodedSize ?? 100 * 1024 * 1024;
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+
+  const detected = detectEncoding(bytes);
+  const allowed = options.fallbackFormats;
+  const candidates = allowed
+    ? detected.filter((candidate) => allowed.includes(candidate.format))
+    : detected;
+  const [best] = candidates;
+  if (!best) {
+    throw new FulencodeError({
+      code: "DETECTION_FAILED",
+      message: "No candidate encoding matches the input",
+      operation: "detect",
+      details: { fallbackFormats: allowed, candidates: detected },
+    });
+  }
+  if (best.confidence < 0.5) warnings.push("low_confidence_detection");
+
+  const decoded = new TextEncoder().encode(decodeDetectedText(bytes, best));
+
+  if (decoded.length > maxDecodedSize) {
+    throw new FulencodeError({
+      code: "OUTPUT_TOO_LARGE",
+      message: `Decoded output exceeds maxDecodedSize (${maxDecodedSize})`,
+      operation: "decode",
+      inputFormat: best.format,
+      details: { maxDecodedSize, outputSize: decoded.length },
+    });
+  }
+
+  const checksum = await computeChecksumIfRequested(decoded, options.computeChecksum);
+
+  return {
+    data: decoded,
+    format: best.format,
+    inputSize: bytes.length,
+    outputSize: decoded.length,
+    warnings,
+    correctionsApplied: 0,
+    detection: candidates,
+    ...checksum,
+  };
+}
+
 export async function decode(
   input: string | Uint8Array,
-  format: EncodingFormat,
+  format: DecodeFormat,
   options: DecodeOptions = {},
 ): Promise<DecodingResult> {
+  if (format === "auto") return decodeAuto(input, options);
+
   const warnings: string[] = [];
   const ignoreWhitespace =
     options.ignoreWhitespace ??
@@ -290,7 +379,10 @@ export async function decode(
       format === "base64url" ||
       format === "hex" ||
       format === "base32" ||
-      format === "base32hex");
+      format === "base32hex" ||
+      format === "base58" ||
+      format === "base85" ||
+      format === "z85");
   const validatePadding =
     options.validatePadding ??
     (format === "base64" ||
@@ -347,6 +439,22 @@ export async function decode(
         });
         break;
       }
+      case "base58": {
+        decoded = decodeBase58(normalized, { strict: onError === "strict", warnings });
+        break;
+      }
+      case "base85": {
+        decoded = decodeAscii85(normalized, { strict: onError === "strict", warnings });
+        break;
+      }
+      case "z85": {
+        decoded = decodeZ85(normalized, { strict: onError === "strict", warnings });
+        break;
+      }
+      case "quoted-printable": {
+        decoded = decodeQuotedPrintable(normalized, { strict: onError === "strict", warnings });
+        break;
+      }
       case "utf-8": {
         // Text-to-bytes
         decoded = new TextEncoder().encode(typeof input === "string" ? input : inputStr);
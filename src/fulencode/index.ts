@@ -7,11 +7,25 @@ export const VERSION = "0.1.0";
 export * from "./errors.js";
 export * from "./types.js";
 
+import { detectEncoding } from "./detect.js";
 import { decode, encode } from "./fulencode.js";
+import { normalize } from "./normalize.js";
+import { inspectText } from "./safety.js";
 
-export { decode, encode };
+export {
+  createDecodeStream,
+  createEncodeStream,
+  type DecodeStream,
+  type DecodeStreamResult,
+  type EncodeStream,
+  type EncodeStreamResult,
+} from "./stream.js";
+export { decode, detectEncoding, encode, inspectText, normalize };
 
 export const fulencode = {
   encode,
   decode,
+  detectEncoding,
+  normalize,
+  inspectText,
 } as const;
@@ -0,0 +1,125 @@
+/**
+ * Fulencode normalization - Unicode normalization forms with semantic-change tracking.
+ */
+
+import { FulencodeError } from "./errors.js";
+import { findingError, scanCharacters } from "./safety.js";
+import type {
+  NormalizationForm,
+  NormalizationResult,
+  NormalizeOptions,
+  SemanticChange,
+} from "./types.js";
+
+const FORMS: readonly NormalizationForm[] = ["nfc", "nfd", "nfkc", "nfkd"];
+
+// Taxonomy categories of compatibility mappings, by codepoint range
+const SEMANTIC_CHANGE_REASONS: Array<[number, number, string]> = [
+  [0x00b2, 0x00b3, "superscripts_subscripts"],
+  [0x00b9, 0x00b9, "superscripts_subscripts"],
+  [0x00bc, 0x00be, "fractions"],
+  [0x2070, 0x209f, "superscripts_subscripts"],
+  [0x2150, 0x215f, "fractions"],
+  [0x2160, 0x2188, "roman_numerals"],
+  [0x2460, 0x2473, "circled_numbers"],
+  [0x2474, 0x24ff, "enclosed_alphanumerics"],
+  [0xfb00, 0xfb06, "ligatures"],
+  [0xff01, 0xffef, "fullwidth_forms"],
+];
+
+function semanticChangeReason(char: string): string {
+  const code = char.codePointAt(0) ?? 0;
+  for (const [from, to, reason] of SEMANTIC_CHANGE_REASONS) {
+    if (code >= from && code <= to) return reason;
+  }
+  return "compatibility_mapping";
+}
+
+/**
+ * Normalize `text` to a Unicode normalization form (UAX #15).
+ *
+ * Combining mark floods are always rejected (EXCESSIVE_COMBINING_MARKS);
+ * zero-width and bidi control characters are rejected when asked. NFKC/NFKD
+ * compatibility mappings are reported in `semanticChanges`. The optional
+ * folding steps (accents, case, punctuation, whitespace) run after the
+ * normalization form and are listed in `transformationsApplied`.
+ */
+export function normalize(
+  text: string,
+  profile: NormalizationForm,
+  options: NormalizeOptions = {},
+): NormalizationResult {
+  if (!FORMS.includes(profile)) {
+    throw new FulencodeError({
+      code: "INVALID_OPTIONS",
+      message: `Unknown normalization profile: ${profile}`,
+      operation: "normalize",
+      details: { profile, supported: FORMS },
+    });
+  }
+
+  const chars = [...text];
+  const findings = scanCharacters(chars, {
+    allowJoiners: !options.rejectZeroWidth,
+    allowNewlines: true,
+    maxCombiningMarks: options.maxCombiningMarks,
+  });
+  const rejected = findings.find(
+    (item) =>
+      item.type === "excessive_combining_marks" ||
+      (item.type === "zero_width" && options.rejectZeroWidth) ||
+      (item.type === "bidi_control" && options.rejectBidiControls),
+  );
+  if (rejected) throw findingError(rejected);
+
+  const form = profile.toUpperCase() as "NFC" | "NFD" | "NFKC" | "NFKD";
+  const transformationsApplied: string[] = [profile];
+  const semanticChanges: SemanticChange[] = [];
+  const warnings: string[] = [];
+
+  if ((profile === "nfkc" || profile === "nfkd") && options.warnSemanticChange !== false) {
+    for (let i = 0; i < chars.length; i++) {
+      const normalized = chars[i].normalize(form);
+      if (normalized !== chars[i].normalize(profile === "nfkc" ? "NFC" : "NFD")) {
+        semanticChanges.push({
+          position: i,
+          original: chars[i],
+          normalized,
+          reason: semanticChangeReason(chars[i]),
+        });
+      }
+    }
+    if (semanticChanges.length > 0) warnings.push("semantic_change");
+  }
+
+  let result = text.normalize(form);
+  if (options.stripAccents) {
+    result = result
+      .normalize("NFD")
+      .replace(/\p{Mn}/gu, "")
+      .normalize(form);
+    transformationsApplied.push("strip_accents");
+  }
+  if (options.caseFold) {
+    result = result.toLowerCase();
+    transformationsApplied.push("case_fold");
+  }
+  if (options.removePunctuation) {
+    result = result.replace(/[\p{P}\p{S}]/gu, "");
+    transformationsApplied.push("remove_punctuation");
+  }
+  if (options.compressWhitespace) {
+    result = result.replace(/\s+/gu, " ").trim();
+    transformationsApplied.push("compress_whitespace");
+  }
+
+  return {
+    text: result,
+    profile,
+    inputLength: chars.length,
+    outputLength: [...result].length,
+    transformationsApplied,
+    semanticChanges,
+    warnings,
+  };
+}
@@ -0,0 +1,111 @@
+const HEX_DIGITS = "0123456789ABCDEF";
+
+function isLiteral(byte: number): boolean {
+  // Printable ASCII except "="
+  return byte >= 33 && byte <= 126 && byte !== 61;
+}
+
+function escapeByte(byte: number): string {
+  return `=${HEX_DIGITS[byte >> 4]}${HEX_DIGITS[byte & 15]}`;
+}
+
+/**
+ * Encode bytes as quoted-printable (RFC 2045).
+ *
+ * "\n" and "\r\n" in the input are hard line breaks and are kept as is; a
+ * lone "\r" is escaped. Trailing spaces/tabs on a line are escaped. Longer
+ * lines get soft breaks ("=" + lineEnding) so no line exceeds lineLength
+ * characters; lineLength <= 0 disables soft breaks.
+ */
+export function encodeQuotedPrintable(
+  data: Uint8Array,
+  options: { lineLength: number; lineEnding: "\n" | "\r\n" },
+): string {
+  const { lineLength, lineEnding } = options;
+  let out = "";
+  let start = 0;
+
+  while (start <= data.length) {
+    let end = data.indexOf(10, start);
+    if (end === -1) end = data.length;
+    const contentEnd = end > start && data[end - 1] === 13 && end < data.length ? end - 1 : end;
+
+    let column = 0;
+    for (let i = start; i < contentEnd; i++) {
+      const byte = data[i];
+      const trailing = i === contentEnd - 1;
+      const token =
+        isLiteral(byte) || ((byte === 32 || byte === 9) && !trailing)
+          ? String.fromCharCode(byte)
+          : escapeByte(byte);
+
+      // Keep room for the soft-break "=", unless this is the line's last token
+      const limit = trailing ? lineLength : lineLength - 1;
+      if (lineLength > 0 && column > 0 && column + token.length > limit) {
+        out += `=${lineEnding}`;
+        column = 0;
+      }
+      out += token;
+      column += token.length;
+    }
+
+    if (end === data.length) break;
+    out += contentEnd < end ? "\r\n" : "\n";
+    start = end + 1;
+  }
+
+  return out;
+}
+
+/**
+ * Decode quoted-printable. Soft breaks are removed, hard breaks kept, and
+ * trailing whitespace added in transport is dropped. Lenient mode keeps
+ * malformed "=" sequences and non-ASCII characters (as UTF-8) literally.
+ */
+export function decodeQuotedPrintable(
+  input: string,
+  options: { strict: boolean; warnings: string[] },
+): Uint8Array {
+  const out: number[] = [];
+  let lenient = false;
+  const parts = input.split(/(\r?\n)/);
+
+  for (let p = 0; p < parts.length; p += 2) {
+    let line = parts[p].replace(/[ \t]+$/, "");
+    const lineBreak = parts[p + 1] ?? "";
+    const soft = line.endsWith("=");
+    if (soft) line = line.slice(0, -1);
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (ch === "=") {
+        const hex = line.slice(i + 1, i + 3);
+        if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+          out.push(Number.parseInt(hex, 16));
+          i += 2;
+          continue;
+        }
+        if (options.strict) throw new Error(`Invalid quoted-printable escape: =${hex}`);
+        lenient = true;
+        out.push(61);
+        continue;
+      }
+
+      const code = ch.charCodeAt(0);
+      if (code > 126 || (code < 32 && ch !== "\t")) {
+        if (options.strict) throw new Error(`Invalid quoted-printable character: ${ch}`);
+        lenient = true;
+        for (const byte of Buffer.from(ch, "utf8")) out.push(byte);
+        continue;
+      }
+      out.push(code);
+    }
+
+    if (!soft) {
+      for (let i = 0; i < lineBreak.length; i++) out.push(lineBreak.charCodeAt(i));
+    }
+  }
+
+  if (lenient) options.warnings.push("invalid_characters_kept");
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,302 @@
+/**
+ * Fulencode text safety - finds invisible, bidi, control and lookalike characters in untrusted text.
+ */
+
+import { FulencodeError } from "./errors.js";
+import type {
+  TextSafetyFinding,
+  TextSafetyIssue,
+  TextSafetyOptions,
+  TextSafetyReport,
+} from "./types.js";
+
+// Embedding/override, isolates, LRM/RLM and the Arabic letter mark
+const BIDI_CONTROLS = new Set([
+  0x061c, 0x200e, 0x200f, 0x202a, 0x202b, 0x202c, 0x202d, 0x202e, 0x2066, 0x2067, 0x2068, 0x2069,
+]);
+
+// ZWSP, word joiner and ZWNBSP; ZWNJ/ZWJ are handled separately (allowJoiners)
+const ZERO_WIDTH = new Set([0x200b, 0x2060, 0xfeff]);
+const JOINERS = new Set([0x200c, 0x200d]);
+
+const COMBINING_MARK = /\p{M}/u;
+const LETTER = /\p{L}/u;
+// Letters shared across scripts, such as the katakana-hiragana prolonged sound mark
+const SHARED_SCRIPT = /[\p{Script=Common}\p{Script=Inherited}]/u;
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  "Latin",
+  "Greek",
+  "Cyrillic",
+  "Armenian",
+  "Hebrew",
+  "Arabic",
+  "Syriac",
+  "Thaana",
+  "Devanagari",
+  "Bengali",
+  "Gurmukhi",
+  "Gujarati",
+  "Tamil",
+  "Telugu",
+  "Kannada",
+  "Malayalam",
+  "Sinhala",
+  "Thai",
+  "Lao",
+  "Tibetan",
+  "Myanmar",
+  "Georgian",
+  "Hangul",
+  "Ethiopic",
+  "Cherokee",
+  "Khmer",
+  "Mongolian",
+  "Hiragana",
+  "Katakana",
+  "Bopomofo",
+  "Han",
+].map((name): [string, RegExp] => [name, new RegExp(`\\p{Script=${name}}`, "u")]);
+
+// Script combinations that are normal in one word (UTS #39 "highly restrictive")
+const ALLOWED_SCRIPT_SETS = [
+  ["Latin", "Han", "Hiragana", "Katakana"],
+  ["Latin", "Han", "Bopomofo"],
+  ["Latin", "Han", "Hangul"],
+];
+
+// Cyrillic, Greek and Armenian letters that render like a Latin letter
+const LATIN_LOOKALIKES = new Map<string, string>(
+  Object.entries({
+    а: "a",
+    е: "e",
+    о: "o",
+    р: "p",
+    с: "c",
+    у: "y",
+    х: "x",
+    ѕ: "s",
+    і: "i",
+    ј: "j",
+    ԁ: "d",
+    һ: "h",
+    ԛ: "q",
+    ԝ: "w",
+    ӏ: "l",
+    А: "A",
+    В: "B",
+    Е: "E",
+    К: "K",
+    М: "M",
+    Н: "H",
+    О: "O",
+    Р: "P",
+    С: "C",
+    Т: "T",
+    Х: "X",
+    Ѕ: "S",
+    І: "I",
+    Ј: "J",
+    Ү: "Y",
+    Ԛ: "Q",
+    Ԝ: "W",
+    α: "a",
+    ι: "i",
+    κ: "k",
+    ν: "v",
+    ο: "o",
+    ρ: "p",
+    υ: "u",
+    Α: "A",
+    Β: "B",
+    Ε: "E",
+    Ζ: "Z",
+    Η: "H",
+    Ι: "I",
+    Κ: "K",
+    Μ: "M",
+    Ν: "N",
+    Ο: "O",
+    Ρ: "P",
+    Τ: "T",
+    Υ: "Y",
+    Χ: "X",
+    օ: "o",
+    ս: "u",
+  }),
+);
+
+const ERROR_CODES: Record<TextSafetyIssue, string> = {
+  bidi_control: "BIDI_CONTROL_CHARACTER",
+  zero_width: "ZERO_WIDTH_CHARACTER",
+  control_character: "CONTROL_CHARACTER",
+  excessive_combining_marks: "EXCESSIVE_COMBINING_MARKS",
+  mixed_script: "MIXED_SCRIPT",
+  confusable: "CONFUSABLE_CHARACTER",
+};
+
+function codepointLabel(char: string): string {
+  return `U+${(char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+function finding(
+  type: TextSafetyIssue,
+  position: number,
+  character: string,
+  extra: Partial<TextSafetyFinding> = {},
+): TextSafetyFinding {
+  return { type, position, character, codepoint: codepointLabel(character), ...extra };
+}
+
+function scriptOf(char: string): string | null {
+  if (!LETTER.test(char) || SHARED_SCRIPT.test(char)) return null;
+  for (const [name, pattern] of SCRIPTS) {
+    if (pattern.test(char)) return name;
+  }
+  return "Other";
+}
+
+/**
+ * Find bidi controls, zero-width characters, control characters and runs of
+ * combining marks longer than `maxCombiningMarks` (default 10).
+ * Positions are codepoint offsets.
+ */
+export function scanCharacters(
+  chars: string[],
+  options: Pick<TextSafetyOptions, "allowJoiners" | "allowNewlines" | "maxCombiningMarks">,
+): TextSafetyFinding[] {
+  const maxCombiningMarks = options.maxCombiningMarks ?? 10;
+  const findings: TextSafetyFinding[] = [];
+  let markRun = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0) ?? 0;
+
+    if (COMBINING_MARK.test(char)) {
+      markRun++;
+      if (markRun === maxCombiningMarks + 1) {
+        const start = i - maxCombiningMarks;
+        let end = i + 1;
+        while (end < chars.length && COMBINING_MARK.test(chars[end])) end++;
+        findings.push(
+          finding("excessive_combining_marks", start, chars[start], { count: end - start }),
+        );
+      }
+      continue;
+    }
+    markRun = 0;
+
+    if (BIDI_CONTROLS.has(code)) {
+      findings.push(finding("bidi_control", i, char));
+    } else if (ZERO_WIDTH.has(code) || (JOINERS.has(code) && !options.allowJoiners)) {
+      findings.push(finding("zero_width", i, char));
+    } else if (code < 0x20 || (code >= 0x7f && code <= 0x9f)) {
+      const newline = code === 0x09 || code === 0x0a || code === 0x0d;
+      if (!(newline && options.allowNewlines)) findings.push(finding("control_character", i, char));
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Find words that mix scripts and lookalikes of Latin letters, per
+ * whitespace-separated word.
+ *
+ * Cyrillic/Greek/Armenian lookalikes are reported when the word also has
+ * Latin letters, or when every letter in it has a Latin lookalike (so the
+ * whole word can pass for Latin). Characters whose NFKC form is different
+ * ASCII text (fullwidth and mathematical letters, ligatures) are always
+ * reported.
+ */
+function scanScripts(chars: string[]): TextSafetyFinding[] {
+  const findings: TextSafetyFinding[] = [];
+  let start = 0;
+
+  while (start < chars.length) {
+    while (start < chars.length && /\s/u.test(chars[start])) start++;
+    let end = start;
+    while (end < chars.length && !/\s/u.test(chars[end])) end++;
+
+    const scripts: string[] = [];
+    let firstMixed = -1;
+    let letters = 0;
+    let lookalikes = 0;
+    for (let i = start; i < end; i++) {
+      const script = scriptOf(chars[i]);
+      if (!script) continue;
+      letters++;
+      if (LATIN_LOOKALIKES.has(chars[i])) lookalikes++;
+      if (!scripts.includes(script)) {
+        scripts.push(script);
+        if (scripts.length === 2) firstMixed = i;
+      }
+    }
+
+    const mixed =
+      scripts.length > 1 &&
+      !ALLOWED_SCRIPT_SETS.some((allowed) => scripts.every((script) => allowed.includes(script)));
+    if (mixed) {
+      findings.push(finding("mixed_script", firstMixed, chars[firstMixed], { scripts }));
+    }
+
+    const spoofable = scripts.includes("Latin") || (letters > 0 && lookalikes === letters);
+    for (let i = start; i < end; i++) {
+      const char = chars[i];
+      const latin = LATIN_LOOKALIKES.get(char);
+      if (latin !== undefined && spoofable) {
+        findings.push(finding("confusable", i, char, { lookalike: latin }));
+        continue;
+      }
+      const compatible = char.normalize("NFKC");
+      if (compatible !== char && /^[\x21-\x7e]+$/.test(compatible)) {
+        findings.push(finding("confusable", i, char, { lookalike: compatible }));
+      }
+    }
+
+    start = end;
+  }
+
+  return findings;
+}
+
+/**
+ * Build the FulencodeError raised for a finding in strict mode.
+ */
+export function findingError(
+  item: TextSafetyFinding,
+  findings: TextSafetyFinding[] = [item],
+): FulencodeError {
+  return new FulencodeError({
+    code: ERROR_CODES[item.type],
+    message: `Unsafe text: ${item.type} ${item.codepoint} at codepoint ${item.position}`,
+    operation: "normalize",
+    details: {
+      codepointOffset: item.position,
+      character: item.character,
+      codepoint: item.codepoint,
+      findings,
+    },
+  });
+}
+
+/**
+ * Inspect untrusted text (identifiers, display names) for spoofing tricks:
+ * bidi controls, zero-width and control characters, combining mark floods,
+ * mixed scripts within a word and confusable characters.
+ *
+ * In strict mode the first finding is thrown as a FulencodeError.
+ */
+export function inspectText(text: string, options: TextSafetyOptions = {}): TextSafetyReport {
+  const chars = [...text];
+  const findings = [...scanCharacters(chars, options), ...scanScripts(chars)].sort(
+    (a, b) => a.position - b.position,
+  );
+
+  if (options.strict && findings.length > 0) {
+    throw findingError(findings[0], findings);
+  }
+
+  return { safe: findings.length === 0, findings };
+}
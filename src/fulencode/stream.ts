@@ -0,0 +1,599 @@
+/**
+ * Fulencode streams - encode/decode as Node Transforms.
+ *
+ * Same formats and options as encode()/decode(), applied chunk by chunk:
+ * partial quanta (base64 3-byte groups, base32 5-byte groups, split multi-byte
+ * characters) are carried across chunk boundaries, line wrapping continues
+ * across chunks, size limits are enforced as output is produced and checksums
+ * are computed incrementally.
+ */
+
+import { Transform, type TransformCallback } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import type { StreamHasher } from "../fulhash/definitions.js";
+import { createStreamHasher } from "../fulhash/stream.js";
+import { decodeBase32, encodeBase32 } from "./base32.js";
+import { FulencodeError } from "./errors.js";
+import { applyBase64Padding, decodeBase64Strict, resolveChecksumAlgorithm } from "./fulencode.js";
+import type {
+  DecodeOptions,
+  DecodingResult,
+  EncodeOptions,
+  EncodingFormat,
+  EncodingResult,
+} from "./types.js";
+
+/**
+ * Totals available once an EncodeStream has ended
+ */
+export type EncodeStreamResult = Omit<EncodingResult, "data">;
+
+/**
+ * Totals available once a DecodeStream has ended
+ */
+export type DecodeStreamResult = Omit<DecodingResult, "data">;
+
+interface EncodeCodec {
+  write(chunk: Buffer): string;
+  end(): string;
+}
+
+interface DecodeCodec {
+  write(chunk: Buffer): Uint8Array;
+  end(): Uint8Array;
+}
+
+const BINARY_FORMATS = new Set<EncodingFormat>([
+  "base64",
+  "base64url",
+  "base64_raw",
+  "base32",
+  "base32hex",
+  "hex",
+]);
+
+function swapBytePairs(data: Buffer): Buffer {
+  const swapped = Buffer.from(data);
+  for (let i = 0; i + 1 < swapped.length; i += 2) {
+    const a = swapped[i];
+    swapped[i] = swapped[i + 1];
+    swapped[i + 1] = a;
+  }
+  return swapped;
+}
+
+function formatField(
+  format: EncodingFormat,
+  operation: "encode" | "decode",
+): { inputFormat: EncodingFormat } | { outputFormat: EncodingFormat } {
+  return operation === "encode" ? { outputFormat: format } : { inputFormat: format };
+}
+
+function unsupportedFormat(format: EncodingFormat, operation: "encode" | "decode"): FulencodeError {
+  return new FulencodeError({
+    code: "UNSUPPORTED_FORMAT",
+    message:
+      format === "cp1252"
+        ? "cp1252 is not implemented in tsfulmen yet"
+        : `Unsupported ${operation === "encode" ? "encoding" : "decoding"} format: ${format}`,
+    operation,
+    ...formatField(format, operation),
+  });
+}
+
+/**
+ * Encoder for fixed-size quanta (base64: 3 bytes, base32: 5 bytes)
+ *
+ * Whole quanta are encoded as they arrive; the remainder waits for the next
+ * chunk and is padded at the end.
+ */
+function quantumEncoder(
+  size: number,
+  encodeWhole: (data: Buffer) => string,
+  encodeFinal: (data: Buffer) => string,
+): EncodeCodec {
+  let rest = Buffer.alloc(0);
+  return {
+    write(chunk) {
+      const data = rest.length > 0 ? Buffer.concat([rest, chunk]) : chunk;
+      const whole = data.length - (data.length % size);
+      rest = Buffer.from(data.subarray(whole));
+      return encodeWhole(data.subarray(0, whole));
+    },
+    end() {
+      return rest.length > 0 ? encodeFinal(rest) : "";
+    },
+  };
+}
+
+function createEncodeCodec(format: EncodingFormat, options: EncodeOptions): EncodeCodec {
+  const padding = options.padding ?? true;
+  const onError = options.onError ?? "strict";
+
+  switch (format) {
+    case "base64":
+    case "base64url":
+    case "base64_raw": {
+      const toText = (data: Buffer) => {
+        const s = data.toString("base64");
+        return format === "base64url" ? s.replace(/\+/g, "-").replace(/\//g, "_") : s;
+      };
+      const pad = format !== "base64_raw" && padding;
+      return quantumEncoder(3, toText, (data) => applyBase64Padding(toText(data), pad));
+    }
+    case "base32":
+    case "base32hex":
+      return quantumEncoder(
+        5,
+        (data) => encodeBase32(data, format, { padding: false }),
+        (data) => encodeBase32(data, format, { padding }),
+      );
+    case "hex": {
+      const upper = (options.hexCase ?? "lower") === "upper";
+      return {
+        write: (chunk) => (upper ? chunk.toString("hex").toUpperCase() : chunk.toString("hex")),
+        end: () => "",
+      };
+    }
+    case "utf-8": {
+      if (onError === "strict") {
+        const decoder = new TextDecoder("utf-8", { fatal: true });
+        return {
+          write: (chunk) => decoder.decode(chunk, { stream: true }),
+          end: () => decoder.decode(),
+        };
+      }
+      const decoder = new StringDecoder("utf8");
+      return { write: (chunk) => decoder.write(chunk), end: () => decoder.end() };
+    }
+    case "utf-16le":
+    case "utf-16be": {
+      // Feed whole code units only (holding back an odd byte), swapped to
+      // little-endian for utf-16be; StringDecoder keeps split surrogate pairs
+      const decoder = new StringDecoder("utf16le");
+      const toLittleEndian = (data: Buffer) =>
+        format === "utf-16be" ? swapBytePairs(data) : Buffer.from(data);
+      let odd: Buffer | undefined;
+      return {
+        write(chunk) {
+          const data = odd ? Buffer.concat([odd, chunk]) : chunk;
+          const even = data.length - (data.length % 2);
+          odd = even < data.length ? Buffer.from(data.subarray(even)) : undefined;
+          return decoder.write(toLittleEndian(data.subarray(0, even)));
+        },
+        end: () => decoder.end(odd),
+      };
+    }
+    case "iso-8859-1":
+      return { write: (chunk) => chunk.toString("latin1"), end: () => "" };
+    case "ascii":
+      return { write: (chunk) => chunk.toString("ascii"), end: () => "" };
+    default:
+      throw unsupportedFormat(format, "encode");
+  }
+}
+
+/**
+ * Decoder for fixed-size groups of encoded characters (base64: 4, base32: 8, hex: 2)
+ *
+ * Input is read as latin1 so every byte maps to one character; whitespace is
+ * dropped first when ignored. Strict decoders reject data after padding.
+ */
+function groupDecoder(args: {
+  size: number;
+  strict: boolean;
+  ignoreWhitespace: boolean;
+  /** Characters dropped in lenient mode */
+  invalid?: RegExp;
+  decodeGroups: (s: string) => Uint8Array;
+  decodeFinal: (s: string, sawPadding: boolean, total: number) => Uint8Array;
+  name: string;
+}): DecodeCodec {
+  let pending = "";
+  let sawPadding = false;
+  let total = 0;
+
+  return {
+    write(chunk) {
+      let s = chunk.toString("latin1");
+      if (args.ignoreWhitespace) {
+        s = s.replace(/\s/g, "");
+      }
+      if (!args.strict) {
+        s = args.invalid ? s.replace(args.invalid, "") : s;
+      } else if (s.length > 0) {
+        if (sawPadding && /[^=]/.test(s)) {
+          throw new Error(`Invalid ${args.name} padding`);
+        }
+        sawPadding ||= s.includes("=");
+      }
+      total += s.length;
+      pending += s;
+      const whole = pending.length - (pending.length % args.size);
+      const out = whole > 0 ? args.decodeGroups(pending.slice(0, whole)) : new Uint8Array(0);
+      pending = pending.slice(whole);
+      return out;
+    },
+    end() {
+      return args.decodeFinal(pending, sawPadding, total);
+    },
+  };
+}
+
+function createDecodeCodec(format: EncodingFormat, options: DecodeOptions): DecodeCodec {
+  const binary = BINARY_FORMATS.has(format);
+  const ignoreWhitespace = options.ignoreWhitespace ?? binary;
+  const validatePadding =
+    options.validatePadding ??
+    (format === "base64" ||
+      format === "base64url" ||
+      format === "base32" ||
+      format === "base32hex");
+  const strict = (options.onError ?? "strict") === "strict";
+
+  switch (format) {
+    case "base64":
+    case "base64url": {
+      const decodeGroups = (s: string) =>
+        strict
+          ? decodeBase64Strict(s, format, validatePadding)
+          : Uint8Array.from(Buffer.from(s.replace(/-/g, "+").replace(/_/g, "/"), "base64"));
+      return groupDecoder({
+        size: 4,
+        strict,
+        ignoreWhitespace,
+        invalid: format === "base64" ? /[^A-Za-z0-9+/]/g : /[^A-Za-z0-9\-_]/g,
+        decodeGroups,
+        decodeFinal: (s) =>
+          s.length > 0 ? decodeGroups(applyBase64Padding(s, true)) : new Uint8Array(0),
+        name: "base64",
+      });
+    }
+    case "base64_raw": {
+      const decodeGroups = (s: string) => Uint8Array.from(Buffer.from(s, "base64"));
+      return groupDecoder({
+        size: 4,
+        strict: false,
+        ignoreWhitespace,
+        invalid: /[^A-Za-z0-9+/\-_]/g,
+        decodeGroups,
+        decodeFinal: decodeGroups,
+        name: "base64",
+      });
+    }
+    case "base32":
+    case "base32hex": {
+      const decodeGroups = (s: string) =>
+        decodeBase32(s, format, { ignoreWhitespace: false, validatePadding: false });
+      return groupDecoder({
+        size: 8,
+        strict: true,
+        ignoreWhitespace,
+        decodeGroups,
+        decodeFinal: (s, sawPadding, total) => {
+          if (validatePadding && sawPadding && total % 8 !== 0) {
+            throw new Error("Invalid base32 length (padding)");
+          }
+          return decodeGroups(s);
+        },
+        name: "base32",
+      });
+    }
+    case "hex": {
+      const decodeGroups = (s: string) => {
+        if (strict && !/^[0-9a-fA-F]*$/.test(s)) {
+          throw new Error("Invalid hex input");
+        }
+        return Uint8Array.from(Buffer.from(s, "hex"));
+      };
+      return groupDecoder({
+        size: 2,
+        strict,
+        ignoreWhitespace,
+        invalid: /[^0-9a-fA-F]/g,
+        decodeGroups,
+        decodeFinal: (s) => {
+          if (strict && s.length > 0) {
+            throw new Error("Invalid hex input");
+          }
+          return new Uint8Array(0);
+        },
+        name: "hex",
+      });
+    }
+    case "utf-8":
+    case "utf-16le":
+    case "utf-16be":
+    case "iso-8859-1":
+    case "ascii": {
+      // Text-to-bytes: read the input as UTF-8, holding back split characters
+      const decoder = new StringDecoder("utf8");
+      const toBytes = (text: string): Uint8Array => {
+        switch (format) {
+          case "utf-8":
+            return Buffer.from(text, "utf8");
+          case "utf-16le":
+            return Buffer.from(text, "utf16le");
+          case "utf-16be":
+            return swapBytePairs(Buffer.from(text, "utf16le"));
+          case "iso-8859-1":
+            return Buffer.from(text, "latin1");
+          default:
+            return Buffer.from(text, "ascii");
+        }
+      };
+      return { write: (chunk) => toBytes(decoder.write(chunk)), end: () => toBytes(decoder.end()) };
+    }
+    default:
+      throw unsupportedFormat(format, "decode");
+  }
+}
+
+/**
+ * Base for both directions: checksum and error plumbing
+ */
+abstract class CodecStream extends Transform {
+  readonly format: EncodingFormat;
+  protected inputSize = 0;
+  protected outputSize = 0;
+  protected readonly warnings: string[] = [];
+  protected checksum?: string;
+  protected readonly checksumAlgorithm?: string;
+  private readonly operation: "encode" | "decode";
+  private hasherPromise?: Promise<StreamHasher>;
+  protected hasher?: StreamHasher;
+
+  constructor(format: EncodingFormat, operation: "encode" | "decode", checksumAlgorithm?: string) {
+    super();
+    this.format = format;
+    this.operation = operation;
+    if (checksumAlgorithm) {
+      const algorithm = resolveChecksumAlgorithm(checksumAlgorithm, operation);
+      this.checksumAlgorithm = checksumAlgorithm;
+      this.hasherPromise = createStreamHasher({ algorithm });
+    }
+  }
+
+  protected abstract process(chunk: Buffer): void;
+  protected abstract finish(): void;
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.run(() => this.process(chunk), callback);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.run(() => {
+      this.finish();
+      if (this.hasher) {
+        this.checksum = this.hasher.digest().toString();
+      }
+    }, callback);
+  }
+
+  /**
+   * Helper: Wait for the checksum hasher once, then run `work` and report errors
+   */
+  private run(work: () => void, callback: TransformCallback): void {
+    const execute = () => {
+      try {
+        work();
+        callback();
+      } catch (err) {
+        callback(this.toError(err));
+      }
+    };
+
+    if (this.hasherPromise && !this.hasher) {
+      this.hasherPromise.then((hasher) => {
+        this.hasher = hasher;
+        execute();
+      }, callback);
+      return;
+    }
+    execute();
+  }
+
+  /**
+   * Helper: Throw OUTPUT_TOO_LARGE as soon as the limit is crossed
+   */
+  protected checkLimit(limit: number | undefined): void {
+    if (limit === undefined || this.outputSize <= limit) {
+      return;
+    }
+    const encode = this.operation === "encode";
+    const option = encode ? "maxEncodedSize" : "maxDecodedSize";
+    throw new FulencodeError({
+      code: "OUTPUT_TOO_LARGE",
+      message: `${encode ? "Encoded" : "Decoded"} output exceeds ${option} (${limit})`,
+      operation: this.operation,
+      ...formatField(this.format, this.operation),
+      details: { [option]: limit, outputSize: this.outputSize },
+    });
+  }
+
+  private toError(err: unknown): Error {
+    if (err instanceof FulencodeError) return err;
+    const encode = this.operation === "encode";
+    return new FulencodeError({
+      code: encode ? "ENCODE_FAILED" : "DECODE_FAILED",
+      message: (err as Error).message,
+      operation: this.operation,
+      ...formatField(this.format, this.operation),
+      cause: err,
+    });
+  }
+}
+
+/**
+ * Transform from bytes to encoded text (emitted as UTF-8 Buffers)
+ *
+ * outputSize counts encoded characters, as in encode().
+ */
+export class EncodeStream extends CodecStream {
+  private readonly codec: EncodeCodec;
+  private readonly lineLength: number | null;
+  private readonly lineEnding: "\n" | "\r\n";
+  private readonly maxEncodedSize?: number;
+  private column = 0;
+
+  constructor(format: EncodingFormat, options: EncodeOptions = {}) {
+    if (options.embedChecksum) {
+      throw new FulencodeError({
+        code: "UNSUPPORTED_FEATURE",
+        message: "embedChecksum is not implemented in tsfulmen yet",
+        operation: "encode",
+        outputFormat: format,
+      });
+    }
+    const codec = createEncodeCodec(format, options);
+    super(format, "encode", options.computeChecksum);
+    this.codec = codec;
+    this.lineLength = options.lineLength ?? null;
+    this.lineEnding = options.lineEnding ?? "\n";
+    this.maxEncodedSize = options.maxEncodedSize;
+  }
+
+  /**
+   * Totals, checksum and warnings; complete once the stream has ended
+   */
+  get result(): EncodeStreamResult {
+    return {
+      format: this.format,
+      inputSize: this.inputSize,
+      outputSize: this.outputSize,
+      warnings: [...this.warnings],
+      ...(this.checksum
+        ? { checksum: this.checksum, checksumAlgorithm: this.checksumAlgorithm }
+        : {}),
+    };
+  }
+
+  protected process(chunk: Buffer): void {
+    this.inputSize += chunk.length;
+    this.hasher?.update(chunk);
+    this.pushOutput(this.codec.write(chunk));
+  }
+
+  protected finish(): void {
+    this.pushOutput(this.codec.end());
+  }
+
+  /**
+   * Helper: Wrap, count and push encoded text
+   */
+  private pushOutput(text: string): void {
+    const wrapped = this.wrapLines(text);
+    if (wrapped.length === 0) {
+      return;
+    }
+    this.outputSize += wrapped.length;
+    this.checkLimit(this.maxEncodedSize);
+    this.push(Buffer.from(wrapped, "utf8"));
+  }
+
+  /**
+   * Helper: Insert line endings every lineLength characters, continuing the
+   * current line from the previous chunk (no trailing line ending, as in encode())
+   */
+  private wrapLines(text: string): string {
+    if (this.lineLength === null || this.lineLength <= 0) {
+      return text;
+    }
+    let out = "";
+    let i = 0;
+    while (i < text.length) {
+      if (this.column === this.lineLength) {
+        out += this.lineEnding;
+        this.column = 0;
+      }
+      const take = Math.min(this.lineLength - this.column, text.length - i);
+      out += text.slice(i, i + take);
+      i += take;
+      this.column += take;
+    }
+    return out;
+  }
+}
+
+/**
+ * Transform from encoded text (or text, for the text codecs) to bytes
+ */
+export class DecodeStream extends CodecStream {
+  private readonly codec: DecodeCodec;
+  private readonly maxDecodedSize?: number;
+
+  constructor(format: EncodingFormat, options: DecodeOptions = {}) {
+    const codec = createDecodeCodec(format, options);
+    super(format, "decode", options.computeChecksum);
+    this.codec = codec;
+    this.maxDecodedSize = options.maxDecodedSize;
+    if (format === "base64_raw" && options.validatePadding) {
+      this.warnings.push("base64_raw does not support padding validation");
+    }
+  }
+
+  /**
+   * Totals, checksum and warnings; complete once the stream has ended
+   */
+  get result(): DecodeStreamResult {
+    return {
+      format: this.format,
+      inputSize: this.inputSize,
+      outputSize: this.outputSize,
+      warnings: [...this.warnings],
+      correctionsApplied: 0,
+      ...(this.checksum
+        ? { checksum: this.checksum, checksumAlgorithm: this.checksumAlgorithm }
+        : {}),
+    };
+  }
+
+  protected process(chunk: Buffer): void {
+    this.inputSize += chunk.length;
+    this.pushOutput(this.codec.write(chunk));
+  }
+
+  protected finish(): void {
+    this.pushOutput(this.codec.end());
+  }
+
+  /**
+   * Helper: Hash, count and push decoded bytes
+   */
+  private pushOutput(bytes: Uint8Array): void {
+    if (bytes.length === 0) {
+      return;
+    }
+    this.outputSize += bytes.length;
+    this.checkLimit(this.maxDecodedSize);
+    this.hasher?.update(bytes);
+    this.push(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length));
+  }
+}
+
+/**
+ * Create a Transform that encodes bytes to `format`
+ *
+ * Accepts the same options as encode(). Unlike encode(), maxEncodedSize has no
+ * default and is checked as output is produced. Throws FulencodeError for
+ * unsupported formats or checksum algorithms.
+ */
+export function createEncodeStream(
+  format: EncodingFormat,
+  options: EncodeOptions = {},
+): EncodeStream {
+  return new EncodeStream(format, options);
+}
+
+/**
+ * Create a Transform that decodes `format` to bytes
+ *
+ * Accepts the same options as decode(). Unlike decode(), maxDecodedSize has no
+ * default and is checked as output is produced.
+ */
+export function createDecodeStream(
+  format: EncodingFormat,
+  options: DecodeOptions = {},
+): DecodeStream {
+  return new DecodeStream(format, options);
+}
@@ -9,6 +9,10 @@ export const EncodingFormat = {
   BASE32: "base32",
   BASE32HEX: "base32hex",
   HEX: "hex",
+  BASE58: "base58",
+  BASE85: "base85",
+  Z85: "z85",
+  QUOTED_PRINTABLE: "quoted-printable",
   UTF8: "utf-8",
   UTF16LE: "utf-16le",
   UTF16BE: "utf-16be",
@@ -19,6 +23,11 @@ export const EncodingFormat = {
 
 export type EncodingFormat = (typeof EncodingFormat)[keyof typeof EncodingFormat];
 
+/**
+ * Passed to decode() in place of a format to detect the input's text encoding.
+ */
+export type DecodeFormat = EncodingFormat | "auto";
+
 export type OnErrorMode = "strict" | "replace" | "ignore";
 export type DecodeOnErrorMode = OnErrorMode | "fallback";
 
@@ -67,4 +76,88 @@ export interface DecodingResult {
   checksumAlgorithm?: string;
   warnings: string[];
   correctionsApplied: number;
+  /** Ranked candidates considered when decoding with format "auto" */
+  detection?: EncodingCandidate[];
+}
+
+export interface EncodingCandidate {
+  format: EncodingFormat;
+  /** 0-1; a byte order mark gives 1 */
+  confidence: number;
+  /** Length of the byte order mark at the start of the input, 0 if none */
+  bomLength: number;
+}
+
+export type NormalizationForm = "nfc" | "nfd" | "nfkc" | "nfkd";
+
+export interface NormalizeOptions {
+  /** Record compatibility mappings (NFKC/NFKD) in semanticChanges (default: true) */
+  warnSemanticChange?: boolean;
+  rejectZeroWidth?: boolean;
+  rejectBidiControls?: boolean;
+  /** Maximum consecutive combining marks per base character (default: 10) */
+  maxCombiningMarks?: number;
+
+  stripAccents?: boolean;
+  caseFold?: boolean;
+  removePunctuation?: boolean;
+  compressWhitespace?: boolean;
+}
+
+export interface SemanticChange {
+  /** Codepoint offset in the input */
+  position: number;
+  original: string;
+  normalized: string;
+  reason: string;
+}
+
+export interface NormalizationResult {
+  text: string;
+  profile: NormalizationForm;
+  /** Lengths in codepoints */
+  inputLength: number;
+  outputLength: number;
+  transformationsApplied: string[];
+  semanticChanges: SemanticChange[];
+  warnings: string[];
+}
+
+export type TextSafetyIssue =
+  | "bidi_control"
+  | "zero_width"
+  | "control_character"
+  | "excessive_combining_marks"
+  | "mixed_script"
+  | "confusable";
+
+export interface TextSafetyOptions {
+  /** Throw a FulencodeError for the first finding */
+  strict?: boolean;
+  /** Permit ZWNJ/ZWJ, which shaping scripts and emoji sequences need */
+  allowJoiners?: boolean;
+  /** Permit tab, CR and LF */
+  allowNewlines?: boolean;
+  /** Maximum consecutive combining marks per base character (default: 10) */
+  maxCombiningMarks?: number;
+}
+
+export interface TextSafetyFinding {
+  type: TextSafetyIssue;
+  /** Codepoint offset in the input */
+  position: number;
+  character: string;
+  /** e.g. "U+202E" */
+  codepoint: string;
+  /** ASCII text a confusable character passes for */
+  lookalike?: string;
+  /** Scripts found in a mixed-script word, in order of appearance */
+  scripts?: string[];
+  /** Length of a combining mark run */
+  count?: number;
+}
+
+export interface TextSafetyReport {
+  safe: boolean;
+  findings: TextSafetyFinding[];
 }
@@ -0,0 +1,193 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { chunkStream, createChunker, diffChunks, merkleRoot } from "../chunker.js";
+import { Digest } from "../digest.js";
+import { DigestStateError, FulHashError, UnsupportedAlgorithmError } from "../errors.js";
+import { hash } from "../hash.js";
+import { Algorithm } from "../types.js";
+
+/**
+ * Deterministic pseudo-random bytes (xorshift32) so cut points are stable
+ */
+function randomBytes(length: number, seed = 0x9e3779b9): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    bytes[i] = state & 0xff;
+  }
+  return bytes;
+}
+
+async function* split(data: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += size) {
+    yield data.subarray(offset, offset + size);
+  }
+}
+
+const DATA = randomBytes(256 * 1024);
+
+describe("chunker", () => {
+  describe("chunkStream", () => {
+    it("should cover the input with contiguous chunks within the size bounds", async () => {
+      const result = await chunkStream(DATA);
+
+      expect(result.size).toBe(DATA.length);
+      expect(result.chunks.length).toBeGreaterThan(8);
+      let offset = 0;
+      result.chunks.forEach((chunk, index) => {
+        expect(chunk.offset).toBe(offset);
+        expect(chunk.length).toBeLessThanOrEqual(64 * 1024);
+        if (index < result.chunks.length - 1) {
+          expect(chunk.length).toBeGreaterThan(2 * 1024);
+        }
+        offset += chunk.length;
+      });
+    });
+
+    it("should hash each chunk with the chosen algorithm", async () => {
+      const result = await chunkStream(DATA, { algorithm: Algorithm.SHA256 });
+
+      for (const chunk of result.chunks.slice(0, 4)) {
+        const expected = await hash(DATA.subarray(chunk.offset, chunk.offset + chunk.length), {
+          algorithm: Algorithm.SHA256,
+        });
+        expect(chunk.digest.equals(expected)).toBe(true);
+      }
+    });
+
+    it("should find the same chunks however the stream is split", async () => {
+      const whole = await chunkStream(DATA);
+
+      for (const size of [1000, 4096, 65536 + 7]) {
+        const streamed = await chunkStream(split(DATA, size));
+        expect(streamed.formatted).toBe(whole.formatted);
+        expect(streamed.chunks.map((chunk) => chunk.length)).toEqual(
+          whole.chunks.map((chunk) => chunk.length),
+        );
+      }
+    });
+
+    it("should cut at maxSize when no content boundary is found", async () => {
+      const result = await chunkStream(new Uint8Array(100_000), {
+        minSize: 1024,
+        avgSize: 4096,
+        maxSize: 16384,
+      });
+
+      expect(result.chunks.map((chunk) => chunk.length)).toEqual([
+        16384, 16384, 16384, 16384, 16384, 16384, 1696,
+      ]);
+    });
+
+    it("should produce no chunks and the empty-input digest for empty input", async () => {
+      const result = await chunkStream(new Uint8Array(0));
+
+      expect(result.chunks).toHaveLength(0);
+      expect(result.root.equals(await hash(""))).toBe(true);
+    });
+  });
+
+  describe("Merkle root", () => {
+    it("should use domain-separated leaves and nodes", async () => {
+      const leaves = ["a", "b", "c"].map((text) => createHash("sha256").update(text).digest());
+      const digests = leaves.map((bytes) => new Digest(Algorithm.SHA256, bytes));
+      const sha = (...parts: Uint8Array[]) => {
+        const hasher = createHash("sha256");
+        for (const part of parts) hasher.update(part);
+        return hasher.digest();
+      };
+      const leaf = (bytes: Uint8Array) => sha(Uint8Array.of(0), bytes);
+      const node = (left: Uint8Array, right: Uint8Array) => sha(Uint8Array.of(1), left, right);
+      const expected = node(node(leaf(leaves[0]), leaf(leaves[1])), leaf(leaves[2]));
+
+      const root = await merkleRoot(digests);
+
+      expect(root.hex).toBe(expected.toString("hex"));
+    });
+
+    it("should match the root computed by the chunker", async () => {
+      const result = await chunkStream(DATA);
+
+      const root = await merkleRoot(result.chunks.map((chunk) => chunk.digest));
+
+      expect(root.equals(result.root)).toBe(true);
+      expect(result.formatted).toBe(`merkle-xxh3-128:${root.hex}`);
+      expect(String(result)).toBe(result.formatted);
+    });
+
+    it("should reject mixed or keyed leaves", async () => {
+      const sha = await hash("a", { algorithm: Algorithm.SHA256 });
+      const xxh = await hash("a");
+
+      await expect(merkleRoot([sha, xxh])).rejects.toThrow(FulHashError);
+      await expect(
+        merkleRoot([new Digest(Algorithm.SHA256, Uint8Array.from(sha.bytes), true)]),
+      ).rejects.toThrow(FulHashError);
+    });
+  });
+
+  describe("diffChunks", () => {
+    it("should only report chunks near an insertion as added", async () => {
+      const edited = new Uint8Array(DATA.length + 100);
+      edited.set(DATA.subarray(0, 100_000));
+      edited.set(randomBytes(100, 42), 100_000);
+      edited.set(DATA.subarray(100_000), 100_100);
+
+      const base = await chunkStream(DATA);
+      const target = await chunkStream(edited);
+      const diff = diffChunks(base, target);
+
+      expect(diff.identical).toBe(false);
+      expect(diff.added.length).toBeGreaterThanOrEqual(1);
+      expect(diff.added.length).toBeLessThanOrEqual(3);
+      expect(diff.removed.length).toBeLessThanOrEqual(3);
+      expect(diff.reusedBytes + diff.addedBytes).toBe(edited.length);
+      expect(diff.addedBytes).toBeLessThan(edited.length / 4);
+    });
+
+    it("should report identical inputs", async () => {
+      const diff = diffChunks(await chunkStream(DATA), await chunkStream(split(DATA, 3000)));
+
+      expect(diff.identical).toBe(true);
+      expect(diff.added).toHaveLength(0);
+      expect(diff.removed).toHaveLength(0);
+    });
+
+    it("should refuse to compare different algorithms", async () => {
+      const base = await chunkStream(DATA);
+      const target = await chunkStream(DATA, { algorithm: Algorithm.BLAKE3 });
+
+      expect(() => diffChunks(base, target)).toThrow(FulHashError);
+    });
+  });
+
+  describe("Chunker", () => {
+    it("should return completed chunks from update() and be reusable after reset()", async () => {
+      const chunker = await createChunker();
+      const streamed = [...chunker.update(DATA.subarray(0, 100_000))];
+      streamed.push(...chunker.update(DATA.subarray(100_000)));
+      const result = chunker.finish();
+
+      expect(streamed.length).toBeGreaterThan(0);
+      expect(result.chunks.slice(0, streamed.length)).toEqual(streamed);
+      expect(() => chunker.update("more")).toThrow(DigestStateError);
+
+      chunker.reset().update(DATA);
+      expect(chunker.finish().formatted).toBe(result.formatted);
+    });
+
+    it("should validate options", async () => {
+      await expect(createChunker({ minSize: 0 })).rejects.toThrow(FulHashError);
+      await expect(createChunker({ minSize: 9000, avgSize: 8192 })).rejects.toThrow(
+        /minSize <= avgSize <= maxSize/,
+      );
+      await expect(createChunker({ avgSize: 32, minSize: 16 })).rejects.toThrow(FulHashError);
+      await expect(createChunker({ algorithm: "whirlpool" as Algorithm })).rejects.toThrow(
+        UnsupportedAlgorithmError,
+      );
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { multiHash, verify } from "../convenience.js";
+import { Algorithm } from "../types.js";
 
 // Readable import removed to satisfy lint/unused checks
 async function* createAsyncIterable(chunks: string[]): AsyncIterable<string> {
@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { hashBytes, hashString } from "../hash.js";
 import { createStreamHasher } from "../stream.js";
+import { Algorithm } from "../types.js";
 
 describe("CRC Hashing Support", () => {
   describe("CRC32 Block", () => {
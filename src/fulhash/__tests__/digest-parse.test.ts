@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { Digest } from "../digest.js";
 import { InvalidChecksumError, InvalidChecksumFormatError } from "../errors.js";
+import { Algorithm } from "../types.js";
 
 describe("Digest", () => {
   describe("parse()", () => {
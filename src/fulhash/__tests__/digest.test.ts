@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { Digest } from "../digest.js";
+import { Algorithm } from "../types.js";
 
 describe("Digest Class", () => {
   describe("constructor", () => {
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { validateDataBySchemaId } from "../../schema/index.js";
+import { multiHash, verify } from "../convenience.js";
+import { Digest } from "../digest.js";
+import { InvalidChecksumError } from "../errors.js";
+import { hash, hashBytes, hashString } from "../hash.js";
+import { createStreamHasher } from "../stream.js";
+import { Algorithm } from "../types.js";
+
+const VECTORS = [
+  {
+    algorithm: Algorithm.SHA512,
+    empty:
+      "cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e",
+    hello:
+      "374d794a95cdcfd8b35993185fef9ba368f160d8daf432d08ba9f1ed1e5abe6cc69291e0fa2fe0006a52570ef18c19def4e617c33ce52ef0a6e5fbe318cb0387",
+  },
+  {
+    algorithm: Algorithm.SHA1,
+    empty: "da39a3ee5e6b4b0d3255bfef95601890afd80709",
+    hello: "0a0a9f2a6772942557ab5355d76af442f8f65e01",
+  },
+  {
+    algorithm: Algorithm.MD5,
+    empty: "d41d8cd98f00b204e9800998ecf8427e",
+    hello: "65a8e27d8879283831b664bd8b7f0ad4",
+  },
+  {
+    algorithm: Algorithm.BLAKE3,
+    empty: "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
+    hello: "288a86a79f20a3d6dccdca7713beaed178798296bdfa7913fa2a62d9727bf8f8",
+  },
+];
+
+describe.each(VECTORS)("$algorithm", ({ algorithm, empty, hello }) => {
+  describe("hash", () => {
+    it("should hash empty input", async () => {
+      expect((await hashString("", { algorithm })).hex).toBe(empty);
+      expect((await hashBytes(new Uint8Array(), { algorithm })).hex).toBe(empty);
+    });
+
+    it('should hash "Hello, World!"', async () => {
+      const digest = await hash("Hello, World!", { algorithm });
+
+      expect(digest.algorithm).toBe(algorithm);
+      expect(digest.hex).toBe(hello);
+      expect(digest.formatted).toBe(`${algorithm}:${hello}`);
+    });
+
+    it("should honor non-UTF-8 string encodings", async () => {
+      const hex = Buffer.from("Hello, World!").toString("hex");
+
+      expect((await hashString(hex, { algorithm, encoding: "hex" })).hex).toBe(hello);
+    });
+  });
+
+  describe("createStreamHasher", () => {
+    it("should match the block hash across multiple updates", async () => {
+      const hasher = await createStreamHasher({ algorithm });
+      const digest = hasher.update("Hello, ").update(new TextEncoder().encode("World!")).digest();
+
+      expect(digest.algorithm).toBe(algorithm);
+      expect(digest.hex).toBe(hello);
+    });
+
+    it("should be reusable after reset()", async () => {
+      const hasher = await createStreamHasher({ algorithm });
+      hasher.update("discarded").digest();
+
+      expect(hasher.reset().digest().hex).toBe(empty);
+    });
+  });
+
+  describe("multiHash and verify", () => {
+    it("should compute alongside other algorithms in one pass", async () => {
+      const result = await multiHash("Hello, World!", [algorithm, Algorithm.SHA256]);
+
+      expect(result[algorithm]?.hex).toBe(hello);
+      expect(result[Algorithm.SHA256]?.hex).toBe(
+        "dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f",
+      );
+    });
+
+    it("should verify a published checksum", async () => {
+      expect(await verify("Hello, World!", `${algorithm}:${hello}`)).toBe(true);
+      expect(await verify("Hello, World?", `${algorithm}:${hello}`)).toBe(false);
+    });
+  });
+
+  describe("Digest.parse", () => {
+    it("should round-trip the formatted digest", () => {
+      const digest = Digest.parse(`${algorithm}:${hello}`);
+
+      expect(digest.algorithm).toBe(algorithm);
+      expect(digest.bytes).toHaveLength(hello.length / 2);
+    });
+
+    it("should reject a hex digest of the wrong length", () => {
+      expect(() => Digest.parse(`${algorithm}:${hello.slice(2)}`)).toThrow(InvalidChecksumError);
+    });
+  });
+
+  describe("schemas", () => {
+    it("should match the tsfulmen digest and checksum-string schemas", async () => {
+      const digest = await hash("Hello, World!", { algorithm });
+      const payload = { ...digest.toJSON(), bytes: digest.bytes };
+
+      expect(
+        (await validateDataBySchemaId(payload, "tsfulmen/library/fulhash/v1.0.0/digest")).valid,
+      ).toBe(true);
+      expect(
+        (
+          await validateDataBySchemaId(
+            digest.formatted,
+            "tsfulmen/library/fulhash/v1.0.0/checksum-string",
+          )
+        ).valid,
+      ).toBe(true);
+    });
+  });
+});
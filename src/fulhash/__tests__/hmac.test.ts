@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { verify } from "../convenience.js";
+import { Digest } from "../digest.js";
+import { FulHashError, UnsupportedAlgorithmError } from "../errors.js";
+import { hash, hmac } from "../hash.js";
+import { createHmacHasher } from "../stream.js";
+import { Algorithm } from "../types.js";
+
+// RFC 4231 / RFC 2202 test case 1: 20 bytes of 0x0b, "Hi There"
+const KEY = new Uint8Array(20).fill(0x0b);
+const VECTORS = [
+  {
+    algorithm: Algorithm.SHA256,
+    mac: "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7",
+  },
+  {
+    algorithm: Algorithm.SHA512,
+    mac: "87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854",
+  },
+  { algorithm: Algorithm.SHA1, mac: "b617318655057264e28bc0b6fb378c8ef146be00" },
+  { algorithm: Algorithm.MD5, mac: "5ccec34ea9656392457fa1ac27f08fbc" },
+];
+
+describe("HMAC", () => {
+  describe("hmac()", () => {
+    it.each(VECTORS)("should match the RFC test vector for $algorithm", async ({
+      algorithm,
+      mac,
+    }) => {
+      const digest = await hmac(KEY, "Hi There", { algorithm });
+
+      expect(digest.algorithm).toBe(algorithm);
+      expect(digest.keyed).toBe(true);
+      expect(digest.hex).toBe(mac);
+      expect(digest.formatted).toBe(`hmac-${algorithm}:${mac}`);
+    });
+
+    it("should default to SHA-256 and accept string keys", async () => {
+      const digest = await hmac("Jefe", "what do ya want for nothing?");
+
+      expect(digest.formatted).toBe(
+        "hmac-sha256:5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+      );
+    });
+
+    it("should honor the string encoding", async () => {
+      const hex = Buffer.from("Hi There").toString("hex");
+      const digest = await hmac(KEY, hex, { encoding: "hex" });
+
+      expect(digest.hex).toBe(VECTORS[0].mac);
+    });
+
+    it("should reject algorithms without an HMAC construction", async () => {
+      await expect(hmac(KEY, "data", { algorithm: Algorithm.XXH3_128 })).rejects.toThrow(
+        UnsupportedAlgorithmError,
+      );
+      await expect(createHmacHasher(KEY, { algorithm: Algorithm.CRC32 })).rejects.toThrow(
+        UnsupportedAlgorithmError,
+      );
+    });
+  });
+
+  describe("createHmacHasher()", () => {
+    it("should match hmac() across multiple updates", async () => {
+      const hasher = await createHmacHasher(KEY, { algorithm: Algorithm.SHA512 });
+      const digest = hasher.update("Hi ").update(new TextEncoder().encode("There")).digest();
+
+      expect(digest.formatted).toBe(`hmac-sha512:${VECTORS[1].mac}`);
+    });
+
+    it("should keep the key across reset()", async () => {
+      const key = new Uint8Array(KEY);
+      const hasher = await createHmacHasher(key);
+      hasher.update("discarded").digest();
+      key.fill(0);
+
+      expect(hasher.reset().update("Hi There").digest().hex).toBe(VECTORS[0].mac);
+    });
+  });
+
+  describe("Digest", () => {
+    it("should parse and round-trip keyed digests", () => {
+      const formatted = `hmac-sha256:${VECTORS[0].mac}`;
+      const digest = Digest.parse(formatted);
+
+      expect(digest.algorithm).toBe(Algorithm.SHA256);
+      expect(digest.keyed).toBe(true);
+      expect(digest.formatted).toBe(formatted);
+    });
+
+    it("should reject keyed digests for non-HMAC algorithms", () => {
+      expect(() => Digest.parse("hmac-crc32:cbf43926")).toThrow(UnsupportedAlgorithmError);
+    });
+
+    it("should not treat keyed and plain digests of the same bytes as equal", async () => {
+      const mac = await hmac(KEY, "Hi There");
+      const plain = Digest.parse(`sha256:${mac.hex}`);
+
+      expect(mac.equals(plain)).toBe(false);
+      expect(mac.equalsConstantTime(plain)).toBe(false);
+    });
+
+    it("should compare in constant time", async () => {
+      const mac = await hmac(KEY, "Hi There");
+      const received = Digest.parse(`hmac-sha256:${VECTORS[0].mac}`);
+      const forged = Digest.parse(`hmac-sha256:${"0".repeat(64)}`);
+
+      expect(mac.equalsConstantTime(received)).toBe(true);
+      expect(mac.equalsConstantTime(forged)).toBe(false);
+      expect(mac.equalsConstantTime(new Digest(Algorithm.SHA256, new Uint8Array(4), true))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("verify()", () => {
+    it("should reject keyed checksums it has no key for", async () => {
+      const checksum = `hmac-sha256:${VECTORS[0].mac}`;
+
+      await expect(verify("Hi There", checksum)).rejects.toThrow(FulHashError);
+      await expect(Digest.verify("Hi There", checksum)).rejects.toThrow(FulHashError);
+    });
+
+    it("should still verify plain checksums", async () => {
+      const checksum = (await hash("data", { algorithm: Algorithm.SHA256 })).formatted;
+
+      expect(await verify("data", checksum)).toBe(true);
+      expect(await Digest.verify("data", checksum)).toBe(true);
+      expect(await verify("other", checksum)).toBe(false);
+    });
+  });
+});
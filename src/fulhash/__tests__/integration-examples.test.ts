@@ -2,10 +2,10 @@ import { readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { Digest } from "../digest.js";
 import { hash, hashBytes, hashString } from "../hash.js";
 import { createStreamHasher } from "../stream.js";
+import { Algorithm } from "../types.js";
 
 describe("Integration Examples", () => {
   describe("Block Hashing Examples", () => {
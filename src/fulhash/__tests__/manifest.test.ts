@@ -0,0 +1,248 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Digest } from "../digest.js";
+import { FulHashError, InvalidChecksumError } from "../errors.js";
+import {
+  createChecksumManifest,
+  formatChecksumManifest,
+  parseChecksumManifest,
+  readChecksumManifest,
+  verifyManifest,
+  writeChecksumManifest,
+  writeChecksumSidecar,
+} from "../manifest.js";
+import { Algorithm } from "../types.js";
+
+// sha256("Hello, World!") and md5("Hello, World!")
+const HELLO_SHA256 = "dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f";
+const HELLO_MD5 = "65a8e27d8879283831b664bd8b7f0ad4";
+const EMPTY_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+describe("checksum manifests", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "fulhash-manifest-"));
+    writeFileSync(join(dir, "hello.txt"), "Hello, World!");
+    mkdirSync(join(dir, "sub"));
+    writeFileSync(join(dir, "sub", "empty.bin"), "");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("formatChecksumManifest", () => {
+    const entries = [
+      { path: "hello.txt", digest: Digest.parse(`sha256:${HELLO_SHA256}`) },
+      { path: "sub/empty.bin", digest: Digest.parse(`sha256:${EMPTY_SHA256}`), binary: true },
+    ];
+
+    it("should write GNU coreutils lines", () => {
+      expect(formatChecksumManifest(entries)).toBe(
+        `${HELLO_SHA256}  hello.txt\n${EMPTY_SHA256} *sub/empty.bin\n`,
+      );
+    });
+
+    it("should write BSD tagged lines", () => {
+      expect(formatChecksumManifest(entries, { format: "bsd" })).toBe(
+        `SHA256 (hello.txt) = ${HELLO_SHA256}\nSHA256 (sub/empty.bin) = ${EMPTY_SHA256}\n`,
+      );
+    });
+
+    it("should not write BSD tags for CRC32 or CRC32C", () => {
+      for (const algorithm of [Algorithm.CRC32, Algorithm.CRC32C]) {
+        const crc = [{ path: "hello.txt", digest: Digest.parse(`${algorithm}:ec4ac3d0`) }];
+
+        expect(() => formatChecksumManifest(crc, { format: "bsd" })).toThrow(
+          new RegExp(`no tag for ${algorithm}`),
+        );
+        expect(formatChecksumManifest(crc, { format: "fulhash" })).toBe(
+          `${algorithm}:ec4ac3d0  hello.txt\n`,
+        );
+      }
+      expect(() => parseChecksumManifest("CRC32 (hello.txt) = ec4ac3d0")).toThrow(
+        /Unsupported algorithm tag/,
+      );
+    });
+
+    it("should write Digest.formatted in the fulhash format", () => {
+      const mixed = [entries[0], { path: "hello.txt", digest: Digest.parse(`md5:${HELLO_MD5}`) }];
+
+      expect(formatChecksumManifest(mixed, { format: "fulhash" })).toBe(
+        `sha256:${HELLO_SHA256}  hello.txt\nmd5:${HELLO_MD5}  hello.txt\n`,
+      );
+      expect(() => formatChecksumManifest(mixed)).toThrow(/cannot mix algorithms/);
+    });
+
+    it("should escape names containing backslashes or newlines", () => {
+      const text = formatChecksumManifest([
+        { path: "odd\\name\nx", digest: Digest.parse(`sha256:${HELLO_SHA256}`) },
+      ]);
+
+      expect(text).toBe(`\\${HELLO_SHA256}  odd\\\\name\\nx\n`);
+      expect(parseChecksumManifest(text, { algorithm: Algorithm.SHA256 })[0].path).toBe(
+        "odd\\name\nx",
+      );
+    });
+
+    it("should refuse keyed digests", () => {
+      const keyed = new Digest(Algorithm.SHA256, new Uint8Array(32), true);
+
+      expect(() => formatChecksumManifest([{ path: "a", digest: keyed }])).toThrow(FulHashError);
+    });
+  });
+
+  describe("parseChecksumManifest", () => {
+    it("should parse sha256sum output, skipping blanks and comments", () => {
+      const entries = parseChecksumManifest(
+        `# release 1.0\n${HELLO_SHA256}  hello.txt\n\n${EMPTY_SHA256} *dir/with space.bin\n`,
+        { algorithm: Algorithm.SHA256 },
+      );
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ path: "hello.txt", binary: false });
+      expect(entries[0].digest.formatted).toBe(`sha256:${HELLO_SHA256}`);
+      expect(entries[1]).toMatchObject({ path: "dir/with space.bin", binary: true });
+    });
+
+    it("should parse BSD tags and upper-case hex", () => {
+      const entries = parseChecksumManifest(
+        `MD5 (hello.txt) = ${HELLO_MD5.toUpperCase()}\r\nSHA256 (a (1).txt) = ${HELLO_SHA256}\r\n`,
+      );
+
+      expect(entries.map((entry) => entry.digest.formatted)).toEqual([
+        `md5:${HELLO_MD5}`,
+        `sha256:${HELLO_SHA256}`,
+      ]);
+      expect(entries[1].path).toBe("a (1).txt");
+    });
+
+    it("should require an algorithm for ambiguous bare hex", () => {
+      expect(() => parseChecksumManifest(`${HELLO_SHA256}  hello.txt`)).toThrow(
+        /pass options.algorithm/,
+      );
+      expect(parseChecksumManifest(`${"a".repeat(128)}  big.iso`)[0].digest.algorithm).toBe(
+        Algorithm.SHA512,
+      );
+    });
+
+    it("should reject malformed lines and checksums", () => {
+      expect(() => parseChecksumManifest("not a checksum line")).toThrow(/line 1/);
+      expect(() => parseChecksumManifest("WHIRL (a) = abcd")).toThrow(/Unsupported algorithm tag/);
+      expect(() => parseChecksumManifest("abcd  a.txt", { algorithm: Algorithm.SHA256 })).toThrow(
+        InvalidChecksumError,
+      );
+      expect(() => parseChecksumManifest(`hmac-sha256:${HELLO_SHA256}  a.txt`)).toThrow(
+        /without a key/,
+      );
+    });
+  });
+
+  describe("files", () => {
+    it("should create, write and read back a SHA256SUMS manifest", async () => {
+      const entries = await createChecksumManifest(["hello.txt", join(dir, "sub", "empty.bin")], {
+        baseDir: dir,
+      });
+      const manifestPath = join(dir, "SHA256SUMS");
+      await writeChecksumManifest(manifestPath, entries);
+
+      expect(readFileSync(manifestPath, "utf8")).toBe(
+        `${HELLO_SHA256}  hello.txt\n${EMPTY_SHA256}  sub/empty.bin\n`,
+      );
+      const parsed = await readChecksumManifest(manifestPath);
+      expect(parsed.map((entry) => entry.digest.formatted)).toEqual(
+        entries.map((entry) => entry.digest.formatted),
+      );
+    });
+
+    it("should write and read .sha256 sidecars", async () => {
+      const sidecar = await writeChecksumSidecar(join(dir, "hello.txt"));
+
+      expect(sidecar).toBe(join(dir, "hello.txt.sha256"));
+      expect(readFileSync(sidecar, "utf8")).toBe(`${HELLO_SHA256}  hello.txt\n`);
+      expect((await verifyManifest(sidecar)).ok).toBe(true);
+    });
+
+    it("should accept sidecars that hold only the digest", async () => {
+      const sidecar = join(dir, "hello.txt.md5");
+      writeFileSync(sidecar, `${HELLO_MD5}\n`);
+
+      const entries = await readChecksumManifest(sidecar);
+
+      expect(entries).toEqual([{ path: "hello.txt", digest: Digest.parse(`md5:${HELLO_MD5}`) }]);
+    });
+  });
+
+  describe("verifyManifest", () => {
+    it("should report pass, fail and missing per file", async () => {
+      const manifestPath = join(dir, "SHA256SUMS");
+      writeFileSync(
+        manifestPath,
+        [
+          `${HELLO_SHA256}  hello.txt`,
+          `${HELLO_SHA256}  sub/empty.bin`,
+          `${EMPTY_SHA256}  gone.txt`,
+          `${EMPTY_SHA256}  sub`,
+          "",
+        ].join("\n"),
+      );
+
+      const report = await verifyManifest(manifestPath);
+
+      expect(report.results.map((result) => [result.path, result.status])).toEqual([
+        ["hello.txt", "pass"],
+        ["sub/empty.bin", "fail"],
+        ["gone.txt", "missing"],
+        ["sub", "fail"],
+      ]);
+      expect(report.results[1].actual?.hex).toBe(EMPTY_SHA256);
+      expect(report.results[3].error).toMatch(/EISDIR/);
+      expect(report).toMatchObject({ ok: false, passed: 1, failed: 2, missing: 1 });
+    });
+
+    it("should check every algorithm a file is listed under", async () => {
+      const manifestPath = join(dir, "CHECKSUMS");
+      writeFileSync(
+        manifestPath,
+        `SHA256 (hello.txt) = ${HELLO_SHA256}\nMD5 (hello.txt) = ${HELLO_MD5}\n`,
+      );
+
+      const report = await verifyManifest(manifestPath);
+
+      expect(report).toMatchObject({ ok: true, passed: 2 });
+    });
+
+    it("should resolve paths against baseDir and refuse to leave it", async () => {
+      const manifestPath = join(dir, "sub", "SHA256SUMS");
+      writeFileSync(manifestPath, `${HELLO_SHA256}  hello.txt\n${HELLO_SHA256}  ../hello.txt\n`);
+
+      const fromBase = await verifyManifest(manifestPath, dir);
+      const fromManifestDir = await verifyManifest(manifestPath);
+
+      expect(fromBase.results[0].status).toBe("pass");
+      expect(fromManifestDir.results[0].status).toBe("missing");
+      expect(fromManifestDir.results[1]).toMatchObject({
+        status: "fail",
+        error: "path is outside the base directory",
+      });
+    });
+
+    it("should accept names that merely start with two dots", async () => {
+      writeFileSync(join(dir, "..hello.txt"), "Hello, World!");
+      const manifestPath = join(dir, "SHA256SUMS");
+      writeFileSync(manifestPath, `${HELLO_SHA256}  ..hello.txt\n`);
+
+      expect((await verifyManifest(manifestPath)).results[0].status).toBe("pass");
+    });
+
+    it("should reject manifests without checksum lines", async () => {
+      const manifestPath = join(dir, "SHA256SUMS");
+      writeFileSync(manifestPath, "# nothing here\n");
+
+      await expect(verifyManifest(manifestPath)).rejects.toThrow(/No checksum lines/);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Worker } from "node:worker_threads";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { FulHashError, UnsupportedAlgorithmError } from "../errors.js";
+import { hash } from "../hash.js";
+import { getDefaultHashPool, HashPool } from "../pool.js";
+import { Algorithm } from "../types.js";
+
+describe("HashPool", () => {
+  let dir: string;
+  let pool: HashPool;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "fulhash-pool-"));
+    writeFileSync(join(dir, "hello.txt"), "Hello, World!");
+    for (let i = 0; i < 12; i++) {
+      writeFileSync(join(dir, `file-${i}.bin`), Buffer.alloc(64 * 1024 + i, i));
+    }
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+  });
+
+  it.each(Object.values(Algorithm))("should match hash() for %s", async (algorithm) => {
+    pool = new HashPool({ size: 1 });
+    const digest = await pool.hashFile(join(dir, "hello.txt"), { algorithm });
+
+    expect(digest.formatted).toBe((await hash("Hello, World!", { algorithm })).formatted);
+  });
+
+  it("should default to XXH3-128", async () => {
+    pool = new HashPool({ size: 1 });
+    const digest = await pool.hashFile(join(dir, "hello.txt"));
+
+    expect(digest.algorithm).toBe(Algorithm.XXH3_128);
+  });
+
+  it("should queue more files than workers and spawn at most size threads", async () => {
+    pool = new HashPool({ size: 2 });
+    const files = Array.from({ length: 12 }, (_, i) => join(dir, `file-${i}.bin`));
+
+    const digests = await Promise.all(
+      files.map((file) => pool.hashFile(file, { algorithm: Algorithm.SHA256 })),
+    );
+
+    expect(pool.threads).toBe(2);
+    expect(pool.degraded).toBe(false);
+    for (let i = 0; i < files.length; i++) {
+      const expected = await hash(Buffer.alloc(64 * 1024 + i, i), {
+        algorithm: Algorithm.SHA256,
+      });
+      expect(digests[i].hex).toBe(expected.hex);
+    }
+  });
+
+  it("should reject unreadable files and keep serving", async () => {
+    pool = new HashPool({ size: 1 });
+
+    await expect(pool.hashFile(join(dir, "missing.txt"))).rejects.toThrow(/ENOENT/);
+    await expect(pool.hashFile(dir)).rejects.toThrow(FulHashError);
+    await expect(pool.hashFile(join(dir, "hello.txt"))).resolves.toBeDefined();
+  });
+
+  it("should reject unsupported algorithms before dispatching", async () => {
+    pool = new HashPool({ size: 1 });
+
+    await expect(
+      pool.hashFile(join(dir, "hello.txt"), { algorithm: "whirlpool" as Algorithm }),
+    ).rejects.toThrow(UnsupportedAlgorithmError);
+    expect(pool.threads).toBe(0);
+  });
+
+  it("should reject pending and new tasks once closed", async () => {
+    pool = new HashPool({ size: 1 });
+    const files = Array.from({ length: 4 }, (_, i) => join(dir, `file-${i}.bin`));
+    const pending = files.map((file) => pool.hashFile(file).catch((error: unknown) => error));
+
+    await pool.close();
+
+    const results = await Promise.all(pending);
+    expect(results.some((result) => result instanceof FulHashError)).toBe(true);
+    await expect(pool.hashFile(files[0])).rejects.toThrow("HashPool is closed");
+    expect(pool.threads).toBe(0);
+  });
+
+  it.each([
+    ["exits", (worker: Worker) => void worker.terminate()],
+    ["errors", (worker: Worker) => worker.emit("error", new Error("worker crashed"))],
+  ])("should re-run the file on the calling thread when a worker %s mid-task", async (_, crash) => {
+    pool = new HashPool({ size: 2 });
+    const files = Array.from({ length: 4 }, (_, i) => join(dir, `file-${i}.bin`));
+
+    const pending = files.map((file) => pool.hashFile(file, { algorithm: Algorithm.SHA256 }));
+    crash((pool as unknown as { workers: { worker: Worker }[] }).workers[0].worker);
+    const digests = await Promise.all(pending);
+
+    expect(pool.degraded).toBe(true);
+    for (let i = 0; i < files.length; i++) {
+      const expected = await hash(Buffer.alloc(64 * 1024 + i, i), {
+        algorithm: Algorithm.SHA256,
+      });
+      expect(digests[i].hex).toBe(expected.hex);
+    }
+    await expect(pool.hashFile(join(dir, "missing.txt"))).rejects.toThrow(FulHashError);
+    expect((await pool.hashFile(join(dir, "hello.txt"))).algorithm).toBe(Algorithm.XXH3_128);
+  });
+
+  it("should size the pool from options", () => {
+    expect(new HashPool({ size: 3 }).size).toBe(3);
+    expect(new HashPool({ size: 0 }).size).toBe(1);
+    expect(new HashPool().size).toBeGreaterThanOrEqual(1);
+  });
+
+  it("should share one default pool", () => {
+    expect(getDefaultHashPool()).toBe(getDefaultHashPool());
+  });
+});
@@ -1,5 +1,4 @@
 import { describe, expect, it } from "vitest";
-import type { Digest } from "../../crucible/fulhash/types.js";
 import type { HashOptions, StreamHasher, StreamHasherOptions } from "../definitions.js";
 import {
   Algorithm,
@@ -8,6 +7,7 @@ import {
   InvalidChecksumError,
   UnsupportedAlgorithmError,
 } from "../index.js";
+import type { Digest } from "../types.js";
 
 describe("Type Contracts", () => {
   describe("Algorithm enum", () => {
@@ -27,9 +27,16 @@ describe("Type Contracts", () => {
       expect(Algorithm.CRC32C).toBe("crc32c");
     });
 
-    it("should have exactly 4 algorithms", () => {
+    it("should have legacy and modern digest values", () => {
+      expect(Algorithm.SHA512).toBe("sha512");
+      expect(Algorithm.SHA1).toBe("sha1");
+      expect(Algorithm.MD5).toBe("md5");
+      expect(Algorithm.BLAKE3).toBe("blake3");
+    });
+
+    it("should have exactly 8 algorithms", () => {
       const algorithms = Object.values(Algorithm);
-      expect(algorithms).toHaveLength(4);
+      expect(algorithms).toHaveLength(8);
       expect(algorithms).toContain("xxh3-128");
       expect(algorithms).toContain("sha256");
       expect(algorithms).toContain("crc32");
@@ -0,0 +1,49 @@
+import type { IHasher } from "hash-wasm";
+import { blake3, createBLAKE3 } from "hash-wasm";
+
+/**
+ * Convert hex string to Uint8Array
+ * @internal
+ */
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Hash bytes using BLAKE3 (256-bit output)
+ *
+ * @param data - Input data as Uint8Array
+ * @returns Hash digest as Uint8Array (32 bytes)
+ */
+export async function hashBytes(data: Uint8Array): Promise<Uint8Array> {
+  const hex = await blake3(data);
+  return hexToBytes(hex);
+}
+
+/**
+ * Hash string using BLAKE3 (256-bit output)
+ *
+ * @param str - Input string
+ * @param encoding - Character encoding (non-UTF-8 input is converted via Buffer)
+ * @returns Hash digest as Uint8Array (32 bytes)
+ */
+export async function hashString(
+  str: string,
+  encoding: BufferEncoding = "utf8",
+): Promise<Uint8Array> {
+  if (encoding !== "utf8") {
+    // hash-wasm only supports string input as UTF-8
+    const hex = await blake3(Buffer.from(str, encoding));
+    return hexToBytes(hex);
+  }
+  const hex = await blake3(str);
+  return hexToBytes(hex);
+}
+
+export async function createHasher(): Promise<IHasher> {
+  return createBLAKE3();
+}
@@ -0,0 +1,435 @@
+/**
+ * Content-defined chunking and Merkle tree digests
+ *
+ * Splits a byte stream into content-defined chunks with FastCDC (gear rolling
+ * hash with normalized chunking), hashes each chunk with a regular StreamHasher
+ * and combines the chunk digests into a Merkle root. Because cut points depend
+ * on content rather than offsets, an insertion or deletion only changes the
+ * chunks around it, so two versions of a file can be diffed chunk by chunk.
+ */
+
+import { createHash } from "node:crypto";
+import type { StreamHasher } from "./definitions.js";
+import type { Digest } from "./digest.js";
+import { DigestStateError, FulHashError } from "./errors.js";
+import { createStreamHasher } from "./stream.js";
+import { Algorithm } from "./types.js";
+
+/**
+ * Prefix marking a Merkle root in its formatted string, e.g. "merkle-sha256:..."
+ */
+export const MERKLE_PREFIX = "merkle-";
+
+// FastCDC defaults from the paper: 2 KiB / 8 KiB / 64 KiB
+const DEFAULT_MIN_SIZE = 2 * 1024;
+const DEFAULT_AVG_SIZE = 8 * 1024;
+const DEFAULT_MAX_SIZE = 64 * 1024;
+
+// Domain separation between Merkle leaves and interior nodes (as in RFC 6962)
+const LEAF_PREFIX = Uint8Array.of(0x00);
+const NODE_PREFIX = Uint8Array.of(0x01);
+
+export interface ChunkerOptions {
+  /** Algorithm for chunk digests and the Merkle tree (default: XXH3_128) */
+  algorithm?: Algorithm;
+  /** Smallest chunk in bytes, except the final one (default: 2048) */
+  minSize?: number;
+  /** Target average chunk size in bytes (default: 8192) */
+  avgSize?: number;
+  /** Largest chunk in bytes (default: 65536) */
+  maxSize?: number;
+}
+
+/**
+ * A content-defined chunk of the input
+ */
+export interface Chunk {
+  /** Byte offset of the chunk in the input */
+  offset: number;
+  /** Chunk length in bytes */
+  length: number;
+  /** Digest of the chunk bytes */
+  digest: Digest;
+}
+
+/**
+ * Result of comparing two chunk lists
+ */
+export interface ChunkDiff {
+  /** True when both inputs have the same Merkle root */
+  identical: boolean;
+  /** Target chunks whose content also appears in the base */
+  reused: Chunk[];
+  /** Target chunks whose content does not appear in the base */
+  added: Chunk[];
+  /** Base chunks whose content no longer appears in the target */
+  removed: Chunk[];
+  /** Total bytes of reused chunks */
+  reusedBytes: number;
+  /** Total bytes of added chunks */
+  addedBytes: number;
+}
+
+let gearTable: Uint32Array | undefined;
+
+/**
+ * Gear table: entry i is the first 4 bytes (big-endian) of SHA-256 of byte i,
+ * so it is reproducible in any language without shipping the table.
+ * @internal
+ */
+function getGearTable(): Uint32Array {
+  if (!gearTable) {
+    gearTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      gearTable[i] = createHash("sha256").update(Uint8Array.of(i)).digest().readUInt32BE(0);
+    }
+  }
+  return gearTable;
+}
+
+/**
+ * Mask selecting the top `bits` bits of the 32-bit fingerprint; the gear hash
+ * shifts left, so the high bits depend on the most recent 32 bytes.
+ * @internal
+ */
+function topBitsMask(bits: number): number {
+  return bits <= 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+}
+
+/**
+ * Helper: Validate chunk sizes and fill in defaults
+ */
+function resolveSizes(options: ChunkerOptions): { min: number; avg: number; max: number } {
+  const min = options.minSize ?? DEFAULT_MIN_SIZE;
+  const avg = options.avgSize ?? DEFAULT_AVG_SIZE;
+  const max = options.maxSize ?? DEFAULT_MAX_SIZE;
+
+  for (const [name, value] of [
+    ["minSize", min],
+    ["avgSize", avg],
+    ["maxSize", max],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new FulHashError(`Chunker ${name} must be a positive integer, got ${value}`);
+    }
+  }
+  if (!(min <= avg && avg <= max)) {
+    throw new FulHashError(
+      `Chunker sizes must satisfy minSize <= avgSize <= maxSize, got ${min}/${avg}/${max}`,
+    );
+  }
+  if (avg < 64) {
+    throw new FulHashError(`Chunker avgSize must be at least 64 bytes, got ${avg}`);
+  }
+
+  return { min, avg, max };
+}
+
+/**
+ * Helper: Merkle root over chunk digests using the given hasher
+ *
+ * Leaves are H(0x00 || chunk digest), interior nodes H(0x01 || left || right);
+ * an odd node at the end of a level is carried up unchanged. No chunks (empty
+ * input) gives H("").
+ */
+function computeMerkleRoot(hasher: StreamHasher, digests: readonly Digest[]): Digest {
+  if (digests.length === 0) {
+    return hasher.reset().digest();
+  }
+
+  let level = digests.map((digest) =>
+    hasher.reset().update(LEAF_PREFIX).update(Uint8Array.from(digest.bytes)).digest(),
+  );
+  while (level.length > 1) {
+    const next: Digest[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      next.push(
+        hasher
+          .reset()
+          .update(NODE_PREFIX)
+          .update(Uint8Array.from(level[i].bytes))
+          .update(Uint8Array.from(level[i + 1].bytes))
+          .digest(),
+      );
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Chunk list and Merkle root of an input
+ */
+export class ChunkedDigest {
+  readonly algorithm: Algorithm;
+  /** Total input size in bytes */
+  readonly size: number;
+  readonly chunks: readonly Chunk[];
+  readonly root: Digest;
+  /** "merkle-<algorithm>:<hex>" */
+  readonly formatted: string;
+
+  constructor(algorithm: Algorithm, chunks: readonly Chunk[], root: Digest) {
+    this.algorithm = algorithm;
+    this.chunks = Object.freeze([...chunks]);
+    this.size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+    this.root = root;
+    this.formatted = `${MERKLE_PREFIX}${algorithm}:${root.hex}`;
+    Object.freeze(this);
+  }
+
+  toJSON(): object {
+    return {
+      algorithm: this.algorithm,
+      size: this.size,
+      root: this.formatted,
+      chunks: this.chunks.map((chunk) => ({
+        offset: chunk.offset,
+        length: chunk.length,
+        digest: chunk.digest.formatted,
+      })),
+    };
+  }
+
+  toString(): string {
+    return this.formatted;
+  }
+}
+
+/**
+ * Incremental content-defined chunker; create with createChunker()
+ *
+ * update() returns the chunks completed by the new data; finish() flushes the
+ * final chunk and returns the chunk list with its Merkle root.
+ */
+export class Chunker {
+  readonly algorithm: Algorithm;
+  private readonly hasher: StreamHasher;
+  private readonly gear = getGearTable();
+  private readonly minSize: number;
+  private readonly avgSize: number;
+  private readonly maxSize: number;
+  private readonly maskSmall: number;
+  private readonly maskLarge: number;
+  private chunks: Chunk[] = [];
+  private pending = new Uint8Array(0);
+  private offset = 0;
+  private scanned = 0;
+  private fingerprint = 0;
+  private finished = false;
+
+  /** @internal use createChunker() */
+  constructor(algorithm: Algorithm, hasher: StreamHasher, options: ChunkerOptions = {}) {
+    const { min, avg, max } = resolveSizes(options);
+    this.algorithm = algorithm;
+    this.hasher = hasher;
+    this.minSize = min;
+    this.avgSize = avg;
+    this.maxSize = max;
+
+    // Normalized chunking (level 2): stricter mask before avgSize, looser after
+    const bits = Math.round(Math.log2(avg));
+    this.maskSmall = topBitsMask(bits + 2);
+    this.maskLarge = topBitsMask(bits - 2);
+    this.scanned = this.minSize;
+  }
+
+  /**
+   * Feed more input; returns the chunks it completed (possibly none)
+   */
+  update(data: string | Uint8Array): Chunk[] {
+    if (this.finished) {
+      throw new DigestStateError("update after finish()");
+    }
+
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+    if (bytes.length === 0) {
+      return [];
+    }
+    const combined = new Uint8Array(this.pending.length + bytes.length);
+    combined.set(this.pending);
+    combined.set(bytes, this.pending.length);
+    this.pending = combined;
+
+    const emitted: Chunk[] = [];
+    let start = 0;
+    while (start + this.scanned < this.pending.length) {
+      const cut = this.findCut(start);
+      if (cut === undefined) {
+        break;
+      }
+      emitted.push(this.emit(this.pending.subarray(start, start + cut)));
+      start += cut;
+    }
+    this.pending = this.pending.slice(start);
+    return emitted;
+  }
+
+  /**
+   * Flush the final chunk and compute the Merkle root
+   */
+  finish(): ChunkedDigest {
+    if (this.finished) {
+      throw new DigestStateError("finish() twice");
+    }
+    if (this.pending.length > 0) {
+      this.emit(this.pending);
+      this.pending = new Uint8Array(0);
+    }
+    this.finished = true;
+
+    const root = computeMerkleRoot(
+      this.hasher,
+      this.chunks.map((chunk) => chunk.digest),
+    );
+    return new ChunkedDigest(this.algorithm, this.chunks, root);
+  }
+
+  /**
+   * Discard all state so the chunker can process a new input
+   */
+  reset(): Chunker {
+    this.chunks = [];
+    this.pending = new Uint8Array(0);
+    this.offset = 0;
+    this.scanned = this.minSize;
+    this.fingerprint = 0;
+    this.finished = false;
+    return this;
+  }
+
+  /**
+   * Helper: Continue scanning the current chunk (starting at `start` in the
+   * pending buffer); returns its length once a cut point is found
+   */
+  private findCut(start: number): number | undefined {
+    const gear = this.gear;
+    const pending = this.pending;
+    const available = pending.length - start;
+    let fingerprint = this.fingerprint;
+    let scanned = this.scanned;
+    let length: number | undefined;
+
+    while (scanned < available) {
+      if (scanned >= this.maxSize) {
+        length = this.maxSize;
+        break;
+      }
+      const mask = scanned < this.avgSize ? this.maskSmall : this.maskLarge;
+      fingerprint = ((fingerprint << 1) + gear[pending[start + scanned]]) >>> 0;
+      scanned++;
+      if ((fingerprint & mask) === 0 || scanned >= this.maxSize) {
+        length = scanned;
+        break;
+      }
+    }
+
+    if (length === undefined) {
+      this.fingerprint = fingerprint;
+      this.scanned = scanned;
+    } else {
+      this.fingerprint = 0;
+      this.scanned = this.minSize;
+    }
+    return length;
+  }
+
+  /**
+   * Helper: Hash and record a completed chunk
+   */
+  private emit(bytes: Uint8Array): Chunk {
+    const chunk: Chunk = {
+      offset: this.offset,
+      length: bytes.length,
+      digest: this.hasher.reset().update(bytes).digest(),
+    };
+    this.offset += bytes.length;
+    this.chunks.push(chunk);
+    return chunk;
+  }
+}
+
+/**
+ * Create an incremental content-defined chunker
+ *
+ * Throws FulHashError for invalid sizes and UnsupportedAlgorithmError for
+ * unknown algorithms.
+ */
+export async function createChunker(options: ChunkerOptions = {}): Promise<Chunker> {
+  const algorithm = options.algorithm ?? Algorithm.XXH3_128;
+  const hasher = await createStreamHasher({ algorithm });
+  return new Chunker(algorithm, hasher, options);
+}
+
+/**
+ * Chunk a whole input (bytes, string or stream such as fs.createReadStream)
+ */
+export async function chunkStream(
+  input: string | Uint8Array | AsyncIterable<string | Uint8Array>,
+  options: ChunkerOptions = {},
+): Promise<ChunkedDigest> {
+  const chunker = await createChunker(options);
+  if (typeof input === "string" || input instanceof Uint8Array) {
+    chunker.update(input);
+  } else {
+    for await (const data of input) {
+      chunker.update(data);
+    }
+  }
+  return chunker.finish();
+}
+
+/**
+ * Merkle root over existing chunk digests (e.g. a stored chunk list)
+ *
+ * All digests must be unkeyed and use the same algorithm; with no digests the
+ * algorithm defaults to XXH3_128.
+ */
+export async function merkleRoot(
+  digests: readonly Digest[],
+  algorithm: Algorithm = digests[0]?.algorithm ?? Algorithm.XXH3_128,
+): Promise<Digest> {
+  for (const digest of digests) {
+    if (digest.keyed || digest.algorithm !== algorithm) {
+      throw new FulHashError(
+        `Merkle leaves must be unkeyed ${algorithm} digests, got ${digest.formatted}`,
+      );
+    }
+  }
+  return computeMerkleRoot(await createStreamHasher({ algorithm }), digests);
+}
+
+/**
+ * Compare two chunked inputs by chunk content
+ *
+ * Chunks are matched by digest regardless of offset, so `added` is what must
+ * be transferred to turn `base` into `target`.
+ */
+export function diffChunks(base: ChunkedDigest, target: ChunkedDigest): ChunkDiff {
+  if (base.algorithm !== target.algorithm) {
+    throw new FulHashError(
+      `Cannot diff chunks hashed with ${base.algorithm} and ${target.algorithm}`,
+    );
+  }
+
+  const baseDigests = new Set(base.chunks.map((chunk) => chunk.digest.formatted));
+  const targetDigests = new Set(target.chunks.map((chunk) => chunk.digest.formatted));
+
+  const reused = target.chunks.filter((chunk) => baseDigests.has(chunk.digest.formatted));
+  const added = target.chunks.filter((chunk) => !baseDigests.has(chunk.digest.formatted));
+  const removed = base.chunks.filter((chunk) => !targetDigests.has(chunk.digest.formatted));
+  const sum = (chunks: Chunk[]) => chunks.reduce((total, chunk) => total + chunk.length, 0);
+
+  return {
+    identical: base.root.equals(target.root),
+    reused,
+    added,
+    removed,
+    reusedBytes: sum(reused),
+    addedBytes: sum(added),
+  };
+}
@@ -1,7 +1,7 @@
-import type { Algorithm } from "../crucible/fulhash/types.js";
 import type { MultiHashResult, StreamHasher } from "./definitions.js";
-import { Digest } from "./digest.js";
+import { assertUnkeyed, Digest } from "./digest.js";
 import { createStreamHasher } from "./stream.js";
+import type { Algorithm } from "./types.js";
 
 export type HashInput = string | Uint8Array | AsyncIterable<string | Uint8Array>;
 
@@ -61,7 +61,8 @@ export async function multiHash(
 
 /**
  * Verify data against a formatted checksum (e.g. "sha256:abc...").
- * Automatically selects the algorithm from the checksum prefix.
+ * Automatically selects the algorithm from the checksum prefix and compares
+ * in constant time. Keyed ("hmac-...") checksums are rejected; use hmac().
  */
 export async function verify(
   input: HashInput,
@@ -69,9 +70,10 @@ export async function verify(
   encoding: BufferEncoding = "utf8",
 ): Promise<boolean> {
   const expected = Digest.parse(checksum);
+  assertUnkeyed(expected);
   const result = await multiHash(input, [expected.algorithm], encoding);
   const actual = result[expected.algorithm];
 
   if (!actual) return false;
-  return actual.algorithm === expected.algorithm && actual.hex === expected.hex;
+  return actual.equalsConstantTime(expected);
 }
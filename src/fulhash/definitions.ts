@@ -1,4 +1,5 @@
-import type { Algorithm, Digest } from "../crucible/fulhash/types.js";
+import type { Digest } from "./digest.js";
+import type { Algorithm } from "./types.js";
 
 export interface HashOptions {
   algorithm?: Algorithm;
@@ -2,26 +2,48 @@
  * Digest implementation - immutable hash result container
  */
 
-import { Algorithm, type Digest as DigestInterface } from "../crucible/fulhash/types.js";
+import { timingSafeEqual } from "node:crypto";
 import {
+  FulHashError,
   InvalidChecksumError,
   InvalidChecksumFormatError,
   UnsupportedAlgorithmError,
 } from "./errors.js";
+import { Algorithm, type Digest as DigestInterface } from "./types.js";
+
+/**
+ * Prefix marking a keyed (HMAC) digest in its formatted string, e.g. "hmac-sha256:..."
+ */
+export const HMAC_PREFIX = "hmac-";
+
+/**
+ * Algorithms usable for HMAC (those backed by node:crypto)
+ */
+export const HMAC_ALGORITHMS: readonly Algorithm[] = [
+  Algorithm.SHA256,
+  Algorithm.SHA512,
+  Algorithm.SHA1,
+  Algorithm.MD5,
+];
 
 export class Digest implements DigestInterface {
   readonly algorithm: Algorithm;
+  readonly keyed: boolean;
   private readonly _bytes: Uint8Array;
   readonly hex: string;
   readonly formatted: string;
 
-  constructor(algorithm: Algorithm, bytes: Uint8Array) {
+  /**
+   * @param keyed - true for HMAC digests; formatted gets the "hmac-" prefix
+   */
+  constructor(algorithm: Algorithm, bytes: Uint8Array, keyed = false) {
     this.algorithm = algorithm;
+    this.keyed = keyed;
     this._bytes = new Uint8Array(bytes);
     this.hex = Array.from(this._bytes)
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
-    this.formatted = `${this.algorithm}:${this.hex}`;
+    this.formatted = `${keyed ? HMAC_PREFIX : ""}${this.algorithm}:${this.hex}`;
     Object.freeze(this);
   }
 
@@ -52,7 +74,14 @@ export class Digest implements DigestInterface {
       throw new InvalidChecksumFormatError(formatted, "invalid format");
     }
 
-    const algorithm = algorithmStr as Algorithm;
+    const keyed = algorithmStr.startsWith(HMAC_PREFIX);
+    const algorithm = (keyed ? algorithmStr.slice(HMAC_PREFIX.length) : algorithmStr) as Algorithm;
+    if (keyed && !HMAC_ALGORITHMS.includes(algorithm)) {
+      throw new UnsupportedAlgorithmError(
+        algorithmStr,
+        HMAC_ALGORITHMS.map((a) => `${HMAC_PREFIX}${a}`),
+      );
+    }
     if (!Object.values(Algorithm).includes(algorithm)) {
       throw new UnsupportedAlgorithmError(algorithm, Object.values(Algorithm));
     }
@@ -70,8 +99,18 @@ export class Digest implements DigestInterface {
         expectedLength = 32;
         break;
       case Algorithm.SHA256:
+      case Algorithm.BLAKE3:
         expectedLength = 64;
         break;
+      case Algorithm.SHA512:
+        expectedLength = 128;
+        break;
+      case Algorithm.SHA1:
+        expectedLength = 40;
+        break;
+      case Algorithm.MD5:
+        expectedLength = 32;
+        break;
       case Algorithm.CRC32:
       case Algorithm.CRC32C:
         expectedLength = 8;
@@ -93,11 +132,11 @@ export class Digest implements DigestInterface {
       bytes[i / 2] = Number.parseInt(hex.slice(i, i + 2), 16);
     }
 
-    return new Digest(algorithm, bytes);
+    return new Digest(algorithm, bytes, keyed);
   }
 
   equals(other: Digest): boolean {
-    if (this.algorithm !== other.algorithm) {
+    if (this.algorithm !== other.algorithm || this.keyed !== other.keyed) {
       return false;
     }
     if (this.hex !== other.hex) {
@@ -106,10 +145,40 @@ export class Digest implements DigestInterface {
     return true;
   }
 
+  /**
+   * Compare two digests in time independent of where their bytes differ
+   *
+   * Use this when either side is secret or attacker-supplied (HMAC signatures,
+   * published checksums). Algorithm, keyed flag and length are not secret and
+   * are compared first.
+   */
+  equalsConstantTime(other: Digest): boolean {
+    if (this.algorithm !== other.algorithm || this.keyed !== other.keyed) {
+      return false;
+    }
+    if (this._bytes.length !== other._bytes.length) {
+      return false;
+    }
+    return timingSafeEqual(this._bytes, other._bytes);
+  }
+
   static async verify(data: string | Uint8Array, checksum: string): Promise<boolean> {
     const expected = Digest.parse(checksum);
+    assertUnkeyed(expected);
     const { hash } = await import("./hash.js");
     const actual = await hash(data, { algorithm: expected.algorithm });
-    return actual.equals(expected);
+    return actual.equalsConstantTime(expected);
+  }
+}
+
+/**
+ * Reject keyed checksums in verify(), which has no key to recompute them with
+ * @internal
+ */
+export function assertUnkeyed(expected: Digest): void {
+  if (expected.keyed) {
+    throw new FulHashError(
+      `Cannot verify "${expected.formatted}" without a key. Use hmac() and equalsConstantTime().`,
+    );
   }
 }
@@ -0,0 +1,32 @@
+/**
+ * FulHash pool worker
+ *
+ * Runs in a worker thread spawned by HashPool: hashes one file per message
+ * with the same stream hashers used on the calling thread and posts the raw
+ * digest bytes back. The bundled build ships it as dist/fulhash/hash-worker.js;
+ * from the TypeScript source HashPool starts it through the tsx loader.
+ */
+
+import { parentPort } from "node:worker_threads";
+import { hashFileStream } from "./stream.js";
+import type { Algorithm } from "./types.js";
+
+/**
+ * Message posted by HashPool
+ */
+interface HashRequest {
+  id: number;
+  path: string;
+  algorithm: Algorithm;
+}
+
+parentPort?.on("message", (request: HashRequest) => {
+  hashFileStream(request.path, request.algorithm).then(
+    (digest) => parentPort?.postMessage({ id: request.id, bytes: new Uint8Array(digest.bytes) }),
+    (error: unknown) =>
+      parentPort?.postMessage({
+        id: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+  );
+});
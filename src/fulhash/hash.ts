@@ -2,14 +2,19 @@
  * Block hashing helpers for one-shot hashing operations
  */
 
-import { Algorithm } from "../crucible/fulhash/types.js";
+import { createHmac } from "node:crypto";
+import * as blake3 from "./algorithms/blake3.js";
 import * as crc32 from "./algorithms/crc32.js";
 import * as crc32c from "./algorithms/crc32c.js";
+import * as md5 from "./algorithms/md5.js";
+import * as sha1 from "./algorithms/sha1.js";
 import * as sha256 from "./algorithms/sha256.js";
+import * as sha512 from "./algorithms/sha512.js";
 import * as xxh3 from "./algorithms/xxh3.js";
 import type { HashOptions } from "./definitions.js";
-import { Digest } from "./digest.js";
+import { Digest, HMAC_ALGORITHMS } from "./digest.js";
 import { UnsupportedAlgorithmError } from "./errors.js";
+import { Algorithm } from "./types.js";
 
 export async function hash(input: string | Uint8Array, options?: HashOptions): Promise<Digest> {
   const algorithm = options?.algorithm ?? Algorithm.XXH3_128;
@@ -51,6 +56,34 @@ export async function hash(input: string | Uint8Array, options?: HashOptions): P
         bytes = await crc32c.hashBytes(input);
       }
       break;
+    case Algorithm.SHA512:
+      if (typeof input === "string") {
+        bytes = sha512.hashString(input, encoding);
+      } else {
+        bytes = sha512.hashBytes(input);
+      }
+      break;
+    case Algorithm.SHA1:
+      if (typeof input === "string") {
+        bytes = sha1.hashString(input, encoding);
+      } else {
+        bytes = sha1.hashBytes(input);
+      }
+      break;
+    case Algorithm.MD5:
+      if (typeof input === "string") {
+        bytes = md5.hashString(input, encoding);
+      } else {
+        bytes = md5.hashBytes(input);
+      }
+      break;
+    case Algorithm.BLAKE3:
+      if (typeof input === "string") {
+        bytes = await blake3.hashString(input, encoding);
+      } else {
+        bytes = await blake3.hashBytes(input);
+      }
+      break;
     default:
       throw new UnsupportedAlgorithmError(algorithm, Object.values(Algorithm));
   }
@@ -65,3 +98,29 @@ export async function hashString(str: string, options?: HashOptions): Promise<Di
 export async function hashBytes(data: Uint8Array, options?: HashOptions): Promise<Digest> {
   return hash(data, options);
 }
+
+/**
+ * Compute a keyed HMAC digest (formatted as "hmac-<algorithm>:<hex>")
+ *
+ * Defaults to SHA-256. Only node:crypto-backed algorithms (SHA-256, SHA-512,
+ * SHA-1, MD5) are supported. Compare the result against a received signature
+ * with equalsConstantTime(), never equals().
+ */
+export async function hmac(
+  key: string | Uint8Array,
+  input: string | Uint8Array,
+  options?: HashOptions,
+): Promise<Digest> {
+  const algorithm = options?.algorithm ?? Algorithm.SHA256;
+  if (!HMAC_ALGORITHMS.includes(algorithm)) {
+    throw new UnsupportedAlgorithmError(algorithm, [...HMAC_ALGORITHMS]);
+  }
+
+  const mac = createHmac(algorithm, key);
+  if (typeof input === "string") {
+    mac.update(input, options?.encoding ?? "utf8");
+  } else {
+    mac.update(input);
+  }
+  return new Digest(algorithm, new Uint8Array(mac.digest()), true);
+}
@@ -1,13 +1,26 @@
 /**
  * FulHash - Consistent hashing API for Fulmen ecosystem
  *
- * Provides block and streaming hashing with XXH3-128, SHA-256, CRC32, and CRC32C algorithms.
+ * Provides block and streaming hashing with XXH3-128, SHA-256, CRC32, and CRC32C algorithms,
+ * plus SHA-512, SHA-1, MD5 and BLAKE3 for verifying artifacts published with other digests.
+ * Content-defined chunking with Merkle roots supports chunk-level diffs of large files.
  * Cross-language compatible with gofulmen and pyfulmen.
  */
 
 export const VERSION = "1.0.0";
 
-export * from "../crucible/fulhash/types.js";
+export {
+  type Chunk,
+  type ChunkDiff,
+  ChunkedDigest,
+  Chunker,
+  type ChunkerOptions,
+  chunkStream,
+  createChunker,
+  diffChunks,
+  MERKLE_PREFIX,
+  merkleRoot,
+} from "./chunker.js";
 export { type HashInput, multiHash, verify } from "./convenience.js";
 export type {
   HashOptions,
@@ -22,5 +35,30 @@ export {
   InvalidChecksumFormatError,
   UnsupportedAlgorithmError,
 } from "./errors.js";
-export { hash, hashBytes, hashString } from "./hash.js";
-export { createStreamHasher } from "./stream.js";
+export { hash, hashBytes, hashString, hmac } from "./hash.js";
+export {
+  type ChecksumManifestEntry,
+  type ChecksumManifestFormat,
+  type CreateChecksumManifestOptions,
+  createChecksumManifest,
+  type FormatChecksumManifestOptions,
+  formatChecksumManifest,
+  type ManifestEntryResult,
+  type ManifestEntryStatus,
+  type ManifestVerificationReport,
+  type ParseChecksumManifestOptions,
+  parseChecksumManifest,
+  readChecksumManifest,
+  SIDECAR_EXTENSIONS,
+  verifyManifest,
+  writeChecksumManifest,
+  writeChecksumSidecar,
+} from "./manifest.js";
+export {
+  getDefaultHashPool,
+  type HashFileOptions,
+  HashPool,
+  type HashPoolOptions,
+} from "./pool.js";
+export { createHmacHasher, createStreamHasher } from "./stream.js";
+export * from "./types.js";
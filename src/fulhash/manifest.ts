@@ -0,0 +1,474 @@
+/**
+ * Checksum manifests - SHA256SUMS files and .sha256 sidecars
+ *
+ * Reads and writes the line formats of GNU coreutils (`<hex>  <path>`), BSD
+ * tagged output (`SHA256 (<path>) = <hex>`, also `sha256sum --tag`) and a
+ * fulhash flavor that uses `Digest.formatted` as the checksum field so one
+ * manifest can mix algorithms. verifyManifest() checks every listed file.
+ */
+
+import { createReadStream } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import { multiHash } from "./convenience.js";
+import { Digest } from "./digest.js";
+import { FulHashError } from "./errors.js";
+import { getDefaultHashPool, type HashPool } from "./pool.js";
+import { Algorithm } from "./types.js";
+
+export type ChecksumManifestFormat = "gnu" | "bsd" | "fulhash";
+
+/**
+ * One line of a checksum manifest
+ */
+export interface ChecksumManifestEntry {
+  /** Path as listed, relative to the manifest's base directory */
+  path: string;
+  digest: Digest;
+  /** GNU binary-mode marker (`<hex> *<path>`); informational only */
+  binary?: boolean;
+}
+
+export interface FormatChecksumManifestOptions {
+  /** Line format (default: "gnu") */
+  format?: ChecksumManifestFormat;
+}
+
+export interface ParseChecksumManifestOptions {
+  /**
+   * Algorithm for GNU lines with a bare hex checksum. When omitted it is taken
+   * from the manifest name (SHA256SUMS, file.tar.gz.sha512, ...) or, failing
+   * that, from the hex length where that is unambiguous.
+   */
+  algorithm?: Algorithm;
+}
+
+export interface CreateChecksumManifestOptions {
+  /** Directory listed paths are relative to (default: process.cwd()) */
+  baseDir?: string;
+  /** Hash algorithm (default: SHA256) */
+  algorithm?: Algorithm;
+  /** Worker pool used for hashing (default: the shared FulHash pool) */
+  pool?: HashPool;
+}
+
+export type ManifestEntryStatus = "pass" | "fail" | "missing";
+
+/**
+ * Verification outcome for one manifest entry
+ */
+export interface ManifestEntryResult {
+  path: string;
+  status: ManifestEntryStatus;
+  expected: Digest;
+  /** Digest of the file on disk (absent when missing or unreadable) */
+  actual?: Digest;
+  /** Why the file could not be checked (unreadable, outside the base directory) */
+  error?: string;
+}
+
+/**
+ * Per-file report produced by verifyManifest()
+ */
+export interface ManifestVerificationReport {
+  /** True when every entry passed */
+  ok: boolean;
+  passed: number;
+  failed: number;
+  missing: number;
+  results: ManifestEntryResult[];
+}
+
+/**
+ * BSD tag names (as printed by `sha256sum --tag`, `b2sum`, `xxhsum`) per algorithm
+ *
+ * CRC32 and CRC32C have none: no checksum tool prints tagged lines for them,
+ * and `cksum` output is the POSIX CRC plus a byte count, not a fulhash digest.
+ */
+const BSD_TAGS: Partial<Record<Algorithm, string>> = {
+  [Algorithm.XXH3_128]: "XXH128",
+  [Algorithm.SHA256]: "SHA256",
+  [Algorithm.SHA512]: "SHA512",
+  [Algorithm.SHA1]: "SHA1",
+  [Algorithm.MD5]: "MD5",
+  [Algorithm.BLAKE3]: "BLAKE3",
+};
+
+/**
+ * Sidecar file extensions per algorithm (file.tar.gz.sha256, ...)
+ */
+export const SIDECAR_EXTENSIONS: Record<Algorithm, string> = {
+  [Algorithm.XXH3_128]: ".xxh128",
+  [Algorithm.SHA256]: ".sha256",
+  [Algorithm.CRC32]: ".crc32",
+  [Algorithm.CRC32C]: ".crc32c",
+  [Algorithm.SHA512]: ".sha512",
+  [Algorithm.SHA1]: ".sha1",
+  [Algorithm.MD5]: ".md5",
+  [Algorithm.BLAKE3]: ".b3",
+};
+
+/**
+ * Manifest file names per algorithm (SHA256SUMS, ...)
+ */
+const SUMS_NAMES: Record<string, Algorithm> = {
+  XXH128SUMS: Algorithm.XXH3_128,
+  SHA256SUMS: Algorithm.SHA256,
+  SHA512SUMS: Algorithm.SHA512,
+  SHA1SUMS: Algorithm.SHA1,
+  MD5SUMS: Algorithm.MD5,
+  B3SUMS: Algorithm.BLAKE3,
+  BLAKE3SUMS: Algorithm.BLAKE3,
+};
+
+/**
+ * Hex lengths that identify a single algorithm
+ */
+const UNAMBIGUOUS_HEX_LENGTHS: Record<number, Algorithm> = {
+  128: Algorithm.SHA512,
+  40: Algorithm.SHA1,
+};
+
+const BSD_LINE = /^([A-Za-z0-9-]+) \((.*)\) = ([0-9A-Fa-f]+)$/;
+const GNU_LINE = /^(\S+) ([ *])(.*)$/;
+const BARE_HEX = /^[0-9A-Fa-f]+$/;
+
+/**
+ * Helper: GNU escaping for names containing backslash, CR or LF
+ *
+ * Such lines start with a backslash and the name uses \\, \r and \n.
+ */
+function escapePath(path: string): { prefix: string; path: string } {
+  if (!/[\\\r\n]/.test(path)) {
+    return { prefix: "", path };
+  }
+  return {
+    prefix: "\\",
+    path: path.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/\r/g, "\\r"),
+  };
+}
+
+/**
+ * Helper: Reverse escapePath()
+ */
+function unescapePath(path: string): string {
+  return path.replace(/\\(.)/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "r" ? "\r" : char,
+  );
+}
+
+/**
+ * Helper: Algorithm implied by a manifest or sidecar file name
+ */
+function algorithmFromName(manifestPath: string): Algorithm | undefined {
+  const name = basename(manifestPath);
+  const sums = SUMS_NAMES[name.toUpperCase()];
+  if (sums) {
+    return sums;
+  }
+  for (const [algorithm, extension] of Object.entries(SIDECAR_EXTENSIONS)) {
+    if (name.toLowerCase().endsWith(extension)) {
+      return algorithm as Algorithm;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Parse a checksum field that is either Digest.formatted or bare hex
+ */
+function parseChecksumField(
+  field: string,
+  algorithm: Algorithm | undefined,
+  lineNumber: number,
+): Digest {
+  if (field.includes(":")) {
+    const digest = Digest.parse(field);
+    if (digest.keyed) {
+      throw new FulHashError(
+        `Keyed checksum on checksum manifest line ${lineNumber} cannot be verified without a key`,
+      );
+    }
+    return digest;
+  }
+  const resolved = algorithm ?? UNAMBIGUOUS_HEX_LENGTHS[field.length];
+  if (!resolved) {
+    throw new FulHashError(
+      `Cannot determine the algorithm of checksum manifest line ${lineNumber}; pass options.algorithm`,
+    );
+  }
+  return Digest.parse(`${resolved}:${field.toLowerCase()}`);
+}
+
+/**
+ * Render manifest entries, one line each, with a trailing newline
+ *
+ * The "gnu" format has no algorithm field, so all entries must share one
+ * algorithm; use "bsd" or "fulhash" for mixed manifests. The "bsd" format has
+ * no tag for CRC32 or CRC32C. Keyed digests are rejected.
+ */
+export function formatChecksumManifest(
+  entries: readonly ChecksumManifestEntry[],
+  options: FormatChecksumManifestOptions = {},
+): string {
+  const format = options.format ?? "gnu";
+  const algorithms = new Set(entries.map((entry) => entry.digest.algorithm));
+  if (format === "gnu" && algorithms.size > 1) {
+    throw new FulHashError(
+      `GNU checksum manifests cannot mix algorithms (${[...algorithms].join(", ")}); use the "bsd" or "fulhash" format`,
+    );
+  }
+
+  return entries
+    .map((entry) => {
+      if (entry.digest.keyed) {
+        throw new FulHashError(
+          `Cannot write keyed checksum "${entry.digest.formatted}" to a manifest`,
+        );
+      }
+      const { prefix, path } = escapePath(entry.path);
+      switch (format) {
+        case "bsd": {
+          const tag = BSD_TAGS[entry.digest.algorithm];
+          if (!tag) {
+            throw new FulHashError(
+              `BSD checksum manifests have no tag for ${entry.digest.algorithm}; use the "gnu" or "fulhash" format`,
+            );
+          }
+          return `${prefix}${tag} (${path}) = ${entry.digest.hex}\n`;
+        }
+        case "fulhash":
+          return `${prefix}${entry.digest.formatted} ${entry.binary ? "*" : " "}${path}\n`;
+        default:
+          return `${prefix}${entry.digest.hex} ${entry.binary ? "*" : " "}${path}\n`;
+      }
+    })
+    .join("");
+}
+
+/**
+ * Parse a checksum manifest in any of the supported formats (mixed per line)
+ *
+ * Blank lines and `#` comments are skipped. Throws FulHashError for
+ * unrecognized lines and InvalidChecksumError for malformed checksums.
+ */
+export function parseChecksumManifest(
+  content: string,
+  options: ParseChecksumManifestOptions = {},
+): ChecksumManifestEntry[] {
+  const bsdAlgorithms = new Map(
+    Object.entries(BSD_TAGS).map(([algorithm, tag]) => [tag, algorithm as Algorithm]),
+  );
+  const entries: ChecksumManifestEntry[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    if (rawLine.trim() === "" || rawLine.startsWith("#")) {
+      return;
+    }
+    const escaped = rawLine.startsWith("\\");
+    const line = escaped ? rawLine.slice(1) : rawLine;
+    const readPath = (path: string) => (escaped ? unescapePath(path) : path);
+
+    const bsd = BSD_LINE.exec(line);
+    if (bsd) {
+      const algorithm = bsdAlgorithms.get(bsd[1].toUpperCase());
+      if (!algorithm) {
+        throw new FulHashError(
+          `Unsupported algorithm tag "${bsd[1]}" on checksum manifest line ${lineNumber}`,
+        );
+      }
+      entries.push({
+        path: readPath(bsd[2]),
+        digest: Digest.parse(`${algorithm}:${bsd[3].toLowerCase()}`),
+      });
+      return;
+    }
+
+    const gnu = GNU_LINE.exec(line);
+    if (gnu && gnu[3] !== "") {
+      entries.push({
+        path: readPath(gnu[3]),
+        digest: parseChecksumField(gnu[1], options.algorithm, lineNumber),
+        binary: gnu[2] === "*",
+      });
+      return;
+    }
+
+    throw new FulHashError(`Unrecognized checksum manifest line ${lineNumber}: "${rawLine}"`);
+  });
+
+  return entries;
+}
+
+/**
+ * Read and parse a manifest file
+ *
+ * The algorithm for bare hex checksums defaults to the one implied by the file
+ * name. A sidecar holding only a hex digest (`file.tar.gz.sha256`) yields one
+ * entry for the file it sits next to.
+ */
+export async function readChecksumManifest(
+  manifestPath: string,
+  options: ParseChecksumManifestOptions = {},
+): Promise<ChecksumManifestEntry[]> {
+  const content = await readFile(manifestPath, "utf8");
+  const algorithm = options.algorithm ?? algorithmFromName(manifestPath);
+
+  const trimmed = content.trim();
+  if (BARE_HEX.test(trimmed)) {
+    const name = basename(manifestPath);
+    const extension = algorithm ? SIDECAR_EXTENSIONS[algorithm] : undefined;
+    if (!algorithm || !extension || !name.toLowerCase().endsWith(extension)) {
+      throw new FulHashError(
+        `Checksum sidecar ${manifestPath} holds only a digest but its name does not identify the file and algorithm`,
+      );
+    }
+    return [
+      {
+        path: name.slice(0, -extension.length),
+        digest: Digest.parse(`${algorithm}:${trimmed.toLowerCase()}`),
+      },
+    ];
+  }
+
+  return parseChecksumManifest(content, { algorithm });
+}
+
+/**
+ * Hash files into manifest entries with paths relative to baseDir
+ *
+ * Paths use forward slashes so manifests are portable across platforms.
+ */
+export async function createChecksumManifest(
+  files: readonly string[],
+  options: CreateChecksumManifestOptions = {},
+): Promise<ChecksumManifestEntry[]> {
+  const baseDir = resolve(options.baseDir ?? process.cwd());
+  const algorithm = options.algorithm ?? Algorithm.SHA256;
+  const pool = options.pool ?? getDefaultHashPool();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const absolute = resolve(baseDir, file);
+      return {
+        path: relative(baseDir, absolute).split(sep).join("/"),
+        digest: await pool.hashFile(absolute, { algorithm }),
+      };
+    }),
+  );
+}
+
+/**
+ * Write entries to a manifest file (see formatChecksumManifest)
+ */
+export async function writeChecksumManifest(
+  manifestPath: string,
+  entries: readonly ChecksumManifestEntry[],
+  options: FormatChecksumManifestOptions = {},
+): Promise<void> {
+  await writeFile(manifestPath, formatChecksumManifest(entries, options), "utf8");
+}
+
+/**
+ * Hash a file and write `<file><extension>` next to it in GNU format
+ *
+ * @returns Path of the sidecar written
+ */
+export async function writeChecksumSidecar(
+  filePath: string,
+  options: Omit<CreateChecksumManifestOptions, "baseDir"> = {},
+): Promise<string> {
+  const algorithm = options.algorithm ?? Algorithm.SHA256;
+  const entries = await createChecksumManifest([basename(filePath)], {
+    ...options,
+    algorithm,
+    baseDir: dirname(resolve(filePath)),
+  });
+  const sidecarPath = `${filePath}${SIDECAR_EXTENSIONS[algorithm]}`;
+  await writeChecksumManifest(sidecarPath, entries);
+  return sidecarPath;
+}
+
+/**
+ * Verify every file listed in a manifest
+ *
+ * Each file is streamed once through multiHash() with every algorithm it is
+ * listed under and compared in constant time. Files that do not exist are
+ * reported as "missing"; unreadable files and paths that escape baseDir fail
+ * with an `error`. Only an unreadable or malformed manifest throws.
+ *
+ * @param baseDir - Directory listed paths are relative to (default: the manifest's directory)
+ */
+export async function verifyManifest(
+  manifestPath: string,
+  baseDir: string = dirname(manifestPath),
+  options: ParseChecksumManifestOptions = {},
+): Promise<ManifestVerificationReport> {
+  const entries = await readChecksumManifest(manifestPath, options);
+  if (entries.length === 0) {
+    throw new FulHashError(`No checksum lines found in ${manifestPath}`);
+  }
+  const root = resolve(baseDir);
+
+  const byPath = new Map<string, ChecksumManifestEntry[]>();
+  for (const entry of entries) {
+    const listed = byPath.get(entry.path) ?? [];
+    listed.push(entry);
+    byPath.set(entry.path, listed);
+  }
+
+  const outcomes = new Map<ChecksumManifestEntry, ManifestEntryResult>();
+  for (const [path, listed] of byPath) {
+    const absolute = resolve(root, path);
+    const fromRoot = relative(root, absolute);
+    if (fromRoot === ".." || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+      for (const entry of listed) {
+        outcomes.set(entry, {
+          path,
+          status: "fail",
+          expected: entry.digest,
+          error: "path is outside the base directory",
+        });
+      }
+      continue;
+    }
+
+    try {
+      const digests = await multiHash(
+        createReadStream(absolute),
+        listed.map((entry) => entry.digest.algorithm),
+      );
+      for (const entry of listed) {
+        const actual = digests[entry.digest.algorithm] as Digest;
+        outcomes.set(entry, {
+          path,
+          status: actual.equalsConstantTime(entry.digest) ? "pass" : "fail",
+          expected: entry.digest,
+          actual,
+        });
+      }
+    } catch (error) {
+      const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+      for (const entry of listed) {
+        outcomes.set(entry, {
+          path,
+          status: missing ? "missing" : "fail",
+          expected: entry.digest,
+          ...(missing ? {} : { error: (error as Error).message }),
+        });
+      }
+    }
+  }
+
+  const results = entries.map((entry) => outcomes.get(entry) as ManifestEntryResult);
+  const count = (status: ManifestEntryStatus) =>
+    results.filter((result) => result.status === status).length;
+  return {
+    ok: results.every((result) => result.status === "pass"),
+    passed: count("pass"),
+    failed: count("fail"),
+    missing: count("missing"),
+    results,
+  };
+}
@@ -0,0 +1,321 @@
+/**
+ * HashPool - worker-thread file hashing
+ *
+ * Hashes files on a pool of `node:worker_threads` workers so large file sets
+ * use more than one core and do not block the event loop. Each worker loads its
+ * own WASM XXH3 instance. Workers are spawned on demand up to `size` and are
+ * unref'd while idle, so an open pool never keeps the process alive.
+ *
+ * When the worker script cannot be found (e.g. inside a `bun --compile`
+ * binary) files are hashed on the calling thread instead. The same happens
+ * once a worker crashes: the pool is marked degraded, the file it was hashing
+ * is re-run on the calling thread, and no further workers are used.
+ */
+
+import { existsSync } from "node:fs";
+import { createRequire } from "node:module";
+import { availableParallelism } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { Worker } from "node:worker_threads";
+import { Digest } from "./digest.js";
+import { FulHashError, UnsupportedAlgorithmError } from "./errors.js";
+import { hashFileStream } from "./stream.js";
+import { Algorithm } from "./types.js";
+
+/**
+ * Worker script names: bundled build first, then the TypeScript source
+ */
+const WORKER_FILES = ["hash-worker.js", "hash-worker.ts"];
+
+export interface HashPoolOptions {
+  /** Maximum worker threads (default: available parallelism - 1, at least 1) */
+  size?: number;
+}
+
+export interface HashFileOptions {
+  /** Hash algorithm (default: XXH3_128) */
+  algorithm?: Algorithm;
+}
+
+interface HashTask {
+  id: number;
+  path: string;
+  algorithm: Algorithm;
+  resolve: (digest: Digest) => void;
+  reject: (error: Error) => void;
+}
+
+interface HashResponse {
+  id: number;
+  bytes?: Uint8Array;
+  error?: string;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: HashTask;
+}
+
+let workerPath: string | null | undefined;
+
+/**
+ * Locate the worker script by walking upward from this module
+ *
+ * Works for the source layout (src/fulhash/) and the bundled layout, where
+ * this code may live in a shared chunk at the dist root.
+ * @internal
+ */
+function findWorkerPath(): string | null {
+  if (workerPath !== undefined) {
+    return workerPath;
+  }
+
+  workerPath = null;
+  let dir: string;
+  try {
+    dir = dirname(fileURLToPath(import.meta.url));
+  } catch {
+    return workerPath;
+  }
+
+  let prev = "";
+  while (dir !== prev) {
+    for (const name of WORKER_FILES) {
+      const candidate = join(dir, "fulhash", name);
+      if (existsSync(candidate)) {
+        workerPath = candidate;
+        return workerPath;
+      }
+    }
+    prev = dir;
+    dir = dirname(dir);
+  }
+  return workerPath;
+}
+
+/**
+ * Start a worker thread for the worker script
+ *
+ * The TypeScript source imports fulhash modules by their `.js` specifiers,
+ * which Node's type stripping cannot map back to `.ts` files, so in
+ * development it is loaded through tsx.
+ * @internal
+ */
+function startWorker(path: string): Worker {
+  if (!path.endsWith(".ts")) {
+    return new Worker(path);
+  }
+  const tsx = pathToFileURL(createRequire(import.meta.url).resolve("tsx/esm/api")).href;
+  const script = pathToFileURL(path).href;
+  return new Worker(
+    `import(${JSON.stringify(tsx)}).then(({ register }) => { register(); return import(${JSON.stringify(script)}); });`,
+    { eval: true },
+  );
+}
+
+/**
+ * Hash a file on the calling thread, rejecting like a worker would
+ * @internal
+ */
+async function hashFileInThread(path: string, algorithm: Algorithm): Promise<Digest> {
+  try {
+    return await hashFileStream(path, algorithm);
+  } catch (error) {
+    throw new FulHashError(
+      `Failed to hash ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Pool of worker threads hashing files from disk
+ *
+ * Tasks queue in FIFO order; callers bound how many files they have in flight
+ * (Pathfinder uses `maxWorkers`, calculateChecksumsBatch its `concurrency`).
+ */
+export class HashPool {
+  readonly size: number;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: HashTask[] = [];
+  private nextId = 0;
+  private closed = false;
+  private crashed = false;
+
+  constructor(options: HashPoolOptions = {}) {
+    this.size = Math.max(1, Math.floor(options.size ?? availableParallelism() - 1));
+  }
+
+  /**
+   * Number of worker threads currently running
+   */
+  get threads(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Whether a worker crashed and files are now hashed on the calling thread
+   */
+  get degraded(): boolean {
+    return this.crashed;
+  }
+
+  /**
+   * Hash a file, streaming it from disk on a worker thread
+   *
+   * Rejects with UnsupportedAlgorithmError for unknown algorithms and
+   * FulHashError when the file cannot be read or the pool is closed.
+   */
+  async hashFile(path: string, options: HashFileOptions = {}): Promise<Digest> {
+    const algorithm = options.algorithm ?? Algorithm.XXH3_128;
+    if (!Object.values(Algorithm).includes(algorithm)) {
+      throw new UnsupportedAlgorithmError(algorithm, Object.values(Algorithm));
+    }
+    if (this.closed) {
+      throw new FulHashError("HashPool is closed");
+    }
+    if (!findWorkerPath()) {
+      return hashFileInThread(path, algorithm);
+    }
+
+    return new Promise<Digest>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, path, algorithm, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers; queued tasks reject and the pool cannot be reused
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const task of this.queue.splice(0)) {
+      task.reject(new FulHashError("HashPool is closed"));
+    }
+    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+  }
+
+  /**
+   * Helper: Hand queued tasks to idle workers, spawning up to `size`
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      if (this.crashed) {
+        this.runInThread(this.queue.shift() as HashTask);
+        continue;
+      }
+
+      let slot = this.workers.find((candidate) => !candidate.task);
+      if (!slot) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        try {
+          slot = this.spawn(findWorkerPath() as string);
+        } catch {
+          this.degrade();
+          continue;
+        }
+      }
+
+      const task = this.queue.shift() as HashTask;
+      slot.task = task;
+      slot.worker.ref();
+      slot.worker.postMessage({ id: task.id, path: task.path, algorithm: task.algorithm });
+    }
+  }
+
+  /**
+   * Helper: Hash a task on the calling thread
+   */
+  private runInThread(task: HashTask): void {
+    hashFileInThread(task.path, task.algorithm).then(task.resolve, task.reject);
+  }
+
+  /**
+   * Helper: Stop using workers after a crash; idle ones are terminated and
+   * busy ones once their current file is done
+   */
+  private degrade(): void {
+    this.crashed = true;
+    for (const slot of this.workers) {
+      if (!slot.task) {
+        void slot.worker.terminate();
+      }
+    }
+  }
+
+  /**
+   * Helper: Re-run a crashed worker's file on the calling thread
+   */
+  private recover(slot: PoolWorker): void {
+    const task = slot.task;
+    slot.task = undefined;
+    this.degrade();
+    if (task) {
+      this.runInThread(task);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Helper: Start a worker thread and wire its responses to tasks
+   */
+  private spawn(path: string): PoolWorker {
+    const slot: PoolWorker = { worker: startWorker(path) };
+    const { worker } = slot;
+
+    worker.on("message", (response: HashResponse) => {
+      const task = slot.task;
+      slot.task = undefined;
+      worker.unref();
+      if (task && task.id === response.id) {
+        if (response.bytes) {
+          task.resolve(new Digest(task.algorithm, response.bytes));
+        } else {
+          task.reject(new FulHashError(`Failed to hash ${task.path}: ${response.error}`));
+        }
+      }
+      if (this.crashed) {
+        void worker.terminate();
+      }
+      this.dispatch();
+    });
+    // An uncaught error ends the worker; its file is hashed here instead
+    worker.on("error", () => {
+      if (!this.closed) {
+        this.recover(slot);
+      }
+    });
+    worker.on("exit", () => {
+      this.workers.splice(this.workers.indexOf(slot), 1);
+      if (this.closed) {
+        slot.task?.reject(new FulHashError("HashPool is closed"));
+        return;
+      }
+      // Exiting with a file still assigned means the worker died mid-task
+      if (slot.task) {
+        this.recover(slot);
+      } else {
+        this.dispatch();
+      }
+    });
+
+    worker.unref();
+    this.workers.push(slot);
+    return slot;
+  }
+}
+
+let defaultPool: HashPool | undefined;
+
+/**
+ * Shared pool used by Pathfinder, pathfinder checksum helpers and fulpack
+ *
+ * Created on first use with the default size. Its workers are unref'd while
+ * idle, so it never needs to be closed.
+ */
+export function getDefaultHashPool(): HashPool {
+  defaultPool ??= new HashPool();
+  return defaultPool;
+}
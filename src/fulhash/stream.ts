@@ -1,11 +1,13 @@
-import { createHash } from "node:crypto";
+import { createHash, createHmac } from "node:crypto";
+import { createReadStream } from "node:fs";
 import type { IHasher } from "hash-wasm";
-import { Algorithm } from "../crucible/fulhash/types.js";
+import * as blake3 from "./algorithms/blake3.js";
 import * as crc32 from "./algorithms/crc32.js";
 import * as crc32c from "./algorithms/crc32c.js";
 import type { StreamHasher, StreamHasherOptions } from "./definitions.js";
-import { Digest } from "./digest.js";
+import { Digest, HMAC_ALGORITHMS } from "./digest.js";
 import { DigestStateError, UnsupportedAlgorithmError } from "./errors.js";
+import { Algorithm } from "./types.js";
 import { createHasher as createXXH3Hasher, initializeWasm } from "./wasm-loader.js";
 
 enum State {
@@ -83,12 +85,15 @@ abstract class BaseStreamHasher implements StreamHasher {
   }
 }
 
-class SHA256StreamHasher extends BaseStreamHasher {
+/**
+ * Hasher for algorithms backed by node:crypto (enum values are valid hash names)
+ */
+class NodeCryptoStreamHasher extends BaseStreamHasher {
   private hasher: ReturnType<typeof createHash>;
 
-  constructor() {
-    super(Algorithm.SHA256);
-    this.hasher = createHash("sha256");
+  constructor(algorithm: Algorithm) {
+    super(algorithm);
+    this.hasher = createHash(algorithm);
   }
 
   update(data: string | Uint8Array): StreamHasher {
@@ -113,17 +118,55 @@ class SHA256StreamHasher extends BaseStreamHasher {
   }
 
   reset(): StreamHasher {
-    this.hasher = createHash("sha256");
+    this.hasher = createHash(this.algorithm);
+    this.markInitial();
+    return this;
+  }
+}
+
+class HmacStreamHasher extends BaseStreamHasher {
+  private readonly key: string | Uint8Array;
+  private hasher: ReturnType<typeof createHmac>;
+
+  constructor(algorithm: Algorithm, key: string | Uint8Array) {
+    super(algorithm);
+    // Copy so later mutation of the caller's buffer cannot change reset() output
+    this.key = typeof key === "string" ? key : new Uint8Array(key);
+    this.hasher = createHmac(algorithm, this.key);
+  }
+
+  update(data: string | Uint8Array): StreamHasher {
+    this.ensureNotFinalized();
+    this.markUpdating();
+
+    if (typeof data === "string") {
+      this.hasher.update(data, "utf8");
+    } else {
+      this.hasher.update(data);
+    }
+
+    return this;
+  }
+
+  digest(): Digest {
+    this.ensureUpdating();
+    this.markFinalized();
+
+    return new Digest(this.algorithm, new Uint8Array(this.hasher.digest()), true);
+  }
+
+  reset(): StreamHasher {
+    this.hasher = createHmac(this.algorithm, this.key);
     this.markInitial();
     return this;
   }
 }
 
-class XXH3StreamHasher extends BaseStreamHasher {
+class WasmStreamHasher extends BaseStreamHasher {
   private hasher: IHasher;
 
-  constructor(hasher: IHasher) {
-    super(Algorithm.XXH3_128);
+  constructor(algorithm: Algorithm, hasher: IHasher) {
+    super(algorithm);
     this.hasher = hasher;
     this.hasher.init();
   }
@@ -257,12 +300,17 @@ export async function createStreamHasher(options: StreamHasherOptions = {}): Pro
 
   switch (algorithm) {
     case Algorithm.SHA256:
-      return new SHA256StreamHasher();
+    case Algorithm.SHA512:
+    case Algorithm.SHA1:
+    case Algorithm.MD5:
+      return new NodeCryptoStreamHasher(algorithm);
     case Algorithm.XXH3_128: {
       await initializeWasm();
       const wasmHasher = await createXXH3Hasher();
-      return new XXH3StreamHasher(wasmHasher);
+      return new WasmStreamHasher(algorithm, wasmHasher);
     }
+    case Algorithm.BLAKE3:
+      return new WasmStreamHasher(algorithm, await blake3.createHasher());
     case Algorithm.CRC32: {
       const hasher = new CRC32StreamHasher();
       await hasher.init();
@@ -277,3 +325,29 @@ export async function createStreamHasher(options: StreamHasherOptions = {}): Pro
       throw new UnsupportedAlgorithmError(algorithm, Object.values(Algorithm));
   }
 }
+
+/**
+ * Create a streaming HMAC hasher; digest() returns a keyed "hmac-<algorithm>" Digest
+ */
+export async function createHmacHasher(
+  key: string | Uint8Array,
+  options: StreamHasherOptions = {},
+): Promise<StreamHasher> {
+  const algorithm = options.algorithm ?? Algorithm.SHA256;
+  if (!HMAC_ALGORITHMS.includes(algorithm)) {
+    throw new UnsupportedAlgorithmError(algorithm, [...HMAC_ALGORITHMS]);
+  }
+  return new HmacStreamHasher(algorithm, key);
+}
+
+/**
+ * Hash a file by streaming it from disk
+ * @internal Shared by HashPool and its worker threads
+ */
+export async function hashFileStream(path: string, algorithm: Algorithm): Promise<Digest> {
+  const hasher = await createStreamHasher({ algorithm });
+  for await (const chunk of createReadStream(path)) {
+    hasher.update(chunk as Uint8Array);
+  }
+  return hasher.digest();
+}
@@ -0,0 +1,62 @@
+/**
+ * FulHash Types
+ *
+ * Re-exports the Crucible-generated fulhash types and widens them with the
+ * algorithms tsfulmen supports beyond the synced Crucible v0.4.15 specification.
+ * The synced file (`src/crucible/fulhash/types.ts`) is overwritten on every
+ * `make sync-ssot`, so extensions live here; the matching schemas are under
+ * `schemas/tsfulmen/`.
+ */
+
+import {
+  Algorithm as CrucibleAlgorithm,
+  type Digest as CrucibleDigest,
+} from "../crucible/fulhash/types.js";
+
+export * from "../crucible/fulhash/types.js";
+
+/**
+ * Supported hashing algorithms for FulHash: the Crucible algorithms taxonomy plus
+ * SHA-512, SHA-1, MD5 and BLAKE3
+ * @see schemas/tsfulmen/taxonomy/library/fulhash/algorithms/v1.0.0/algorithms.yaml
+ */
+export const Algorithm = {
+  ...CrucibleAlgorithm,
+
+  /**
+   * SHA-512
+   * Cryptographic hash (64-byte digest). Common for release artifacts and package registries.
+   */
+  SHA512: "sha512",
+
+  /**
+   * SHA-1
+   * Legacy cryptographic hash, no longer collision resistant. Use only to verify upstream artifacts.
+   */
+  SHA1: "sha1",
+
+  /**
+   * MD5
+   * Legacy hash, broken for security purposes. Use only to verify upstream artifacts.
+   */
+  MD5: "md5",
+
+  /**
+   * BLAKE3 (256-bit)
+   * Modern cryptographic hash. Secure and considerably faster than SHA-2.
+   */
+  BLAKE3: "blake3",
+} as const;
+
+export type Algorithm = (typeof Algorithm)[keyof typeof Algorithm];
+
+/**
+ * Standard digest payload returned by FulHash helpers
+ * @see schemas/tsfulmen/library/fulhash/v1.0.0/digest.schema.json
+ */
+export interface Digest extends Omit<CrucibleDigest, "algorithm"> {
+  /**
+   * Hash algorithm identifier
+   */
+  algorithm: `${Algorithm}`;
+}
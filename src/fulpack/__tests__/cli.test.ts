@@ -0,0 +1,126 @@
+/**
+ * Tests for the tsfulmen-pack CLI
+ *
+ * Commands run in-process through the Commander factory; stdout/stderr are
+ * captured from console and the exit status from process.exitCode.
+ */
+
+import { existsSync, rmSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from "vitest";
+
+import { exitCodes } from "../../foundry/exit-codes/index.js";
+import { createPackCLI, exitCodeForError } from "../cli.js";
+import { create } from "../core.js";
+
+describe("tsfulmen-pack CLI", () => {
+  let tempDir: string;
+  let srcDir: string;
+  let log: MockInstance;
+  let error: MockInstance;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-cli-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    await mkdir(srcDir, { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    log = vi.spyOn(console, "log").mockImplementation(() => {});
+    error = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.exitCode = undefined;
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function runCLI(...args: string[]): Promise<{ stdout: unknown; stderr: unknown }> {
+    log.mockClear();
+    error.mockClear();
+    process.exitCode = undefined;
+    await createPackCLI().parseAsync(args, { from: "user" });
+    const parse = (spy: MockInstance) =>
+      spy.mock.calls.length > 0 ? JSON.parse(String(spy.mock.calls[0][0])) : undefined;
+    return { stdout: parse(log), stderr: parse(error) };
+  }
+
+  it("should create an archive and print ArchiveInfo", async () => {
+    const archive = join(tempDir, "out.tar.gz");
+    const { stdout } = await runCLI("create", archive, srcDir, "--deterministic");
+
+    expect(process.exitCode).toBe(exitCodes.EXIT_SUCCESS);
+    expect(stdout).toMatchObject({ format: "tar.gz", entry_count: 1, has_checksums: true });
+    expect(existsSync(archive)).toBe(true);
+  });
+
+  it("should honor --format when the extension is not recognized", async () => {
+    const archive = join(tempDir, "bundle.bin");
+    const { stdout } = await runCLI("create", archive, srcDir, "--format", "zip");
+
+    expect(stdout).toMatchObject({ format: "zip" });
+  });
+
+  it("should reject an output without a recognizable format", async () => {
+    const { stderr } = await runCLI("create", join(tempDir, "bundle.bin"), srcDir);
+
+    expect(process.exitCode).toBe(exitCodes.EXIT_INVALID_ARGUMENT);
+    expect(stderr).toMatchObject({ code: "INVALID_ARCHIVE_FORMAT", operation: "create" });
+  });
+
+  it("should extract, scan, verify and report info", async () => {
+    const archive = join(tempDir, "test.zip");
+    await create(srcDir, archive, "zip" as never);
+    const outDir = join(tempDir, "out");
+
+    const extracted = await runCLI("extract", archive, outDir);
+    expect(process.exitCode).toBe(exitCodes.EXIT_SUCCESS);
+    expect(extracted.stdout).toMatchObject({ extracted_count: 1, error_count: 0 });
+    expect(await readFile(join(outDir, "a.txt"), "utf8")).toBe("alpha");
+
+    const scanned = await runCLI("scan", archive);
+    expect(scanned.stdout).toEqual([expect.objectContaining({ path: "a.txt", type: "file" })]);
+
+    const verified = await runCLI("verify", archive);
+    expect(verified.stdout).toMatchObject({ valid: true, entry_count: 1 });
+
+    const described = await runCLI("info", archive);
+    expect(described.stdout).toMatchObject({ format: "zip", entry_count: 1 });
+  });
+
+  it("should exit non-zero when extraction reports errors", async () => {
+    const archive = join(tempDir, "test.tar");
+    await create(srcDir, archive, "tar" as never);
+    const outDir = join(tempDir, "out");
+    await runCLI("extract", archive, outDir);
+
+    // Second run collides with the extracted file (overwrite defaults to error)
+    const { stdout } = await runCLI("extract", archive, outDir);
+    expect(stdout).toMatchObject({ error_count: 1 });
+    expect(process.exitCode).toBe(exitCodes.EXIT_FAILURE);
+
+    await runCLI("extract", archive, outDir, "--overwrite", "skip");
+    expect(process.exitCode).toBe(exitCodes.EXIT_SUCCESS);
+  });
+
+  it("should print the canonical error for a missing archive", async () => {
+    const { stdout, stderr } = await runCLI("info", join(tempDir, "missing.tar"));
+
+    expect(stdout).toBeUndefined();
+    expect(stderr).toMatchObject({ code: "ARCHIVE_NOT_FOUND", operation: "info" });
+    expect(process.exitCode).toBe(exitCodes.EXIT_FILE_NOT_FOUND);
+  });
+
+  it("should map fulpack error codes to Foundry exit codes", () => {
+    expect(exitCodeForError("PATH_TRAVERSAL")).toBe(exitCodes.EXIT_SECURITY_VIOLATION);
+    expect(exitCodeForError("DECOMPRESSION_BOMB")).toBe(exitCodes.EXIT_SECURITY_VIOLATION);
+    expect(exitCodeForError("CHECKSUM_MISMATCH")).toBe(exitCodes.EXIT_DATA_CORRUPT);
+    expect(exitCodeForError("SOURCE_NOT_FOUND")).toBe(exitCodes.EXIT_FILE_NOT_FOUND);
+    expect(exitCodeForError("SOMETHING_ELSE")).toBe(exitCodes.EXIT_FAILURE);
+    expect(exitCodeForError(undefined)).toBe(exitCodes.EXIT_FAILURE);
+  });
+});
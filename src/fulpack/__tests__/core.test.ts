@@ -3,16 +3,27 @@
  */
 
 import { createReadStream, createWriteStream, existsSync, rmSync, symlinkSync } from "node:fs";
-import { chmod, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { chmod, mkdir, readFile, stat, utimes, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { createGzip } from "node:zlib";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
-
-import { ArchiveFormat } from "../../crucible/fulpack/types.js";
-import { create, extract, info, scan, verify } from "../core.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { validateDataBySchemaId } from "../../schema/index.js";
+import {
+  create,
+  createToStream,
+  extract,
+  extractFromStream,
+  info,
+  scan,
+  scanFromStream,
+  verify,
+  verifyFromStream,
+} from "../core.js";
 import { FulpackOperationError } from "../errors.js";
+import { ArchiveFormat } from "../types.js";
 
 describe("Fulpack Core Operations", () => {
   let tempDir: string;
@@ -807,10 +818,15 @@ describe("Fulpack Core Operations", () => {
     });
 
     it("should warn about missing checksums", async () => {
-      const tarGzFile = join(tempDir, "no-checksums.tar.gz");
-      await create(testFile, tarGzFile, ArchiveFormat.TAR_GZ);
+      // Archive produced without fulpack, so it carries no checksum manifest
+      const tarFile = join(tempDir, "no-checksums.tar");
+      const tarStream = await import("tar-stream");
+      const pack = tarStream.pack();
+      pack.entry({ name: "plain.txt" }, "no manifest here");
+      pack.finalize();
+      await pipeline(pack as unknown as Readable, createWriteStream(tarFile));
 
-      const result = await verify(tarGzFile);
+      const result = await verify(tarFile);
 
       expect(result.valid).toBe(true);
       expect(result.warnings.some((w) => w.includes("checksums"))).toBe(true);
@@ -1316,4 +1332,336 @@ describe("Fulpack Core Operations", () => {
       await expect(create(testFile, outAsDir, ArchiveFormat.ZIP)).rejects.toThrow();
     });
   });
+
+  describe("streaming operations", () => {
+    /** Build an in-memory tar stream with arbitrary (possibly hostile) entry names. */
+    async function tarStreamOf(entries: { name: string; content: string }[]): Promise<Readable> {
+      const tarStream = await import("tar-stream");
+      const pack = tarStream.pack();
+      for (const entry of entries) {
+        pack.entry({ name: entry.name }, entry.content as unknown as Readable);
+      }
+      pack.finalize();
+      return pack as unknown as Readable;
+    }
+
+    it("round-trips a TAR.GZ produced by createToStream through extract", async () => {
+      const archivePath = join(tempDir, "streamed.tar.gz");
+      await pipeline(
+        createToStream(testFile, ArchiveFormat.TAR_GZ),
+        createWriteStream(archivePath),
+      );
+
+      const outDir = join(tempDir, "stream-out");
+      const result = await extract(archivePath, outDir);
+
+      expect(result.extracted_count).toBe(1);
+      expect(await readFile(join(outDir, "test.txt"), "utf-8")).toBe(
+        await readFile(testFile, "utf-8"),
+      );
+    });
+
+    it("produces a single-file GZIP stream", async () => {
+      const gzPath = join(tempDir, "streamed.txt.gz");
+      await pipeline(createToStream(testFile, ArchiveFormat.GZIP), createWriteStream(gzPath));
+
+      const outDir = join(tempDir, "gz-stream-out");
+      await extract(gzPath, outDir);
+      expect(await readFile(join(outDir, "streamed.txt"), "utf-8")).toBe(
+        await readFile(testFile, "utf-8"),
+      );
+    });
+
+    it("throws synchronously for missing sources", () => {
+      expect(() => createToStream(join(tempDir, "missing.txt"), ArchiveFormat.ZIP)).toThrow(
+        FulpackOperationError,
+      );
+    });
+
+    it("extracts a ZIP from a readable stream", async () => {
+      const zipPath = join(tempDir, "source.zip");
+      await create(testFile, zipPath, ArchiveFormat.ZIP);
+
+      const outDir = join(tempDir, "zip-stream-out");
+      const result = await extractFromStream(createReadStream(zipPath), outDir, ArchiveFormat.ZIP);
+
+      expect(result.error_count).toBe(0);
+      expect(existsSync(join(outDir, "test.txt"))).toBe(true);
+    });
+
+    it("rejects path traversal entries from a stream", async () => {
+      const outDir = join(tempDir, "traversal-out");
+      const source = await tarStreamOf([
+        { name: "../escape.txt", content: "evil" },
+        { name: "safe.txt", content: "ok" },
+      ]);
+
+      const result = await extractFromStream(source, outDir, ArchiveFormat.TAR);
+
+      expect(result.error_count).toBe(1);
+      expect(result.errors?.[0].code).toBe("PATH_TRAVERSAL");
+      expect(existsSync(join(tempDir, "escape.txt"))).toBe(false);
+      expect(existsSync(join(outDir, "safe.txt"))).toBe(true);
+    });
+
+    it("enforces max_size on streamed extraction", async () => {
+      const outDir = join(tempDir, "bomb-out");
+      const source = await tarStreamOf([{ name: "big.txt", content: "x".repeat(4096) }]);
+
+      const result = await extractFromStream(source, outDir, ArchiveFormat.TAR, { max_size: 1024 });
+
+      expect(result.errors?.some((e) => e.code === "DECOMPRESSION_BOMB")).toBe(true);
+    });
+
+    it("rejects a corrupt TAR.GZ stream instead of crashing", async () => {
+      const outDir = join(tempDir, "corrupt-out");
+      const source = Readable.from([Buffer.from("definitely not gzip")]);
+
+      await expect(extractFromStream(source, outDir, ArchiveFormat.TAR_GZ)).rejects.toBeInstanceOf(
+        FulpackOperationError,
+      );
+    });
+
+    it("rejects single-file GZIP stream extraction", async () => {
+      await expect(
+        extractFromStream(Readable.from([Buffer.alloc(0)]), tempDir, ArchiveFormat.GZIP),
+      ).rejects.toThrow(FulpackOperationError);
+    });
+
+    it("scans entries from a TAR.GZ stream", async () => {
+      const entries = await scanFromStream(
+        createToStream(testFile, ArchiveFormat.TAR_GZ),
+        ArchiveFormat.TAR_GZ,
+      );
+
+      expect(entries.map((e) => e.path)).toEqual(["test.txt"]);
+    });
+
+    it("verifies a ZIP stream", async () => {
+      const result = await verifyFromStream(
+        createToStream(testFile, ArchiveFormat.ZIP),
+        ArchiveFormat.ZIP,
+      );
+
+      expect(result).toMatchObject({ valid: true, entry_count: 1, checksums_verified: 1 });
+    });
+
+    it("reports path traversal entries when verifying a stream", async () => {
+      const source = await tarStreamOf([
+        { name: "../escape.txt", content: "evil" },
+        { name: "safe.txt", content: "ok" },
+      ]);
+
+      const result = await verifyFromStream(source, ArchiveFormat.TAR);
+
+      expect(result.valid).toBe(false);
+      expect(result.entry_count).toBe(2);
+      expect(result.errors.map((e) => e.code)).toEqual(["PATH_TRAVERSAL"]);
+    });
+
+    it("reports corrupt and empty streams as invalid", async () => {
+      const corrupt = await verifyFromStream(
+        Readable.from([Buffer.from("definitely not gzip")]),
+        ArchiveFormat.TAR_GZ,
+      );
+      const empty = await verifyFromStream(Readable.from([]), ArchiveFormat.TAR);
+
+      for (const result of [corrupt, empty]) {
+        expect(result).toMatchObject({ valid: false, entry_count: 0 });
+        expect(result.errors.map((e) => e.code)).toEqual(["ARCHIVE_CORRUPT"]);
+      }
+      expect(empty.errors[0].message).toBe("Archive file is empty");
+    });
+
+    it("rejects single-file GZIP stream verification", async () => {
+      await expect(
+        verifyFromStream(Readable.from([Buffer.alloc(0)]), ArchiveFormat.GZIP),
+      ).rejects.toThrow(FulpackOperationError);
+    });
+  });
+
+  describe("zstd, xz and bzip2 formats", () => {
+    const compressedTarFormats = [
+      [ArchiveFormat.TAR_ZST, "zstd"],
+      [ArchiveFormat.TAR_XZ, "xz"],
+    ] as const;
+
+    const ARCHIVE_INFO_SCHEMA = "tsfulmen/library/fulpack/v1.0.0/archive-info";
+
+    // `tar --format=ustar -c a.txt nested/b.txt | bzip2 -9` ("alpha", "bravo")
+    const TAR_BZ2_FIXTURE =
+      "QlpoOTFBWSZTWSqBSSIAAJ77kMkAACBAAf+EBAh2Rd9ABAAASCAAkoSqaaAAAPUNAekEiqfpGowhoaPU0yA012noZIgxYAZ1" +
+      "pCRhf5JmAw3HIZMEhiGqW95HEYlUWmwBUpIoMVjN6rIHBHWEhaUEZkMQZKTEgwg41VDTdrouu0evrRyk7x8CmpO85iQfxdyR" +
+      "ThQkCqBSSIA=";
+
+    for (const [format, compression] of compressedTarFormats) {
+      it(`round-trips a directory through ${format}`, async () => {
+        const srcDir = join(tempDir, "src");
+        await mkdir(join(srcDir, "nested"), { recursive: true });
+        await writeFile(join(srcDir, "a.txt"), "alpha");
+        await writeFile(join(srcDir, "nested", "b.txt"), "bravo");
+
+        const archivePath = join(tempDir, `bundle.${format}`);
+        const created = await create(srcDir, archivePath, format);
+        expect(created.format).toBe(format);
+        expect(created.compression).toBe(compression);
+        expect((await validateDataBySchemaId(created, ARCHIVE_INFO_SCHEMA)).valid).toBe(true);
+
+        const entries = await scan(archivePath);
+        expect(entries.map((e) => e.path).sort()).toEqual(["a.txt", "nested/b.txt"]);
+
+        const outDir = join(tempDir, "out");
+        const result = await extract(archivePath, outDir);
+        expect(result.error_count).toBe(0);
+        expect(await readFile(join(outDir, "nested", "b.txt"), "utf-8")).toBe("bravo");
+
+        const validation = await verify(archivePath);
+        expect(validation.valid).toBe(true);
+      });
+    }
+
+    it("reads TAR.BZ2 archives made by other tools", async () => {
+      const archivePath = join(tempDir, "bundle.tar.bz2");
+      await writeFile(archivePath, Buffer.from(TAR_BZ2_FIXTURE, "base64"));
+      const disguised = join(tempDir, "bundle.artifact");
+      await writeFile(disguised, Buffer.from(TAR_BZ2_FIXTURE, "base64"));
+
+      const metadata = await info(disguised);
+      expect(metadata.format).toBe(ArchiveFormat.TAR_BZ2);
+      expect(metadata.compression).toBe("bzip2");
+      expect(metadata.entry_count).toBe(2);
+      expect((await validateDataBySchemaId(metadata, ARCHIVE_INFO_SCHEMA)).valid).toBe(true);
+
+      const entries = await scan(archivePath);
+      expect(entries.map((e) => e.path).sort()).toEqual(["a.txt", "nested/b.txt"]);
+
+      const outDir = join(tempDir, "bz2-out");
+      const result = await extract(archivePath, outDir);
+      expect(result.error_count).toBe(0);
+      expect(await readFile(join(outDir, "nested", "b.txt"), "utf-8")).toBe("bravo");
+
+      const validation = await verify(archivePath);
+      expect(validation.valid).toBe(true);
+    });
+
+    it("rejects creating TAR.BZ2 archives", async () => {
+      const archivePath = join(tempDir, "bundle.tar.bz2");
+
+      await expect(create(testFile, archivePath, ArchiveFormat.TAR_BZ2)).rejects.toThrow(
+        /bzip2 archives are read-only/,
+      );
+      expect(() => createToStream(testFile, ArchiveFormat.TAR_BZ2)).toThrow(FulpackOperationError);
+      expect(existsSync(archivePath)).toBe(false);
+    });
+
+    it("creates and extracts single-file ZST", async () => {
+      const zstPath = join(tempDir, "test.txt.zst");
+      const created = await create(testFile, zstPath, ArchiveFormat.ZST);
+      expect(created.compression).toBe("zstd");
+
+      const outDir = join(tempDir, "zst-out");
+      await extract(zstPath, outDir);
+      expect(await readFile(join(outDir, "test.txt"), "utf-8")).toBe(
+        await readFile(testFile, "utf-8"),
+      );
+    });
+
+    it("info() detects format and compression from magic bytes", async () => {
+      const archivePath = join(tempDir, "bundle.tar.xz");
+      await create(testFile, archivePath, ArchiveFormat.TAR_XZ);
+      const disguised = join(tempDir, "bundle.artifact");
+      await writeFile(disguised, await readFile(archivePath));
+
+      const metadata = await info(disguised);
+      expect(metadata.format).toBe(ArchiveFormat.TAR_XZ);
+      expect(metadata.compression).toBe("xz");
+      expect(metadata.entry_count).toBe(1);
+    });
+
+    it("streams TAR.ZST through createToStream and extractFromStream", async () => {
+      const outDir = join(tempDir, "zst-stream-out");
+      const result = await extractFromStream(
+        createToStream(testFile, ArchiveFormat.TAR_ZST),
+        outDir,
+        ArchiveFormat.TAR_ZST,
+      );
+
+      expect(result.extracted_count).toBe(1);
+      expect(existsSync(join(outDir, "test.txt"))).toBe(true);
+    });
+  });
+
+  describe("deterministic mode", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    /**
+     * Build the same tree twice with different creation order, mtimes and
+     * permissions so only deterministic mode can make the archives match.
+     */
+    async function makeTree(root: string, reverse: boolean, mtime: number, mode: number) {
+      const files = ["b.txt", "a.txt", "sub/z.txt", "sub/c.sh"];
+      await mkdir(join(root, "sub"), { recursive: true });
+      for (const name of reverse ? [...files].reverse() : files) {
+        const path = join(root, name);
+        await writeFile(path, `content of ${name}`);
+        await chmod(path, name.endsWith(".sh") ? mode | 0o100 : mode);
+        await utimes(path, mtime, mtime);
+      }
+    }
+
+    for (const format of [
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.TAR_ZST,
+      ArchiveFormat.ZIP,
+    ]) {
+      it(`produces byte-identical ${format} archives from equivalent trees`, async () => {
+        const first = join(tempDir, "first");
+        const second = join(tempDir, "second");
+        await makeTree(first, false, 1_600_000_000, 0o600);
+        await makeTree(second, true, 1_700_000_000, 0o664);
+
+        const archiveA = join(tempDir, `a.${format}`);
+        const archiveB = join(tempDir, `b.${format}`);
+        await create(first, archiveA, format, { deterministic: true });
+        await create(second, archiveB, format, { deterministic: true });
+
+        expect((await readFile(archiveA)).equals(await readFile(archiveB))).toBe(true);
+      });
+    }
+
+    it("sorts entries and normalizes mtimes and permissions", async () => {
+      const root = join(tempDir, "tree");
+      await makeTree(root, true, 1_650_000_000, 0o600);
+      vi.stubEnv("SOURCE_DATE_EPOCH", "1700000000");
+
+      const archivePath = join(tempDir, "sorted.tar");
+      await create(root, archivePath, ArchiveFormat.TAR, { deterministic: true });
+      const entries = await scan(archivePath);
+
+      expect(entries.map((e) => e.path)).toEqual(["a.txt", "b.txt", "sub/c.sh", "sub/z.txt"]);
+      expect(entries.every((e) => e.modified === "2023-11-14T22:13:20.000Z")).toBe(true);
+      expect(entries.find((e) => e.path === "sub/c.sh")?.mode).toBe("0755");
+      expect(entries.find((e) => e.path === "a.txt")?.mode).toBe("0644");
+    });
+
+    it("rejects a malformed SOURCE_DATE_EPOCH", async () => {
+      vi.stubEnv("SOURCE_DATE_EPOCH", "yesterday");
+
+      await expect(
+        create(testFile, join(tempDir, "bad.tar"), ArchiveFormat.TAR, { deterministic: true }),
+      ).rejects.toMatchObject({ code: "INVALID_OPTIONS" });
+    });
+
+    it("is accepted by the create-options schema", async () => {
+      const result = await validateDataBySchemaId(
+        { deterministic: true, compression_level: 9 },
+        "tsfulmen/library/fulpack/v1.0.0/create-options",
+      );
+
+      expect(result.valid).toBe(true);
+    });
+  });
 });
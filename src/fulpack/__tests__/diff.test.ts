@@ -0,0 +1,141 @@
+/**
+ * Tests for fulpack archive diff
+ */
+
+import { createWriteStream, existsSync, rmSync } from "node:fs";
+import { chmod, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create } from "../core.js";
+import { diff } from "../diff.js";
+import { ArchiveFormat } from "../types.js";
+
+/** Write a plain tar (no checksum manifest) with the given file contents. */
+async function writePlainTar(path: string, files: Record<string, string>): Promise<void> {
+  const tarStream = await import("tar-stream");
+  const pack = tarStream.pack();
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name, mode: 0o644 }, content);
+  }
+  pack.finalize();
+  await pipeline(pack as unknown as Readable, createWriteStream(path));
+}
+
+describe("Fulpack diff", () => {
+  let tempDir: string;
+  let srcDir: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-diff-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    await mkdir(join(srcDir, "nested"), { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    await writeFile(join(srcDir, "nested", "b.txt"), "bravo");
+    await writeFile(join(srcDir, "run.sh"), "#!/bin/sh\n");
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should report no changes between identical archives", async () => {
+    await create(srcDir, join(tempDir, "a.tar"), ArchiveFormat.TAR);
+
+    const result = await diff(join(tempDir, "a.tar"), join(tempDir, "a.tar"));
+
+    expect(result).toMatchObject({
+      added: [],
+      removed: [],
+      modified: [],
+      permission_changed: [],
+      unchanged_count: 3,
+      checksums_compared: true,
+    });
+  });
+
+  it("should report added, removed and modified entries", async () => {
+    await create(srcDir, join(tempDir, "before.tar.gz"), ArchiveFormat.TAR_GZ);
+    await writeFile(join(srcDir, "a.txt"), "alphx"); // same size, different content
+    await rm(join(srcDir, "nested", "b.txt"));
+    await writeFile(join(srcDir, "c.txt"), "charlie");
+    await create(srcDir, join(tempDir, "after.tar.gz"), ArchiveFormat.TAR_GZ);
+
+    const result = await diff(join(tempDir, "before.tar.gz"), join(tempDir, "after.tar.gz"));
+
+    expect(result.added.map((entry) => entry.path)).toEqual(["c.txt"]);
+    expect(result.removed.map((entry) => entry.path)).toEqual(["nested/b.txt"]);
+    expect(result.modified).toHaveLength(1);
+    expect(result.modified[0].path).toBe("a.txt");
+    expect(result.modified[0].before.checksum).not.toBe(result.modified[0].after.checksum);
+    expect(result.unchanged_count).toBe(1);
+  });
+
+  it("should report permission-only changes separately", async () => {
+    await chmod(join(srcDir, "run.sh"), 0o644);
+    await create(srcDir, join(tempDir, "before.tar"), ArchiveFormat.TAR);
+    await chmod(join(srcDir, "run.sh"), 0o755);
+    await create(srcDir, join(tempDir, "after.tar"), ArchiveFormat.TAR);
+
+    const result = await diff(join(tempDir, "before.tar"), join(tempDir, "after.tar"));
+
+    expect(result.modified).toEqual([]);
+    expect(result.permission_changed).toHaveLength(1);
+    expect(result.permission_changed[0]).toMatchObject({
+      path: "run.sh",
+      before: { mode: "0644" },
+      after: { mode: "0755" },
+    });
+  });
+
+  it("should not report permission changes between ZIP archives", async () => {
+    await chmod(join(srcDir, "run.sh"), 0o644);
+    await create(srcDir, join(tempDir, "before.zip"), ArchiveFormat.ZIP);
+    await chmod(join(srcDir, "run.sh"), 0o755);
+    await create(srcDir, join(tempDir, "after.zip"), ArchiveFormat.ZIP);
+
+    const result = await diff(join(tempDir, "before.zip"), join(tempDir, "after.zip"));
+
+    // scan() reports every ZIP entry as 0644, so mode changes are invisible
+    expect(result.permission_changed).toEqual([]);
+    expect(result.modified).toEqual([]);
+    expect(result.unchanged_count).toBe(3);
+  });
+
+  it("should fall back to sizes without comparable checksums", async () => {
+    await writePlainTar(join(tempDir, "before.tar"), { "a.txt": "alpha", "b.txt": "bravo" });
+    await writePlainTar(join(tempDir, "after.tar"), { "a.txt": "alphx", "b.txt": "bravo!" });
+
+    const result = await diff(join(tempDir, "before.tar"), join(tempDir, "after.tar"));
+
+    expect(result.checksums_compared).toBe(false);
+    expect(result.modified.map((change) => change.path)).toEqual(["b.txt"]);
+    expect(result.unchanged_count).toBe(1);
+  });
+
+  it("should not compare checksums across algorithms", async () => {
+    await create(srcDir, join(tempDir, "sha.tar"), ArchiveFormat.TAR);
+    await create(srcDir, join(tempDir, "xxh.tar"), ArchiveFormat.TAR, {
+      checksum_algorithm: "xxh3-128",
+    });
+
+    const result = await diff(join(tempDir, "sha.tar"), join(tempDir, "xxh.tar"));
+
+    expect(result.checksums_compared).toBe(false);
+    expect(result.modified).toEqual([]);
+  });
+
+  it("should report a missing archive under the diff operation", async () => {
+    await create(srcDir, join(tempDir, "a.tar"), ArchiveFormat.TAR);
+
+    await expect(diff(join(tempDir, "a.tar"), join(tempDir, "missing.tar"))).rejects.toMatchObject({
+      code: "ARCHIVE_NOT_FOUND",
+      operation: "diff",
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for fulpack single-entry reads
+ */
+
+import { createWriteStream, existsSync, rmSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create } from "../core.js";
+import { readEntry, readEntryBuffer } from "../entry.js";
+import { FulpackOperationError } from "../errors.js";
+import { ArchiveFormat } from "../types.js";
+
+describe("Fulpack readEntry", () => {
+  let tempDir: string;
+  let srcDir: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-entry-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    await mkdir(join(srcDir, "nested"), { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    await writeFile(join(srcDir, "nested", "b.txt"), "bravo");
+    await writeFile(join(srcDir, "large.bin"), Buffer.alloc(64 * 1024, 7));
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe.each([
+    [ArchiveFormat.TAR, "tar"],
+    [ArchiveFormat.TAR_GZ, "tar.gz"],
+    [ArchiveFormat.TAR_XZ, "tar.xz"],
+    [ArchiveFormat.ZIP, "zip"],
+  ])("%s", (format, extension) => {
+    let archive: string;
+
+    beforeEach(async () => {
+      archive = join(tempDir, `test.${extension}`);
+      await create(srcDir, archive, format);
+    });
+
+    it("should read a single entry", async () => {
+      expect((await readEntryBuffer(archive, "nested/b.txt")).toString()).toBe("bravo");
+      expect((await readEntryBuffer(archive, "large.bin")).length).toBe(64 * 1024);
+    });
+
+    it("should stream an entry", async () => {
+      const stream = await readEntry(archive, "a.txt");
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      expect(Buffer.concat(chunks).toString()).toBe("alpha");
+    });
+
+    it("should normalize the requested path", async () => {
+      expect((await readEntryBuffer(archive, "./nested//b.txt")).toString()).toBe("bravo");
+    });
+
+    it("should reject a missing entry", async () => {
+      await expect(readEntryBuffer(archive, "missing.txt")).rejects.toMatchObject({
+        code: "INVALID_PATH",
+        path: "missing.txt",
+        operation: "extract",
+      });
+    });
+
+    it("should reject entries larger than max_size", async () => {
+      await expect(readEntryBuffer(archive, "large.bin", { max_size: 1024 })).rejects.toMatchObject(
+        {
+          code: "DECOMPRESSION_BOMB",
+          details: { actual_size: 64 * 1024, max_size: 1024 },
+        },
+      );
+      // Other entries are unaffected by the cap
+      expect((await readEntryBuffer(archive, "a.txt", { max_size: 1024 })).toString()).toBe(
+        "alpha",
+      );
+    });
+  });
+
+  it("should reject a ZIP entry with corrupt compressed data", async () => {
+    const archive = join(tempDir, "corrupt.zip");
+    await writeFile(join(srcDir, "text.txt"), "fulpack ".repeat(4096));
+    await create(srcDir, archive, ArchiveFormat.ZIP);
+
+    // Overwrite the first deflate byte of text.txt with an invalid block type
+    const bytes = await readFile(archive);
+    const name = Buffer.from("text.txt");
+    let header = bytes.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    while (!bytes.subarray(header + 30, header + 30 + name.length).equals(name)) {
+      header = bytes.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04]), header + 4);
+    }
+    expect(bytes.readUInt16LE(header + 8)).toBe(8); // deflate
+    bytes[header + 30 + bytes.readUInt16LE(header + 26) + bytes.readUInt16LE(header + 28)] = 0xff;
+    await writeFile(archive, bytes);
+
+    await expect(readEntryBuffer(archive, "text.txt")).rejects.toThrow(/invalid block type/);
+  });
+
+  it("should read the file of a single-file GZIP archive", async () => {
+    const archive = join(tempDir, "a.txt.gz");
+    await create(join(srcDir, "a.txt"), archive, ArchiveFormat.GZIP);
+
+    expect((await readEntryBuffer(archive, "a.txt")).toString()).toBe("alpha");
+    await expect(readEntryBuffer(archive, "b.txt")).rejects.toMatchObject({
+      code: "INVALID_PATH",
+    });
+  });
+
+  it("should reject traversal and absolute paths before opening the archive", async () => {
+    const archive = join(tempDir, "test.tar");
+    await create(srcDir, archive, ArchiveFormat.TAR);
+
+    await expect(readEntry(archive, "../etc/passwd")).rejects.toMatchObject({
+      code: "PATH_TRAVERSAL",
+    });
+    await expect(readEntry(archive, "/etc/passwd")).rejects.toMatchObject({
+      code: "ABSOLUTE_PATH",
+    });
+  });
+
+  it("should reject directories and symlinks", async () => {
+    const archive = join(tempDir, "links.tar");
+    const tarStream = await import("tar-stream");
+    const pack = tarStream.pack();
+    pack.entry({ name: "dir", type: "directory" } as { name: string });
+    pack.entry({ name: "link", type: "symlink", linkname: "a.txt" } as { name: string });
+    pack.finalize();
+    await pipeline(pack as unknown as Readable, createWriteStream(archive));
+
+    const error = await readEntry(archive, "dir/").catch((e) => e);
+    expect(error).toBeInstanceOf(FulpackOperationError);
+    expect(error.code).toBe("INVALID_PATH");
+    expect(error.details).toEqual({ type: "directory" });
+    await expect(readEntry(archive, "link")).rejects.toMatchObject({
+      code: "INVALID_PATH",
+      details: { type: "symlink" },
+    });
+  });
+
+  it("should return the last duplicate from a ZIP and the first from a TAR", async () => {
+    const zipArchive = join(tempDir, "dupes.zip");
+    const { ZipArchive } = await import("archiver");
+    const zip = new ZipArchive();
+    const written = pipeline(zip, createWriteStream(zipArchive));
+    zip.append("old", { name: "a.txt" });
+    zip.append("new", { name: "a.txt" });
+    await zip.finalize();
+    await written;
+
+    const tarArchive = join(tempDir, "dupes.tar");
+    const tarStream = await import("tar-stream");
+    const pack = tarStream.pack();
+    pack.entry({ name: "a.txt" }, "old");
+    pack.entry({ name: "a.txt" }, "new");
+    pack.finalize();
+    await pipeline(pack as unknown as Readable, createWriteStream(tarArchive));
+
+    expect((await readEntryBuffer(zipArchive, "a.txt")).toString()).toBe("new");
+    expect((await readEntryBuffer(tarArchive, "a.txt")).toString()).toBe("old");
+  });
+
+  it("should report a missing archive", async () => {
+    await expect(readEntry(join(tempDir, "missing.zip"), "a.txt")).rejects.toMatchObject({
+      code: "ARCHIVE_NOT_FOUND",
+    });
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from "vitest";
-import { ArchiveFormat, EntryType, Operation } from "../../crucible/fulpack/types.js";
+import { ArchiveFormat, EntryType, Operation } from "../types.js";
 
 describe("Fulpack Enums (Crucible-Generated)", () => {
   describe("ArchiveFormat", () => {
@@ -12,18 +12,26 @@ describe("Fulpack Enums (Crucible-Generated)", () => {
       expect(ArchiveFormat.TAR_GZ).toBe("tar.gz");
       expect(ArchiveFormat.ZIP).toBe("zip");
       expect(ArchiveFormat.GZIP).toBe("gzip");
+      expect(ArchiveFormat.TAR_ZST).toBe("tar.zst");
+      expect(ArchiveFormat.ZST).toBe("zst");
+      expect(ArchiveFormat.TAR_XZ).toBe("tar.xz");
+      expect(ArchiveFormat.TAR_BZ2).toBe("tar.bz2");
     });
 
-    it("should have four formats", () => {
+    it("should have eight formats", () => {
       const formats = Object.values(ArchiveFormat);
       // TypeScript enums have both key and value entries
       // Filter to get only the string values
       const formatValues = formats.filter((v) => typeof v === "string");
-      expect(formatValues).toHaveLength(4);
+      expect(formatValues).toHaveLength(8);
       expect(formatValues).toContain("tar");
       expect(formatValues).toContain("tar.gz");
       expect(formatValues).toContain("zip");
       expect(formatValues).toContain("gzip");
+      expect(formatValues).toContain("tar.zst");
+      expect(formatValues).toContain("zst");
+      expect(formatValues).toContain("tar.xz");
+      expect(formatValues).toContain("tar.bz2");
     });
   });
 
@@ -51,17 +59,23 @@ describe("Fulpack Enums (Crucible-Generated)", () => {
       expect(Operation.SCAN).toBe("scan");
       expect(Operation.VERIFY).toBe("verify");
       expect(Operation.INFO).toBe("info");
+      expect(Operation.DIFF).toBe("diff");
+      expect(Operation.APPEND).toBe("append");
+      expect(Operation.UPDATE).toBe("update");
     });
 
-    it("should have five operations", () => {
+    it("should have eight operations", () => {
       const operations = Object.values(Operation);
       const operationValues = operations.filter((v) => typeof v === "string");
-      expect(operationValues).toHaveLength(5);
+      expect(operationValues).toHaveLength(8);
       expect(operationValues).toContain("create");
       expect(operationValues).toContain("extract");
       expect(operationValues).toContain("scan");
       expect(operationValues).toContain("verify");
       expect(operationValues).toContain("info");
+      expect(operationValues).toContain("diff");
+      expect(operationValues).toContain("append");
+      expect(operationValues).toContain("update");
     });
   });
 
@@ -3,7 +3,6 @@
  */
 
 import { describe, expect, it } from "vitest";
-import { Operation } from "../../crucible/fulpack/types.js";
 import {
   checkDecompressionBomb,
   createFulpackError,
@@ -13,6 +12,7 @@ import {
   isAbsolutePath,
   validatePath,
 } from "../errors.js";
+import { Operation } from "../types.js";
 
 describe("Fulpack Error Handling", () => {
   describe("createFulpackError", () => {
@@ -0,0 +1,102 @@
+/**
+ * Tests for fulpack format registry and magic-byte detection
+ */
+
+import { existsSync, rmSync } from "node:fs";
+import { copyFile, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create } from "../core.js";
+import {
+  detectFormat,
+  FORMAT_SPECS,
+  formatFromPath,
+  isArchiveFormat,
+  stripFormatExtension,
+} from "../formats.js";
+import { ArchiveFormat } from "../types.js";
+
+describe("Fulpack Formats", () => {
+  let tempDir: string;
+  let testFile: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-formats-${uniqueId}`);
+    await mkdir(tempDir, { recursive: true });
+    testFile = join(tempDir, "test.txt");
+    await writeFile(testFile, "Hello, formats!\n".repeat(32));
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("FORMAT_SPECS", () => {
+    it("describes every ArchiveFormat", () => {
+      for (const format of Object.values(ArchiveFormat)) {
+        expect(FORMAT_SPECS[format]).toBeDefined();
+      }
+    });
+
+    it("recognizes supported format identifiers", () => {
+      expect(isArchiveFormat("tar.zst")).toBe(true);
+      expect(isArchiveFormat("7z")).toBe(false);
+    });
+  });
+
+  describe("formatFromPath", () => {
+    it.each([
+      ["release.tar", ArchiveFormat.TAR],
+      ["release.tar.gz", ArchiveFormat.TAR_GZ],
+      ["release.tgz", ArchiveFormat.TAR_GZ],
+      ["release.tar.zst", ArchiveFormat.TAR_ZST],
+      ["release.tar.xz", ArchiveFormat.TAR_XZ],
+      ["release.tar.bz2", ArchiveFormat.TAR_BZ2],
+      ["release.zip", ArchiveFormat.ZIP],
+      ["data.csv.gz", ArchiveFormat.GZIP],
+      ["data.csv.zst", ArchiveFormat.ZST],
+      ["RELEASE.TAR.XZ", ArchiveFormat.TAR_XZ],
+    ])("maps %s to %s", (name, format) => {
+      expect(formatFromPath(name)).toBe(format);
+    });
+
+    it("returns null for unknown extensions", () => {
+      expect(formatFromPath("archive.7z")).toBeNull();
+    });
+  });
+
+  describe("stripFormatExtension", () => {
+    it("removes the matching extension", () => {
+      expect(stripFormatExtension("data.csv.zst", ArchiveFormat.ZST)).toBe("data.csv");
+      expect(stripFormatExtension("data.bin", ArchiveFormat.GZIP)).toBe("data.bin");
+    });
+  });
+
+  describe("detectFormat", () => {
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.TAR_ZST,
+      ArchiveFormat.TAR_XZ,
+      ArchiveFormat.ZIP,
+      ArchiveFormat.GZIP,
+      ArchiveFormat.ZST,
+    ])("detects %s from content regardless of extension", async (format) => {
+      const archivePath = join(tempDir, `archive.${format}`);
+      await create(testFile, archivePath, format);
+
+      const disguised = join(tempDir, "archive.bin");
+      await copyFile(archivePath, disguised);
+
+      expect(await detectFormat(disguised)).toBe(format);
+    });
+
+    it("returns null for unrecognized content", async () => {
+      expect(await detectFormat(testFile)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for fulpack progress, cancellation and telemetry hooks
+ */
+
+import { createWriteStream, existsSync, rmSync, statSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MetricsRegistry } from "../../telemetry/registry.js";
+import { create, extract, verify } from "../core.js";
+import { ArchiveFormat } from "../types.js";
+
+type ProgressCall = [entry: string, bytesDone: number, bytesTotal: number];
+
+describe("Fulpack operation hooks", () => {
+  let tempDir: string;
+  let srcDir: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-hooks-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    await mkdir(join(srcDir, "nested"), { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    await writeFile(join(srcDir, "nested", "b.bin"), Buffer.alloc(256 * 1024, 1));
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe.each([
+    [ArchiveFormat.TAR, "tar"],
+    [ArchiveFormat.TAR_GZ, "tar.gz"],
+    [ArchiveFormat.TAR_XZ, "tar.xz"],
+    [ArchiveFormat.ZIP, "zip"],
+  ])("%s progress", (format, extension) => {
+    it("should report each entry written by create()", async () => {
+      const calls: ProgressCall[] = [];
+      await create(srcDir, join(tempDir, `out.${extension}`), format, {
+        onProgress: (...call) => calls.push(call),
+      });
+
+      expect(calls.map(([entry]) => entry).sort()).toEqual(["a.txt", "nested/b.bin"]);
+      const total = 5 + 256 * 1024;
+      expect(calls.every(([, , bytesTotal]) => bytesTotal === total)).toBe(true);
+      expect(calls[calls.length - 1][1]).toBe(total);
+    });
+
+    it("should report archive bytes read by extract() and verify()", async () => {
+      const archive = join(tempDir, `out.${extension}`);
+      await create(srcDir, archive, format);
+      const size = statSync(archive).size;
+
+      for (const run of [
+        (onProgress: (...call: ProgressCall) => void) =>
+          extract(archive, join(tempDir, "out"), { onProgress }),
+        (onProgress: (...call: ProgressCall) => void) => verify(archive, { onProgress }),
+      ]) {
+        const calls: ProgressCall[] = [];
+        await run((...call) => calls.push(call));
+
+        expect(new Set(calls.map(([entry]) => entry))).toEqual(new Set(["a.txt", "nested/b.bin"]));
+        expect(calls.every(([, done, total]) => done <= total && total === size)).toBe(true);
+        const done = calls.map(([, bytesDone]) => bytesDone);
+        expect(done).toEqual([...done].sort((x, y) => x - y));
+      }
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should reject an already-aborted signal before touching the filesystem", async () => {
+      const output = join(tempDir, "never.tar");
+      const error = await create(srcDir, output, ArchiveFormat.TAR, {
+        signal: AbortSignal.abort("shutdown"),
+      }).catch((e) => e);
+
+      expect(error).toMatchObject({
+        code: "OPERATION_ABORTED",
+        operation: "create",
+        details: { reason: "shutdown" },
+      });
+      expect(existsSync(output)).toBe(false);
+    });
+
+    it.each([
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.TAR_XZ,
+      ArchiveFormat.ZIP,
+    ])("should abort %s creation and remove the partial output", async (format) => {
+      const output = join(tempDir, `partial.${format}`);
+      const controller = new AbortController();
+
+      await expect(
+        create(srcDir, output, format, {
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }),
+      ).rejects.toMatchObject({ code: "OPERATION_ABORTED" });
+      expect(existsSync(output)).toBe(false);
+    });
+
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.ZIP,
+    ])("should abort %s extraction and verification", async (format) => {
+      const archive = join(tempDir, `test.${format}`);
+      await create(srcDir, archive, format);
+
+      const extracting = new AbortController();
+      await expect(
+        extract(archive, join(tempDir, "out"), {
+          signal: extracting.signal,
+          onProgress: () => extracting.abort(),
+        }),
+      ).rejects.toMatchObject({ code: "OPERATION_ABORTED", operation: "extract", archive });
+
+      const verifying = new AbortController();
+      await expect(
+        verify(archive, { signal: verifying.signal, onProgress: () => verifying.abort() }),
+      ).rejects.toMatchObject({ code: "OPERATION_ABORTED", operation: "verify" });
+    });
+  });
+
+  describe("metrics", () => {
+    it("should record operations, entries, bytes and duration", async () => {
+      const metrics = new MetricsRegistry();
+      const archive = join(tempDir, "test.zip");
+
+      await create(srcDir, archive, ArchiveFormat.ZIP, { metrics });
+      await extract(archive, join(tempDir, "out"), { metrics });
+      await extract(join(tempDir, "missing.zip"), join(tempDir, "out"), { metrics }).catch(
+        () => {},
+      );
+
+      const operations = metrics.counter("fulpack_operations_total");
+      expect(operations.getValueForLabels({ operation: "create", result: "success" })).toBe(1);
+      expect(operations.getValueForLabels({ operation: "extract", result: "success" })).toBe(1);
+      expect(operations.getValueForLabels({ operation: "extract", result: "error" })).toBe(1);
+
+      const bytes = metrics.counter("fulpack_bytes_processed_total");
+      expect(bytes.getValueForLabels({ operation: "create" })).toBe(5 + 256 * 1024);
+      expect(bytes.getValueForLabels({ operation: "extract" })).toBe(5 + 256 * 1024);
+      expect(
+        metrics.counter("fulpack_entries_processed_total").getValueForLabels({
+          operation: "extract",
+        }),
+      ).toBe(2);
+      const durations = metrics.histogram("fulpack_operation_ms");
+      expect(durations.getSummaryForLabels({ operation: "create" })?.count).toBe(1);
+      expect(durations.getSummaryForLabels({ operation: "extract" })?.count).toBe(2);
+    });
+
+    it("should record totals when verify() stops early", async () => {
+      const metrics = new MetricsRegistry();
+      const empty = join(tempDir, "empty.tar");
+      const corrupt = join(tempDir, "corrupt.tar.gz");
+      await writeFile(empty, "");
+      await writeFile(corrupt, "definitely not gzip");
+
+      expect((await verify(empty, { metrics })).valid).toBe(false);
+      expect((await verify(corrupt, { metrics })).valid).toBe(false);
+
+      expect(
+        metrics
+          .counter("fulpack_operations_total")
+          .getValueForLabels({ operation: "verify", result: "success" }),
+      ).toBe(2);
+      expect(metrics.counter("fulpack_entries_processed_total").getLabeledValues().size).toBe(1);
+      expect(metrics.counter("fulpack_bytes_processed_total").getLabeledValues().size).toBe(1);
+    });
+
+    it("should count security rejections by error code", async () => {
+      const metrics = new MetricsRegistry();
+      const archive = join(tempDir, "evil.tar");
+      const tarStream = await import("tar-stream");
+      const pack = tarStream.pack();
+      pack.entry({ name: "../escape.txt" }, "x");
+      pack.entry({ name: "ok.txt" }, "ok");
+      pack.finalize();
+      await pipeline(pack as unknown as Readable, createWriteStream(archive));
+
+      await extract(archive, join(tempDir, "out"), { metrics });
+
+      expect(
+        metrics.counter("fulpack_security_rejections_total").getValueForLabels({
+          operation: "extract",
+          code: "PATH_TRAVERSAL",
+        }),
+      ).toBe(1);
+    });
+  });
+});
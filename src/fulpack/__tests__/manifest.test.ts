@@ -0,0 +1,396 @@
+/**
+ * Tests for fulpack embedded checksum manifests
+ */
+
+import { createReadStream, createWriteStream, existsSync, rmSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { ZipArchive } from "archiver";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Algorithm, getDefaultHashPool, hashString } from "../../fulhash/index.js";
+import { validateDataBySchemaId } from "../../schema/index.js";
+import { create, createToStream, extract, info, scan, verify, verifyFromStream } from "../core.js";
+import { FulpackOperationError } from "../errors.js";
+import { MANIFEST_PATH } from "../manifest.js";
+import { ArchiveFormat, type ArchiveManifest } from "../types.js";
+
+interface TestEntry {
+  name: string;
+  content: string;
+}
+
+/** Manifest JSON listing the given checksums (bare SHA-256 hex). */
+function manifestJson(entries: { path: string; checksum: string }[]): string {
+  return JSON.stringify({
+    format: "tar",
+    version: "1.0.0",
+    generated: new Date().toISOString(),
+    checksum_algorithm: "sha256",
+    entry_count: entries.length,
+    entries: entries.map((entry) => ({ ...entry, type: "file", size: 0 })),
+  });
+}
+
+async function sha256(content: string): Promise<string> {
+  return (await hashString(content, { algorithm: Algorithm.SHA256 })).hex;
+}
+
+/** Read the embedded manifest of a plain tar. */
+async function readTarManifest(path: string): Promise<unknown> {
+  const tarStream = await import("tar-stream");
+  const extract = tarStream.extract();
+  createReadStream(path).pipe(extract);
+  for await (const entry of extract) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of entry) {
+      chunks.push(chunk as Buffer);
+    }
+    if (entry.header.name === MANIFEST_PATH) {
+      extract.destroy();
+      return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    }
+  }
+  throw new Error(`${MANIFEST_PATH} not found in ${path}`);
+}
+
+/** Write a plain tar whose first entry is the given manifest. */
+async function writeTar(path: string, manifest: string, entries: TestEntry[]): Promise<void> {
+  const tarStream = await import("tar-stream");
+  const pack = tarStream.pack();
+  pack.entry({ name: MANIFEST_PATH }, manifest);
+  for (const entry of entries) {
+    pack.entry({ name: entry.name }, entry.content);
+  }
+  pack.finalize();
+  await pipeline(pack as unknown as Readable, createWriteStream(path));
+}
+
+/** Write a ZIP whose first entry is the given manifest. */
+async function writeZip(path: string, manifest: string, entries: TestEntry[]): Promise<void> {
+  const archive = new ZipArchive();
+  archive.append(manifest, { name: MANIFEST_PATH });
+  for (const entry of entries) {
+    archive.append(entry.content, { name: entry.name });
+  }
+  const written = pipeline(archive, createWriteStream(path));
+  await archive.finalize();
+  await written;
+}
+
+describe("Fulpack Checksum Manifest", () => {
+  let tempDir: string;
+  let srcDir: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-manifest-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    await mkdir(join(srcDir, "nested"), { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    await writeFile(join(srcDir, "nested", "b.txt"), "bravo");
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("create", () => {
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.ZIP,
+    ])("embeds a manifest in %s archives", async (format) => {
+      const archivePath = join(tempDir, `bundle.${format}`);
+      const created = await create(srcDir, archivePath, format);
+
+      expect(created.has_checksums).toBe(true);
+      expect(created.checksum_algorithm).toBe("sha256");
+      expect(created.entry_count).toBe(2);
+
+      const metadata = await info(archivePath);
+      expect(metadata.has_checksums).toBe(true);
+      expect(metadata.checksum_algorithm).toBe("sha256");
+    });
+
+    it("does not list the manifest as an archive entry", async () => {
+      const archivePath = join(tempDir, "bundle.tar.gz");
+      await create(srcDir, archivePath, ArchiveFormat.TAR_GZ);
+
+      const entries = await scan(archivePath);
+      expect(entries.map((e) => e.path).sort()).toEqual(["a.txt", "nested/b.txt"]);
+
+      const alpha = entries.find((e) => e.path === "a.txt");
+      expect(alpha?.checksum).toBe(await sha256("alpha"));
+    });
+
+    it.each([
+      "xxh3-128",
+      "sha512",
+      "md5",
+    ] as const)("honors checksum_algorithm %s", async (algorithm) => {
+      const archivePath = join(tempDir, "bundle.zip");
+      const created = await create(srcDir, archivePath, ArchiveFormat.ZIP, {
+        checksum_algorithm: algorithm,
+      });
+
+      expect(created.checksum_algorithm).toBe(algorithm);
+      const result = await verify(archivePath);
+      expect(result.valid).toBe(true);
+      expect(result.checksums_verified).toBe(2);
+    });
+
+    it.each([
+      "sha256",
+      "xxh3-128",
+      "crc32",
+    ] as const)("writes a %s manifest that matches its schema", async (algorithm) => {
+      const archivePath = join(tempDir, "bundle.tar");
+      await create(srcDir, archivePath, ArchiveFormat.TAR, { checksum_algorithm: algorithm });
+
+      const manifest = (await readTarManifest(archivePath)) as ArchiveManifest;
+      const result = await validateDataBySchemaId(
+        manifest,
+        "tsfulmen/library/fulpack/v1.0.0/archive-manifest",
+      );
+
+      expect(result.valid).toBe(true);
+      expect(manifest.checksum_algorithm).toBe(algorithm);
+      const alpha = manifest.entries.find((entry) => entry.path === "a.txt");
+      expect(alpha?.checksum).toBe((await hashString("alpha", { algorithm })).hex);
+    });
+
+    it.each([
+      ["create", (output: string) => create(srcDir, output, ArchiveFormat.TAR)],
+      [
+        "createToStream",
+        (output: string) =>
+          pipeline(createToStream(srcDir, ArchiveFormat.TAR), createWriteStream(output)),
+      ],
+    ] as const)("%s fails with CHECKSUM_MISMATCH when a file changes after it was hashed", async (_, write) => {
+      const pool = getDefaultHashPool();
+      const hashFile = pool.hashFile.bind(pool);
+      const spy = vi.spyOn(pool, "hashFile").mockImplementation(async (path, options) => {
+        const digest = await hashFile(path, options);
+        if (String(path).endsWith("b.txt")) {
+          await writeFile(path, "BRAVO");
+        }
+        return digest;
+      });
+
+      try {
+        const error = await write(join(tempDir, "bundle.tar")).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(FulpackOperationError);
+        expect((error as FulpackOperationError).code).toBe("CHECKSUM_MISMATCH");
+        expect((error as FulpackOperationError).path).toBe("nested/b.txt");
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    it("rejects checksum algorithms fulhash does not implement", async () => {
+      const archivePath = join(tempDir, "bundle.tar");
+      const error = await create(srcDir, archivePath, ArchiveFormat.TAR, {
+        checksum_algorithm: "whirlpool" as never,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FulpackOperationError);
+      expect((error as FulpackOperationError).code).toBe("INVALID_OPTIONS");
+      expect(existsSync(archivePath)).toBe(false);
+    });
+  });
+
+  describe("verify", () => {
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.TAR_XZ,
+      ArchiveFormat.ZIP,
+    ])("recomputes every checksum in %s archives", async (format) => {
+      const archivePath = join(tempDir, `bundle.${format}`);
+      await create(srcDir, archivePath, format);
+
+      const result = await verify(archivePath);
+
+      expect(result.valid).toBe(true);
+      expect(result.checksums_verified).toBe(2);
+      expect(result.checks_performed).toContain("checksums_verified");
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it("reports CHECKSUM_MISMATCH for tampered TAR entries", async () => {
+      const archivePath = join(tempDir, "tampered.tar");
+      await writeTar(
+        archivePath,
+        manifestJson([
+          { path: "a.txt", checksum: await sha256("alpha") },
+          { path: "b.txt", checksum: await sha256("bravo") },
+        ]),
+        [
+          { name: "a.txt", content: "alpha" },
+          { name: "b.txt", content: "BRAVO" },
+        ],
+      );
+
+      const result = await verify(archivePath);
+
+      expect(result.valid).toBe(false);
+      expect(result.checksums_verified).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].code).toBe("CHECKSUM_MISMATCH");
+      expect(result.errors[0].path).toBe("b.txt");
+      expect(result.errors[0].details?.expected).toBe(`sha256:${await sha256("bravo")}`);
+      expect(result.errors[0].details?.actual).toBe(`sha256:${await sha256("BRAVO")}`);
+    });
+
+    it("reports CHECKSUM_MISMATCH for tampered ZIP entries", async () => {
+      const archivePath = join(tempDir, "tampered.zip");
+      await writeZip(archivePath, manifestJson([{ path: "a.txt", checksum: await sha256("x") }]), [
+        { name: "a.txt", content: "alpha" },
+      ]);
+
+      const result = await verify(archivePath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.code)).toEqual(["CHECKSUM_MISMATCH"]);
+    });
+
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.TAR_ZST,
+      ArchiveFormat.ZIP,
+    ])("recomputes every checksum in %s streams", async (format) => {
+      const archivePath = join(tempDir, `bundle.${format}`);
+      await create(srcDir, archivePath, format);
+
+      const result = await verifyFromStream(createReadStream(archivePath), format);
+
+      expect(result).toEqual(await verify(archivePath));
+      expect(result.checksums_verified).toBe(2);
+    });
+
+    it("reports CHECKSUM_MISMATCH for tampered entries in a stream", async () => {
+      const archivePath = join(tempDir, "tampered.zip");
+      await writeZip(archivePath, manifestJson([{ path: "a.txt", checksum: await sha256("x") }]), [
+        { name: "a.txt", content: "alpha" },
+      ]);
+
+      const result = await verifyFromStream(createReadStream(archivePath), ArchiveFormat.ZIP);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.code)).toEqual(["CHECKSUM_MISMATCH"]);
+    });
+
+    it("reports manifest entries missing from the archive", async () => {
+      const archivePath = join(tempDir, "missing.tar");
+      await writeTar(
+        archivePath,
+        manifestJson([
+          { path: "a.txt", checksum: await sha256("alpha") },
+          { path: "gone.txt", checksum: await sha256("gone") },
+        ]),
+        [{ name: "a.txt", content: "alpha" }],
+      );
+
+      const result = await verify(archivePath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].code).toBe("CHECKSUM_MISMATCH");
+      expect(result.errors[0].path).toBe("gone.txt");
+    });
+
+    it("treats an unparseable manifest as a corrupt archive", async () => {
+      const archivePath = join(tempDir, "garbage.tar");
+      await writeTar(archivePath, "{not json", [{ name: "a.txt", content: "alpha" }]);
+
+      const result = await verify(archivePath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].code).toBe("ARCHIVE_CORRUPT");
+    });
+  });
+
+  describe("extract", () => {
+    it.each([
+      ArchiveFormat.TAR_GZ,
+      ArchiveFormat.ZIP,
+    ])("verifies %s entries and does not write the manifest", async (format) => {
+      const archivePath = join(tempDir, `bundle.${format}`);
+      await create(srcDir, archivePath, format);
+
+      const outDir = join(tempDir, "out");
+      const result = await extract(archivePath, outDir);
+
+      expect(result.error_count).toBe(0);
+      expect(result.extracted_count).toBe(2);
+      expect(result.checksums_verified).toBe(2);
+      expect(existsSync(join(outDir, ".fulpack"))).toBe(false);
+      expect(await readFile(join(outDir, "nested", "b.txt"), "utf-8")).toBe("bravo");
+    });
+
+    it.each([
+      ["tar", writeTar],
+      ["zip", writeZip],
+    ] as const)("reports and removes mismatched %s entries", async (extension, write) => {
+      const archivePath = join(tempDir, `tampered.${extension}`);
+      await write(
+        archivePath,
+        manifestJson([
+          { path: "a.txt", checksum: await sha256("alpha") },
+          { path: "b.txt", checksum: await sha256("bravo") },
+        ]),
+        [
+          { name: "a.txt", content: "alpha" },
+          { name: "b.txt", content: "BRAVO" },
+        ],
+      );
+
+      const outDir = join(tempDir, "out");
+      const result = await extract(archivePath, outDir);
+
+      expect(result.extracted_count).toBe(1);
+      expect(result.error_count).toBe(1);
+      expect(result.checksums_verified).toBe(1);
+      expect(result.errors?.[0].code).toBe("CHECKSUM_MISMATCH");
+      expect(result.errors?.[0].path).toBe("b.txt");
+      expect(existsSync(join(outDir, "a.txt"))).toBe(true);
+      expect(existsSync(join(outDir, "b.txt"))).toBe(false);
+    });
+
+    it.each([
+      ArchiveFormat.TAR,
+      ArchiveFormat.ZIP,
+    ])("does not report %s entries skipped by overwrite as missing", async (format) => {
+      const archivePath = join(tempDir, `bundle.${format}`);
+      await create(srcDir, archivePath, format);
+      const outDir = join(tempDir, "out");
+      await extract(archivePath, outDir);
+
+      const result = await extract(archivePath, outDir, { overwrite: "skip" });
+
+      expect(result.skipped_count).toBe(2);
+      expect(result.error_count).toBe(0);
+    });
+
+    it("skips verification when verify_checksums is false", async () => {
+      const archivePath = join(tempDir, "tampered.tar");
+      await writeTar(archivePath, manifestJson([{ path: "a.txt", checksum: await sha256("x") }]), [
+        { name: "a.txt", content: "alpha" },
+      ]);
+
+      const outDir = join(tempDir, "out");
+      const result = await extract(archivePath, outDir, { verify_checksums: false });
+
+      expect(result.error_count).toBe(0);
+      expect(result.checksums_verified).toBeUndefined();
+      expect(await readFile(join(outDir, "a.txt"), "utf-8")).toBe("alpha");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for fulpack in-place append/update
+ */
+
+import { createWriteStream, existsSync, rmSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { create, extract, info, scan, verify } from "../core.js";
+import { FulpackOperationError } from "../errors.js";
+import { MANIFEST_PATH } from "../manifest.js";
+import { ArchiveFormat } from "../types.js";
+import { append, update } from "../update.js";
+
+describe("Fulpack append/update", () => {
+  let tempDir: string;
+  let srcDir: string;
+  let addDir: string;
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    tempDir = join(tmpdir(), `fulpack-update-${uniqueId}`);
+    srcDir = join(tempDir, "src");
+    addDir = join(tempDir, "add");
+    await mkdir(join(srcDir, "nested"), { recursive: true });
+    await mkdir(addDir, { recursive: true });
+    await writeFile(join(srcDir, "a.txt"), "alpha");
+    await writeFile(join(srcDir, "nested", "b.txt"), "bravo");
+    await writeFile(join(srcDir, "z.txt"), "zulu");
+    await writeFile(join(addDir, "c.txt"), "charlie");
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function extractAll(archive: string): Promise<string> {
+    const outDir = join(tempDir, `out-${Math.random().toString(36).substring(2, 8)}`);
+    const result = await extract(archive, outDir);
+    expect(result.error_count).toBe(0);
+    return outDir;
+  }
+
+  describe.each([
+    [ArchiveFormat.TAR, "tar"],
+    [ArchiveFormat.ZIP, "zip"],
+  ])("%s", (format, extension) => {
+    let archive: string;
+
+    beforeEach(async () => {
+      archive = join(tempDir, `test.${extension}`);
+      await create(srcDir, archive, format, { deterministic: true });
+    });
+
+    it("should append new entries and extend the checksum manifest", async () => {
+      const result = await append(archive, join(addDir, "c.txt"));
+
+      expect(result.entry_count).toBe(4);
+      expect(result.has_checksums).toBe(true);
+      const outDir = await extractAll(archive);
+      expect(await readFile(join(outDir, "c.txt"), "utf8")).toBe("charlie");
+      expect(await readFile(join(outDir, "nested", "b.txt"), "utf8")).toBe("bravo");
+
+      const validation = await verify(archive);
+      expect(validation.valid).toBe(true);
+      expect(validation.checks_performed).toContain("checksums_verified");
+      expect(validation.entry_count).toBe(4);
+    });
+
+    it("should reject appending an entry that already exists", async () => {
+      const before = await readFile(archive);
+      await writeFile(join(addDir, "a.txt"), "changed");
+
+      await expect(append(archive, join(addDir, "a.txt"))).rejects.toMatchObject({
+        code: "INVALID_OPTIONS",
+        operation: "append",
+        details: { entries: ["a.txt"] },
+      });
+      expect((await readFile(archive)).equals(before)).toBe(true);
+    });
+
+    it("should replace existing entries on update", async () => {
+      await writeFile(join(addDir, "a.txt"), "alpha, revised");
+
+      await update(archive, [join(addDir, "a.txt"), join(addDir, "c.txt")]);
+
+      const entries = await scan(archive);
+      expect(entries.filter((entry) => entry.path === "a.txt")).toHaveLength(1);
+      expect(entries.map((entry) => entry.path).sort()).toEqual([
+        "a.txt",
+        "c.txt",
+        "nested/b.txt",
+        "z.txt",
+      ]);
+
+      const outDir = await extractAll(archive);
+      expect(await readFile(join(outDir, "a.txt"), "utf8")).toBe("alpha, revised");
+      expect(await readFile(join(outDir, "z.txt"), "utf8")).toBe("zulu");
+
+      const validation = await verify(archive);
+      expect(validation.valid).toBe(true);
+      expect(validation.checks_performed).toContain("checksums_verified");
+    });
+
+    it("should survive repeated updates", async () => {
+      await writeFile(join(addDir, "a.txt"), "one");
+      await update(archive, join(addDir, "a.txt"));
+      await writeFile(join(addDir, "a.txt"), "two");
+      await update(archive, join(addDir, "a.txt"));
+
+      const outDir = await extractAll(archive);
+      expect(await readFile(join(outDir, "a.txt"), "utf8")).toBe("two");
+      expect((await verify(archive)).valid).toBe(true);
+      expect((await info(archive)).entry_count).toBe(3);
+    });
+
+    it("should report missing sources under the operation", async () => {
+      await expect(append(archive, join(addDir, "missing.txt"))).rejects.toMatchObject({
+        code: "SOURCE_NOT_FOUND",
+        operation: "append",
+      });
+    });
+  });
+
+  it("should leave the bytes before the splice point untouched", async () => {
+    const archive = join(tempDir, "test.tar");
+    await create(srcDir, archive, ArchiveFormat.TAR);
+    const before = await readFile(archive);
+
+    await append(archive, join(addDir, "c.txt"));
+
+    const after = await readFile(archive);
+    // Everything but the 1024-byte end-of-archive marker is preserved
+    expect(after.subarray(0, before.length - 1024).equals(before.subarray(0, -1024))).toBe(true);
+  });
+
+  it("should update a TAR without a checksum manifest", async () => {
+    const archive = join(tempDir, "plain.tar");
+    const tarStream = await import("tar-stream");
+    const pack = tarStream.pack();
+    pack.entry({ name: "a.txt" }, "alpha");
+    pack.entry({ name: "b.txt" }, "bravo");
+    pack.finalize();
+    await pipeline(pack as unknown as Readable, createWriteStream(archive));
+
+    await writeFile(join(addDir, "a.txt"), "replaced");
+    await update(archive, join(addDir, "a.txt"));
+
+    const paths = (await scan(archive)).map((entry) => entry.path);
+    expect(paths).toEqual(["b.txt", "a.txt"]);
+    const outDir = await extractAll(archive);
+    expect(await readFile(join(outDir, "a.txt"), "utf8")).toBe("replaced");
+  });
+
+  it("should drop superseded manifests from the ZIP central directory", async () => {
+    const archive = join(tempDir, "test.zip");
+    await create(srcDir, archive, ArchiveFormat.ZIP);
+
+    await append(archive, join(addDir, "c.txt"));
+
+    const unzipper = await import("unzipper");
+    const directory = await unzipper.Open.file(archive);
+    const manifests = directory.files.filter((file) => file.path === MANIFEST_PATH);
+    expect(manifests).toHaveLength(1);
+    const manifest = JSON.parse((await manifests[0].buffer()).toString("utf8"));
+    expect(manifest.entry_count).toBe(4);
+  });
+
+  it("should reject compressed archives", async () => {
+    const archive = join(tempDir, "test.tar.gz");
+    await create(srcDir, archive, ArchiveFormat.TAR_GZ);
+
+    const error = await update(archive, join(addDir, "c.txt")).catch((e) => e);
+    expect(error).toBeInstanceOf(FulpackOperationError);
+    expect(error.code).toBe("INVALID_ARCHIVE_FORMAT");
+    expect(error.operation).toBe("update");
+  });
+
+  it("should report a missing archive", async () => {
+    await expect(append(join(tempDir, "missing.tar"), join(addDir, "c.txt"))).rejects.toMatchObject(
+      { code: "ARCHIVE_NOT_FOUND", operation: "append" },
+    );
+  });
+});
@@ -26,6 +26,8 @@ declare module "archiver" {
     prefix?: string;
     /** Modification time for the entry. */
     date?: Date | string;
+    /** Source file stats (set by archiver on `entry` events for files). */
+    stats?: import("node:fs").Stats;
   }
 
   export interface CoreOptions {
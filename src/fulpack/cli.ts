@@ -0,0 +1,254 @@
+/**
+ * Fulpack CLI - Commander-based CLI for archive operations
+ *
+ * `tsfulmen-pack` exposes create, extract, scan, verify and info, each mapping
+ * 1:1 to the function in core.ts with the same security defaults. Results are
+ * printed to stdout as JSON matching the Crucible fulpack schemas (ArchiveInfo,
+ * ExtractResult, ArchiveEntry[], ValidationResult); failures print the
+ * canonical FulpackError to stderr. Exit codes come from the Foundry catalog.
+ *
+ * This module exports a pure factory only — it never parses argv on import.
+ * The executable entry point lives at src/bin/pack-cli.ts (package bin
+ * "tsfulmen-pack").
+ */
+
+import { Command, InvalidArgumentError, Option } from "commander";
+import { type ExitCode, exitCodes } from "../foundry/exit-codes/index.js";
+import { create, extract, info, scan, verify } from "./core.js";
+import { createFulpackError, ERROR_CODES, FulpackOperationError } from "./errors.js";
+import { FORMAT_SPECS, formatFromPath, isArchiveFormat } from "./formats.js";
+import { FULPACK_VERSION } from "./index.js";
+import type { CreateOptions, ExtractOptions, ScanOptions } from "./types.js";
+import { Operation } from "./types.js";
+
+/**
+ * Exit code for each fulpack error code
+ */
+const ERROR_EXIT_CODES: Readonly<Record<string, ExitCode>> = {
+  [ERROR_CODES.INVALID_ARCHIVE_FORMAT]: exitCodes.EXIT_INVALID_ARGUMENT,
+  [ERROR_CODES.INVALID_PATH]: exitCodes.EXIT_INVALID_ARGUMENT,
+  [ERROR_CODES.INVALID_OPTIONS]: exitCodes.EXIT_INVALID_ARGUMENT,
+  [ERROR_CODES.PATH_TRAVERSAL]: exitCodes.EXIT_SECURITY_VIOLATION,
+  [ERROR_CODES.ABSOLUTE_PATH]: exitCodes.EXIT_SECURITY_VIOLATION,
+  [ERROR_CODES.SYMLINK_ESCAPE]: exitCodes.EXIT_SECURITY_VIOLATION,
+  [ERROR_CODES.DECOMPRESSION_BOMB]: exitCodes.EXIT_SECURITY_VIOLATION,
+  [ERROR_CODES.CHECKSUM_MISMATCH]: exitCodes.EXIT_DATA_CORRUPT,
+  [ERROR_CODES.ARCHIVE_CORRUPT]: exitCodes.EXIT_DATA_CORRUPT,
+  [ERROR_CODES.ARCHIVE_NOT_FOUND]: exitCodes.EXIT_FILE_NOT_FOUND,
+  [ERROR_CODES.SOURCE_NOT_FOUND]: exitCodes.EXIT_FILE_NOT_FOUND,
+  [ERROR_CODES.PERMISSION_DENIED]: exitCodes.EXIT_PERMISSION_DENIED,
+  [ERROR_CODES.DISK_FULL]: exitCodes.EXIT_FILE_WRITE_ERROR,
+  [ERROR_CODES.EXTRACTION_FAILED]: exitCodes.EXIT_FAILURE,
+};
+
+/**
+ * Map a fulpack error code to a Foundry exit code (EXIT_FAILURE if unknown)
+ */
+export function exitCodeForError(code: string | undefined): ExitCode {
+  return (code && ERROR_EXIT_CODES[code]) || exitCodes.EXIT_FAILURE;
+}
+
+/**
+ * Create CLI command structure
+ *
+ * Commands set process.exitCode rather than calling process.exit(), so JSON
+ * written to a pipe is flushed before the process ends.
+ */
+export function createPackCLI(): Command {
+  const program = new Command();
+
+  program
+    .name("tsfulmen-pack")
+    .description("Archive operations CLI for Fulmen (fulpack)")
+    .version(FULPACK_VERSION)
+    .exitOverride((error) => {
+      // Usage errors (unknown option, missing argument) exit with EXIT_USAGE
+      process.exit(error.exitCode === 0 ? exitCodes.EXIT_SUCCESS : exitCodes.EXIT_USAGE);
+    });
+
+  // Create archive command
+  program
+    .command("create")
+    .description("Create an archive from files and directories")
+    .argument("<output>", "Archive file to write")
+    .argument("<sources...>", "Files or directories to archive")
+    .addOption(
+      new Option(
+        "-f, --format <format>",
+        "Archive format (default: from output extension)",
+      ).choices(Object.keys(FORMAT_SPECS)),
+    )
+    .option("-l, --level <level>", "Compression level (1-9)", parseInteger)
+    .option("--checksum <algorithm>", "Checksum algorithm for the embedded manifest")
+    .option("--no-preserve-permissions", "Store files as 0644 instead of their own mode")
+    .option("--follow-symlinks", "Archive symlink targets instead of skipping symlinks")
+    .option("--deterministic", "Reproducible output (honors SOURCE_DATE_EPOCH)")
+    .action(
+      async (
+        output: string,
+        sources: string[],
+        cmdOptions: {
+          format?: string;
+          level?: number;
+          checksum?: string;
+          preservePermissions: boolean;
+          followSymlinks?: boolean;
+          deterministic?: boolean;
+        },
+      ) => {
+        await run(Operation.CREATE, async () => {
+          const format = cmdOptions.format ?? formatFromPath(output);
+          if (!format || !isArchiveFormat(format)) {
+            throw new FulpackOperationError(
+              createFulpackError(
+                ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+                `Cannot infer archive format from ${output}; pass --format`,
+                Operation.CREATE,
+              ),
+            );
+          }
+          const options: CreateOptions = {
+            ...(cmdOptions.level !== undefined && { compression_level: cmdOptions.level }),
+            ...(cmdOptions.checksum && {
+              checksum_algorithm: cmdOptions.checksum as CreateOptions["checksum_algorithm"],
+            }),
+            preserve_permissions: cmdOptions.preservePermissions,
+            follow_symlinks: cmdOptions.followSymlinks === true,
+            deterministic: cmdOptions.deterministic === true,
+          };
+          const result = await create(sources, output, format, options);
+          printResult(result);
+          return exitCodes.EXIT_SUCCESS;
+        });
+      },
+    );
+
+  // Extract archive command
+  program
+    .command("extract")
+    .description("Extract an archive with path, symlink and size protections")
+    .argument("<archive>", "Archive to extract")
+    .argument("<destination>", "Destination directory")
+    .addOption(
+      new Option("--overwrite <mode>", "Existing file handling")
+        .choices(["error", "skip", "overwrite"])
+        .default("error"),
+    )
+    .option("--no-verify-checksums", "Skip checksum manifest verification")
+    .option("--no-preserve-permissions", "Do not apply archived file modes")
+    .option("--max-size <bytes>", "Maximum total extracted bytes", parseInteger)
+    .option("--max-entries <count>", "Maximum number of entries", parseInteger)
+    .action(
+      async (
+        archive: string,
+        destination: string,
+        cmdOptions: {
+          overwrite: ExtractOptions["overwrite"];
+          verifyChecksums: boolean;
+          preservePermissions: boolean;
+          maxSize?: number;
+          maxEntries?: number;
+        },
+      ) => {
+        await run(Operation.EXTRACT, async () => {
+          const options: ExtractOptions = {
+            overwrite: cmdOptions.overwrite,
+            verify_checksums: cmdOptions.verifyChecksums,
+            preserve_permissions: cmdOptions.preservePermissions,
+            ...(cmdOptions.maxSize !== undefined && { max_size: cmdOptions.maxSize }),
+            ...(cmdOptions.maxEntries !== undefined && { max_entries: cmdOptions.maxEntries }),
+          };
+          const result = await extract(archive, destination, options);
+          printResult(result);
+          return result.error_count > 0
+            ? exitCodeForError(result.errors?.[0]?.code)
+            : exitCodes.EXIT_SUCCESS;
+        });
+      },
+    );
+
+  // Scan archive command
+  program
+    .command("scan")
+    .description("List archive entries without extracting")
+    .argument("<archive>", "Archive to scan")
+    .option("--no-metadata", "Omit mode, checksum and symlink metadata")
+    .option("--max-entries <count>", "Maximum number of entries", parseInteger)
+    .action(async (archive: string, cmdOptions: { metadata: boolean; maxEntries?: number }) => {
+      await run(Operation.SCAN, async () => {
+        const options: ScanOptions = {
+          include_metadata: cmdOptions.metadata,
+          ...(cmdOptions.maxEntries !== undefined && { max_entries: cmdOptions.maxEntries }),
+        };
+        printResult(await scan(archive, options));
+        return exitCodes.EXIT_SUCCESS;
+      });
+    });
+
+  // Verify archive command
+  program
+    .command("verify")
+    .description("Validate archive structure, security and checksums")
+    .argument("<archive>", "Archive to verify")
+    .action(async (archive: string) => {
+      await run(Operation.VERIFY, async () => {
+        const result = await verify(archive);
+        printResult(result);
+        return result.valid ? exitCodes.EXIT_SUCCESS : exitCodeForError(result.errors[0]?.code);
+      });
+    });
+
+  // Archive info command
+  program
+    .command("info")
+    .description("Show archive metadata")
+    .argument("<archive>", "Archive to inspect")
+    .action(async (archive: string) => {
+      await run(Operation.INFO, async () => {
+        printResult(await info(archive));
+        return exitCodes.EXIT_SUCCESS;
+      });
+    });
+
+  return program;
+}
+
+/**
+ * Main CLI entry point
+ */
+export async function main(argv?: string[]): Promise<void> {
+  const program = createPackCLI();
+  await program.parseAsync(argv);
+}
+
+/**
+ * Helper: Run a command body, reporting failures as canonical FulpackError JSON
+ */
+async function run(operation: Operation, body: () => Promise<ExitCode>): Promise<void> {
+  try {
+    process.exitCode = await body();
+  } catch (error) {
+    const canonical =
+      error instanceof FulpackOperationError
+        ? error.toCanonical()
+        : createFulpackError(
+            ERROR_CODES.EXTRACTION_FAILED,
+            error instanceof Error ? error.message : String(error),
+            operation,
+          );
+    console.error(JSON.stringify(canonical, null, 2));
+    process.exitCode = exitCodeForError(canonical.code);
+  }
+}
+
+function printResult(result: unknown): void {
+  console.log(JSON.stringify(result, null, 2));
+}
+
+function parseInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Expected a non-negative integer.");
+  }
+  return parsed;
+}
@@ -2,7 +2,8 @@
  * Fulpack Core Implementation
  *
  * Main archive operations implementation for TypeScript.
- * Currently supports tar.gz format with security protections.
+ * Supports tar (plain, gzip, zstd, xz), zip, and single-file gzip/zstd
+ * formats with security protections; tar.bz2 archives are read-only.
  */
 
 import {
@@ -12,12 +13,53 @@ import {
   lstatSync,
   mkdirSync,
   readdirSync,
+  rmSync,
+  type Stats,
   statSync,
 } from "node:fs";
 import { basename, dirname, join } from "node:path";
-import { pipeline } from "node:stream";
-import { createGunzip, createGzip } from "node:zlib";
-import { type Archiver, TarArchive, ZipArchive } from "archiver";
+import {
+  type Duplex,
+  PassThrough,
+  pipeline,
+  type Readable,
+  Transform,
+  type Writable,
+} from "node:stream";
+import { type Archiver, type CoreOptions, type EntryData, TarArchive, ZipArchive } from "archiver";
+import { createFulpackError, ERROR_CODES, FulpackOperationError, validatePath } from "./errors.js";
+import {
+  assertCompressionAvailable,
+  createCompressor,
+  createDecompressor,
+  detectFormat,
+  FORMAT_SPECS,
+  formatFromPath,
+  isArchiveFormat,
+  type StreamCompression,
+  stripFormatExtension,
+  type WritableCompression,
+} from "./formats.js";
+import { type OperationHooks, OperationMonitor } from "./hooks.js";
+import {
+  assertSourcesUnchanged,
+  buildManifest,
+  type ChecksumState,
+  createChecksumState,
+  createManifestSources,
+  finishChecksums,
+  finishEntryDigest,
+  type InheritedManifest,
+  isManifestPath,
+  MANIFEST_PATH,
+  type ManifestIndex,
+  type ManifestSources,
+  manifestChecksum,
+  queueSourceFile,
+  readManifest,
+  resolveChecksumAlgorithm,
+  startEntryDigest,
+} from "./manifest.js";
 // Import interfaces/types as TYPE-ONLY
 import type {
   ArchiveEntry,
@@ -28,11 +70,9 @@ import type {
   FulpackError,
   ScanOptions,
   ValidationResult,
-} from "../crucible/fulpack/types.js";
+} from "./types.js";
 // Import enums as VALUES (runtime objects)
-import { ArchiveFormat, EntryType, Operation } from "../crucible/fulpack/types.js";
-
-import { createFulpackError, ERROR_CODES, FulpackOperationError, validatePath } from "./errors.js";
+import { ArchiveFormat, EntryType, Operation } from "./types.js";
 
 /**
  * Default options for operations
@@ -43,6 +83,7 @@ const DEFAULTS = {
     checksum_algorithm: "sha256" as const,
     preserve_permissions: true,
     follow_symlinks: false,
+    deterministic: false,
   },
   EXTRACT: {
     overwrite: "error" as const,
@@ -59,23 +100,48 @@ const DEFAULTS = {
 
 /**
  * Create an archive from source files/directories
+ *
+ * `signal` cancels creation and removes the partial output; `onProgress` is
+ * called as each entry is written.
  */
 export async function create(
   source: string | string[],
   output: string,
   format: ArchiveFormat,
-  options?: CreateOptions,
+  options?: CreateOptions & OperationHooks,
+): Promise<ArchiveInfo> {
+  const monitor = new OperationMonitor(Operation.CREATE, options);
+  return await monitor.run(async () => {
+    try {
+      const result = await createArchive(source, output, format, options, monitor);
+      // An aborted archiver ends its output early rather than failing
+      monitor.throwIfAborted();
+      monitor.complete({ entries: result.entry_count, bytes: result.total_size });
+      return result;
+    } catch (error) {
+      if (monitor.aborted) {
+        rmSync(output, { force: true });
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Helper: Validate create() inputs and route to the format's writer
+ */
+async function createArchive(
+  source: string | string[],
+  output: string,
+  format: ArchiveFormat,
+  options: CreateOptions | undefined,
+  monitor: OperationMonitor,
 ): Promise<ArchiveInfo> {
   const opts = { ...DEFAULTS.CREATE, ...options };
   const sources = Array.isArray(source) ? source : [source];
 
   // Validate inputs
-  if (
-    format !== ArchiveFormat.TAR &&
-    format !== ArchiveFormat.TAR_GZ &&
-    format !== ArchiveFormat.ZIP &&
-    format !== ArchiveFormat.GZIP
-  ) {
+  if (!isArchiveFormat(format)) {
     throw new FulpackOperationError(
       createFulpackError(
         ERROR_CODES.INVALID_ARCHIVE_FORMAT,
@@ -84,6 +150,13 @@ export async function create(
       ),
     );
   }
+  assertCompressionAvailable(FORMAT_SPECS[format].compression);
+  if (FORMAT_SPECS[format].container !== "none") {
+    resolveChecksumAlgorithm(opts.checksum_algorithm);
+  }
+  if (opts.deterministic) {
+    sourceDate();
+  }
 
   // Ensure output directory exists
   const outputDir = dirname(output);
@@ -92,31 +165,49 @@ export async function create(
   }
 
   if (format === ArchiveFormat.ZIP) {
-    return await createZipArchive(sources, output, opts);
+    return await createZipArchive(sources, output, opts, undefined, monitor);
   } else if (format === ArchiveFormat.TAR_GZ) {
-    return await createTarGzArchive(sources, output, opts);
+    return await createTarGzArchive(sources, output, opts, monitor);
   } else if (format === ArchiveFormat.TAR) {
-    return await createTarArchive(sources, output, opts);
-  } else if (format === ArchiveFormat.GZIP) {
-    return await createGzipFile(sources, output, opts);
+    return await createTarArchive(sources, output, opts, undefined, monitor);
+  } else if (FORMAT_SPECS[format].container === "none") {
+    return await createCompressedFile(sources, output, format, opts, monitor);
   } else {
-    throw new FulpackOperationError(
-      createFulpackError(
-        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
-        `Unsupported format for creation: ${format}`,
-        Operation.CREATE,
-      ),
-    );
+    return await createCompressedTarArchive(sources, output, format, opts, monitor);
   }
 }
 
 /**
  * Extract archive contents to destination
+ *
+ * `signal` cancels extraction (files already written are left in place);
+ * `onProgress` reports archive bytes read as entries are extracted.
  */
 export async function extract(
   archive: string,
   destination: string,
-  options?: ExtractOptions,
+  options?: ExtractOptions & OperationHooks,
+): Promise<ExtractResult> {
+  const monitor = new OperationMonitor(Operation.EXTRACT, options, archive);
+  return await monitor.run(async () => {
+    const result = await extractArchive(archive, destination, options, monitor);
+    monitor.complete({
+      entries: result.extracted_count,
+      bytes: result.total_bytes ?? 0,
+      errors: result.errors,
+    });
+    return result;
+  });
+}
+
+/**
+ * Helper: Validate extract() inputs and route to the container's extractor
+ */
+async function extractArchive(
+  archive: string,
+  destination: string,
+  options: ExtractOptions | undefined,
+  monitor: OperationMonitor,
 ): Promise<ExtractResult> {
   const opts = { ...DEFAULTS.EXTRACT, ...options };
 
@@ -137,25 +228,17 @@ export async function extract(
     mkdirSync(destination, { recursive: true });
   }
 
-  // Detect format by extension and route to appropriate extractor
-  if (archive.endsWith(".tar.gz") || archive.endsWith(".tgz")) {
-    return await extractTarGz(archive, destination, opts);
-  } else if (archive.endsWith(".tar")) {
-    return await extractTar(archive, destination, opts);
-  } else if (archive.endsWith(".zip")) {
-    return await extractZip(archive, destination, opts);
-  } else if (archive.endsWith(".gz")) {
-    // Single file gzip
-    return await extractGzipFile(archive, destination, opts);
+  const format = await resolveFormat(archive, Operation.EXTRACT);
+  const spec = FORMAT_SPECS[format];
+
+  // Route to the extractor for the format's container
+  if (spec.container === "zip") {
+    return await extractZip(archive, destination, opts, monitor);
+  } else if (spec.container === "none") {
+    return await extractCompressedFile(archive, destination, format, opts, monitor);
   } else {
-    throw new FulpackOperationError(
-      createFulpackError(
-        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
-        `Unsupported archive format for extraction: ${archive}`,
-        Operation.EXTRACT,
-        { archive },
-      ),
-    );
+    const source = await openTarSource(archive, format, monitor);
+    return await extractTarStream(source, destination, opts, spec.label, archive, monitor);
   }
 }
 
@@ -163,6 +246,22 @@ export async function extract(
  * Scan archive entries without extraction
  */
 export async function scan(archive: string, options?: ScanOptions): Promise<ArchiveEntry[]> {
+  const { entries } = await scanWithManifest(archive, Operation.SCAN, options);
+  return entries;
+}
+
+/**
+ * Scan an archive and return its checksum manifest alongside the entries
+ *
+ * Internal to fulpack (not re-exported): diff() needs the manifest algorithm
+ * to know whether two archives' checksums are comparable, and append()/update()
+ * carry the manifest entries over into the extended archive.
+ */
+export async function scanWithManifest(
+  archive: string,
+  operation: Operation,
+  options?: ScanOptions,
+): Promise<{ format: ArchiveFormat; entries: ArchiveEntry[]; manifest: ManifestIndex | null }> {
   const opts = { ...DEFAULTS.SCAN, ...options };
 
   // Validate inputs
@@ -171,42 +270,130 @@ export async function scan(archive: string, options?: ScanOptions): Promise<Arch
       createFulpackError(
         ERROR_CODES.ARCHIVE_NOT_FOUND,
         `Archive not found: ${archive}`,
-        Operation.SCAN,
+        operation,
         { archive },
       ),
     );
   }
 
-  const filename = basename(archive);
-
-  // Route to appropriate format scanner
-  if (filename.endsWith(".tar.gz") || filename.endsWith(".tgz")) {
-    return await scanTarGz(archive, opts);
-  } else if (filename.endsWith(".tar")) {
-    return await scanTar(archive, opts);
-  } else if (filename.endsWith(".zip")) {
-    return await scanZip(archive, opts);
-  } else if (filename.endsWith(".gz")) {
-    // Single file gzip (not tar.gz)
-    return await scanGzipFile(archive, opts);
-  } else {
+  const format = await resolveFormat(archive, operation);
+  const checksums = createChecksumState(operation, false);
+  const entries = await scanArchive(archive, format, opts, checksums);
+  return { format, entries, manifest: checksums.manifest };
+}
+
+/**
+ * Create an uncompressed TAR or ZIP whose manifest extends an existing one
+ *
+ * Internal to fulpack (not re-exported): append()/update() build the entries
+ * they splice onto an archive with the regular create() writers.
+ */
+export async function createSegment(
+  sources: string[],
+  output: string,
+  format: typeof ArchiveFormat.TAR | typeof ArchiveFormat.ZIP,
+  options: CreateOptions,
+  inherited?: InheritedManifest,
+): Promise<ArchiveInfo> {
+  const opts = { ...DEFAULTS.CREATE, ...options };
+  return format === ArchiveFormat.ZIP
+    ? await createZipArchive(sources, output, opts, inherited)
+    : await createTarArchive(sources, output, opts, inherited);
+}
+
+/**
+ * Resolve an archive's format from its extension, falling back to magic-byte
+ * detection for unrecognized names
+ *
+ * Internal to fulpack (not re-exported).
+ */
+export async function resolveFormat(archive: string, operation: Operation): Promise<ArchiveFormat> {
+  const format = formatFromPath(archive) ?? (await detectFormat(archive));
+  if (!format) {
     throw new FulpackOperationError(
       createFulpackError(
         ERROR_CODES.INVALID_ARCHIVE_FORMAT,
-        `Unsupported archive format: ${filename}`,
-        Operation.SCAN,
+        `Unsupported archive format: ${basename(archive)}`,
+        operation,
         { archive },
       ),
     );
   }
+  assertCompressionAvailable(FORMAT_SPECS[format].compression, operation);
+  return format;
+}
+
+/**
+ * Helper: Route a scan to the scanner for the format's container
+ */
+async function scanArchive(
+  archive: string,
+  format: ArchiveFormat,
+  options: ScanOptions,
+  checksums?: ChecksumState,
+  monitor?: OperationMonitor,
+): Promise<ArchiveEntry[]> {
+  const spec = FORMAT_SPECS[format];
+  if (spec.container === "zip") {
+    return await scanZip(archive, options, checksums, monitor);
+  } else if (spec.container === "none") {
+    return await scanCompressedFile(archive, format, options);
+  } else {
+    const source = await openTarSource(archive, format, monitor);
+    return await scanTarStream(source, options, spec.label, archive, checksums, monitor);
+  }
+}
+
+/**
+ * Open a tar archive's byte stream, decompressing if needed
+ *
+ * Internal to fulpack (not re-exported).
+ */
+export async function openTarSource(
+  archive: string,
+  format: ArchiveFormat,
+  monitor?: OperationMonitor,
+): Promise<Readable> {
+  return await decompressTarStream(openArchiveFile(archive, monitor), format);
+}
+
+/**
+ * Helper: Open an archive file, tracked by the operation monitor if given
+ */
+function openArchiveFile(archive: string, monitor?: OperationMonitor): Readable {
+  const input = createReadStream(archive);
+  monitor?.track(input, statSync(archive).size);
+  return input;
+}
+
+/**
+ * Helper: Layer the format's decompressor over a compressed tar stream
+ */
+async function decompressTarStream(input: Readable, format: ArchiveFormat): Promise<Readable> {
+  const { compression } = FORMAT_SPECS[format];
+  if (compression === "none" || compression === "deflate") {
+    return input;
+  }
+  return decompress(input, await createDecompressor(compression));
 }
 
 /**
  * Verify archive integrity and checksums
+ *
+ * `signal` cancels verification; `onProgress` reports archive bytes read as
+ * entries are checked.
+ */
+export async function verify(archive: string, options?: OperationHooks): Promise<ValidationResult> {
+  const monitor = new OperationMonitor(Operation.VERIFY, options, archive);
+  return await monitor.run(() => verifyArchive(archive, monitor));
+}
+
+/**
+ * Helper: Check a file-based archive for verify()
  */
-export async function verify(
+async function verifyArchive(
   archive: string,
-  _options?: Record<string, unknown>,
+  monitor: OperationMonitor,
 ): Promise<ValidationResult> {
   // Validate inputs
   if (!existsSync(archive)) {
@@ -221,6 +408,69 @@ export async function verify(
   }
 
   const stats = statSync(archive);
+  if (stats.size === 0) {
+    return emptyArchiveResult(monitor, archive);
+  }
+
+  return await verifyEntries(
+    async (checksums) => {
+      const format = await resolveFormat(archive, Operation.VERIFY);
+      const entries = await scanArchive(
+        archive,
+        format,
+        { ...DEFAULTS.SCAN, include_metadata: true },
+        checksums,
+        monitor,
+      );
+      return { entries, compressedSize: stats.size };
+    },
+    monitor,
+    archive,
+  );
+}
+
+/**
+ * Helper: Result for an archive with no bytes at all
+ */
+function emptyArchiveResult(monitor: OperationMonitor, archive?: string): ValidationResult {
+  return failedVerification(
+    createFulpackError(ERROR_CODES.ARCHIVE_CORRUPT, "Archive file is empty", Operation.VERIFY, {
+      archive,
+    }),
+    monitor,
+  );
+}
+
+/**
+ * Helper: Result for an archive whose structure could not be read
+ */
+function failedVerification(error: FulpackError, monitor: OperationMonitor): ValidationResult {
+  const errors = [error];
+  monitor.complete({ entries: 0, bytes: 0, errors });
+  return {
+    valid: false,
+    errors,
+    warnings: [],
+    entry_count: 0,
+    checksums_verified: 0,
+    checks_performed: ["structure_valid"],
+  };
+}
+
+/**
+ * Helper: Scan an archive and run the verify() checks on its entries
+ *
+ * `scanEntries` scans with the given checksum state, so file contents are
+ * hashed against the embedded manifest in the same pass, and reports how many
+ * archive bytes it read for the compression ratio check.
+ */
+async function verifyEntries(
+  scanEntries: (
+    checksums: ChecksumState,
+  ) => Promise<{ entries: ArchiveEntry[]; compressedSize: number }>,
+  monitor: OperationMonitor,
+  archive?: string,
+): Promise<ValidationResult> {
   const errors: FulpackError[] = [];
   const warnings: string[] = [];
   const checks_performed: (
@@ -229,51 +479,31 @@ export async function verify(
     | "no_path_traversal"
     | "no_decompression_bomb"
     | "symlinks_safe"
-  )[] = [];
-  let entry_count = 0;
+  )[] = ["structure_valid"];
   let checksums_verified = 0;
 
-  // Basic structure validation
-  checks_performed.push("structure_valid");
-  if (stats.size === 0) {
-    errors.push(
-      createFulpackError(ERROR_CODES.ARCHIVE_CORRUPT, "Archive file is empty", Operation.VERIFY, {
-        archive,
-      }),
-    );
-    return {
-      valid: false,
-      errors,
-      warnings,
-      entry_count: 0,
-      checksums_verified: 0,
-      checks_performed,
-    };
-  }
-
   // Scan archive to get entries and perform security checks
+  const checksums = createChecksumState(Operation.VERIFY, true);
   let entries: ArchiveEntry[];
+  let compressed_size: number;
   try {
-    entries = await scan(archive, { include_metadata: true });
-    entry_count = entries.length;
+    ({ entries, compressedSize: compressed_size } = await scanEntries(checksums));
   } catch (error) {
-    errors.push(
+    monitor.throwIfAborted();
+    return failedVerification(
       createFulpackError(
         ERROR_CODES.ARCHIVE_CORRUPT,
         `Failed to scan archive: ${error instanceof Error ? error.message : String(error)}`,
         Operation.VERIFY,
         { archive, details: { original_error: error } },
       ),
+      monitor,
     );
-    return {
-      valid: false,
-      errors,
-      warnings,
-      entry_count: 0,
-      checksums_verified: 0,
-      checks_performed,
-    };
   }
+  if (compressed_size === 0) {
+    return emptyArchiveResult(monitor, archive);
+  }
+  const entry_count = entries.length;
 
   // Security check: Path traversal detection
   checks_performed.push("no_path_traversal");
@@ -309,7 +539,6 @@ export async function verify(
   // Security check: Decompression bomb detection
   checks_performed.push("no_decompression_bomb");
   const total_size = entries.reduce((sum, entry) => sum + (entry.size || 0), 0);
-  const compressed_size = stats.size;
   const compression_ratio =
     total_size > 0 && compressed_size > 0 ? total_size / compressed_size : 1.0;
 
@@ -334,17 +563,16 @@ export async function verify(
     warnings.push(`Entry count (${entry_count}) exceeds recommended limit (${MAX_ENTRIES})`);
   }
 
-  // Check for checksums
-  const entriesWithChecksums = entries.filter((e) => e.checksum !== undefined);
-  if (entriesWithChecksums.length > 0) {
+  // Integrity check: recomputed digests against the embedded manifest
+  if (checksums.manifest) {
     checks_performed.push("checksums_verified");
-    checksums_verified = entriesWithChecksums.length;
-    // Note: Actual checksum verification would require extracting and re-hashing
-    // For Phase 2, we just report how many checksums are present
+    checksums_verified = checksums.verified;
+    errors.push(...checksums.errors);
   } else if (entry_count > 0) {
     warnings.push("Archive does not contain checksums for integrity verification");
   }
 
+  monitor.complete({ entries: entry_count, bytes: total_size, errors });
   return {
     valid: errors.length === 0,
     errors,
@@ -372,162 +600,605 @@ export async function info(archive: string): Promise<ArchiveInfo> {
   }
 
   const stats = statSync(archive);
-  const filename = basename(archive);
-
-  // Detect format from extension
-  let format: string;
-  let compression: string = "none";
-
-  if (filename.endsWith(".tar.gz") || filename.endsWith(".tgz")) {
-    format = ArchiveFormat.TAR_GZ;
-    compression = "gzip";
-  } else if (filename.endsWith(".zip")) {
-    format = ArchiveFormat.ZIP;
-    compression = "deflate";
-  } else if (filename.endsWith(".gz")) {
-    format = ArchiveFormat.GZIP;
-    compression = "gzip";
-  } else if (filename.endsWith(".tar")) {
-    format = ArchiveFormat.TAR;
-    compression = "none";
-  } else {
+
+  // Detect format from content; the extension is only a tie-breaker
+  const format = await detectFormat(archive);
+  if (!format) {
     throw new FulpackOperationError(
       createFulpackError(
         ERROR_CODES.INVALID_ARCHIVE_FORMAT,
-        `Unsupported archive format: ${filename}`,
+        `Unsupported archive format: ${basename(archive)}`,
         Operation.INFO,
         { archive },
       ),
     );
   }
-
-  // Use scan() to get real entry metadata
-  const entries = await scan(archive, { include_metadata: true });
+  const { compression } = FORMAT_SPECS[format];
+  assertCompressionAvailable(compression, Operation.INFO);
+
+  // Scan the detected format to get real entry metadata
+  const checksums = createChecksumState(Operation.INFO, false);
+  const entries = await scanArchive(
+    archive,
+    format,
+    { ...DEFAULTS.SCAN, include_metadata: true },
+    checksums,
+  );
   const entry_count = entries.length;
   const total_size = entries.reduce((sum, entry) => sum + (entry.size || 0), 0);
   const compressed_size = stats.size;
   const compression_ratio = total_size > 0 ? compressed_size / total_size : 1.0;
 
-  // Check if any entries have checksums
-  const has_checksums = entries.some((entry) => entry.checksum !== undefined);
-
   return {
-    format: format as "tar" | "tar.gz" | "zip" | "gzip",
-    compression: compression as "gzip" | "deflate" | "none",
+    format,
+    compression,
     entry_count,
     total_size,
     compressed_size,
     compression_ratio,
-    has_checksums,
+    has_checksums: checksums.manifest !== null,
+    ...(checksums.manifest && {
+      checksum_algorithm: checksums.manifest.algorithm as ArchiveInfo["checksum_algorithm"],
+    }),
     created: stats.mtime.toISOString(),
   };
 }
 
 /**
- * Helper: Extract a single gzip file
+ * Create an archive as a readable stream
+ *
+ * Streaming counterpart of create(): archive bytes are produced on the returned
+ * stream instead of written to a file, so they can be piped directly to a
+ * socket or object storage. Invalid formats and missing sources throw
+ * synchronously; failures while reading sources are emitted on the stream.
  */
-async function extractGzipFile(
-  archive: string,
-  destination: string,
-  options: ExtractOptions,
-): Promise<ExtractResult> {
-  const filename = basename(archive, ".gz");
-  const outputPath = join(destination, filename);
+export function createToStream(
+  source: string | string[],
+  format: ArchiveFormat,
+  options?: CreateOptions,
+): Readable {
+  const opts = { ...DEFAULTS.CREATE, ...options };
+  const sources = Array.isArray(source) ? source : [source];
 
-  // Check if output file exists
-  if (existsSync(outputPath)) {
-    if (options.overwrite === "error") {
+  if (!isArchiveFormat(format)) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `Format ${format} not yet supported`,
+        Operation.CREATE,
+      ),
+    );
+  }
+  const spec = FORMAT_SPECS[format];
+  assertCompressionAvailable(spec.compression);
+
+  if (spec.container === "none") {
+    const { sourcePath } = resolveSingleFileSource(sources, spec.label);
+    return compressStream(createReadStream(sourcePath), format, opts.compression_level);
+  }
+  resolveChecksumAlgorithm(opts.checksum_algorithm);
+  if (opts.deterministic) {
+    sourceDate();
+  }
+
+  let archive: Archiver;
+  let addDirectory: typeof addDirectoryToTarArchive;
+  if (format === ArchiveFormat.TAR_GZ) {
+    archive = new TarArchive({
+      ...archiverOptions(opts),
+      gzip: true,
+      gzipOptions: { level: opts.compression_level },
+    });
+    addDirectory = addDirectoryToTarGzArchive;
+  } else if (format === ArchiveFormat.ZIP) {
+    archive = new ZipArchive({ ...archiverOptions(opts), zlib: { level: opts.compression_level } });
+    addDirectory = addDirectoryToZipArchive;
+  } else {
+    // TAR and the non-gzip tar compressions share an uncompressed tar writer
+    archive = new TarArchive({ ...archiverOptions(opts), gzip: false });
+    addDirectory = addDirectoryToTarArchive;
+  }
+
+  for (const sourcePath of sources) {
+    if (!existsSync(sourcePath)) {
       throw new FulpackOperationError(
         createFulpackError(
-          ERROR_CODES.EXTRACTION_FAILED,
-          `Output file already exists: ${outputPath}`,
-          Operation.EXTRACT,
-          { path: outputPath, archive },
+          ERROR_CODES.SOURCE_NOT_FOUND,
+          `Source not found: ${sourcePath}`,
+          Operation.CREATE,
+          { details: { source: sourcePath } },
         ),
       );
-    } else if (options.overwrite === "skip") {
-      return {
-        extracted_count: 0,
-        skipped_count: 1,
-        error_count: 0,
-        errors: [],
-        warnings: [`Skipped existing file: ${outputPath}`],
-      };
     }
   }
 
-  try {
-    const readStream = createReadStream(archive);
-    const writeStream = createWriteStream(outputPath);
-    const gunzip = createGunzip();
-
-    await new Promise((resolve, reject) => {
-      pipeline(readStream, gunzip, writeStream, (error) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve(undefined);
+  // Sources are queued asynchronously; a failure while walking them destroys
+  // the stream so the consumer sees it as a stream error. finalize() errors
+  // are already surfaced through the archiver "error" event.
+  appendSources(archive, sources, format, opts, addDirectory)
+    .then(({ queued }) => {
+      // Every entry has been written by "finish"; a changed source fails the stream
+      archive.once("finish", () => {
+        if (queued.changed) {
+          archive.destroy(queued.changed);
         }
       });
+      archive.finalize().catch(() => {});
+    })
+    .catch((error) => {
+      archive.destroy(
+        error instanceof FulpackOperationError
+          ? error
+          : new FulpackOperationError(
+              createFulpackError(
+                ERROR_CODES.EXTRACTION_FAILED,
+                `Stream creation failed: ${error instanceof Error ? error.message : String(error)}`,
+                Operation.CREATE,
+                { details: { original_error: error } },
+              ),
+            ),
+      );
     });
 
-    return {
-      extracted_count: 1,
-      skipped_count: 0,
-      error_count: 0,
-      errors: [],
-      warnings: [],
-    };
-  } catch (error) {
+  if (
+    format === ArchiveFormat.TAR ||
+    format === ArchiveFormat.TAR_GZ ||
+    format === ArchiveFormat.ZIP
+  ) {
+    return archive;
+  }
+  return compressStream(archive, format, opts.compression_level);
+}
+
+/**
+ * Helper: Pipe a stream through the format's compressor
+ *
+ * Some codecs load lazily, so the compressed output is exposed through a
+ * PassThrough that is wired up once the compressor is ready. Errors anywhere
+ * in the chain are emitted on the returned stream.
+ */
+function compressStream(source: Readable, format: ArchiveFormat, level?: number): Readable {
+  const output = new PassThrough();
+  createCompressor(FORMAT_SPECS[format].compression as WritableCompression, level).then(
+    (compressor) => {
+      pipeline(source, compressor, output, () => {});
+    },
+    (error) => {
+      output.destroy(error);
+    },
+  );
+  return output;
+}
+
+/**
+ * Extract archive contents from a readable stream
+ *
+ * Streaming counterpart of extract() for archives received over the network.
+ * The format cannot be inferred from a file extension, so it is passed
+ * explicitly. Path validation, symlink skipping and max_size/max_entries
+ * limits are identical to the path-based operation. Single-file formats
+ * (GZIP, ZST) are not supported because the stream carries no output filename.
+ */
+export async function extractFromStream(
+  input: Readable,
+  destination: string,
+  format: ArchiveFormat,
+  options?: ExtractOptions,
+): Promise<ExtractResult> {
+  const opts = { ...DEFAULTS.EXTRACT, ...options };
+
+  if (!isArchiveFormat(format) || FORMAT_SPECS[format].container === "none") {
     throw new FulpackOperationError(
       createFulpackError(
-        ERROR_CODES.EXTRACTION_FAILED,
-        `Failed to extract gzip file: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `Unsupported archive format for stream extraction: ${format}`,
         Operation.EXTRACT,
-        { archive, details: { original_error: error } },
       ),
     );
   }
-}
-
-/**
- * Helper: Scan a single gzip file
- */
-async function scanGzipFile(archive: string, options: ScanOptions): Promise<ArchiveEntry[]> {
-  const filename = basename(archive, ".gz");
-  const stats = statSync(archive);
+  const spec = FORMAT_SPECS[format];
+  assertCompressionAvailable(spec.compression, Operation.EXTRACT);
 
-  const entry: ArchiveEntry = {
-    path: filename,
-    type: EntryType.FILE as "file",
-    size: 0, // Would need to decompress to get actual size
-    compressed_size: stats.size,
-    modified: stats.mtime.toISOString(),
-    ...(options.include_metadata && { mode: "0644" }), // Default for gzip files
-  };
+  // Ensure destination exists
+  if (!existsSync(destination)) {
+    mkdirSync(destination, { recursive: true });
+  }
 
-  return [entry];
+  if (spec.container === "zip") {
+    return await extractZipStream(input, destination, opts);
+  }
+  const source = await decompressTarStream(input, format);
+  return await extractTarStream(source, destination, opts, spec.label);
 }
 
 /**
- * Helper: Create tar.gz archive
+ * Scan archive entries from a readable stream
+ *
+ * Streaming counterpart of scan(). The stream is consumed in full; entry data
+ * is drained without being buffered.
  */
-async function createTarGzArchive(
+export async function scanFromStream(
+  input: Readable,
+  format: ArchiveFormat,
+  options?: ScanOptions,
+): Promise<ArchiveEntry[]> {
+  const opts = { ...DEFAULTS.SCAN, ...options };
+
+  if (!isArchiveFormat(format) || FORMAT_SPECS[format].container === "none") {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `Unsupported archive format for stream scanning: ${format}`,
+        Operation.SCAN,
+      ),
+    );
+  }
+  const spec = FORMAT_SPECS[format];
+  assertCompressionAvailable(spec.compression, Operation.SCAN);
+
+  if (spec.container === "zip") {
+    return await scanZipStream(input, opts);
+  }
+  const source = await decompressTarStream(input, format);
+  return await scanTarStream(source, opts, spec.label);
+}
+
+/**
+ * Verify archive integrity and checksums from a readable stream
+ *
+ * Streaming counterpart of verify(): the same structure, path, symlink,
+ * compression ratio and embedded-manifest checks in one pass over the stream.
+ * `signal` cancels verification; `onProgress` is not called because the
+ * stream's length is unknown.
+ */
+export async function verifyFromStream(
+  input: Readable,
+  format: ArchiveFormat,
+  options?: OperationHooks,
+): Promise<ValidationResult> {
+  if (!isArchiveFormat(format) || FORMAT_SPECS[format].container === "none") {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `Unsupported archive format for stream verification: ${format}`,
+        Operation.VERIFY,
+      ),
+    );
+  }
+  const spec = FORMAT_SPECS[format];
+  assertCompressionAvailable(spec.compression, Operation.VERIFY);
+
+  const monitor = new OperationMonitor(Operation.VERIFY, options);
+  return await monitor.run(() =>
+    verifyEntries(async (checksums) => {
+      let compressedSize = 0;
+      const counted = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          compressedSize += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      pipeline(input, counted, () => {});
+      monitor.cancelOnAbort([input, counted]);
+
+      const scanOptions = { ...DEFAULTS.SCAN, include_metadata: true };
+      const entries =
+        spec.container === "zip"
+          ? await scanZipStream(counted, scanOptions, undefined, checksums, monitor)
+          : await scanTarStream(
+              await decompressTarStream(counted, format),
+              scanOptions,
+              spec.label,
+              undefined,
+              checksums,
+              monitor,
+            );
+      return { entries, compressedSize };
+    }, monitor),
+  );
+}
+
+/**
+ * Helper: Extract a single compressed file (GZIP, ZST)
+ */
+async function extractCompressedFile(
+  archive: string,
+  destination: string,
+  format: ArchiveFormat,
+  options: ExtractOptions,
+  monitor?: OperationMonitor,
+): Promise<ExtractResult> {
+  const spec = FORMAT_SPECS[format];
+  const filename = stripFormatExtension(basename(archive), format);
+  const outputPath = join(destination, filename);
+
+  // Check if output file exists
+  if (existsSync(outputPath)) {
+    if (options.overwrite === "error") {
+      throw new FulpackOperationError(
+        createFulpackError(
+          ERROR_CODES.EXTRACTION_FAILED,
+          `Output file already exists: ${outputPath}`,
+          Operation.EXTRACT,
+          { path: outputPath, archive },
+        ),
+      );
+    } else if (options.overwrite === "skip") {
+      return {
+        extracted_count: 0,
+        skipped_count: 1,
+        error_count: 0,
+        errors: [],
+        warnings: [`Skipped existing file: ${outputPath}`],
+      };
+    }
+  }
+
+  try {
+    const readStream = openArchiveFile(archive, monitor);
+    const writeStream = createWriteStream(outputPath);
+    const decompressor = await createDecompressor(spec.compression as StreamCompression);
+    readStream.on("data", () => monitor?.progress(filename));
+
+    await new Promise((resolve, reject) => {
+      pipeline(readStream, decompressor, writeStream, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(undefined);
+        }
+      });
+    });
+
+    return {
+      extracted_count: 1,
+      skipped_count: 0,
+      error_count: 0,
+      errors: [],
+      warnings: [],
+    };
+  } catch (error) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.EXTRACTION_FAILED,
+        `Failed to extract ${spec.label} file: ${error instanceof Error ? error.message : "Unknown error"}`,
+        Operation.EXTRACT,
+        { archive, details: { original_error: error } },
+      ),
+    );
+  }
+}
+
+/**
+ * Helper: Scan a single compressed file (GZIP, ZST)
+ */
+async function scanCompressedFile(
+  archive: string,
+  format: ArchiveFormat,
+  options: ScanOptions,
+): Promise<ArchiveEntry[]> {
+  const filename = stripFormatExtension(basename(archive), format);
+  const stats = statSync(archive);
+
+  const entry: ArchiveEntry = {
+    path: filename,
+    type: EntryType.FILE as "file",
+    size: 0, // Would need to decompress to get actual size
+    compressed_size: stats.size,
+    modified: stats.mtime.toISOString(),
+    ...(options.include_metadata && { mode: "0644" }), // Default for single compressed files
+  };
+
+  return [entry];
+}
+
+/**
+ * Entry timestamp for deterministic archives when SOURCE_DATE_EPOCH is unset:
+ * 1980-01-01T00:00:00Z, the earliest time a ZIP entry can record
+ */
+const DETERMINISTIC_EPOCH = 315532800;
+
+/**
+ * Helper: Timestamp applied to every entry in deterministic mode
+ *
+ * Honors SOURCE_DATE_EPOCH (https://reproducible-builds.org/specs/source-date-epoch/);
+ * a value that is not a non-negative integer is rejected rather than ignored.
+ */
+function sourceDate(): Date {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (epoch === undefined || epoch === "") {
+    return new Date(DETERMINISTIC_EPOCH * 1000);
+  }
+  if (!/^\d+$/.test(epoch)) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_OPTIONS,
+        `SOURCE_DATE_EPOCH must be a non-negative integer, got "${epoch}"`,
+        Operation.CREATE,
+        { details: { source_date_epoch: epoch } },
+      ),
+    );
+  }
+  return new Date(Number(epoch) * 1000);
+}
+
+/**
+ * Helper: archiver options for the create mode
+ *
+ * archiver stats files four at a time and queues them in completion order; a
+ * single stat worker keeps entries in the order they were added. Ownership
+ * needs no option: archiver never passes uid/gid, so tar headers carry 0/0.
+ */
+function archiverOptions(options: CreateOptions): CoreOptions {
+  return options.deterministic ? { statConcurrency: 1 } : {};
+}
+
+/**
+ * Helper: Entry metadata for a file added to an archive
+ *
+ * Deterministic mode drops host-dependent metadata: permissions collapse to
+ * 0755/0644 by the owner execute bit and every mtime becomes the source date.
+ */
+function fileEntryData(name: string, stats: Stats, options: CreateOptions): EntryData {
+  if (options.deterministic) {
+    return { name, mode: stats.mode & 0o100 ? 0o755 : 0o644, date: sourceDate() };
+  }
+  return { name, mode: options.preserve_permissions ? stats.mode : 0o644 };
+}
+
+/**
+ * Helper: List a source directory, sorted by name in deterministic mode
+ */
+function listDirectory(dirPath: string, options: CreateOptions): string[] {
+  const entries = readdirSync(dirPath);
+  return options.deterministic ? entries.sort() : entries;
+}
+
+/**
+ * Helper: Queue a regular file into an archive and its checksum manifest
+ *
+ * The entry is read through the manifest's hashing stream rather than
+ * archive.file(), so the archived bytes are checked against the manifest;
+ * `stats` supplies the size archiver would otherwise lstat. archiver does not
+ * forward errors from appended streams, so read errors are emitted on the
+ * archive.
+ */
+function appendSourceFile(
+  archive: Archiver,
+  sources: ManifestSources,
+  name: string,
+  sourcePath: string,
+  stats: Stats,
+  options: CreateOptions,
+): void {
+  const stream = queueSourceFile(sources, { name, sourcePath, size: stats.size });
+  stream.on("error", (error) => archive.emit("error", error));
+  archive.append(stream, { ...fileEntryData(name, stats, options), stats });
+}
+
+/**
+ * Helper: Append source files/directories to an archive
+ *
+ * Top-level files are added directly; directories are walked with the
+ * format-specific directory helper. The checksum manifest is queued as the
+ * first entry and its content supplied once every file has been queued and
+ * hashed, so the archiver holds it back until then. `inherited` merges the
+ * manifest of an archive being extended by append()/update(). Entries report
+ * progress to `monitor` as the archiver writes them.
+ */
+async function appendSources(
+  archive: Archiver,
+  sources: string[],
+  format: ArchiveFormat,
+  options: CreateOptions,
+  addDirectory: (
+    archive: Archiver,
+    dirPath: string,
+    archivePrefix: string,
+    options: CreateOptions,
+    sources: ManifestSources,
+  ) => Promise<void>,
+  inherited?: InheritedManifest,
+  monitor?: OperationMonitor,
+): Promise<{
+  entryCount: number;
+  totalSize: number;
+  checksumAlgorithm: string;
+  queued: ManifestSources;
+}> {
+  const algorithm = inherited?.algorithm ?? resolveChecksumAlgorithm(options.checksum_algorithm);
+  if (monitor) {
+    archive.on("entry", (entry: EntryData) => {
+      if (entry.name && !isManifestPath(entry.name)) {
+        monitor.advance(entry.name, entry.stats?.size ?? 0);
+      }
+    });
+  }
+  const manifestStream = new PassThrough();
+  archive.append(manifestStream, {
+    name: MANIFEST_PATH,
+    mode: 0o644,
+    ...(options.deterministic && { date: sourceDate() }),
+  });
+
+  const queued = createManifestSources(algorithm);
+  for (const sourcePath of sources) {
+    if (!existsSync(sourcePath)) {
+      throw new FulpackOperationError(
+        createFulpackError(
+          ERROR_CODES.SOURCE_NOT_FOUND,
+          `Source not found: ${sourcePath}`,
+          Operation.CREATE,
+          { details: { source: sourcePath } },
+        ),
+      );
+    }
+
+    const stats = statSync(sourcePath);
+    if (stats.isDirectory()) {
+      // Add directory contents recursively
+      await addDirectory(archive, sourcePath, "", options, queued);
+    } else {
+      // Add single file
+      const entryName = basename(sourcePath);
+      appendSourceFile(archive, queued, entryName, sourcePath, stats, options);
+    }
+  }
+
+  // Sources are walked synchronously, so the total is set before any entry is written
+  const totalSize = queued.files.reduce((sum, file) => sum + file.size, 0);
+  monitor?.expect(totalSize);
+
+  const manifest = await buildManifest(
+    format,
+    queued,
+    options.deterministic ? sourceDate() : new Date(),
+    inherited,
+  );
+  manifestStream.end(JSON.stringify(manifest, null, 2));
+
+  return {
+    entryCount: queued.files.length,
+    totalSize,
+    checksumAlgorithm: algorithm,
+    queued,
+  };
+}
+
+/**
+ * Helper: Stop an archiver (and its output) when the operation is aborted
+ *
+ * abort() alone stops queued entries but never ends an archive that is
+ * already finalizing, so the archiver and its output are also destroyed; the
+ * write then settles and create() reports the abort.
+ */
+function cancelArchiveOnAbort(
+  archive: Archiver,
+  monitor: OperationMonitor | undefined,
+  output?: Writable,
+): void {
+  monitor?.onAbort(() => archive.abort());
+  monitor?.cancelOnAbort(output ? [archive, output] : [archive]);
+}
+
+/**
+ * Helper: Create tar.gz archive
+ */
+async function createTarGzArchive(
   sources: string[],
   output: string,
   options: CreateOptions,
+  monitor?: OperationMonitor,
 ): Promise<ArchiveInfo> {
   const writeStream = createWriteStream(output);
   const archive = new TarArchive({
+    ...archiverOptions(options),
     gzip: true,
     gzipOptions: {
       level: options.compression_level,
     },
   });
 
-  let entryCount = 0;
-  let totalSize = 0;
-
   // Resolves when the output stream flushes and closes; rejects on a stream or
   // archiver error. The archive "error" listener rejects this promise rather
   // than throwing inside the handler — a throw there escapes as an uncaught
@@ -550,41 +1221,28 @@ async function createTarGzArchive(
   });
 
   archive.pipe(writeStream);
-
-  // Add files to archive
-  for (const sourcePath of sources) {
-    if (!existsSync(sourcePath)) {
-      throw new FulpackOperationError(
-        createFulpackError(
-          ERROR_CODES.SOURCE_NOT_FOUND,
-          `Source not found: ${sourcePath}`,
-          Operation.CREATE,
-          { details: { source: sourcePath } },
-        ),
-      );
-    }
-
-    const stats = statSync(sourcePath);
-    if (stats.isDirectory()) {
-      // Add directory contents recursively
-      await addDirectoryToTarGzArchive(archive, sourcePath, "", options);
-    } else {
-      // Add single file
-      const entryName = basename(sourcePath);
-      archive.file(sourcePath, {
-        name: entryName,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
-      entryCount++;
-      totalSize += stats.size;
-    }
-  }
+  cancelArchiveOnAbort(archive, monitor, writeStream);
+
+  // A write error can land while sources are still being hashed; mark the
+  // rejection handled now, it is still surfaced by the await below.
+  writePromise.catch(() => {});
+
+  const { entryCount, totalSize, checksumAlgorithm, queued } = await appendSources(
+    archive,
+    sources,
+    ArchiveFormat.TAR_GZ,
+    options,
+    addDirectoryToTarGzArchive,
+    undefined,
+    monitor,
+  );
 
   // finalize() may also reject on a module-level error; that same error is
   // surfaced (wrapped) via the archive "error" handler above, so swallow the
   // raw rejection here and let writePromise own success/failure.
   archive.finalize().catch(() => {});
   await writePromise; // Wait for stream to flush and close (or reject on error)
+  assertSourcesUnchanged(queued);
 
   const outputStats = statSync(output);
 
@@ -595,7 +1253,8 @@ async function createTarGzArchive(
     total_size: totalSize,
     compressed_size: outputStats.size,
     compression_ratio: totalSize > 0 ? outputStats.size / totalSize : 0,
-    has_checksums: false, // TODO: Add fulhash checksum integration
+    has_checksums: true,
+    checksum_algorithm: checksumAlgorithm as ArchiveInfo["checksum_algorithm"],
     created: outputStats.mtime.toISOString(),
   };
 }
@@ -607,15 +1266,15 @@ async function createZipArchive(
   sources: string[],
   output: string,
   options: CreateOptions,
+  inherited?: InheritedManifest,
+  monitor?: OperationMonitor,
 ): Promise<ArchiveInfo> {
   const writeStream = createWriteStream(output);
   const archive = new ZipArchive({
+    ...archiverOptions(options),
     zlib: { level: options.compression_level },
   });
 
-  let entryCount = 0;
-  let totalSize = 0;
-
   // Resolves when the output stream flushes and closes; rejects on a stream or
   // archiver error. The archive "error" listener rejects this promise rather
   // than throwing inside the handler — a throw there escapes as an uncaught
@@ -638,41 +1297,28 @@ async function createZipArchive(
   });
 
   archive.pipe(writeStream);
-
-  // Add files to archive
-  for (const sourcePath of sources) {
-    if (!existsSync(sourcePath)) {
-      throw new FulpackOperationError(
-        createFulpackError(
-          ERROR_CODES.SOURCE_NOT_FOUND,
-          `Source not found: ${sourcePath}`,
-          Operation.CREATE,
-          { details: { source: sourcePath } },
-        ),
-      );
-    }
-
-    const stats = statSync(sourcePath);
-    if (stats.isDirectory()) {
-      // Add directory contents recursively
-      await addDirectoryToZipArchive(archive, sourcePath, "", options);
-    } else {
-      // Add single file
-      const entryName = basename(sourcePath);
-      archive.file(sourcePath, {
-        name: entryName,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
-      entryCount++;
-      totalSize += stats.size;
-    }
-  }
+  cancelArchiveOnAbort(archive, monitor, writeStream);
+
+  // A write error can land while sources are still being hashed; mark the
+  // rejection handled now, it is still surfaced by the await below.
+  writePromise.catch(() => {});
+
+  const { entryCount, totalSize, checksumAlgorithm, queued } = await appendSources(
+    archive,
+    sources,
+    ArchiveFormat.ZIP,
+    options,
+    addDirectoryToZipArchive,
+    inherited,
+    monitor,
+  );
 
   // finalize() may also reject on a module-level error; that same error is
   // surfaced (wrapped) via the archive "error" handler above, so swallow the
   // raw rejection here and let writePromise own success/failure.
   archive.finalize().catch(() => {});
   await writePromise; // Wait for stream to flush and close (or reject on error)
+  assertSourcesUnchanged(queued);
 
   const outputStats = statSync(output);
 
@@ -683,7 +1329,8 @@ async function createZipArchive(
     total_size: totalSize,
     compressed_size: outputStats.size,
     compression_ratio: totalSize > 0 ? outputStats.size / totalSize : 0,
-    has_checksums: false,
+    has_checksums: true,
+    checksum_algorithm: checksumAlgorithm as ArchiveInfo["checksum_algorithm"],
     created: outputStats.mtime.toISOString(),
   };
 }
@@ -696,8 +1343,9 @@ async function addDirectoryToTarGzArchive(
   dirPath: string,
   archivePrefix: string,
   options: CreateOptions,
+  sources: ManifestSources,
 ): Promise<void> {
-  const entries = readdirSync(dirPath);
+  const entries = listDirectory(dirPath, options);
 
   for (const entry of entries) {
     const fullPath = join(dirPath, entry);
@@ -715,22 +1363,16 @@ async function addDirectoryToTarGzArchive(
       // If follow_symlinks is true, get stats of the target
       const targetStats = statSync(fullPath); // Follows the symlink
       if (targetStats.isDirectory()) {
-        await addDirectoryToTarGzArchive(archive, fullPath, archivePath, options);
+        await addDirectoryToTarGzArchive(archive, fullPath, archivePath, options, sources);
       } else {
-        archive.file(fullPath, {
-          name: archivePath,
-          mode: options.preserve_permissions ? targetStats.mode : 0o644,
-        });
+        appendSourceFile(archive, sources, archivePath, fullPath, targetStats, options);
       }
     } else if (stats.isDirectory()) {
       // Recursively add directory contents
-      await addDirectoryToTarGzArchive(archive, fullPath, archivePath, options);
+      await addDirectoryToTarGzArchive(archive, fullPath, archivePath, options, sources);
     } else {
       // Add file entry
-      archive.file(fullPath, {
-        name: archivePath,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
+      appendSourceFile(archive, sources, archivePath, fullPath, stats, options);
     }
   }
 }
@@ -742,15 +1384,15 @@ async function createTarArchive(
   sources: string[],
   output: string,
   options: CreateOptions,
+  inherited?: InheritedManifest,
+  monitor?: OperationMonitor,
 ): Promise<ArchiveInfo> {
   const writeStream = createWriteStream(output);
   const archive = new TarArchive({
+    ...archiverOptions(options),
     gzip: false, // Uncompressed
   });
 
-  let entryCount = 0;
-  let totalSize = 0;
-
   // Resolves when the output stream flushes and closes; rejects on a stream or
   // archiver error. The archive "error" listener rejects this promise rather
   // than throwing inside the handler — a throw there escapes as an uncaught
@@ -773,39 +1415,28 @@ async function createTarArchive(
   });
 
   archive.pipe(writeStream);
-
-  // Add files to archive
-  for (const sourcePath of sources) {
-    if (!existsSync(sourcePath)) {
-      throw new FulpackOperationError(
-        createFulpackError(
-          ERROR_CODES.SOURCE_NOT_FOUND,
-          `Source not found: ${sourcePath}`,
-          Operation.CREATE,
-          { details: { source: sourcePath } },
-        ),
-      );
-    }
-
-    const stats = statSync(sourcePath);
-    if (stats.isDirectory()) {
-      await addDirectoryToTarArchive(archive, sourcePath, "", options);
-    } else {
-      const entryName = basename(sourcePath);
-      archive.file(sourcePath, {
-        name: entryName,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
-      entryCount++;
-      totalSize += stats.size;
-    }
-  }
+  cancelArchiveOnAbort(archive, monitor, writeStream);
+
+  // A write error can land while sources are still being hashed; mark the
+  // rejection handled now, it is still surfaced by the await below.
+  writePromise.catch(() => {});
+
+  const { entryCount, totalSize, checksumAlgorithm, queued } = await appendSources(
+    archive,
+    sources,
+    ArchiveFormat.TAR,
+    options,
+    addDirectoryToTarArchive,
+    inherited,
+    monitor,
+  );
 
   // finalize() may also reject on a module-level error; that same error is
   // surfaced (wrapped) via the archive "error" handler above, so swallow the
   // raw rejection here and let writePromise own success/failure.
   archive.finalize().catch(() => {});
   await writePromise; // Wait for stream to flush and close (or reject on error)
+  assertSourcesUnchanged(queued);
 
   const outputStats = statSync(output);
 
@@ -816,7 +1447,8 @@ async function createTarArchive(
     total_size: totalSize,
     compressed_size: outputStats.size,
     compression_ratio: 1.0, // Uncompressed
-    has_checksums: false, // TODO: Add fulhash checksum integration
+    has_checksums: true,
+    checksum_algorithm: checksumAlgorithm as ArchiveInfo["checksum_algorithm"],
     created: outputStats.mtime.toISOString(),
   };
 }
@@ -829,8 +1461,9 @@ async function addDirectoryToTarArchive(
   dirPath: string,
   archivePrefix: string,
   options: CreateOptions,
+  sources: ManifestSources,
 ): Promise<void> {
-  const entries = readdirSync(dirPath);
+  const entries = listDirectory(dirPath, options);
 
   for (const entry of entries) {
     const fullPath = join(dirPath, entry);
@@ -848,38 +1481,31 @@ async function addDirectoryToTarArchive(
       // If follow_symlinks is true, get stats of the target
       const targetStats = statSync(fullPath); // Follows the symlink
       if (targetStats.isDirectory()) {
-        await addDirectoryToTarArchive(archive, fullPath, archivePath, options);
+        await addDirectoryToTarArchive(archive, fullPath, archivePath, options, sources);
       } else {
-        archive.file(fullPath, {
-          name: archivePath,
-          mode: options.preserve_permissions ? targetStats.mode : 0o644,
-        });
+        appendSourceFile(archive, sources, archivePath, fullPath, targetStats, options);
       }
     } else if (stats.isDirectory()) {
-      await addDirectoryToTarArchive(archive, fullPath, archivePath, options);
+      await addDirectoryToTarArchive(archive, fullPath, archivePath, options, sources);
     } else {
-      archive.file(fullPath, {
-        name: archivePath,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
+      appendSourceFile(archive, sources, archivePath, fullPath, stats, options);
     }
   }
 }
 
 /**
- * Helper: Create gzip file (single file compression)
+ * Helper: Validate the single-file source required by GZIP and ZST
  */
-async function createGzipFile(
+function resolveSingleFileSource(
   sources: string[],
-  output: string,
-  options: CreateOptions,
-): Promise<ArchiveInfo> {
+  label: string,
+): { sourcePath: string; stats: Stats } {
   // Validate single file input
   if (sources.length !== 1) {
     throw new FulpackOperationError(
       createFulpackError(
         ERROR_CODES.INVALID_OPTIONS,
-        `GZIP format requires exactly one source file, got ${sources.length}`,
+        `${label} format requires exactly one source file, got ${sources.length}`,
         Operation.CREATE,
       ),
     );
@@ -902,20 +1528,45 @@ async function createGzipFile(
     throw new FulpackOperationError(
       createFulpackError(
         ERROR_CODES.INVALID_OPTIONS,
-        "GZIP format does not support directories",
+        `${label} format does not support directories`,
         Operation.CREATE,
         { details: { source: sourcePath } },
       ),
     );
   }
 
+  return { sourcePath, stats };
+}
+
+/**
+ * Helper: Create a single compressed file (GZIP, ZST)
+ */
+async function createCompressedFile(
+  sources: string[],
+  output: string,
+  format: ArchiveFormat,
+  options: CreateOptions,
+  monitor?: OperationMonitor,
+): Promise<ArchiveInfo> {
+  const spec = FORMAT_SPECS[format];
+  const { sourcePath, stats } = resolveSingleFileSource(sources, spec.label);
+
   // Compress the file
   const readStream = createReadStream(sourcePath);
+  if (monitor) {
+    const name = basename(sourcePath);
+    monitor.expect(stats.size);
+    monitor.cancelOnAbort([readStream]);
+    readStream.on("data", (chunk) => monitor.advance(name, chunk.length));
+  }
   const writeStream = createWriteStream(output);
-  const gzip = createGzip({ level: options.compression_level });
+  const compressor = await createCompressor(
+    spec.compression as WritableCompression,
+    options.compression_level,
+  );
 
   await new Promise((resolve, reject) => {
-    pipeline(readStream, gzip, writeStream, (error) => {
+    pipeline(readStream, compressor, writeStream, (error) => {
       if (error) {
         reject(error);
       } else {
@@ -927,8 +1578,8 @@ async function createGzipFile(
   const outputStats = statSync(output);
 
   return {
-    format: ArchiveFormat.GZIP as "gzip",
-    compression: "gzip",
+    format,
+    compression: spec.compression,
     entry_count: 1,
     total_size: stats.size,
     compressed_size: outputStats.size,
@@ -938,6 +1589,89 @@ async function createGzipFile(
   };
 }
 
+/**
+ * Helper: Create tar archive with a stream compressor (zstd, xz)
+ *
+ * archiver only knows gzip, so the uncompressed tar stream is piped through
+ * the format's compressor on its way to disk.
+ */
+async function createCompressedTarArchive(
+  sources: string[],
+  output: string,
+  format: ArchiveFormat,
+  options: CreateOptions,
+  monitor?: OperationMonitor,
+): Promise<ArchiveInfo> {
+  const spec = FORMAT_SPECS[format];
+  const writeStream = createWriteStream(output);
+  const archive = new TarArchive({ ...archiverOptions(options), gzip: false });
+  const compressor = await createCompressor(
+    spec.compression as WritableCompression,
+    options.compression_level,
+  );
+
+  // Resolves when the whole archive -> compressor -> file chain has flushed;
+  // rejects (wrapped) on an error from any stage. The archive is piped rather
+  // than included in the pipeline so an abort can end the compressor instead
+  // of destroying it: tearing down a web-stream backed compressor mid-flight
+  // raises an unhandled rejection inside Node's stream adapter.
+  const writePromise = new Promise<void>((resolve, reject) => {
+    const fail = (error: Error) =>
+      reject(
+        new FulpackOperationError(
+          createFulpackError(
+            ERROR_CODES.EXTRACTION_FAILED,
+            `${spec.label} creation failed: ${error.message}`,
+            Operation.CREATE,
+            { details: { original_error: error } },
+          ),
+        ),
+      );
+    archive.on("error", fail);
+    pipeline(compressor, writeStream, (error) => (error ? fail(error) : resolve()));
+  });
+  archive.pipe(compressor);
+
+  // A write error can land while sources are still being hashed; mark the
+  // rejection handled now, it is still surfaced by the await below.
+  writePromise.catch(() => {});
+  monitor?.onAbort(() => {
+    archive.abort();
+    archive.unpipe(compressor);
+    archive.destroy();
+    compressor.end();
+  });
+
+  const { entryCount, totalSize, checksumAlgorithm, queued } = await appendSources(
+    archive,
+    sources,
+    format,
+    options,
+    addDirectoryToTarArchive,
+    undefined,
+    monitor,
+  );
+
+  // finalize() rejections are surfaced through writePromise above
+  archive.finalize().catch(() => {});
+  await writePromise;
+  assertSourcesUnchanged(queued);
+
+  const outputStats = statSync(output);
+
+  return {
+    format,
+    compression: spec.compression,
+    entry_count: entryCount,
+    total_size: totalSize,
+    compressed_size: outputStats.size,
+    compression_ratio: totalSize > 0 ? outputStats.size / totalSize : 0,
+    has_checksums: true,
+    checksum_algorithm: checksumAlgorithm as ArchiveInfo["checksum_algorithm"],
+    created: outputStats.mtime.toISOString(),
+  };
+}
+
 /**
  * Helper: Add directory contents to ZIP archive recursively
  */
@@ -946,8 +1680,9 @@ async function addDirectoryToZipArchive(
   dirPath: string,
   archivePrefix: string,
   options: CreateOptions,
+  sources: ManifestSources,
 ): Promise<void> {
-  const entries = readdirSync(dirPath);
+  const entries = listDirectory(dirPath, options);
 
   for (const entry of entries) {
     const fullPath = join(dirPath, entry);
@@ -965,239 +1700,69 @@ async function addDirectoryToZipArchive(
       // If follow_symlinks is true, get stats of the target
       const targetStats = statSync(fullPath); // Follows the symlink
       if (targetStats.isDirectory()) {
-        await addDirectoryToZipArchive(archive, fullPath, archivePath, options);
-      } else {
-        archive.file(fullPath, {
-          name: archivePath,
-          mode: options.preserve_permissions ? targetStats.mode : 0o644,
-        });
-      }
-    } else if (stats.isDirectory()) {
-      // Recursively add directory contents
-      await addDirectoryToZipArchive(archive, fullPath, archivePath, options);
-    } else {
-      // Add file entry
-      archive.file(fullPath, {
-        name: archivePath,
-        mode: options.preserve_permissions ? stats.mode : 0o644,
-      });
-    }
-  }
-}
-
-/**
- * Helper: Extract tar.gz archive
- */
-async function extractTarGz(
-  archive: string,
-  destination: string,
-  options: ExtractOptions,
-): Promise<ExtractResult> {
-  const tarStream = await import("tar-stream");
-  const extract = tarStream.extract();
-
-  let extractedCount = 0;
-  let skippedCount = 0;
-  let errorCount = 0;
-  const errors: FulpackError[] = [];
-  const warnings: string[] = [];
-
-  let totalExtractedSize = 0;
-  let entryCount = 0;
-
-  extract.on("entry", async (header, stream, next) => {
-    entryCount++;
-
-    try {
-      // Security: Check entry count limit
-      if (options.max_entries && entryCount > options.max_entries) {
-        errors.push(
-          createFulpackError(
-            ERROR_CODES.DECOMPRESSION_BOMB,
-            `Entry count exceeds maximum (${options.max_entries})`,
-            Operation.EXTRACT,
-            {
-              archive,
-              details: { entry_count: entryCount, max_entries: options.max_entries },
-            },
-          ),
-        );
-        stream.resume();
-        next();
-        return;
-      }
-
-      // Security: Path traversal and absolute path validation
-      const pathError = validatePath(header.name, Operation.EXTRACT, false);
-      if (pathError) {
-        errors.push({ ...pathError, archive });
-        errorCount++;
-        stream.resume();
-        next();
-        return;
-      }
-
-      const outputPath = join(destination, header.name);
-
-      if (header.type === "directory") {
-        // Create directory
-        if (!existsSync(outputPath)) {
-          mkdirSync(outputPath, { recursive: true });
-        }
-        extractedCount++;
-        stream.resume();
-        next();
-      } else if (header.type === "file") {
-        // Check if file exists
-        if (existsSync(outputPath)) {
-          if (options.overwrite === "error") {
-            errors.push(
-              createFulpackError(
-                ERROR_CODES.EXTRACTION_FAILED,
-                `Output file already exists: ${outputPath}`,
-                Operation.EXTRACT,
-                { path: header.name, archive },
-              ),
-            );
-            errorCount++;
-            stream.resume();
-            next();
-            return;
-          } else if (options.overwrite === "skip") {
-            warnings.push(`Skipped existing file: ${outputPath}`);
-            skippedCount++;
-            stream.resume();
-            next();
-            return;
-          }
-          // overwrite === "overwrite" - proceed with extraction
-        }
-
-        // Ensure parent directory exists
-        const parentDir = dirname(outputPath);
-        if (!existsSync(parentDir)) {
-          mkdirSync(parentDir, { recursive: true });
-        }
-
-        // Extract file with byte counting for decompression bomb detection
-        const writeStream = createWriteStream(outputPath);
-
-        // Count actual bytes written (not header size)
-        stream.on("data", (chunk: Buffer) => {
-          totalExtractedSize += chunk.length;
-
-          // Check against max_size based on actual bytes
-          if (options.max_size && totalExtractedSize > options.max_size) {
-            stream.destroy();
-            writeStream.destroy();
-            errors.push(
-              createFulpackError(
-                ERROR_CODES.DECOMPRESSION_BOMB,
-                `Total extracted size exceeds maximum (${options.max_size} bytes)`,
-                Operation.EXTRACT,
-                {
-                  archive,
-                  path: header.name,
-                  details: { actual_size: totalExtractedSize, max_size: options.max_size },
-                },
-              ),
-            );
-            errorCount++;
-            next();
-            return;
-          }
-        });
-
-        stream.pipe(writeStream);
-
-        writeStream.on("finish", () => {
-          // Set permissions if requested
-          if (options.preserve_permissions && header.mode) {
-            try {
-              const { chmodSync } = require("node:fs");
-              chmodSync(outputPath, header.mode);
-            } catch {
-              // Ignore permission errors
-            }
-          }
-          extractedCount++;
-          next();
-        });
-
-        writeStream.on("error", (error) => {
-          errors.push(
-            createFulpackError(
-              ERROR_CODES.EXTRACTION_FAILED,
-              `Failed to write file: ${error.message}`,
-              Operation.EXTRACT,
-              { path: header.name, archive, details: { original_error: error } },
-            ),
-          );
-          errorCount++;
-          next();
-        });
-      } else {
-        // Skip other types (symlinks, etc.) for security
-        warnings.push(`Skipped entry type ${header.type}: ${header.name}`);
-        stream.resume();
-        next();
-      }
-    } catch (error) {
-      errors.push(
-        createFulpackError(
-          ERROR_CODES.EXTRACTION_FAILED,
-          `Error processing entry: ${error instanceof Error ? error.message : "Unknown error"}`,
-          Operation.EXTRACT,
-          { path: header.name, archive, details: { original_error: error } },
-        ),
-      );
-      errorCount++;
-      stream.resume();
-      next();
+        await addDirectoryToZipArchive(archive, fullPath, archivePath, options, sources);
+      } else {
+        appendSourceFile(archive, sources, archivePath, fullPath, targetStats, options);
+      }
+    } else if (stats.isDirectory()) {
+      // Recursively add directory contents
+      await addDirectoryToZipArchive(archive, fullPath, archivePath, options, sources);
+    } else {
+      // Add file entry
+      appendSourceFile(archive, sources, archivePath, fullPath, stats, options);
     }
-  });
-
-  // Pipe archive through gunzip and tar-stream
-  const readStream = createReadStream(archive);
-  const gunzip = createGunzip();
-
-  return new Promise((resolve, reject) => {
-    extract.on("finish", () => {
-      resolve({
-        extracted_count: extractedCount,
-        skipped_count: skippedCount,
-        error_count: errorCount,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        total_bytes: totalExtractedSize,
-      });
-    });
+  }
+}
 
-    extract.on("error", (error) => {
-      reject(
-        new FulpackOperationError(
-          createFulpackError(
-            ERROR_CODES.EXTRACTION_FAILED,
-            `TAR.GZ extraction failed: ${error.message}`,
-            Operation.EXTRACT,
-            { archive, details: { original_error: error } },
-          ),
-        ),
-      );
-    });
+/**
+ * Helper: Chain a compressed source through its decompressor.
+ *
+ * Errors from the source are forwarded to the decompressor so a single
+ * listener on the returned stream observes failures from the whole chain.
+ */
+function decompress(source: Readable, decompressor: Duplex): Readable {
+  return pipeline(source, decompressor, () => {});
+}
 
-    // biome-ignore lint/suspicious/noExplicitAny: tar-stream type incompatibility with pipe
-    readStream.pipe(gunzip).pipe(extract as any);
-  });
+/**
+ * Helper: Read the checksum manifest entry during extraction
+ *
+ * With verification off the entry is drained unread. A corrupt manifest is
+ * returned as an error for the caller to record rather than aborting.
+ */
+async function consumeManifest(
+  checksums: ChecksumState,
+  stream: Readable,
+  archive?: string,
+): Promise<FulpackError | null> {
+  if (!checksums.verify) {
+    stream.resume();
+    return null;
+  }
+  try {
+    await readManifest(checksums, stream, archive);
+    return null;
+  } catch (error) {
+    if (error instanceof FulpackOperationError) {
+      return error.toCanonical();
+    }
+    throw error;
+  }
 }
 
 /**
- * Helper: Extract tar archive (uncompressed)
+ * Helper: Extract a tar byte stream to destination
+ *
+ * Shared by path-based and stream-based extraction. `archive` is only used for
+ * error context and is absent when extracting from a caller-supplied stream.
  */
-async function extractTar(
-  archive: string,
+async function extractTarStream(
+  source: Readable,
   destination: string,
   options: ExtractOptions,
+  label: string,
+  archive?: string,
+  monitor?: OperationMonitor,
 ): Promise<ExtractResult> {
   const tarStream = await import("tar-stream");
   const extract = tarStream.extract();
@@ -1210,9 +1775,24 @@ async function extractTar(
 
   let totalExtractedSize = 0;
   let entryCount = 0;
+  const checksums = createChecksumState(Operation.EXTRACT, options.verify_checksums === true);
 
   extract.on("entry", async (header, stream, next) => {
+    // The checksum manifest is archive metadata, not extracted content
+    if (isManifestPath(header.name)) {
+      const manifestError = await consumeManifest(checksums, stream, archive);
+      if (manifestError) {
+        errors.push(manifestError);
+        errorCount++;
+      }
+      next();
+      return;
+    }
+
     entryCount++;
+    // Present in the archive even if skipped below (not a missing manifest entry)
+    checksums.seen.add(header.name);
+    monitor?.progress(header.name);
 
     try {
       // Security: Check entry count limit
@@ -1236,7 +1816,7 @@ async function extractTar(
       // Security: Path traversal and absolute path validation
       const pathError = validatePath(header.name, Operation.EXTRACT, false);
       if (pathError) {
-        errors.push({ ...pathError, archive });
+        errors.push({ ...pathError, ...(archive && { archive }) });
         errorCount++;
         stream.resume();
         next();
@@ -1246,6 +1826,7 @@ async function extractTar(
       const outputPath = join(destination, header.name);
 
       if (header.type === "directory") {
+        // Create directory
         if (!existsSync(outputPath)) {
           mkdirSync(outputPath, { recursive: true });
         }
@@ -1253,6 +1834,7 @@ async function extractTar(
         stream.resume();
         next();
       } else if (header.type === "file") {
+        // Check if file exists
         if (existsSync(outputPath)) {
           if (options.overwrite === "error") {
             errors.push(
@@ -1274,19 +1856,25 @@ async function extractTar(
             next();
             return;
           }
+          // overwrite === "overwrite" - proceed with extraction
         }
 
+        // Ensure parent directory exists
         const parentDir = dirname(outputPath);
         if (!existsSync(parentDir)) {
           mkdirSync(parentDir, { recursive: true });
         }
 
         // Extract file with byte counting for decompression bomb detection
+        const hasher = await startEntryDigest(checksums, header.name);
         const writeStream = createWriteStream(outputPath);
+        monitor?.cancelOnAbort([writeStream]);
 
         // Count actual bytes written (not header size)
         stream.on("data", (chunk: Buffer) => {
           totalExtractedSize += chunk.length;
+          hasher?.update(chunk);
+          monitor?.progress(header.name);
 
           // Check against max_size based on actual bytes
           if (options.max_size && totalExtractedSize > options.max_size) {
@@ -1313,6 +1901,14 @@ async function extractTar(
         stream.pipe(writeStream);
 
         writeStream.on("finish", () => {
+          // Corrupt content is removed rather than left looking extracted
+          if (hasher && !finishEntryDigest(checksums, header.name, hasher, archive)) {
+            rmSync(outputPath, { force: true });
+            next();
+            return;
+          }
+
+          // Set permissions if requested
           if (options.preserve_permissions && header.mode) {
             try {
               const { chmodSync } = require("node:fs");
@@ -1338,6 +1934,7 @@ async function extractTar(
           next();
         });
       } else {
+        // Skip other types (symlinks, etc.) for security
         warnings.push(`Skipped entry type ${header.type}: ${header.name}`);
         stream.resume();
         next();
@@ -1357,35 +1954,50 @@ async function extractTar(
     }
   });
 
-  const readStream = createReadStream(archive);
-
   return new Promise((resolve, reject) => {
-    extract.on("finish", () => {
-      resolve({
-        extracted_count: extractedCount,
-        skipped_count: skippedCount,
-        error_count: errorCount,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        total_bytes: totalExtractedSize,
-      });
-    });
-
-    extract.on("error", (error) => {
+    const fail = (error: Error) => {
       reject(
         new FulpackOperationError(
           createFulpackError(
             ERROR_CODES.EXTRACTION_FAILED,
-            `TAR extraction failed: ${error.message}`,
+            `${label} extraction failed: ${error.message}`,
             Operation.EXTRACT,
             { archive, details: { original_error: error } },
           ),
         ),
       );
-    });
+    };
+
+    let settled = false;
+    const done = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      finishChecksums(checksums, archive);
+      errors.push(...checksums.errors);
+      errorCount += checksums.errors.length;
+      resolve({
+        extracted_count: extractedCount,
+        skipped_count: skippedCount,
+        error_count: errorCount,
+        errors: errors.length > 0 ? errors : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        ...(checksums.manifest && { checksums_verified: checksums.verified }),
+        total_bytes: totalExtractedSize,
+      });
+    };
+
+    // Destroying an entry stream (max_size exceeded) tears down the whole
+    // extractor, which then closes without "finish"; settle on either.
+    extract.on("finish", done);
+    extract.on("close", done);
+    extract.on("error", fail);
+    source.on("error", fail);
+    monitor?.cancelOnAbort([extract, source], reject);
 
     // biome-ignore lint/suspicious/noExplicitAny: tar-stream type incompatibility with pipe
-    readStream.pipe(extract as any);
+    source.pipe(extract as any);
   });
 }
 
@@ -1396,6 +2008,29 @@ async function extractZip(
   archive: string,
   destination: string,
   options: ExtractOptions,
+  monitor?: OperationMonitor,
+): Promise<ExtractResult> {
+  return await extractZipStream(
+    openArchiveFile(archive, monitor),
+    destination,
+    options,
+    archive,
+    monitor,
+  );
+}
+
+/**
+ * Helper: Extract a ZIP byte stream to destination
+ *
+ * Entries are read from local file headers as they arrive, so the central
+ * directory is never required and the source does not need to be seekable.
+ */
+async function extractZipStream(
+  source: Readable,
+  destination: string,
+  options: ExtractOptions,
+  archive?: string,
+  monitor?: OperationMonitor,
 ): Promise<ExtractResult> {
   const unzipper = await import("unzipper");
 
@@ -1407,15 +2042,49 @@ async function extractZip(
 
   let totalExtractedSize = 0;
   let entryCount = 0;
+  const checksums = createChecksumState(Operation.EXTRACT, options.verify_checksums === true);
+  // Entry handlers are not awaited by the parser; track the manifest read and
+  // each file write so the result is only built once they have settled
+  let manifestRead: Promise<void> = Promise.resolve();
+  const pending: Promise<void>[] = [];
 
   return new Promise((resolve, reject) => {
-    const readStream = createReadStream(archive);
+    const fail = (error: Error) => {
+      reject(
+        new FulpackOperationError(
+          createFulpackError(
+            ERROR_CODES.EXTRACTION_FAILED,
+            `ZIP extraction failed: ${error.message}`,
+            Operation.EXTRACT,
+            { archive, details: { original_error: error } },
+          ),
+        ),
+      );
+    };
 
-    readStream
-      .pipe(unzipper.Parse())
+    source.on("error", fail);
+    const parser = unzipper.Parse();
+    monitor?.cancelOnAbort([parser, source], reject);
+
+    source
+      .pipe(parser)
       // biome-ignore lint/suspicious/noExplicitAny: unzipper entry type not exported
       .on("entry", async (entry: any) => {
+        // The checksum manifest is archive metadata, not extracted content
+        if (isManifestPath(entry.path)) {
+          manifestRead = consumeManifest(checksums, entry, archive).then((manifestError) => {
+            if (manifestError) {
+              errors.push(manifestError);
+              errorCount++;
+            }
+          });
+          return;
+        }
+
         entryCount++;
+        // Present in the archive even if skipped below (not a missing manifest entry)
+        checksums.seen.add(entry.path);
+        monitor?.progress(entry.path);
 
         try {
           // Security: Check entry count limit
@@ -1438,7 +2107,7 @@ async function extractZip(
           // Security: Path traversal and absolute path validation
           const pathError = validatePath(entry.path, Operation.EXTRACT, false);
           if (pathError) {
-            errors.push({ ...pathError, archive });
+            errors.push({ ...pathError, ...(archive && { archive }) });
             errorCount++;
             entry.autodrain();
             return;
@@ -1484,11 +2153,17 @@ async function extractZip(
             }
 
             // Extract file with byte counting for decompression bomb detection
+            await manifestRead;
+            const hasher = await startEntryDigest(checksums, entry.path);
             const writeStream = createWriteStream(outputPath);
+            monitor?.cancelOnAbort([writeStream]);
+            pending.push(new Promise((settle) => writeStream.on("close", () => settle())));
 
             // Count actual bytes written (not header size)
             entry.on("data", (chunk: Buffer) => {
               totalExtractedSize += chunk.length;
+              hasher?.update(chunk);
+              monitor?.progress(entry.path);
 
               // Check against max_size based on actual bytes
               if (options.max_size && totalExtractedSize > options.max_size) {
@@ -1514,6 +2189,11 @@ async function extractZip(
             entry.pipe(writeStream);
 
             writeStream.on("finish", () => {
+              // Corrupt content is removed rather than left looking extracted
+              if (hasher && !finishEntryDigest(checksums, entry.path, hasher, archive)) {
+                rmSync(outputPath, { force: true });
+                return;
+              }
               extractedCount++;
             });
 
@@ -1546,35 +2226,47 @@ async function extractZip(
           entry.autodrain();
         }
       })
-      .on("close", () => {
+      .on("close", async () => {
+        await Promise.all([manifestRead, ...pending]);
+        finishChecksums(checksums, archive);
+        errors.push(...checksums.errors);
+        errorCount += checksums.errors.length;
         resolve({
           extracted_count: extractedCount,
           skipped_count: skippedCount,
           error_count: errorCount,
           errors: errors.length > 0 ? errors : undefined,
           warnings: warnings.length > 0 ? warnings : undefined,
+          ...(checksums.manifest && { checksums_verified: checksums.verified }),
           total_bytes: totalExtractedSize,
         });
       })
-      .on("error", (error: Error) => {
-        reject(
-          new FulpackOperationError(
-            createFulpackError(
-              ERROR_CODES.EXTRACTION_FAILED,
-              `ZIP extraction failed: ${error.message}`,
-              Operation.EXTRACT,
-              { archive, details: { original_error: error } },
-            ),
-          ),
-        );
-      });
+      .on("error", fail);
   });
 }
 
 /**
- * Helper: Scan tar.gz archive
+ * Helper: ArchiveEntry.checksum fragment from the manifest, if listed
+ */
+function withChecksum(checksums: ChecksumState, path: string): Pick<ArchiveEntry, "checksum"> {
+  const checksum = manifestChecksum(checksums, path);
+  return checksum ? { checksum } : {};
+}
+
+/**
+ * Helper: Scan a tar byte stream
+ *
+ * The checksum manifest is read into `checksums` rather than listed; when
+ * `checksums.verify` is set, file contents are hashed against it.
  */
-async function scanTar(archive: string, options: ScanOptions): Promise<ArchiveEntry[]> {
+async function scanTarStream(
+  source: Readable,
+  options: ScanOptions,
+  label: string,
+  archive?: string,
+  checksums: ChecksumState = createChecksumState(Operation.SCAN, false),
+  monitor?: OperationMonitor,
+): Promise<ArchiveEntry[]> {
   const tarStream = await import("tar-stream");
   const extract = tarStream.extract();
 
@@ -1582,90 +2274,32 @@ async function scanTar(archive: string, options: ScanOptions): Promise<ArchiveEn
   let entryCount = 0;
 
   return new Promise((resolve, reject) => {
-    extract.on("entry", async (header, stream, next) => {
-      entryCount++;
-
-      // Security: Check entry count limit
-      if (options.max_entries && entryCount > options.max_entries) {
-        stream.resume();
-        next();
-        reject(
-          new FulpackOperationError(
-            createFulpackError(
-              ERROR_CODES.DECOMPRESSION_BOMB,
-              `Entry count exceeds maximum (${options.max_entries})`,
-              Operation.SCAN,
-              {
-                archive,
-                details: { entry_count: entryCount, max_entries: options.max_entries },
-              },
-            ),
-          ),
-        );
-        return;
-      }
-
-      // Build entry object with optional metadata
-      const entry: ArchiveEntry = {
-        path: header.name,
-        type:
-          header.type === "directory"
-            ? (EntryType.DIRECTORY as "directory")
-            : header.type === "symlink"
-              ? (EntryType.SYMLINK as "symlink")
-              : (EntryType.FILE as "file"),
-        size: header.size || 0,
-        modified: header.mtime ? header.mtime.toISOString() : new Date().toISOString(),
-        ...(options.include_metadata && header.mode !== undefined && header.mode !== null
-          ? { mode: `0${(header.mode & 0o777).toString(8)}` }
-          : {}),
-        ...(options.include_metadata &&
-        header.type === "symlink" &&
-        (header as { linkname?: string }).linkname
-          ? { symlink_target: (header as { linkname?: string }).linkname }
-          : {}),
-      };
-
-      entries.push(entry);
-
-      // Drain the stream without writing anywhere
-      stream.resume();
-      next();
-    });
-
-    extract.on("finish", () => {
-      resolve(entries);
-    });
-
-    extract.on("error", (error) => {
+    const fail = (error: Error) => {
       reject(
         new FulpackOperationError(
           createFulpackError(
             ERROR_CODES.ARCHIVE_CORRUPT,
-            `TAR scanning failed: ${error.message}`,
+            `${label} scanning failed: ${error.message}`,
             Operation.SCAN,
             { archive, details: { original_error: error } },
           ),
         ),
       );
-    });
-
-    // Pipe tar file to extractor
-    const readStream = createReadStream(archive);
-    readStream.pipe(extract as unknown as NodeJS.WritableStream);
-  });
-}
-
-async function scanTarGz(archive: string, options: ScanOptions): Promise<ArchiveEntry[]> {
-  const tarStream = await import("tar-stream");
-  const extract = tarStream.extract();
-
-  const entries: ArchiveEntry[] = [];
-  let entryCount = 0;
+    };
 
-  return new Promise((resolve, reject) => {
     extract.on("entry", async (header, stream, next) => {
+      if (isManifestPath(header.name)) {
+        try {
+          await readManifest(checksums, stream, archive);
+        } catch (error) {
+          reject(error);
+        }
+        next();
+        return;
+      }
+
       entryCount++;
+      monitor?.progress(header.name);
 
       // Security: Check entry count limit
       if (options.max_entries && entryCount > options.max_entries) {
@@ -1706,49 +2340,104 @@ async function scanTarGz(archive: string, options: ScanOptions): Promise<Archive
         (header as { linkname?: string }).linkname
           ? { symlink_target: (header as { linkname?: string }).linkname }
           : {}),
+        ...(options.include_metadata && withChecksum(checksums, header.name)),
       };
 
       entries.push(entry);
 
-      // Drain the stream without writing anywhere
-      stream.resume();
+      // Hash the contents when verifying, otherwise drain without buffering
+      const hasher = header.type === "file" ? await startEntryDigest(checksums, header.name) : null;
+      if (hasher) {
+        try {
+          for await (const chunk of stream) {
+            hasher.update(chunk as Buffer);
+            monitor?.progress(header.name);
+          }
+        } catch (error) {
+          // Entry stream torn down (abort, corrupt data); the handler is not awaited
+          fail(error as Error);
+          return;
+        }
+        finishEntryDigest(checksums, header.name, hasher, archive);
+      } else {
+        stream.resume();
+      }
       next();
     });
 
     extract.on("finish", () => {
+      finishChecksums(checksums, archive);
       resolve(entries);
     });
 
-    extract.on("error", (error) => {
+    extract.on("error", fail);
+    source.on("error", fail);
+    monitor?.cancelOnAbort([extract, source], reject);
+
+    source.pipe(extract as unknown as NodeJS.WritableStream);
+  });
+}
+
+/**
+ * Helper: Scan ZIP archive
+ */
+async function scanZip(
+  archive: string,
+  options: ScanOptions,
+  checksums?: ChecksumState,
+  monitor?: OperationMonitor,
+): Promise<ArchiveEntry[]> {
+  return await scanZipStream(
+    openArchiveFile(archive, monitor),
+    options,
+    archive,
+    checksums,
+    monitor,
+  );
+}
+
+/**
+ * Helper: Scan a ZIP byte stream
+ *
+ * Checksum handling matches scanTarStream().
+ */
+async function scanZipStream(
+  source: Readable,
+  options: ScanOptions,
+  archive?: string,
+  checksums: ChecksumState = createChecksumState(Operation.SCAN, false),
+  monitor?: OperationMonitor,
+): Promise<ArchiveEntry[]> {
+  const unzipper = await import("unzipper");
+  const entries: ArchiveEntry[] = [];
+  let entryCount = 0;
+  // Entry handlers are not awaited by the parser; track the manifest read and
+  // content hashing so the result is only built once they have settled
+  let manifestRead: Promise<void> = Promise.resolve();
+  const pending: Promise<void>[] = [];
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
       reject(
         new FulpackOperationError(
           createFulpackError(
             ERROR_CODES.ARCHIVE_CORRUPT,
-            `TAR.GZ scanning failed: ${error.message}`,
+            `ZIP scanning failed: ${error.message}`,
             Operation.SCAN,
             { archive, details: { original_error: error } },
           ),
         ),
       );
-    });
-
-    // Pipe tar.gz file through gunzip to extractor
-    const readStream = createReadStream(archive);
-    const gunzip = createGunzip();
-    readStream.pipe(gunzip).pipe(extract as unknown as NodeJS.WritableStream);
-  });
-}
+    };
 
-async function scanZip(archive: string, options: ScanOptions): Promise<ArchiveEntry[]> {
-  const unzipper = await import("unzipper");
-  const entries: ArchiveEntry[] = [];
-  let entryCount = 0;
+    source.on("error", fail);
+    const parser = unzipper.Parse();
+    monitor?.cancelOnAbort([parser, source], reject);
 
-  return new Promise((resolve, reject) => {
-    createReadStream(archive)
-      .pipe(unzipper.Parse())
-      .on("entry", (entry: unknown) => {
-        const typedEntry = entry as {
+    source
+      .pipe(parser)
+      .on("entry", async (entry: unknown) => {
+        const typedEntry = entry as Readable & {
           path: string;
           type: string;
           vars: {
@@ -1763,7 +2452,13 @@ async function scanZip(archive: string, options: ScanOptions): Promise<ArchiveEn
           autodrain: () => void;
         };
 
+        if (isManifestPath(typedEntry.path)) {
+          manifestRead = readManifest(checksums, typedEntry, archive).catch(reject);
+          return;
+        }
+
         entryCount++;
+        monitor?.progress(typedEntry.path);
 
         // Security: Check entry count limit
         if (options.max_entries && entryCount > options.max_entries) {
@@ -1803,29 +2498,35 @@ async function scanZip(archive: string, options: ScanOptions): Promise<ArchiveEn
           ...(options.include_metadata
             ? {
                 compressed_size: compressedSize,
-                mode: "0644", // ZIP format doesn't preserve Unix permissions consistently
+                mode: "0644", // Streamed ZIP local headers carry no Unix mode
               }
             : {}),
         };
 
-        entries.push(archiveEntry);
-
-        // Drain the entry stream without writing anywhere
-        typedEntry.autodrain();
-      })
-      .on("error", (error: Error) => {
-        reject(
-          new FulpackOperationError(
-            createFulpackError(
-              ERROR_CODES.ARCHIVE_CORRUPT,
-              `ZIP scanning failed: ${error.message}`,
-              Operation.SCAN,
-              { archive, details: { original_error: error } },
-            ),
-          ),
-        );
+        // Hash the contents when verifying, otherwise drain without buffering
+        const settled = manifestRead.then(async () => {
+          entries.push({
+            ...archiveEntry,
+            ...(options.include_metadata && withChecksum(checksums, typedEntry.path)),
+          });
+          const hasher =
+            typedEntry.type === "File" ? await startEntryDigest(checksums, typedEntry.path) : null;
+          if (!hasher) {
+            typedEntry.autodrain();
+            return;
+          }
+          for await (const chunk of typedEntry) {
+            hasher.update(chunk as Buffer);
+            monitor?.progress(typedEntry.path);
+          }
+          finishEntryDigest(checksums, typedEntry.path, hasher, archive);
+        });
+        pending.push(settled.catch(fail));
       })
-      .on("finish", () => {
+      .on("error", fail)
+      .on("finish", async () => {
+        await Promise.all([manifestRead, ...pending]);
+        finishChecksums(checksums, archive);
         resolve(entries);
       });
   });
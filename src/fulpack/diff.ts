@@ -0,0 +1,126 @@
+/**
+ * Fulpack Archive Diff
+ *
+ * Compares the entries of two archives, as reported by scan() with metadata.
+ * File contents are compared through the embedded checksum manifests when
+ * both archives carry one with the same algorithm; otherwise entries are
+ * compared by type, size and symlink target only.
+ *
+ * Permission changes are only detected for TAR-based archives. scan() streams
+ * ZIP local headers, which carry no Unix mode (it lives in the central
+ * directory's external attributes), and reports every ZIP entry as 0644.
+ */
+
+import { scanWithManifest } from "./core.js";
+import type { ArchiveEntry } from "./types.js";
+import { Operation } from "./types.js";
+
+/**
+ * An entry present in both archives whose content or permissions differ
+ */
+export interface EntryChange {
+  /** Entry path within the archives */
+  readonly path: string;
+  /** Entry as found in the first archive */
+  readonly before: ArchiveEntry;
+  /** Entry as found in the second archive */
+  readonly after: ArchiveEntry;
+}
+
+/**
+ * Result of diff(): entry-level changes from archiveA to archiveB
+ *
+ * Each list is sorted by path. An entry whose content and mode both changed is
+ * reported once, under `modified`.
+ */
+export interface ArchiveDiff {
+  /** Entries only in archiveB */
+  readonly added: ArchiveEntry[];
+  /** Entries only in archiveA */
+  readonly removed: ArchiveEntry[];
+  /** Entries whose type, size, symlink target or checksum differ */
+  readonly modified: EntryChange[];
+  /** Entries with identical content but a different mode (always empty for ZIP) */
+  readonly permission_changed: EntryChange[];
+  /** Entries identical in both archives */
+  readonly unchanged_count: number;
+  /** Whether file contents were compared by checksum */
+  readonly checksums_compared: boolean;
+}
+
+/**
+ * Compare the entries of two archives
+ *
+ * Both archives are scanned with include_metadata. Without comparable
+ * checksums, a file rewritten with the same size is reported as unchanged.
+ */
+export async function diff(archiveA: string, archiveB: string): Promise<ArchiveDiff> {
+  const before = await scanWithManifest(archiveA, Operation.DIFF, { include_metadata: true });
+  const after = await scanWithManifest(archiveB, Operation.DIFF, { include_metadata: true });
+  const checksumsCompared =
+    before.manifest !== null &&
+    after.manifest !== null &&
+    before.manifest.algorithm === after.manifest.algorithm;
+
+  const beforeEntries = indexEntries(before.entries);
+  const afterEntries = indexEntries(after.entries);
+
+  const added: ArchiveEntry[] = [];
+  const removed: ArchiveEntry[] = [];
+  const modified: EntryChange[] = [];
+  const permissionChanged: EntryChange[] = [];
+  let unchangedCount = 0;
+
+  for (const [path, entry] of beforeEntries) {
+    const next = afterEntries.get(path);
+    if (!next) {
+      removed.push(entry);
+    } else if (contentChanged(entry, next, checksumsCompared)) {
+      modified.push({ path, before: entry, after: next });
+    } else if (entry.mode !== next.mode) {
+      permissionChanged.push({ path, before: entry, after: next });
+    } else {
+      unchangedCount++;
+    }
+  }
+  for (const [path, entry] of afterEntries) {
+    if (!beforeEntries.has(path)) {
+      added.push(entry);
+    }
+  }
+
+  const byPath = (a: { path: string }, b: { path: string }) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+
+  return {
+    added: added.sort(byPath),
+    removed: removed.sort(byPath),
+    modified: modified.sort(byPath),
+    permission_changed: permissionChanged.sort(byPath),
+    unchanged_count: unchangedCount,
+    checksums_compared: checksumsCompared,
+  };
+}
+
+/**
+ * Helper: Index entries by path (a later duplicate wins, as on extraction)
+ */
+function indexEntries(entries: readonly ArchiveEntry[]): Map<string, ArchiveEntry> {
+  return new Map(entries.map((entry) => [entry.path, entry]));
+}
+
+/**
+ * Helper: Compare everything but the mode of two entries with the same path
+ */
+function contentChanged(before: ArchiveEntry, after: ArchiveEntry, checksums: boolean): boolean {
+  if (before.type !== after.type || before.size !== after.size) {
+    return true;
+  }
+  if ((before.symlink_target ?? null) !== (after.symlink_target ?? null)) {
+    return true;
+  }
+  if (checksums && before.checksum && after.checksum) {
+    return before.checksum !== after.checksum;
+  }
+  return false;
+}
@@ -0,0 +1,314 @@
+/**
+ * Fulpack Single-Entry Reads
+ *
+ * readEntry() streams one file out of an archive without extracting the rest.
+ * ZIP entries are located through the central directory; TAR-based archives
+ * are read sequentially up to the entry, and the remainder is never read or
+ * decompressed. Entry paths are validated as in extract() and the entry size is
+ * capped by `max_size`.
+ */
+
+import { createReadStream, existsSync } from "node:fs";
+import { basename } from "node:path";
+import { pipeline, type Readable, Transform } from "node:stream";
+import { openTarSource, resolveFormat } from "./core.js";
+import { createFulpackError, ERROR_CODES, FulpackOperationError, validatePath } from "./errors.js";
+import {
+  createDecompressor,
+  FORMAT_SPECS,
+  type StreamCompression,
+  stripFormatExtension,
+} from "./formats.js";
+import type { ArchiveFormat } from "./types.js";
+import { Operation } from "./types.js";
+
+/**
+ * Options for readEntry() and readEntryBuffer()
+ */
+export interface ReadEntryOptions {
+  /** Maximum uncompressed entry size in bytes (default: 1GB, as for extract()) */
+  max_size?: number;
+}
+
+/** Same default as ExtractOptions.max_size */
+const DEFAULT_MAX_SIZE = 1024 * 1024 * 1024;
+
+/**
+ * Stream a single file entry out of an archive
+ *
+ * `entryPath` is matched after normalization ("./a//b.txt" finds "a/b.txt").
+ * When a path occurs more than once, a ZIP returns the last entry, as extract()
+ * would leave on disk. A TAR returns the first: finding the last would mean
+ * reading and decompressing the whole archive, which readEntry() exists to
+ * avoid; use extract() when duplicates matter. Missing entries,
+ * directories and symlinks reject with INVALID_PATH. An entry whose declared
+ * size exceeds `max_size` rejects with DECOMPRESSION_BOMB; if the data itself
+ * runs past the cap, the stream errors with the same code.
+ */
+export async function readEntry(
+  archive: string,
+  entryPath: string,
+  options?: ReadEntryOptions,
+): Promise<Readable> {
+  const maxSize = options?.max_size ?? DEFAULT_MAX_SIZE;
+
+  // Validate inputs
+  if (!existsSync(archive)) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.ARCHIVE_NOT_FOUND,
+        `Archive not found: ${archive}`,
+        Operation.EXTRACT,
+        { archive },
+      ),
+    );
+  }
+
+  // Security: Path traversal and absolute path validation
+  const pathError = validatePath(entryPath, Operation.EXTRACT, false);
+  if (pathError) {
+    throw new FulpackOperationError({ ...pathError, archive });
+  }
+  const target = normalizeEntryPath(entryPath);
+
+  const format = await resolveFormat(archive, Operation.EXTRACT);
+  const spec = FORMAT_SPECS[format];
+
+  try {
+    if (spec.container === "zip") {
+      return await readZipEntry(archive, target, maxSize);
+    } else if (spec.container === "none") {
+      return await readCompressedFile(archive, format, target, maxSize);
+    } else {
+      return await readTarEntry(archive, format, target, maxSize);
+    }
+  } catch (error) {
+    if (error instanceof FulpackOperationError) {
+      throw error;
+    }
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.EXTRACTION_FAILED,
+        `Failed to read ${target} from ${spec.label} archive: ${(error as Error).message}`,
+        Operation.EXTRACT,
+        { archive, path: target, details: { original_error: error } },
+      ),
+    );
+  }
+}
+
+/**
+ * Read a single file entry into memory
+ *
+ * Same lookup and limits as readEntry(); prefer a lower `max_size` than the
+ * 1GB default when buffering.
+ */
+export async function readEntryBuffer(
+  archive: string,
+  entryPath: string,
+  options?: ReadEntryOptions,
+): Promise<Buffer> {
+  const stream = await readEntry(archive, entryPath, options);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Helper: Open a ZIP entry through the central directory
+ */
+async function readZipEntry(archive: string, target: string, maxSize: number): Promise<Readable> {
+  const unzipper = await import("unzipper");
+  const directory = await unzipper.Open.file(archive);
+  // A later duplicate wins, as on extraction
+  const file = directory.files
+    .filter((candidate) => normalizeEntryPath(candidate.path) === target)
+    .pop();
+  if (!file) {
+    throw entryNotFound(archive, target);
+  }
+  if (file.type !== "File") {
+    throw notRegularFile(archive, target, "directory");
+  }
+  assertWithinLimit(archive, target, file.uncompressedSize, maxSize);
+
+  const limiter = limitSize(archive, target, maxSize);
+  return pipeline(file.stream(), limiter, () => {
+    // Errors (corrupt deflate data included) surface on the returned stream
+  });
+}
+
+/**
+ * Helper: Read the single file of a GZIP or ZST archive
+ */
+async function readCompressedFile(
+  archive: string,
+  format: ArchiveFormat,
+  target: string,
+  maxSize: number,
+): Promise<Readable> {
+  const { compression } = FORMAT_SPECS[format];
+  if (target !== stripFormatExtension(basename(archive), format)) {
+    throw entryNotFound(archive, target);
+  }
+
+  const decompressor = await createDecompressor(compression as StreamCompression);
+  const limiter = limitSize(archive, target, maxSize);
+  return pipeline(createReadStream(archive), decompressor, limiter, () => {
+    // Errors surface on the returned stream
+  });
+}
+
+/**
+ * Helper: Read a tar stream up to the entry and hand out its data
+ *
+ * The tar source is destroyed once the entry has been consumed (or the
+ * returned stream is destroyed), so later entries, duplicates of the target
+ * included, are never decompressed.
+ */
+async function readTarEntry(
+  archive: string,
+  format: ArchiveFormat,
+  target: string,
+  maxSize: number,
+): Promise<Readable> {
+  const tarStream = await import("tar-stream");
+  const extract = tarStream.extract();
+  const source = await openTarSource(archive, format);
+  const label = FORMAT_SPECS[format].label;
+
+  return new Promise((resolve, reject) => {
+    let found = false;
+    let output: Transform | null = null;
+    const stop = () => {
+      source.destroy();
+      extract.destroy();
+    };
+    const fail = (error: Error) => {
+      const wrapped = new FulpackOperationError(
+        createFulpackError(
+          ERROR_CODES.EXTRACTION_FAILED,
+          `${label} read failed: ${error.message}`,
+          Operation.EXTRACT,
+          { archive, path: target, details: { original_error: error } },
+        ),
+      );
+      if (output) {
+        output.destroy(wrapped);
+      } else {
+        reject(wrapped);
+      }
+      stop();
+    };
+
+    extract.on("entry", (header, stream, next) => {
+      if (found || normalizeEntryPath(header.name) !== target) {
+        stream.resume();
+        next();
+        return;
+      }
+
+      found = true;
+      try {
+        if (header.type !== "file") {
+          throw notRegularFile(archive, target, header.type);
+        }
+        assertWithinLimit(archive, target, header.size, maxSize);
+      } catch (error) {
+        reject(error);
+        stop();
+        return;
+      }
+
+      const limited = limitSize(archive, target, maxSize);
+      output = limited;
+      limited.on("close", stop);
+      stream.on("error", (error) => limited.destroy(error));
+      stream.pipe(limited);
+      resolve(limited);
+    });
+
+    extract.on("finish", () => {
+      if (!found) {
+        reject(entryNotFound(archive, target));
+      }
+    });
+    extract.on("error", fail);
+    source.on("error", fail);
+
+    source.pipe(extract as unknown as NodeJS.WritableStream);
+  });
+}
+
+/**
+ * Helper: Normalize an entry path for matching ("./a//b/" -> "a/b")
+ */
+function normalizeEntryPath(path: string): string {
+  return path
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".")
+    .join("/");
+}
+
+/**
+ * Helper: Reject an entry whose declared size is over the cap
+ */
+function assertWithinLimit(archive: string, path: string, size: number, maxSize: number): void {
+  if (size > maxSize) {
+    throw entryTooLarge(archive, path, size, maxSize);
+  }
+}
+
+/**
+ * Helper: Pass-through that errors once more than `maxSize` bytes flow through
+ *
+ * Declared sizes can lie, so the cap is also enforced on the actual data.
+ */
+function limitSize(archive: string, path: string, maxSize: number): Transform {
+  let size = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        callback(entryTooLarge(archive, path, size, maxSize));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+function entryTooLarge(archive: string, path: string, size: number, maxSize: number) {
+  return new FulpackOperationError(
+    createFulpackError(
+      ERROR_CODES.DECOMPRESSION_BOMB,
+      `Entry size exceeds maximum (${maxSize} bytes)`,
+      Operation.EXTRACT,
+      { archive, path, details: { actual_size: size, max_size: maxSize } },
+    ),
+  );
+}
+
+function entryNotFound(archive: string, path: string) {
+  return new FulpackOperationError(
+    createFulpackError(
+      ERROR_CODES.INVALID_PATH,
+      `Entry not found in archive: ${path}`,
+      Operation.EXTRACT,
+      { archive, path },
+    ),
+  );
+}
+
+function notRegularFile(archive: string, path: string, type: string) {
+  return new FulpackOperationError(
+    createFulpackError(
+      ERROR_CODES.INVALID_PATH,
+      `Entry is not a regular file: ${path} (${type})`,
+      Operation.EXTRACT,
+      { archive, path, details: { type } },
+    ),
+  );
+}
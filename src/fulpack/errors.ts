@@ -5,8 +5,8 @@
  * Follows Foundry error schema patterns.
  */
 
-import type { FulpackError } from "../crucible/fulpack/types.js";
-import { Operation } from "../crucible/fulpack/types.js";
+import type { FulpackError } from "./types.js";
+import { Operation } from "./types.js";
 
 /**
  * Create a canonical fulpack error
@@ -54,8 +54,24 @@ export const ERROR_CODES = {
   PERMISSION_DENIED: "PERMISSION_DENIED",
   DISK_FULL: "DISK_FULL",
   SOURCE_NOT_FOUND: "SOURCE_NOT_FOUND",
+  OPERATION_ABORTED: "OPERATION_ABORTED",
 } as const;
 
+const SECURITY_ERROR_CODES: ReadonlySet<string> = new Set([
+  ERROR_CODES.PATH_TRAVERSAL,
+  ERROR_CODES.ABSOLUTE_PATH,
+  ERROR_CODES.SYMLINK_ESCAPE,
+  ERROR_CODES.DECOMPRESSION_BOMB,
+  ERROR_CODES.CHECKSUM_MISMATCH,
+]);
+
+/**
+ * Check whether an error code is a security rejection
+ */
+export function isSecurityErrorCode(code: string): boolean {
+  return SECURITY_ERROR_CODES.has(code);
+}
+
 /**
  * Error class for fulpack operations
  */
@@ -0,0 +1,341 @@
+/**
+ * Fulpack Format Registry
+ *
+ * Container and compression descriptors for each archive format, mirroring the
+ * archive-formats taxonomy, plus extension mapping, magic-number detection and
+ * compression codec construction.
+ */
+
+import { createReadStream } from "node:fs";
+import { open } from "node:fs/promises";
+import type { Duplex } from "node:stream";
+import * as zlib from "node:zlib";
+import { createFulpackError, ERROR_CODES, FulpackOperationError } from "./errors.js";
+import type { ArchiveInfo } from "./types.js";
+import { ArchiveFormat, Operation } from "./types.js";
+
+/**
+ * Compression algorithm reported in ArchiveInfo.compression
+ */
+export type Compression = NonNullable<ArchiveInfo["compression"]>;
+
+/**
+ * Compression algorithms applied as a stream layer around a container
+ */
+export type StreamCompression = Exclude<Compression, "deflate" | "none">;
+
+/**
+ * Stream compression algorithms fulpack can write (bzip2 is read-only)
+ */
+export type WritableCompression = Exclude<StreamCompression, "bzip2">;
+
+/**
+ * Format descriptor (see archive-formats taxonomy)
+ */
+export interface FormatSpec {
+  /** Container layout: tar stream, zip file, or a single compressed file */
+  readonly container: "tar" | "zip" | "none";
+  /** Compression applied to the container (or to the single file) */
+  readonly compression: Compression;
+  /** Upper-case label used in error messages */
+  readonly label: string;
+  /** Recognized file extensions, compound extensions first */
+  readonly extensions: readonly string[];
+}
+
+/**
+ * Descriptor for every supported archive format
+ */
+export const FORMAT_SPECS: Readonly<Record<ArchiveFormat, FormatSpec>> = {
+  [ArchiveFormat.TAR]: {
+    container: "tar",
+    compression: "none",
+    label: "TAR",
+    extensions: [".tar"],
+  },
+  [ArchiveFormat.TAR_GZ]: {
+    container: "tar",
+    compression: "gzip",
+    label: "TAR.GZ",
+    extensions: [".tar.gz", ".tgz"],
+  },
+  [ArchiveFormat.TAR_ZST]: {
+    container: "tar",
+    compression: "zstd",
+    label: "TAR.ZST",
+    extensions: [".tar.zst", ".tzst"],
+  },
+  [ArchiveFormat.TAR_XZ]: {
+    container: "tar",
+    compression: "xz",
+    label: "TAR.XZ",
+    extensions: [".tar.xz", ".txz"],
+  },
+  [ArchiveFormat.TAR_BZ2]: {
+    container: "tar",
+    compression: "bzip2",
+    label: "TAR.BZ2",
+    extensions: [".tar.bz2", ".tbz2", ".tbz"],
+  },
+  [ArchiveFormat.ZIP]: {
+    container: "zip",
+    compression: "deflate",
+    label: "ZIP",
+    extensions: [".zip"],
+  },
+  [ArchiveFormat.GZIP]: {
+    container: "none",
+    compression: "gzip",
+    label: "GZIP",
+    extensions: [".gz"],
+  },
+  [ArchiveFormat.ZST]: {
+    container: "none",
+    compression: "zstd",
+    label: "ZST",
+    extensions: [".zst"],
+  },
+};
+
+/**
+ * Check whether a value is a supported ArchiveFormat
+ */
+export function isArchiveFormat(format: string): format is ArchiveFormat {
+  return Object.hasOwn(FORMAT_SPECS, format);
+}
+
+/**
+ * Resolve archive format from a file name extension
+ *
+ * Compound extensions (".tar.gz") take precedence over their single-file
+ * counterparts (".gz"). Returns null when no extension matches.
+ */
+export function formatFromPath(path: string): ArchiveFormat | null {
+  const lower = path.toLowerCase();
+  let best: { format: ArchiveFormat; length: number } | null = null;
+
+  for (const [format, spec] of Object.entries(FORMAT_SPECS) as [ArchiveFormat, FormatSpec][]) {
+    for (const extension of spec.extensions) {
+      if (lower.endsWith(extension) && (!best || extension.length > best.length)) {
+        best = { format, length: extension.length };
+      }
+    }
+  }
+
+  return best?.format ?? null;
+}
+
+/**
+ * Strip a format's extension from a file name (used for single-file outputs)
+ */
+export function stripFormatExtension(filename: string, format: ArchiveFormat): string {
+  const lower = filename.toLowerCase();
+  for (const extension of FORMAT_SPECS[format].extensions) {
+    if (lower.endsWith(extension)) {
+      return filename.slice(0, -extension.length);
+    }
+  }
+  return filename;
+}
+
+/**
+ * Magic-number signature for archive detection
+ */
+interface ArchiveMagic {
+  readonly offset: number;
+  readonly bytes: readonly number[];
+  readonly description: string;
+}
+
+const ZIP_MAGIC: readonly ArchiveMagic[] = [
+  {
+    offset: 0,
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+    description: "ZIP local file header: PK\\x03\\x04",
+  },
+  { offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06], description: "Empty ZIP end of central directory" },
+];
+
+const TAR_MAGIC: ArchiveMagic = {
+  offset: 257,
+  bytes: [0x75, 0x73, 0x74, 0x61, 0x72],
+  description: "POSIX tar header: ustar",
+};
+
+const COMPRESSION_MAGIC: Readonly<Record<StreamCompression, ArchiveMagic>> = {
+  gzip: { offset: 0, bytes: [0x1f, 0x8b], description: "gzip member header" },
+  zstd: { offset: 0, bytes: [0x28, 0xb5, 0x2f, 0xfd], description: "Zstandard frame magic" },
+  xz: {
+    offset: 0,
+    bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00],
+    description: "xz stream header: \\xFD7zXZ\\x00",
+  },
+  bzip2: { offset: 0, bytes: [0x42, 0x5a, 0x68], description: "bzip2 stream header: BZh" },
+};
+
+/** Bytes needed to see the tar "ustar" magic */
+const TAR_HEADER_PROBE = TAR_MAGIC.offset + TAR_MAGIC.bytes.length;
+
+function matchMagic(buffer: Buffer, magic: ArchiveMagic): boolean {
+  if (buffer.length < magic.offset + magic.bytes.length) {
+    return false;
+  }
+  return magic.bytes.every((byte, i) => buffer[magic.offset + i] === byte);
+}
+
+/**
+ * Detect archive format from file content (magic bytes)
+ *
+ * Compressed streams are classified as tar or single-file by inspecting the
+ * decompressed header; the file extension is only used to skip that probe
+ * when it already agrees with the detected compression. xz and bzip2 are only
+ * supported as tar compressions. Returns null when no signature matches.
+ */
+export async function detectFormat(archive: string): Promise<ArchiveFormat | null> {
+  const handle = await open(archive, "r");
+  let header: Buffer;
+  try {
+    const buffer = Buffer.alloc(512);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    header = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  if (ZIP_MAGIC.some((magic) => matchMagic(header, magic))) {
+    return ArchiveFormat.ZIP;
+  }
+  if (matchMagic(header, TAR_MAGIC)) {
+    return ArchiveFormat.TAR;
+  }
+  if (matchMagic(header, COMPRESSION_MAGIC.xz)) {
+    return ArchiveFormat.TAR_XZ;
+  }
+  if (matchMagic(header, COMPRESSION_MAGIC.bzip2)) {
+    return ArchiveFormat.TAR_BZ2;
+  }
+
+  for (const [compression, tarFormat, fileFormat] of [
+    ["gzip", ArchiveFormat.TAR_GZ, ArchiveFormat.GZIP],
+    ["zstd", ArchiveFormat.TAR_ZST, ArchiveFormat.ZST],
+  ] as const) {
+    if (!matchMagic(header, COMPRESSION_MAGIC[compression])) {
+      continue;
+    }
+    const hinted = formatFromPath(archive);
+    if (hinted === tarFormat || hinted === fileFormat) {
+      return hinted;
+    }
+    const inner = await readDecompressedPrefix(archive, compression, TAR_HEADER_PROBE);
+    return matchMagic(inner, TAR_MAGIC) ? tarFormat : fileFormat;
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Decompress just enough of a file to inspect its inner header
+ */
+async function readDecompressedPrefix(
+  archive: string,
+  compression: StreamCompression,
+  length: number,
+): Promise<Buffer> {
+  const decompressor = await createDecompressor(compression);
+  const source = createReadStream(archive);
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  try {
+    for await (const chunk of source.pipe(decompressor)) {
+      chunks.push(chunk as Buffer);
+      size += (chunk as Buffer).length;
+      if (size >= length) {
+        break;
+      }
+    }
+  } catch {
+    // Truncated or corrupt data: classify on whatever was decoded
+  } finally {
+    source.destroy();
+    decompressor.destroy();
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Create a compression stream for the given algorithm
+ *
+ * `level` follows CreateOptions.compression_level (1-9) and maps onto each
+ * codec's native scale (zstd level, xz preset).
+ */
+export async function createCompressor(
+  compression: WritableCompression,
+  level?: number,
+): Promise<Duplex> {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGzip({ level });
+    case "zstd":
+      return zlib.createZstdCompress({
+        params: level !== undefined ? { [zlib.constants.ZSTD_c_compressionLevel]: level } : {},
+      });
+    case "xz": {
+      const xz = await import("@napi-rs/lzma/xz");
+      return xz.createCompressStream({ preset: level });
+    }
+  }
+}
+
+/**
+ * Create a decompression stream for the given algorithm
+ */
+export async function createDecompressor(compression: StreamCompression): Promise<Duplex> {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGunzip();
+    case "zstd":
+      return zlib.createZstdDecompress();
+    case "xz": {
+      const xz = await import("@napi-rs/lzma/xz");
+      return xz.createDecompressStream();
+    }
+    case "bzip2": {
+      const { default: bunzip2 } = await import("unbzip2-stream");
+      return bunzip2() as unknown as Duplex;
+    }
+  }
+}
+
+/**
+ * Ensure a compression algorithm is usable in this runtime
+ *
+ * Zstandard ships in node:zlib from Node.js 22.15; older runtimes fail with a
+ * structured error rather than a TypeError deep inside a pipeline. bzip2 is
+ * decompression-only: npm has no streaming bzip2 encoder, so creating a
+ * tar.bz2 would mean buffering the whole archive in memory.
+ */
+export function assertCompressionAvailable(
+  compression: Compression,
+  operation: Operation = Operation.CREATE,
+): void {
+  if (compression === "zstd" && typeof zlib.createZstdCompress !== "function") {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `Zstandard compression requires Node.js 22.15 or later (running ${process.version})`,
+        operation,
+      ),
+    );
+  }
+  if (compression === "bzip2" && operation === Operation.CREATE) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        "bzip2 archives are read-only; create tar.zst or tar.xz instead",
+        operation,
+      ),
+    );
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Fulpack Operation Hooks
+ *
+ * Progress reporting, cancellation and telemetry for create(), extract() and
+ * verify(). Each call gets an OperationMonitor that the core helpers report
+ * entries to; the monitor turns those reports into onProgress() calls, tears
+ * down the operation's streams when the AbortSignal fires and records fulpack
+ * metrics into the telemetry registry when the operation settles.
+ */
+
+import type { ReadStream } from "node:fs";
+import { metrics as defaultMetrics } from "../telemetry/index.js";
+import type { MetricsRegistry } from "../telemetry/registry.js";
+import {
+  createFulpackError,
+  ERROR_CODES,
+  FulpackOperationError,
+  isSecurityErrorCode,
+} from "./errors.js";
+import type { FulpackError, Operation } from "./types.js";
+
+/**
+ * Progress callback
+ *
+ * `entry` is the archive path currently being processed. For create() the
+ * byte counts are source bytes archived out of the total size of all sources;
+ * for extract() and verify() they are archive bytes read out of the archive
+ * file size, so compressed archives report meaningful progress too.
+ */
+export type ProgressCallback = (entry: string, bytesDone: number, bytesTotal: number) => void;
+
+/**
+ * Runtime hooks accepted alongside the operation options
+ */
+export interface OperationHooks {
+  /** Cancels the operation; it rejects with OPERATION_ABORTED */
+  signal?: AbortSignal;
+  /** Called as entries are processed (and per data chunk while extracting/verifying) */
+  onProgress?: ProgressCallback;
+  /** Registry for fulpack metrics (default: global telemetry registry) */
+  metrics?: MetricsRegistry;
+}
+
+/**
+ * Stream (or tar-stream extractor) torn down on abort
+ */
+interface Destroyable {
+  destroy(): unknown;
+}
+
+/**
+ * Totals recorded for a completed operation
+ */
+interface OperationSummary {
+  entries: number;
+  bytes: number;
+  errors?: FulpackError[];
+}
+
+/**
+ * Per-operation progress, cancellation and metrics state
+ *
+ * Internal to fulpack (not re-exported).
+ */
+export class OperationMonitor {
+  private readonly abortListeners: (() => void)[] = [];
+  private readonly metrics: MetricsRegistry;
+  private source?: ReadStream;
+  private bytesDone = 0;
+  private bytesTotal = 0;
+  private summary?: OperationSummary;
+
+  constructor(
+    private readonly operation: Operation,
+    private readonly hooks: OperationHooks = {},
+    private readonly archive?: string,
+  ) {
+    this.metrics = hooks.metrics ?? defaultMetrics;
+  }
+
+  /**
+   * Whether the signal has fired
+   */
+  get aborted(): boolean {
+    return this.hooks.signal?.aborted === true;
+  }
+
+  /**
+   * Run the operation body, recording metrics and mapping cancellation
+   *
+   * Any failure after the signal fired rejects with OPERATION_ABORTED, whatever
+   * stream error the teardown produced.
+   */
+  async run<T>(body: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    const signal = this.hooks.signal;
+    const abort = () => {
+      for (const listener of this.abortListeners) {
+        listener();
+      }
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    try {
+      if (this.aborted) {
+        throw this.abortError();
+      }
+      const result = await body();
+      // Work that settles after the signal fired may be partial
+      this.throwIfAborted();
+      this.record("success", this.summary);
+      return result;
+    } catch (error) {
+      const failure = this.aborted ? this.abortError() : error;
+      this.record(this.aborted ? "aborted" : "error", {
+        entries: 0,
+        bytes: 0,
+        errors: failure instanceof FulpackOperationError ? [failure.toCanonical()] : [],
+      });
+      throw failure;
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      this.metrics
+        .histogram("fulpack_operation_ms")
+        .observe(performance.now() - start, { operation: this.operation });
+    }
+  }
+
+  /**
+   * Set the totals recorded when the operation succeeds
+   */
+  complete(summary: OperationSummary): void {
+    this.summary = summary;
+  }
+
+  /**
+   * Throw OPERATION_ABORTED if the signal has fired
+   */
+  throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.abortError();
+    }
+  }
+
+  /**
+   * Register teardown to run when the signal fires
+   */
+  onAbort(listener: () => void): void {
+    this.abortListeners.push(listener);
+  }
+
+  /**
+   * When the signal fires, reject the pending work (if given) and destroy its streams
+   *
+   * Streams are destroyed without an error: entry streams piped off them have
+   * no error listeners, and the rejection already carries OPERATION_ABORTED.
+   */
+  cancelOnAbort(streams: Destroyable[], reject?: (error: Error) => void): void {
+    this.onAbort(() => {
+      reject?.(this.abortError());
+      for (const stream of streams) {
+        stream.destroy();
+      }
+    });
+  }
+
+  /**
+   * Track reads of the archive file for progress and cancellation
+   */
+  track(source: ReadStream, size: number): void {
+    this.source = source;
+    this.bytesTotal = size;
+    this.cancelOnAbort([source]);
+  }
+
+  /**
+   * Report progress on an entry of the tracked archive
+   */
+  progress(entry: string): void {
+    if (this.source) {
+      this.hooks.onProgress?.(entry, this.source.bytesRead, this.bytesTotal);
+    }
+  }
+
+  /**
+   * Set the total source bytes of a create()
+   */
+  expect(bytesTotal: number): void {
+    this.bytesTotal = bytesTotal;
+  }
+
+  /**
+   * Report source bytes archived for an entry of a create()
+   */
+  advance(entry: string, bytes: number): void {
+    this.bytesDone += bytes;
+    this.hooks.onProgress?.(entry, this.bytesDone, this.bytesTotal);
+  }
+
+  /**
+   * The error an aborted operation rejects with
+   */
+  abortError(): FulpackOperationError {
+    return new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.OPERATION_ABORTED,
+        `${this.operation} aborted`,
+        this.operation,
+        {
+          archive: this.archive,
+          details: { reason: this.hooks.signal?.reason },
+        },
+      ),
+    );
+  }
+
+  /**
+   * Helper: Record operation metrics
+   */
+  private record(result: string, summary: OperationSummary | undefined): void {
+    const labels = { operation: this.operation };
+    this.metrics.counter("fulpack_operations_total").inc(1, { ...labels, result });
+    if (summary) {
+      this.metrics.counter("fulpack_entries_processed_total").inc(summary.entries, labels);
+      this.metrics.counter("fulpack_bytes_processed_total").inc(summary.bytes, labels);
+      for (const error of summary.errors ?? []) {
+        if (isSecurityErrorCode(error.code)) {
+          this.metrics
+            .counter("fulpack_security_rejections_total")
+            .inc(1, { ...labels, code: error.code });
+        }
+      }
+    }
+  }
+}
@@ -3,17 +3,33 @@
  *
  * Canonical archive operations with Pathfinder integration.
  * Provides create, extract, scan, verify, and info operations for
- * tar, tar.gz, zip, and gzip formats with security protections.
+ * tar, tar.gz, zip, and gzip formats with security protections, plus diff
+ * and in-place append/update for uncompressed tar and zip.
  */
 
-// Export Crucible-generated types (canonical source)
-export * from "../crucible/fulpack/types.js";
-
 // Export core operations (tsfulmen implementation)
-export { create, extract, info, scan, verify } from "./core.js";
-
+export {
+  create,
+  createToStream,
+  extract,
+  extractFromStream,
+  info,
+  scan,
+  scanFromStream,
+  verify,
+  verifyFromStream,
+} from "./core.js";
+// Export archive comparison and in-place updates
+export { type ArchiveDiff, diff, type EntryChange } from "./diff.js";
+// Export single-entry reads
+export { type ReadEntryOptions, readEntry, readEntryBuffer } from "./entry.js";
 // Export error handling
 export * from "./errors.js";
+// Export progress, cancellation and telemetry hooks
+export type { OperationHooks, ProgressCallback } from "./hooks.js";
+// Export Crucible-generated types with tsfulmen extensions
+export * from "./types.js";
+export { append, update } from "./update.js";
 
 // Version information
 export const FULPACK_VERSION = "1.0.0";
@@ -0,0 +1,407 @@
+/**
+ * Fulpack Checksum Manifest
+ *
+ * Embedded `.fulpack/manifest.json` entry (ArchiveManifest) carrying a fulhash
+ * digest for every file in the archive, plus the bookkeeping used by verify()
+ * and extract() to recompute and compare those digests while streaming.
+ *
+ * The manifest is written as the first archive entry so readers know the
+ * checksum algorithm before any file data arrives. Entry checksums are bare
+ * hex, as in ArchiveEntry; the algorithm is recorded once in the manifest's
+ * `checksum_algorithm`.
+ */
+
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import {
+  Algorithm,
+  createStreamHasher,
+  Digest,
+  getDefaultHashPool,
+  type StreamHasher,
+} from "../fulhash/index.js";
+import { createFulpackError, ERROR_CODES, FulpackOperationError } from "./errors.js";
+import type {
+  ArchiveEntry,
+  ArchiveFormat,
+  ArchiveManifest,
+  CreateOptions,
+  FulpackError,
+} from "./types.js";
+import { Operation } from "./types.js";
+
+/**
+ * Archive path of the embedded checksum manifest
+ */
+export const MANIFEST_PATH = ".fulpack/manifest.json";
+
+/**
+ * Manifest schema version written by create()
+ */
+export const MANIFEST_VERSION = "1.0.0";
+
+/**
+ * Largest manifest entry that will be buffered (~100k entries with headroom)
+ */
+const MAX_MANIFEST_SIZE = 64 * 1024 * 1024;
+
+/**
+ * A regular file queued into an archive during create()
+ */
+export interface SourceFile {
+  /** Entry path within the archive */
+  readonly name: string;
+  /** Filesystem path the entry is read from */
+  readonly sourcePath: string;
+  /** File size in bytes at the time it was queued */
+  readonly size: number;
+}
+
+/**
+ * Files queued into an archive during create(), with the digests recorded in
+ * its manifest
+ */
+export interface ManifestSources {
+  /** Algorithm the manifest digests are computed with */
+  readonly algorithm: Algorithm;
+  /** Regular files in the order they were queued */
+  readonly files: SourceFile[];
+  /** Manifest digests by entry path, filled in by buildManifest() */
+  readonly digests: Map<string, Digest>;
+  /** Settles once the previously queued file has been read in full */
+  previous: Promise<void>;
+  /** Lets queued files be read; called by buildManifest() once digests are recorded */
+  readonly start: () => void;
+  /** First file whose archived bytes did not match its manifest digest */
+  changed: FulpackOperationError | null;
+}
+
+/**
+ * Parsed manifest with its digests indexed by entry path
+ */
+export interface ManifestIndex {
+  readonly manifest: ArchiveManifest;
+  readonly algorithm: Algorithm;
+  readonly checksums: ReadonlyMap<string, Digest>;
+}
+
+/**
+ * Manifest of an existing archive carried over by append()/update()
+ */
+export interface InheritedManifest {
+  /** Algorithm of the existing digests, reused for the new entries */
+  readonly algorithm: Algorithm;
+  /** Existing manifest entries; those re-added from disk are replaced */
+  readonly entries: readonly ArchiveEntry[];
+}
+
+/**
+ * Checksum bookkeeping shared by the scan and extract stream cores
+ */
+export interface ChecksumState {
+  /** Operation reported on checksum errors */
+  readonly operation: Operation;
+  /** Whether entry contents are hashed and compared (false: manifest is only read) */
+  readonly verify: boolean;
+  /** Manifest read from the archive, once its entry has been seen */
+  manifest: ManifestIndex | null;
+  /** Entries whose recomputed digest matched the manifest */
+  verified: number;
+  /** CHECKSUM_MISMATCH errors (mismatched or missing entries) */
+  readonly errors: FulpackError[];
+  /** Entry paths seen in the archive */
+  readonly seen: Set<string>;
+}
+
+/**
+ * Create empty checksum bookkeeping for one archive pass
+ */
+export function createChecksumState(operation: Operation, verify: boolean): ChecksumState {
+  return { operation, verify, manifest: null, verified: 0, errors: [], seen: new Set() };
+}
+
+/**
+ * Create empty create() bookkeeping for the manifest of one archive
+ */
+export function createManifestSources(algorithm: Algorithm): ManifestSources {
+  let start!: () => void;
+  const started = new Promise<void>((resolve) => {
+    start = resolve;
+  });
+  return { algorithm, files: [], digests: new Map(), previous: started, start, changed: null };
+}
+
+/**
+ * Queue a regular file and return the stream its archive entry is read from
+ *
+ * The bytes are hashed as the archiver consumes them and compared with the
+ * manifest digest; a file that changed after buildManifest() is recorded in
+ * `sources.changed` (see assertSourcesUnchanged()). The stream still ends
+ * normally: failing it mid-entry would leave archiver waiting on the entry.
+ * archiver starts reading an appended stream immediately, so each file waits
+ * until the one queued before it has been read, keeping a single source file
+ * open at a time.
+ */
+export function queueSourceFile(sources: ManifestSources, file: SourceFile): Readable {
+  sources.files.push(file);
+  const previous = sources.previous;
+  let release!: () => void;
+  sources.previous = new Promise((resolve) => {
+    release = resolve;
+  });
+
+  return Readable.from(
+    (async function* () {
+      try {
+        await previous;
+        const hasher = await createStreamHasher({ algorithm: sources.algorithm });
+        for await (const chunk of createReadStream(file.sourcePath)) {
+          hasher.update(chunk as Buffer);
+          yield chunk as Buffer;
+        }
+        const expected = sources.digests.get(file.name);
+        const actual = hasher.digest();
+        if (expected && actual.hex !== expected.hex) {
+          sources.changed ??= new FulpackOperationError(
+            createFulpackError(
+              ERROR_CODES.CHECKSUM_MISMATCH,
+              `${file.name} changed while it was being archived`,
+              Operation.CREATE,
+              {
+                path: file.name,
+                details: { expected: expected.formatted, actual: actual.formatted },
+              },
+            ),
+          );
+        }
+      } finally {
+        release();
+      }
+    })(),
+    { objectMode: false },
+  );
+}
+
+/**
+ * Throw the CHECKSUM_MISMATCH for the first file that changed while it was
+ * being archived, once the archive has been written
+ */
+export function assertSourcesUnchanged(sources: ManifestSources): void {
+  if (sources.changed) {
+    throw sources.changed;
+  }
+}
+
+/**
+ * Check whether an archive entry is the embedded manifest
+ */
+export function isManifestPath(path: string): boolean {
+  return path === MANIFEST_PATH;
+}
+
+/**
+ * Resolve CreateOptions.checksum_algorithm to a fulhash algorithm
+ *
+ * Algorithms the schema allows but fulhash does not implement are rejected
+ * up front rather than producing an archive without checksums.
+ */
+export function resolveChecksumAlgorithm(
+  algorithm: CreateOptions["checksum_algorithm"],
+): Algorithm {
+  const supported = Object.values(Algorithm) as string[];
+  if (algorithm && supported.includes(algorithm)) {
+    return algorithm as Algorithm;
+  }
+  throw new FulpackOperationError(
+    createFulpackError(
+      ERROR_CODES.INVALID_OPTIONS,
+      `Checksum algorithm ${algorithm} is not supported by fulhash`,
+      Operation.CREATE,
+      { details: { checksum_algorithm: algorithm, supported } },
+    ),
+  );
+}
+
+/**
+ * Build the manifest for the files queued into an archive
+ *
+ * Files are hashed from disk on the shared fulhash worker pool and listed in
+ * the order they were queued; the digests are kept in `sources` so the
+ * archived bytes can be checked against them. Queued files are not read for
+ * the archive until this resolves. `generated` is supplied by the caller so
+ * deterministic archives can pin it. Inherited entries come first, minus any
+ * path that is queued again.
+ */
+export async function buildManifest(
+  format: ArchiveFormat,
+  sources: ManifestSources,
+  generated: Date,
+  inherited?: InheritedManifest,
+): Promise<ArchiveManifest> {
+  const { algorithm, files } = sources;
+  const queued = new Set(files.map((file) => file.name));
+  const entries: ArchiveEntry[] = (inherited?.entries ?? []).filter(
+    (entry) => !queued.has(entry.path),
+  );
+  const pool = getDefaultHashPool();
+  const digests = await Promise.all(
+    files.map((file) => pool.hashFile(file.sourcePath, { algorithm })),
+  );
+  files.forEach((file, index) => {
+    sources.digests.set(file.name, digests[index]);
+    entries.push({
+      path: file.name,
+      type: "file",
+      size: file.size,
+      checksum: digests[index].hex,
+    });
+  });
+  sources.start();
+
+  return {
+    format,
+    version: MANIFEST_VERSION,
+    generated: generated.toISOString(),
+    checksum_algorithm: algorithm,
+    entry_count: entries.length,
+    entries,
+    total_size: entries.reduce((sum, entry) => sum + (entry.size ?? 0), 0),
+  };
+}
+
+/**
+ * Buffer and parse the manifest entry into the checksum state
+ *
+ * A manifest that cannot be parsed is reported as ARCHIVE_CORRUPT.
+ */
+export async function readManifest(
+  state: ChecksumState,
+  stream: Readable,
+  archive?: string,
+): Promise<void> {
+  const corrupt = (reason: string, cause?: unknown) =>
+    new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.ARCHIVE_CORRUPT,
+        `Invalid checksum manifest: ${reason}`,
+        state.operation,
+        {
+          path: MANIFEST_PATH,
+          archive,
+          ...(cause !== undefined && { details: { original_error: cause } }),
+        },
+      ),
+    );
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_MANIFEST_SIZE) {
+      stream.destroy();
+      throw corrupt(`exceeds ${MAX_MANIFEST_SIZE} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let manifest: ArchiveManifest;
+  let algorithm: Algorithm;
+  const checksums = new Map<string, Digest>();
+  try {
+    manifest = JSON.parse(Buffer.concat(chunks).toString("utf8")) as ArchiveManifest;
+    if (!Array.isArray(manifest.entries)) {
+      throw new Error("entries is not an array");
+    }
+    algorithm = (manifest.checksum_algorithm ?? Algorithm.SHA256) as Algorithm;
+    if (!(Object.values(Algorithm) as string[]).includes(algorithm)) {
+      throw new Error(`unsupported checksum_algorithm ${algorithm}`);
+    }
+    for (const entry of manifest.entries as ArchiveEntry[]) {
+      if (entry.checksum) {
+        checksums.set(entry.path, Digest.parse(`${algorithm}:${entry.checksum}`));
+      }
+    }
+  } catch (error) {
+    throw corrupt(error instanceof Error ? error.message : String(error), error);
+  }
+
+  state.manifest = { manifest, algorithm, checksums };
+}
+
+/**
+ * Start hashing an entry that the manifest has a checksum for
+ *
+ * Returns null when verification is off, there is no manifest (yet), or the
+ * entry is not listed. Entries that precede the manifest are not verified.
+ */
+export async function startEntryDigest(
+  state: ChecksumState,
+  path: string,
+): Promise<StreamHasher | null> {
+  state.seen.add(path);
+  if (!state.verify || !state.manifest?.checksums.has(path)) {
+    return null;
+  }
+  return await createStreamHasher({ algorithm: state.manifest.algorithm });
+}
+
+/**
+ * Compare a finished entry digest against the manifest
+ *
+ * Records a CHECKSUM_MISMATCH error and returns false on mismatch.
+ */
+export function finishEntryDigest(
+  state: ChecksumState,
+  path: string,
+  hasher: StreamHasher,
+  archive?: string,
+): boolean {
+  const expected = state.manifest?.checksums.get(path);
+  if (!expected) {
+    return true;
+  }
+
+  const actual = hasher.digest();
+  if (actual.hex === expected.hex) {
+    state.verified++;
+    return true;
+  }
+
+  state.errors.push(
+    createFulpackError(
+      ERROR_CODES.CHECKSUM_MISMATCH,
+      `Checksum mismatch for ${path}`,
+      state.operation,
+      { path, archive, details: { expected: expected.formatted, actual: actual.formatted } },
+    ),
+  );
+  return false;
+}
+
+/**
+ * Report manifest entries that never appeared in the archive
+ */
+export function finishChecksums(state: ChecksumState, archive?: string): void {
+  if (!state.verify || !state.manifest) {
+    return;
+  }
+  for (const [path, expected] of state.manifest.checksums) {
+    if (!state.seen.has(path)) {
+      state.errors.push(
+        createFulpackError(
+          ERROR_CODES.CHECKSUM_MISMATCH,
+          `Entry listed in checksum manifest is missing: ${path}`,
+          state.operation,
+          { path, archive, details: { expected: expected.formatted, actual: null } },
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Hex checksum recorded in the manifest for an entry (for ArchiveEntry.checksum)
+ */
+export function manifestChecksum(state: ChecksumState, path: string): string | undefined {
+  return state.manifest?.checksums.get(path)?.hex;
+}
@@ -15,8 +15,9 @@ declare module "tar-stream" {
         next: () => void,
       ) => void,
     ): void;
-    on(event: "finish", listener: () => void): void;
+    on(event: "finish" | "close", listener: () => void): void;
     on(event: "error", listener: (error: Error) => void): void;
+    destroy(error?: Error): void;
   }
 
   export function pack(): Pack;
@@ -0,0 +1,111 @@
+/**
+ * Fulpack Types
+ *
+ * Re-exports the Crucible-generated fulpack types and widens the ones tsfulmen
+ * extends beyond the synced Crucible v0.4.15 specification. The synced file
+ * (`src/crucible/fulpack/types.ts`) is overwritten on every `make sync-ssot`, so
+ * extensions live here; the matching schemas are under `schemas/tsfulmen/`.
+ */
+
+import {
+  ArchiveFormat as CrucibleArchiveFormat,
+  type ArchiveInfo as CrucibleArchiveInfo,
+  type ArchiveManifest as CrucibleArchiveManifest,
+  type CreateOptions as CrucibleCreateOptions,
+  type ExtractResult as CrucibleExtractResult,
+  type FulpackError as CrucibleFulpackError,
+  Operation as CrucibleOperation,
+  type ValidationResult as CrucibleValidationResult,
+} from "../crucible/fulpack/types.js";
+import type { Algorithm } from "../fulhash/types.js";
+
+export * from "../crucible/fulpack/types.js";
+
+/**
+ * Archive formats supported by fulpack: the Crucible archive-formats taxonomy
+ * plus zstd, xz and bzip2 compressed tar and zstd single files
+ * @see schemas/tsfulmen/taxonomy/library/fulpack/archive-formats/v1.0.0/formats.yaml
+ */
+export const ArchiveFormat = {
+  ...CrucibleArchiveFormat,
+  /** POSIX tar archive with Zstandard compression */
+  TAR_ZST: "tar.zst",
+  /** Zstandard compressed single file */
+  ZST: "zst",
+  /** POSIX tar archive with xz (LZMA2) compression */
+  TAR_XZ: "tar.xz",
+  /** POSIX tar archive with bzip2 compression (read-only) */
+  TAR_BZ2: "tar.bz2",
+} as const;
+
+export type ArchiveFormat = (typeof ArchiveFormat)[keyof typeof ArchiveFormat];
+
+/**
+ * Fulpack operations: the Crucible operations taxonomy plus diff, append and update
+ * @see schemas/tsfulmen/taxonomy/library/fulpack/operations/v1.0.0/operations.yaml
+ */
+export const Operation = {
+  ...CrucibleOperation,
+  /** Compare the entries of two archives */
+  DIFF: "diff",
+  /** Add new entries to an existing uncompressed archive */
+  APPEND: "append",
+  /** Add or replace entries in an existing uncompressed archive */
+  UPDATE: "update",
+} as const;
+
+export type Operation = (typeof Operation)[keyof typeof Operation];
+
+/**
+ * Structured error context for fulpack operations, including the tsfulmen operations
+ */
+export interface FulpackError extends Omit<CrucibleFulpackError, "operation"> {
+  readonly operation: Operation;
+}
+
+/**
+ * Result of archive integrity verification (from verify operation)
+ */
+export interface ValidationResult extends Omit<CrucibleValidationResult, "errors"> {
+  readonly errors: FulpackError[]; // Array of validation errors (empty if valid)
+}
+
+/**
+ * Result of archive extraction operation
+ */
+export interface ExtractResult extends Omit<CrucibleExtractResult, "errors"> {
+  readonly errors?: FulpackError[]; // Array of error messages for failed extractions
+}
+
+/**
+ * Compression algorithms reported by info()
+ */
+export type ArchiveCompression = "gzip" | "deflate" | "zstd" | "xz" | "bzip2" | "none";
+
+/**
+ * Metadata about an archive file
+ * @see schemas/tsfulmen/library/fulpack/v1.0.0/archive-info.schema.json
+ */
+export interface ArchiveInfo extends Omit<CrucibleArchiveInfo, "format" | "compression"> {
+  readonly format: `${ArchiveFormat}`; // Archive format from the archive-formats taxonomy
+  readonly compression?: ArchiveCompression; // Compression algorithm used
+}
+
+/**
+ * Complete archive table of contents (for large archives and caching)
+ * @see schemas/tsfulmen/library/fulpack/v1.0.0/archive-manifest.schema.json
+ */
+export interface ArchiveManifest extends Omit<CrucibleArchiveManifest, "format"> {
+  readonly format: `${ArchiveFormat}`; // Archive format from the archive-formats taxonomy
+  readonly checksum_algorithm?: `${Algorithm}`; // Algorithm of the bare hex entry checksums
+}
+
+/**
+ * Options for archive creation operation
+ * @see schemas/tsfulmen/library/fulpack/v1.0.0/create-options.schema.json
+ *
+ * All fields are optional. Use when calling functions.
+ */
+export interface CreateOptions extends CrucibleCreateOptions {
+  deterministic?: boolean; // Reproducible output: sorted entries, normalized ownership/permissions, mtimes from SOURCE_DATE_EPOCH
+}
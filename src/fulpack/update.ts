@@ -0,0 +1,650 @@
+/**
+ * Fulpack Incremental Update
+ *
+ * append() and update() add entries to an existing uncompressed TAR or ZIP in
+ * place instead of rebuilding it. The new entries are written as a small
+ * archive segment with the regular create() writers and spliced onto the
+ * archive:
+ *
+ * - Bytes before the first replaced entry are left untouched. Entries after it
+ *   (minus the replaced ones) are moved down, then the segment is written and
+ *   the TAR end-of-archive marker or ZIP central directory is rewritten.
+ * - The segment starts with a checksum manifest merging the existing one, so
+ *   the last manifest in the archive lists every entry. Earlier manifests stay
+ *   in place (readers use the latest) but are dropped from the ZIP central
+ *   directory.
+ *
+ * The archive is rewritten in place; it is not recoverable if the process dies
+ * mid-write.
+ */
+
+import { existsSync } from "node:fs";
+import { type FileHandle, mkdtemp, open, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { inflateRawSync } from "node:zlib";
+import { createSegment, info, resolveFormat } from "./core.js";
+import { createFulpackError, ERROR_CODES, FulpackOperationError } from "./errors.js";
+import { FORMAT_SPECS } from "./formats.js";
+import {
+  createChecksumState,
+  type InheritedManifest,
+  isManifestPath,
+  readManifest,
+} from "./manifest.js";
+import type { ArchiveInfo, CreateOptions } from "./types.js";
+import { ArchiveFormat, Operation } from "./types.js";
+
+const TAR_BLOCK_SIZE = 512;
+const TAR_END_OF_ARCHIVE = Buffer.alloc(2 * TAR_BLOCK_SIZE);
+
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_LOCAL_HEADER_SIZE = 30;
+const ZIP_CENTRAL_HEADER_SIZE = 46;
+const ZIP_END_SIZE = 22;
+const ZIP_MAX_COMMENT = 0xffff;
+
+/** Copy buffer size when moving entry bytes */
+const COPY_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Byte range of one entry, including any extended headers that precede it
+ */
+interface EntrySpan {
+  /** Entry path ("" for records without one, e.g. global pax headers) */
+  readonly name: string;
+  /** Offset of the first header byte */
+  readonly start: number;
+  /** Offset just past the entry data (and padding) */
+  readonly end: number;
+  /** TAR: offset and length of the entry data */
+  readonly data?: { readonly offset: number; readonly size: number };
+  /** ZIP: the entry's central directory record */
+  readonly central?: Buffer;
+}
+
+/**
+ * Entry spans of an archive in file order
+ */
+interface ArchiveLayout {
+  readonly spans: EntrySpan[];
+  /** Offset of the TAR end-of-archive marker or ZIP central directory */
+  readonly end: number;
+  /** ZIP archive comment, preserved when the central directory is rewritten */
+  readonly comment?: Buffer;
+}
+
+/**
+ * Add entries to an uncompressed TAR or ZIP archive in place
+ *
+ * Fails with INVALID_OPTIONS, before the archive is touched, if any entry
+ * already exists; use update() to replace entries. Returns info() for the
+ * resulting archive.
+ */
+export async function append(
+  archive: string,
+  source: string | string[],
+  options?: CreateOptions,
+): Promise<ArchiveInfo> {
+  return await spliceSources(archive, source, options, Operation.APPEND);
+}
+
+/**
+ * Add or replace entries in an uncompressed TAR or ZIP archive in place
+ *
+ * Entries whose path matches a new entry are removed; only the part of the
+ * archive after the first replaced entry is rewritten. Returns info() for the
+ * resulting archive.
+ */
+export async function update(
+  archive: string,
+  source: string | string[],
+  options?: CreateOptions,
+): Promise<ArchiveInfo> {
+  return await spliceSources(archive, source, options, Operation.UPDATE);
+}
+
+/**
+ * Helper: Build the segment for the new entries and splice it onto the archive
+ */
+async function spliceSources(
+  archive: string,
+  source: string | string[],
+  options: CreateOptions | undefined,
+  operation: Operation,
+): Promise<ArchiveInfo> {
+  const sources = Array.isArray(source) ? source : [source];
+
+  // Validate inputs
+  if (!existsSync(archive)) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.ARCHIVE_NOT_FOUND,
+        `Archive not found: ${archive}`,
+        operation,
+        { archive },
+      ),
+    );
+  }
+  for (const sourcePath of sources) {
+    if (!existsSync(sourcePath)) {
+      throw new FulpackOperationError(
+        createFulpackError(
+          ERROR_CODES.SOURCE_NOT_FOUND,
+          `Source not found: ${sourcePath}`,
+          operation,
+          { details: { source: sourcePath } },
+        ),
+      );
+    }
+  }
+
+  const format = await resolveFormat(archive, operation);
+  if (format !== ArchiveFormat.TAR && format !== ArchiveFormat.ZIP) {
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+        `${operation} supports uncompressed TAR and ZIP archives only, not ${FORMAT_SPECS[format].label}`,
+        operation,
+        { archive, details: { format } },
+      ),
+    );
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "fulpack-"));
+  const handle = await open(archive, "r+");
+  try {
+    const layout = await readLayout(handle, format, archive, operation);
+    const inherited = await readInheritedManifest(handle, layout, format, archive, operation);
+
+    const segmentPath = join(workDir, `segment.${format}`);
+    await createSegment(sources, segmentPath, format, options ?? {}, inherited);
+    const segmentHandle = await open(segmentPath, "r");
+    try {
+      const segment = await readLayout(segmentHandle, format, segmentPath, operation);
+      const added = new Set(
+        segment.spans.filter((span) => !isManifestPath(span.name)).map((span) => span.name),
+      );
+
+      const replaced = layout.spans.filter((span) => added.has(span.name));
+      if (operation === Operation.APPEND && replaced.length > 0) {
+        const paths = replaced.map((span) => span.name);
+        throw new FulpackOperationError(
+          createFulpackError(
+            ERROR_CODES.INVALID_OPTIONS,
+            `Entries already exist in archive: ${paths.join(", ")} (use update() to replace them)`,
+            operation,
+            { archive, details: { entries: paths } },
+          ),
+        );
+      }
+
+      await splice(
+        handle,
+        layout,
+        segmentHandle,
+        segment,
+        added,
+        workDir,
+        format,
+        archive,
+        operation,
+      );
+    } finally {
+      await segmentHandle.close();
+    }
+  } catch (error) {
+    if (error instanceof FulpackOperationError) {
+      throw error;
+    }
+    throw new FulpackOperationError(
+      createFulpackError(
+        ERROR_CODES.EXTRACTION_FAILED,
+        `${FORMAT_SPECS[format].label} ${operation} failed: ${(error as Error).message}`,
+        operation,
+        { archive, details: { original_error: error } },
+      ),
+    );
+  } finally {
+    await handle.close();
+    await rm(workDir, { recursive: true, force: true });
+  }
+
+  return await info(archive);
+}
+
+/**
+ * Helper: Rewrite the archive from the first replaced entry onwards
+ *
+ * Kept entries after the cut are staged in a scratch file first, since the
+ * segment is written over the range they occupy.
+ */
+async function splice(
+  handle: FileHandle,
+  layout: ArchiveLayout,
+  segmentHandle: FileHandle,
+  segment: ArchiveLayout,
+  added: ReadonlySet<string>,
+  workDir: string,
+  format: ArchiveFormat,
+  archive: string,
+  operation: Operation,
+): Promise<void> {
+  const replacedStarts = layout.spans
+    .filter((span) => added.has(span.name))
+    .map((span) => span.start);
+  const cut = Math.min(layout.end, ...replacedStarts);
+
+  // Entries before the cut stay where they are; superseded manifests after it
+  // are dropped along with the replaced entries
+  const kept = layout.spans.filter((span) => span.start < cut);
+  const moved = layout.spans.filter(
+    (span) => span.start >= cut && !added.has(span.name) && !isManifestPath(span.name),
+  );
+
+  const staged = await open(join(workDir, "moved"), "w+");
+  const relocated: { span: EntrySpan; start: number }[] = [];
+  try {
+    let stagedSize = 0;
+    for (const span of moved) {
+      stagedSize += await copyRange(handle, span.start, span.end, staged, stagedSize);
+    }
+
+    let position = cut;
+    let stagedOffset = 0;
+    for (const span of moved) {
+      relocated.push({ span, start: position });
+      const length = span.end - span.start;
+      await copyRange(staged, stagedOffset, stagedOffset + length, handle, position);
+      stagedOffset += length;
+      position += length;
+    }
+
+    for (const span of segment.spans) {
+      relocated.push({ span, start: position + span.start });
+    }
+    position += await copyRange(segmentHandle, 0, segment.end, handle, position);
+
+    const trailer =
+      format === ArchiveFormat.ZIP
+        ? zipCentralDirectory(
+            [
+              ...kept
+                .filter((span) => !isManifestPath(span.name))
+                .map((span) => ({ span, start: span.start })),
+              ...relocated,
+            ],
+            position,
+            layout.comment ?? Buffer.alloc(0),
+            archive,
+            operation,
+          )
+        : TAR_END_OF_ARCHIVE;
+    await handle.write(trailer, 0, trailer.length, position);
+    await handle.truncate(position + trailer.length);
+  } finally {
+    await staged.close();
+  }
+}
+
+/**
+ * Helper: Read the latest manifest so the segment's manifest can extend it
+ */
+async function readInheritedManifest(
+  handle: FileHandle,
+  layout: ArchiveLayout,
+  format: ArchiveFormat,
+  archive: string,
+  operation: Operation,
+): Promise<InheritedManifest | undefined> {
+  const span = layout.spans.filter((entry) => isManifestPath(entry.name)).pop();
+  if (!span) {
+    return undefined;
+  }
+
+  const content =
+    format === ArchiveFormat.ZIP
+      ? await readZipEntry(handle, span, archive, operation)
+      : await readAt(handle, span.data?.offset ?? 0, span.data?.size ?? 0);
+  const state = createChecksumState(operation, false);
+  await readManifest(state, Readable.from([content]), archive);
+  if (!state.manifest) {
+    return undefined;
+  }
+  return {
+    algorithm: state.manifest.algorithm,
+    entries: state.manifest.manifest.entries as InheritedManifest["entries"],
+  };
+}
+
+/**
+ * Helper: Read the entry layout of a TAR or ZIP archive
+ */
+async function readLayout(
+  handle: FileHandle,
+  format: ArchiveFormat,
+  archive: string,
+  operation: Operation,
+): Promise<ArchiveLayout> {
+  const { size } = await handle.stat();
+  return format === ArchiveFormat.ZIP
+    ? await readZipLayout(handle, size, archive, operation)
+    : await readTarLayout(handle, size, archive, operation);
+}
+
+/**
+ * Helper: Walk TAR headers up to the end-of-archive marker
+ *
+ * pax ("x") and GNU long name/link ("L"/"K") headers are folded into the span
+ * of the entry they describe.
+ */
+async function readTarLayout(
+  handle: FileHandle,
+  size: number,
+  archive: string,
+  operation: Operation,
+): Promise<ArchiveLayout> {
+  const spans: EntrySpan[] = [];
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  let offset = 0;
+  let spanStart: number | null = null;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= size) {
+    await handle.read(header, 0, TAR_BLOCK_SIZE, offset);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (!validTarChecksum(header)) {
+      throw corruptArchive(`Invalid TAR header at offset ${offset}`, archive, operation);
+    }
+
+    spanStart ??= offset;
+    const entrySize = parseTarSize(header);
+    const type = header[156] === 0 ? "0" : String.fromCharCode(header[156]);
+    const dataOffset = offset + TAR_BLOCK_SIZE;
+    const next = dataOffset + Math.ceil(entrySize / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+    if (next > size) {
+      throw corruptArchive(`TAR entry at offset ${offset} is truncated`, archive, operation);
+    }
+
+    if (type === "x" || type === "L") {
+      const data = await readAt(handle, dataOffset, entrySize);
+      longName = (type === "x" ? paxPath(data) : cString(data, 0, data.length)) ?? longName;
+    } else if (type !== "K") {
+      spans.push({
+        name: type === "g" ? "" : (longName ?? ustarName(header)),
+        start: spanStart,
+        end: next,
+        data: { offset: dataOffset, size: entrySize },
+      });
+      spanStart = null;
+      longName = undefined;
+    }
+    offset = next;
+  }
+
+  if (spanStart !== null) {
+    throw corruptArchive("TAR ends inside an extended header", archive, operation);
+  }
+  return { spans, end: offset };
+}
+
+/**
+ * Helper: Read the ZIP central directory into spans ordered by local offset
+ *
+ * ZIP64 archives are rejected: their sizes and offsets live in extra fields
+ * that the rewritten central directory would have to carry over.
+ */
+async function readZipLayout(
+  handle: FileHandle,
+  size: number,
+  archive: string,
+  operation: Operation,
+): Promise<ArchiveLayout> {
+  const tailLength = Math.min(size, ZIP_END_SIZE + ZIP_MAX_COMMENT);
+  const tail = await readAt(handle, size - tailLength, tailLength);
+  let endOffset = -1;
+  for (let i = tail.length - ZIP_END_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw corruptArchive("ZIP end of central directory not found", archive, operation);
+  }
+
+  const count = tail.readUInt16LE(endOffset + 10);
+  const directorySize = tail.readUInt32LE(endOffset + 12);
+  const directoryOffset = tail.readUInt32LE(endOffset + 16);
+  const commentLength = tail.readUInt16LE(endOffset + 20);
+  if (count === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw unsupportedZip64(archive, operation);
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const records: { name: string; start: number; central: Buffer }[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + ZIP_CENTRAL_HEADER_SIZE > directory.length ||
+      directory.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE
+    ) {
+      throw corruptArchive("Invalid ZIP central directory record", archive, operation);
+    }
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const length =
+      ZIP_CENTRAL_HEADER_SIZE +
+      nameLength +
+      directory.readUInt16LE(offset + 30) +
+      directory.readUInt16LE(offset + 32);
+    const central = directory.subarray(offset, offset + length);
+    const start = central.readUInt32LE(42);
+    if (
+      central.readUInt32LE(20) === 0xffffffff ||
+      central.readUInt32LE(24) === 0xffffffff ||
+      start === 0xffffffff
+    ) {
+      throw unsupportedZip64(archive, operation);
+    }
+    records.push({
+      name: central.toString("utf8", ZIP_CENTRAL_HEADER_SIZE, ZIP_CENTRAL_HEADER_SIZE + nameLength),
+      start,
+      central: Buffer.from(central),
+    });
+    offset += length;
+  }
+
+  records.sort((a, b) => a.start - b.start);
+  const spans = records.map((record, i) => ({
+    ...record,
+    end: records[i + 1]?.start ?? directoryOffset,
+  }));
+  return {
+    spans,
+    end: directoryOffset,
+    comment: tail.subarray(endOffset + ZIP_END_SIZE, endOffset + ZIP_END_SIZE + commentLength),
+  };
+}
+
+/**
+ * Helper: Build a ZIP central directory and end record for relocated entries
+ */
+function zipCentralDirectory(
+  entries: readonly { span: EntrySpan; start: number }[],
+  directoryOffset: number,
+  comment: Buffer,
+  archive: string,
+  operation: Operation,
+): Buffer {
+  const records = entries.map(({ span, start }) => {
+    const record = Buffer.from(span.central ?? Buffer.alloc(0));
+    record.writeUInt32LE(start, 42);
+    return record;
+  });
+  const directorySize = records.reduce((sum, record) => sum + record.length, 0);
+  if (records.length >= 0xffff || directoryOffset + directorySize >= 0xffffffff) {
+    throw unsupportedZip64(archive, operation);
+  }
+
+  const end = Buffer.alloc(ZIP_END_SIZE);
+  end.writeUInt32LE(ZIP_END_SIGNATURE, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+  end.writeUInt16LE(comment.length, 20);
+  return Buffer.concat([...records, end, comment]);
+}
+
+/**
+ * Helper: Read and inflate a (small) ZIP entry using its central record
+ */
+async function readZipEntry(
+  handle: FileHandle,
+  span: EntrySpan,
+  archive: string,
+  operation: Operation,
+): Promise<Buffer> {
+  const central = span.central ?? Buffer.alloc(ZIP_CENTRAL_HEADER_SIZE);
+  const local = await readAt(handle, span.start, ZIP_LOCAL_HEADER_SIZE);
+  if (local.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+    throw corruptArchive(`Invalid ZIP local header for ${span.name}`, archive, operation);
+  }
+  const dataOffset =
+    span.start + ZIP_LOCAL_HEADER_SIZE + local.readUInt16LE(26) + local.readUInt16LE(28);
+  const data = await readAt(handle, dataOffset, central.readUInt32LE(20));
+
+  switch (central.readUInt16LE(10)) {
+    case 0:
+      return data;
+    case 8:
+      return inflateRawSync(data);
+    default:
+      throw corruptArchive(
+        `Unsupported ZIP compression method for ${span.name}`,
+        archive,
+        operation,
+      );
+  }
+}
+
+/**
+ * Helper: Copy a byte range between files, returning the number of bytes copied
+ */
+async function copyRange(
+  from: FileHandle,
+  start: number,
+  end: number,
+  to: FileHandle,
+  position: number,
+): Promise<number> {
+  const buffer = Buffer.alloc(Math.min(COPY_CHUNK_SIZE, end - start));
+  let offset = start;
+  while (offset < end) {
+    const { bytesRead } = await from.read(buffer, 0, Math.min(buffer.length, end - offset), offset);
+    if (bytesRead === 0) {
+      throw new Error(`Unexpected end of file at offset ${offset}`);
+    }
+    await to.write(buffer, 0, bytesRead, position + offset - start);
+    offset += bytesRead;
+  }
+  return end - start;
+}
+
+/**
+ * Helper: Read exactly `length` bytes at `position`
+ */
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Helper: Verify a TAR header checksum (checksum field counted as spaces)
+ */
+function validTarChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === Number.parseInt(cString(header, 148, 8).trim() || "-1", 8);
+}
+
+/**
+ * Helper: Parse a TAR size field (octal, or base-256 for large entries)
+ */
+function parseTarSize(header: Buffer): number {
+  if (header[124] & 0x80) {
+    let size = header[124] & 0x7f;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + header[i];
+    }
+    return size;
+  }
+  return Number.parseInt(cString(header, 124, 12).trim() || "0", 8);
+}
+
+/**
+ * Helper: Entry name from the ustar name and prefix fields
+ */
+function ustarName(header: Buffer): string {
+  const name = cString(header, 0, 100);
+  const prefix = header.toString("latin1", 257, 262) === "ustar" ? cString(header, 345, 155) : "";
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/**
+ * Helper: `path` record of a pax extended header
+ */
+function paxPath(data: Buffer): string | undefined {
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space < 0) {
+      break;
+    }
+    const length = Number.parseInt(data.toString("utf8", offset, space), 10);
+    if (!(length > 0)) {
+      break;
+    }
+    const record = data.toString("utf8", space + 1, offset + length - 1);
+    const separator = record.indexOf("=");
+    if (record.slice(0, separator) === "path") {
+      return record.slice(separator + 1);
+    }
+    offset += length;
+  }
+  return undefined;
+}
+
+/**
+ * Helper: NUL-terminated string field
+ */
+function cString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const nul = field.indexOf(0);
+  return field.toString("utf8", 0, nul < 0 ? field.length : nul);
+}
+
+function corruptArchive(message: string, archive: string, operation: Operation) {
+  return new FulpackOperationError(
+    createFulpackError(ERROR_CODES.ARCHIVE_CORRUPT, message, operation, { archive }),
+  );
+}
+
+function unsupportedZip64(archive: string, operation: Operation) {
+  return new FulpackOperationError(
+    createFulpackError(
+      ERROR_CODES.INVALID_ARCHIVE_FORMAT,
+      "ZIP64 archives cannot be updated in place",
+      operation,
+      { archive },
+    ),
+  );
+}
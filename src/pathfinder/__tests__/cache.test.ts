@@ -0,0 +1,283 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HashPool } from "../../fulhash/pool.js";
+import { PathfinderCache } from "../cache.js";
+import { Pathfinder } from "../finder.js";
+import type { PathResult } from "../types.js";
+
+let root: string;
+
+const relativePaths = (results: PathResult[]) =>
+  results.map((result) => result.relativePath).sort();
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fs.mkdir(path.join(root, "src"));
+  await fs.writeFile(path.join(root, "a.txt"), "alpha");
+  await fs.writeFile(path.join(root, "src", "b.txt"), "beta");
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("Pathfinder caching", () => {
+  const query = () => ({ root, include: ["**/*.txt"] });
+
+  it("should not cache when cacheEnabled is false", async () => {
+    const finder = new Pathfinder({ cacheEnabled: false });
+
+    await finder.find(query());
+    await fs.writeFile(path.join(root, "c.txt"), "gamma");
+
+    expect(relativePaths(await finder.find(query()))).toEqual(["a.txt", "c.txt", "src/b.txt"]);
+  });
+
+  it("should serve repeated queries from the cache until invalidated", async () => {
+    const finder = new Pathfinder({ cacheEnabled: true });
+
+    const first = await finder.find(query());
+    await fs.writeFile(path.join(root, "c.txt"), "gamma");
+    const second = await finder.find(query());
+
+    expect(second).toEqual(first);
+    expect(relativePaths(second)).toEqual(["a.txt", "src/b.txt"]);
+
+    await finder.invalidate(root);
+    expect(relativePaths(await finder.find(query()))).toEqual(["a.txt", "c.txt", "src/b.txt"]);
+  });
+
+  it("should key results by query", async () => {
+    const finder = new Pathfinder({ cacheEnabled: true });
+
+    await finder.find(query());
+    await fs.writeFile(path.join(root, "c.txt"), "gamma");
+
+    expect(relativePaths(await finder.find({ root, include: ["*.txt"] }))).toEqual([
+      "a.txt",
+      "c.txt",
+    ]);
+  });
+
+  it("should invalidate queries rooted above a changed directory", async () => {
+    const finder = new Pathfinder({ cacheEnabled: true });
+
+    await finder.find(query());
+    await fs.writeFile(path.join(root, "src", "c.txt"), "gamma");
+    await finder.invalidate(path.join(root, "src"));
+
+    expect(relativePaths(await finder.find(query()))).toEqual(["a.txt", "src/b.txt", "src/c.txt"]);
+  });
+
+  it("should run callbacks for cached results and hand out copies", async () => {
+    const finder = new Pathfinder({ cacheEnabled: true });
+    const first = await finder.find(query());
+    first[0].relativePath = "changed";
+
+    const seen: string[] = [];
+    const second = await finder.find(query(), {
+      resultCallback: (result) => {
+        seen.push(result.relativePath);
+      },
+    });
+
+    expect(relativePaths(second)).toEqual(["a.txt", "src/b.txt"]);
+    expect(seen.sort()).toEqual(["a.txt", "src/b.txt"]);
+  });
+
+  it("should expire entries after cacheTTL seconds", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const finder = new Pathfinder({ cacheEnabled: true, cacheTTL: 60 });
+
+      await finder.find(query());
+      await fs.writeFile(path.join(root, "c.txt"), "gamma");
+      vi.advanceTimersByTime(59_000);
+      expect(await finder.find(query())).toHaveLength(2);
+
+      vi.advanceTimersByTime(1_000);
+      expect(await finder.find(query())).toHaveLength(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should reuse checksums of unchanged files", async () => {
+    const pool = new HashPool({ size: 1 });
+    vi.spyOn(pool, "hashFile");
+    try {
+      const finder = new Pathfinder(
+        { cacheEnabled: true, calculateChecksums: true },
+        { hashPool: pool },
+      );
+
+      const first = await finder.find(query());
+      expect(pool.hashFile).toHaveBeenCalledTimes(2);
+
+      // A different query misses the result cache but not the checksum cache
+      await fs.writeFile(path.join(root, "a.txt"), "alpha, longer");
+      const second = await finder.find({ root, include: ["**/*"] });
+
+      expect(pool.hashFile).toHaveBeenCalledTimes(3);
+      const checksum = (results: PathResult[], file: string) =>
+        results.find((result) => result.relativePath === file)?.metadata?.checksum;
+      expect(checksum(second, "src/b.txt")).toBe(checksum(first, "src/b.txt"));
+      expect(checksum(second, "a.txt")).not.toBe(checksum(first, "a.txt"));
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("should persist entries to the cache dir when asked", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-cache-"));
+    try {
+      const options = { persistCache: true, cacheDir };
+      const finder = new Pathfinder({ cacheEnabled: true }, options);
+      await finder.find(query());
+      await finder.flushCache();
+      await fs.writeFile(path.join(root, "c.txt"), "gamma");
+
+      await expect(fs.stat(path.join(cacheDir, "pathfinder", "cache.json"))).resolves.toBeTruthy();
+      const restored = new Pathfinder({ cacheEnabled: true }, options);
+      expect(await restored.find(query())).toHaveLength(2);
+
+      await restored.invalidate();
+      expect(await new Pathfinder({ cacheEnabled: true }, options).find(query())).toHaveLength(3);
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("PathfinderCache", () => {
+  it("should drop expired entries when loading a persisted file", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-cache-"));
+    const file = path.join(cacheDir, "cache.json");
+    let now = 1_000;
+    try {
+      const cache = new PathfinderCache({ ttl: 10, file, now: () => now });
+      await cache.setResults("key", root, []);
+      cache.setChecksum("/x", 1, 2, "xxh3-128", { checksum: "xxh3-128:00" });
+      await cache.invalidate("/elsewhere");
+
+      const reloaded = new PathfinderCache({ ttl: 10, file, now: () => now });
+      await reloaded.load();
+      expect(reloaded.getResults("key")).toEqual([]);
+      expect(reloaded.getChecksum("/x", 1, 2, "xxh3-128")).toEqual({ checksum: "xxh3-128:00" });
+      expect(reloaded.getChecksum("/x", 1, 3, "xxh3-128")).toBeUndefined();
+
+      now += 10_000;
+      const expired = new PathfinderCache({ ttl: 10, file, now: () => now });
+      await expired.load();
+      expect(expired.getResults("key")).toBeUndefined();
+      expect(expired.getChecksum("/x", 1, 2, "xxh3-128")).toBeUndefined();
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should skip malformed persisted entries", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-cache-"));
+    const file = path.join(cacheDir, "cache.json");
+    const result = (sourcePath: string) => ({
+      relativePath: path.basename(sourcePath),
+      sourcePath,
+      loaderType: "local",
+    });
+    try {
+      await fs.writeFile(
+        file,
+        JSON.stringify({
+          version: 1,
+          results: [
+            ["valid", { root, results: [result(path.join(root, "a.txt"))], expiresAt: null }],
+            ["escaped", { root, results: [result("/etc/passwd")], expiresAt: null }],
+            ["relative", { root: "src", results: [], expiresAt: null }],
+            ["noResults", { root, expiresAt: null }],
+            ["badExpiry", { root, results: [], expiresAt: "never" }],
+            "notAPair",
+          ],
+          checksums: [
+            ["xxh3-128\u00001\u00002\u0000/x", { path: "/x", expiresAt: null }],
+            [
+              "xxh3-128\u00001\u00002\u0000/y",
+              { path: "/y", checksum: { checksum: "xxh3-128:00" }, expiresAt: null },
+            ],
+          ],
+        }),
+      );
+
+      const cache = new PathfinderCache({ ttl: 0, file });
+      await cache.load();
+
+      expect(cache.getResults("valid")).toHaveLength(1);
+      for (const key of ["escaped", "relative", "noResults", "badExpiry"]) {
+        expect(cache.getResults(key)).toBeUndefined();
+      }
+      expect(cache.getChecksum("/x", 1, 2, "xxh3-128")).toBeUndefined();
+      expect(cache.getChecksum("/y", 1, 2, "xxh3-128")).toEqual({ checksum: "xxh3-128:00" });
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should start empty when the persisted file is not a cache", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-cache-"));
+    const file = path.join(cacheDir, "cache.json");
+    try {
+      await fs.writeFile(file, "null");
+
+      const cache = new PathfinderCache({ ttl: 0, file });
+      await expect(cache.load()).resolves.toBeUndefined();
+      expect(cache.getResults("key")).toBeUndefined();
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should evict the least recently used entries past the caps", () => {
+    const cache = new PathfinderCache({ ttl: 0, maxResults: 2, maxChecksums: 1 });
+
+    cache.setResults("a", root, []);
+    cache.setResults("b", root, []);
+    cache.getResults("a");
+    cache.setResults("c", root, []);
+    cache.setChecksum("/x", 1, 2, "xxh3-128", { checksum: "xxh3-128:00" });
+    cache.setChecksum("/y", 1, 2, "xxh3-128", { checksum: "xxh3-128:11" });
+
+    expect(cache.getResults("a")).toEqual([]);
+    expect(cache.getResults("b")).toBeUndefined();
+    expect(cache.getResults("c")).toEqual([]);
+    expect(cache.getChecksum("/x", 1, 2, "xxh3-128")).toBeUndefined();
+    expect(cache.getChecksum("/y", 1, 2, "xxh3-128")).toEqual({ checksum: "xxh3-128:11" });
+  });
+
+  it("should batch writes of the persisted file", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-cache-"));
+    const file = path.join(cacheDir, "cache.json");
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const writeFile = vi.spyOn(fs, "writeFile");
+    try {
+      const cache = new PathfinderCache({ ttl: 0, file });
+      cache.setResults("a", root, []);
+      cache.setResults("b", root, []);
+      await expect(fs.stat(file)).rejects.toThrow();
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      await vi.waitFor(() => fs.stat(file));
+      expect(writeFile).toHaveBeenCalledTimes(1);
+
+      const reloaded = new PathfinderCache({ ttl: 0, file });
+      await reloaded.load();
+      expect(reloaded.getResults("a")).toEqual([]);
+      expect(reloaded.getResults("b")).toEqual([]);
+    } finally {
+      writeFile.mockRestore();
+      vi.useRealTimers();
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
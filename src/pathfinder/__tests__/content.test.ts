@@ -0,0 +1,92 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { CONTENT_SNIFF_BYTES, detectContentType, matchesMimeType } from "../content.js";
+import { Pathfinder } from "../finder.js";
+import type { PathResult } from "../types.js";
+
+let root: string;
+
+const byPath = (results: PathResult[]) =>
+  Object.fromEntries(
+    results.map((result) => [
+      result.relativePath,
+      { mimeType: result.metadata?.mimeType, encoding: result.metadata?.encoding },
+    ]),
+  );
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fs.writeFile(path.join(root, "app.yaml"), "name: app\nport: 8080\n");
+  await fs.writeFile(path.join(root, "empty.yml"), "# nothing configured yet\n");
+  await fs.writeFile(path.join(root, "schema.json"), '{"type": "object"}\n');
+  await fs.writeFile(path.join(root, "rows.csv"), "a,b\n1,2\n3,4\n");
+  await fs.writeFile(path.join(root, "README"), "Plain notes.\n");
+  await fs.writeFile(path.join(root, "latin1.txt"), Buffer.from("Grüße aus Köln\n", "latin1"));
+  await fs.writeFile(path.join(root, "blob.bin"), Buffer.from([0, 1, 2, 3, 0, 0, 0, 4, 5, 6]));
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("detectContentType", () => {
+  it("should not let the sample boundary split a UTF-8 character", async () => {
+    const file = path.join(root, "long.txt");
+    // "é" straddles the end of the sniffed sample
+    await fs.writeFile(file, `${"a".repeat(CONTENT_SNIFF_BYTES - 1)}é${"b".repeat(100)}`);
+
+    try {
+      expect(await detectContentType(file)).toEqual({ mimeType: "text/plain", encoding: "utf-8" });
+    } finally {
+      await fs.rm(file);
+    }
+  });
+
+  it("should match exact and wildcard MIME patterns", () => {
+    expect(matchesMimeType("application/yaml", ["Application/YAML"])).toBe(true);
+    expect(matchesMimeType("text/csv", ["text/*"])).toBe(true);
+    expect(matchesMimeType("application/json", ["text/*", "application/yaml"])).toBe(false);
+    expect(matchesMimeType(undefined, ["text/*"])).toBe(false);
+  });
+});
+
+describe("Pathfinder content type detection", () => {
+  it("should leave mimeType and encoding unset by default", async () => {
+    const results = await new Pathfinder().find({ root, include: ["app.yaml"] });
+
+    expect(results[0].metadata).not.toHaveProperty("mimeType");
+    expect(results[0].metadata).not.toHaveProperty("encoding");
+  });
+
+  it("should fill mimeType and encoding when detectContentType is set", async () => {
+    const results = await new Pathfinder({ detectContentType: true }).find({ root });
+
+    expect(byPath(results)).toEqual({
+      "app.yaml": { mimeType: "application/yaml", encoding: "utf-8" },
+      "empty.yml": { mimeType: "application/yaml", encoding: "utf-8" },
+      "schema.json": { mimeType: "application/json", encoding: "utf-8" },
+      "rows.csv": { mimeType: "text/csv", encoding: "utf-8" },
+      README: { mimeType: "text/plain", encoding: "utf-8" },
+      "latin1.txt": { mimeType: "text/plain", encoding: "cp1252" },
+      "blob.bin": { mimeType: undefined, encoding: undefined },
+    });
+  });
+
+  it("should filter a query by MIME type", async () => {
+    const finder = new Pathfinder();
+
+    const yaml = await finder.find({ root, mimeTypes: ["application/yaml"] });
+    expect(yaml.map((result) => result.relativePath).sort()).toEqual(["app.yaml", "empty.yml"]);
+    expect(yaml[0].metadata?.mimeType).toBe("application/yaml");
+
+    const text = await finder.find({ root, mimeTypes: ["text/*"] });
+    expect(text.map((result) => result.relativePath).sort()).toEqual([
+      "README",
+      "latin1.txt",
+      "rows.csv",
+    ]);
+  });
+});
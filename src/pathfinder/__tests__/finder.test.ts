@@ -4,9 +4,10 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
-import { Algorithm } from "../../crucible/fulhash/types.js";
 import { FulmenError } from "../../errors/index.js";
 import { hashString } from "../../fulhash/hash.js";
+import { HashPool } from "../../fulhash/pool.js";
+import { Algorithm } from "../../fulhash/types.js";
 import type { Logger } from "../../logging/logger.js";
 import { type HistogramSummary, MetricsRegistry } from "../../telemetry/index.js";
 import { PathfinderErrorCode } from "../errors.js";
@@ -315,6 +316,42 @@ describe("Pathfinder Finder", () => {
       expect(betaMetadata?.checksum).toBe(`${ChecksumAlgorithm.SHA256}:${expectedBeta.hex}`);
       expect(betaMetadata?.checksumAlgorithm).toBe(ChecksumAlgorithm.SHA256);
     });
+
+    it("should hash up to maxWorkers files at once on the given pool, in order", async () => {
+      const pool = new HashPool({ size: 1 });
+      const hashFile = pool.hashFile.bind(pool);
+      let inFlight = 0;
+      let peak = 0;
+      vi.spyOn(pool, "hashFile").mockImplementation(async (file, options) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        try {
+          return await hashFile(file, options);
+        } finally {
+          inFlight--;
+        }
+      });
+      const query = { root: BASIC_FIXTURE, include: ["**/*"] };
+
+      try {
+        const sequential = await new Pathfinder({ maxWorkers: 1 }).find(query);
+        const results = await new Pathfinder(
+          { calculateChecksums: true, maxWorkers: 2 },
+          { hashPool: pool },
+        ).find(query);
+
+        expect(sequential.length).toBeGreaterThan(2);
+        expect(results.map((result) => result.relativePath)).toEqual(
+          sequential.map((result) => result.relativePath),
+        );
+        expect(results.every((result) => result.metadata?.checksum)).toBe(true);
+        expect(pool.hashFile).toHaveBeenCalledTimes(results.length);
+        expect(peak).toBe(2);
+      } finally {
+        await pool.close();
+      }
+    });
   });
 });
 
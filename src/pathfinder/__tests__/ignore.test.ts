@@ -0,0 +1,372 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Pathfinder } from "../finder.js";
+import { IgnoreMatcher, parseGitConfigExcludesFile, wildmatch } from "../ignore.js";
+
+let root: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/** Create files (or directories, for paths ending in "/") beneath the root */
+async function createTree(files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    const fullPath = path.join(root, file);
+    if (file.endsWith("/")) {
+      await fs.mkdir(fullPath, { recursive: true });
+      continue;
+    }
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+}
+
+/** `git check-ignore -v` style verdicts: "source:line:pattern", "" when nothing matches */
+async function verdicts(matcher: IgnoreMatcher, paths: string[]): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  for (const relativePath of paths) {
+    const fullPath = path.join(root, relativePath);
+    const isDirectory = (await fs.stat(fullPath)).isDirectory();
+    const explanation = await matcher.explain(fullPath, isDirectory);
+    result[relativePath] = explanation
+      ? `${path.relative(root, explanation.source)}:${explanation.line}:${explanation.pattern}`
+      : "";
+  }
+  return result;
+}
+
+describe("wildmatch", () => {
+  // Pathname-mode vectors from git's t/t3070-wildmatch.sh
+  const vectors: [pattern: string, text: string, matches: boolean][] = [
+    ["foo", "foo", true],
+    ["bar", "foo", false],
+    ["???", "foo", true],
+    ["??", "foo", false],
+    ["*", "foo", true],
+    ["f*", "foo", true],
+    ["*f", "foo", false],
+    ["*foo*", "foo", true],
+    ["*ob*a*r*", "foobar", true],
+    ["*ab", "aaaaaaabababab", true],
+    ["foo\\*", "foo*", true],
+    ["foo\\*bar", "foobar", false],
+    ["f\\\\oo", "f\\oo", true],
+    ["*[al]?", "ball", true],
+    ["[ten]", "ten", false],
+    ["**[!te]", "ten", true],
+    ["**[!ten]", "ten", false],
+    ["t[a-g]n", "ten", true],
+    ["t[!a-g]n", "ten", false],
+    ["t[!a-g]n", "ton", true],
+    ["t[^a-g]n", "ton", true],
+    ["a[]]b", "a]b", true],
+    ["a[]-]b", "a-b", true],
+    ["a[]-]b", "a]b", true],
+    ["a[]-]b", "aab", false],
+    ["a[]a-]b", "aab", true],
+    ["]", "]", true],
+    ["foo*bar", "foo/baz/bar", false],
+    ["foo**bar", "foo/baz/bar", false],
+    ["foo**bar", "foobazbar", true],
+    ["foo/**/bar", "foo/baz/bar", true],
+    ["foo/**/**/bar", "foo/baz/bar", true],
+    ["foo/**/bar", "foo/b/a/z/bar", true],
+    ["foo/**/bar", "foo/bar", true],
+    ["foo/**/**/bar", "foo/bar", true],
+    ["foo?bar", "foo/bar", false],
+    ["foo[/]bar", "foo/bar", false],
+    ["foo[^a-z]bar", "foo/bar", false],
+    ["f[^eiu][^eiu][^eiu][^eiu][^eiu]r", "foo-bar", true],
+    ["**/foo", "foo", true],
+    ["**/foo", "bar/baz/foo", true],
+    ["*/foo", "bar/baz/foo", false],
+    ["**/bar*", "foo/bar/baz", false],
+    ["**/bar/*", "deep/foo/bar/baz", true],
+    ["**/bar/*", "deep/foo/bar", false],
+    ["*/bar/**", "foo/bar/baz/x", true],
+    ["*/bar/**", "deep/foo/bar/baz/x", false],
+    ["**/bar/*/*", "deep/foo/bar/baz/x", true],
+    ["[[:alpha:]][[:digit:]][[:upper:]]", "a1B", true],
+    ["[[:digit:][:upper:][:space:]]", "a", false],
+    ["[[:digit:][:upper:][:space:]]", "A", true],
+    ["[[:xdigit:]]", "f", true],
+    ["[[:punct:]]", "!", true],
+    ["[a-z", "a", false],
+    ["[\\]]", "]", true],
+    ["[A-\\]]", "B", true],
+  ];
+
+  it.each(vectors)("%s against %s should be %s", (pattern, text, matches) => {
+    expect(wildmatch(pattern, text)).toBe(matches);
+  });
+
+  it("should match case-insensitively when asked", () => {
+    expect(wildmatch("*.TXT", "notes.txt")).toBe(false);
+    expect(wildmatch("*.TXT", "notes.txt", true)).toBe(true);
+  });
+});
+
+describe("IgnoreMatcher", () => {
+  // Expected verdicts below were recorded from `git check-ignore -v --no-index`
+  it("should not re-include files below an ignored directory", async () => {
+    await createTree({
+      ".gitignore": "build/\n!build/keep.txt\nlogs/*\n!logs/keep.txt\n",
+      "build/keep.txt": "",
+      "logs/keep.txt": "",
+      "logs/app.log": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), [
+        "build",
+        "build/keep.txt",
+        "logs",
+        "logs/keep.txt",
+        "logs/app.log",
+      ]),
+    ).toEqual({
+      build: ".gitignore:1:build/",
+      "build/keep.txt": ".gitignore:1:build/",
+      logs: "",
+      "logs/keep.txt": ".gitignore:4:!logs/keep.txt",
+      "logs/app.log": ".gitignore:3:logs/*",
+    });
+  });
+
+  it("should parse comments, escapes and trailing spaces like git", async () => {
+    await createTree({
+      ".gitignore": "\\#hash\n#comment\n\\!bang\ntrail   \nspace\\ \r\n",
+      "#hash": "",
+      "#comment": "",
+      "!bang": "",
+      trail: "",
+      "space ": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), ["#hash", "#comment", "!bang", "trail", "space "]),
+    ).toEqual({
+      "#hash": ".gitignore:1:\\#hash",
+      "#comment": "",
+      "!bang": ".gitignore:3:\\!bang",
+      trail: ".gitignore:4:trail",
+      "space ": ".gitignore:5:space\\ ",
+    });
+  });
+
+  it("should anchor patterns containing a slash to their file's directory", async () => {
+    await createTree({
+      ".gitignore": "/root.txt\ndoc/*.txt\n*.log\nbuild/\n",
+      "root.txt": "",
+      "sub/root.txt": "",
+      "doc/a.txt": "",
+      "x/doc/a.txt": "",
+      "doc/sub/b.txt": "",
+      "deep/er/x.log": "",
+      build: "",
+      "src/build/out.js": "",
+      "sub/.gitignore": "a/b\n/c\n",
+      "sub/a/b": "",
+      "sub/x/a/b": "",
+      "sub/c": "",
+      "sub/d/c": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), [
+        "root.txt",
+        "sub/root.txt",
+        "doc/a.txt",
+        "x/doc/a.txt",
+        "doc/sub/b.txt",
+        "deep/er/x.log",
+        "build",
+        "src/build/out.js",
+        "sub/a/b",
+        "sub/x/a/b",
+        "sub/c",
+        "sub/d/c",
+      ]),
+    ).toEqual({
+      "root.txt": ".gitignore:1:/root.txt",
+      "sub/root.txt": "",
+      "doc/a.txt": ".gitignore:2:doc/*.txt",
+      "x/doc/a.txt": "",
+      "doc/sub/b.txt": "",
+      "deep/er/x.log": ".gitignore:3:*.log",
+      build: "",
+      "src/build/out.js": ".gitignore:4:build/",
+      "sub/a/b": "sub/.gitignore:1:a/b",
+      "sub/x/a/b": "",
+      "sub/c": "sub/.gitignore:2:/c",
+      "sub/d/c": "",
+    });
+  });
+
+  it("should handle ** segments", async () => {
+    await createTree({
+      ".gitignore": "a/**/z\nlogs/**\n**/tmp\n",
+      "a/z": "",
+      "a/b/c/z": "",
+      "logs/x/y": "",
+      "q/tmp/f": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), ["a/z", "a/b/c/z", "logs", "logs/x/y", "q/tmp/f"]),
+    ).toEqual({
+      "a/z": ".gitignore:1:a/**/z",
+      "a/b/c/z": ".gitignore:1:a/**/z",
+      logs: "",
+      "logs/x/y": ".gitignore:2:logs/**",
+      "q/tmp/f": ".gitignore:3:**/tmp",
+    });
+  });
+
+  it("should let deeper ignore files and .fulmenignore override", async () => {
+    await createTree({
+      ".gitignore": "*.tmp\n*.cfg\n",
+      ".fulmenignore": "!local.cfg\n",
+      "local.cfg": "",
+      "a.tmp": "",
+      "sub/.gitignore": "!keep.tmp\n",
+      "sub/keep.tmp": "",
+      "sub/other.tmp": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), [
+        "local.cfg",
+        "a.tmp",
+        "sub/keep.tmp",
+        "sub/other.tmp",
+      ]),
+    ).toEqual({
+      "local.cfg": ".fulmenignore:1:!local.cfg",
+      "a.tmp": ".gitignore:1:*.tmp",
+      "sub/keep.tmp": "sub/.gitignore:1:!keep.tmp",
+      "sub/other.tmp": ".gitignore:1:*.tmp",
+    });
+  });
+
+  it("should apply the excludes file, then .git/info/exclude, below ignore files", async () => {
+    const excludesFile = path.join(root, "global-ignore");
+    await createTree({
+      "global-ignore": "*.bak\n!keep.bak\n",
+      ".git/info/exclude": "keep.bak\nsecret.txt\n",
+      ".gitignore": "!other.bak\n",
+      "a.bak": "",
+      "other.bak": "",
+      "x/keep.bak": "",
+      "d/secret.txt": "",
+    });
+
+    const matcher = new IgnoreMatcher(root, { excludesFile });
+
+    expect(await verdicts(matcher, ["a.bak", "other.bak", "x/keep.bak", "d/secret.txt"])).toEqual({
+      "a.bak": "global-ignore:1:*.bak",
+      "other.bak": ".gitignore:1:!other.bak",
+      "x/keep.bak": ".git/info/exclude:1:keep.bak",
+      "d/secret.txt": ".git/info/exclude:2:secret.txt",
+    });
+    expect(
+      await verdicts(new IgnoreMatcher(root, { gitInfoExclude: false }), ["d/secret.txt"]),
+    ).toEqual({ "d/secret.txt": "" });
+  });
+
+  it("should resolve core.excludesFile from the repository config", async () => {
+    await createTree({
+      ".git/config": '[core]\n\tbare = false\n\texcludesFile = "global ignore" ; comment\n',
+      "global ignore": "*.swp\n",
+      "notes.swp": "",
+    });
+
+    const matcher = new IgnoreMatcher(root, { excludesFile: true });
+
+    expect(await verdicts(matcher, ["notes.swp"])).toEqual({
+      "notes.swp": "global ignore:1:*.swp",
+    });
+  });
+
+  it("should stop outer rules at nested repositories", async () => {
+    await createTree({
+      ".gitignore": "*.cfg\nvendor/\n",
+      "a.cfg": "",
+      "inner/.git/info/exclude": "*.local\n",
+      "inner/.gitignore": "*.ini\n",
+      "inner/a.cfg": "",
+      "inner/b.ini": "",
+      "inner/c.local": "",
+      "inner/vendor/x.js": "",
+    });
+
+    expect(
+      await verdicts(new IgnoreMatcher(root), [
+        "a.cfg",
+        "inner/a.cfg",
+        "inner/b.ini",
+        "inner/c.local",
+        "inner/vendor/x.js",
+      ]),
+    ).toEqual({
+      "a.cfg": ".gitignore:1:*.cfg",
+      "inner/a.cfg": "",
+      "inner/b.ini": "inner/.gitignore:1:*.ini",
+      "inner/c.local": "inner/.git/info/exclude:1:*.local",
+      "inner/vendor/x.js": "",
+    });
+  });
+
+  it("should follow .git files to the git directory", async () => {
+    await createTree({
+      "worktree/.git": "gitdir: ../repo.git/worktrees/wt\n",
+      "repo.git/worktrees/wt/commondir": "../..\n",
+      "repo.git/info/exclude": "*.scratch\n",
+      "worktree/notes.scratch": "",
+    });
+
+    expect(await verdicts(new IgnoreMatcher(root), ["worktree/notes.scratch"])).toEqual({
+      "worktree/notes.scratch": "repo.git/info/exclude:1:*.scratch",
+    });
+  });
+
+  it("should drive Pathfinder ignore handling", async () => {
+    await createTree({
+      ".git/info/exclude": "*.local\n",
+      ".gitignore": "dist/\n",
+      "app.yaml": "",
+      "app.local": "",
+      "dist/bundle.js": "",
+    });
+
+    const results = await new Pathfinder().find({ root });
+
+    expect(results.map((result) => result.relativePath)).toEqual(["app.yaml"]);
+  });
+});
+
+describe("parseGitConfigExcludesFile", () => {
+  it("should read the last core.excludesFile value", () => {
+    const config = [
+      "[user]",
+      "  excludesFile = ~/not-core",
+      "[core]",
+      "  excludesfile = ~/.gitignore_global",
+      '[core "sub"]',
+      "  excludesFile = ~/not-core-either",
+      "[Core]",
+      '  ExcludesFile = "C:\\\\Users\\\\me\\\\ignore" # comment',
+    ].join("\n");
+
+    expect(parseGitConfigExcludesFile(config)).toBe("C:\\Users\\me\\ignore");
+    expect(parseGitConfigExcludesFile("[core]\n  autocrlf = input\n")).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PathfinderErrorCode } from "../errors.js";
+import { Pathfinder } from "../finder.js";
+import { MemoryLoader } from "../loaders/index.js";
+import { CONTENT_SNIPPET_LENGTH, compileContentPattern, searchContent } from "../search.js";
+import type { PathResult } from "../types.js";
+
+const UUID = "3f2b8c1e-9a4d-4b7e-8c2f-1d5e6a7b8c9d";
+
+let root: string;
+
+const matchesByPath = (results: PathResult[]) =>
+  Object.fromEntries(
+    results.map((result) => [result.relativePath, result.metadata?.contentMatches]),
+  );
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fs.writeFile(path.join(root, "app.yaml"), "name: app\nport: 8080\nlog_level: debug\n");
+  await fs.writeFile(path.join(root, "db.yaml"), "host: db\r\nport: 5432\r\n");
+  await fs.writeFile(path.join(root, "ids.json"), `{"tenant": "${UUID}", "port": 1}\n`);
+  await fs.writeFile(
+    path.join(root, "blob.bin"),
+    Buffer.concat([Buffer.from([0, 1, 2, 3, 0, 0, 0]), Buffer.from("port: 1\n")]),
+  );
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("Pathfinder content search", () => {
+  it("should keep matching text files and report their matching lines", async () => {
+    const results = await new Pathfinder().find({ root, contentPattern: "port" });
+
+    expect(matchesByPath(results)).toEqual({
+      "app.yaml": [{ line: 2, column: 1, snippet: "port: 8080" }],
+      "db.yaml": [{ line: 2, column: 1, snippet: "port: 5432" }],
+      "ids.json": [{ line: 1, column: 53, snippet: `{"tenant": "${UUID}", "port": 1}` }],
+    });
+    expect(results[0].metadata?.contentTruncated).toBe(false);
+  });
+
+  it("should match regular expressions", async () => {
+    const results = await new Pathfinder().find({
+      root,
+      include: ["*.yaml"],
+      contentPattern: /^(host|log_level):/g,
+    });
+
+    expect(matchesByPath(results)).toEqual({
+      "app.yaml": [{ line: 3, column: 1, snippet: "log_level: debug" }],
+      "db.yaml": [{ line: 1, column: 1, snippet: "host: db" }],
+    });
+  });
+
+  it("should match foundry catalog patterns against the tokens of each line", async () => {
+    const results = await new Pathfinder().find({
+      root,
+      contentPattern: { patternId: "uuid-v4" },
+    });
+
+    expect(matchesByPath(results)).toEqual({
+      "ids.json": [{ line: 1, column: 13, snippet: `{"tenant": "${UUID}", "port": 1}` }],
+    });
+  });
+
+  it("should reject unknown and non-regex catalog patterns", async () => {
+    const finder = new Pathfinder();
+
+    for (const patternId of ["no-such-pattern", "glob-any-json"]) {
+      await expect(finder.find({ root, contentPattern: { patternId } })).rejects.toMatchObject({
+        data: expect.objectContaining({ code: PathfinderErrorCode.INVALID_CONFIG }),
+      });
+    }
+    await expect(
+      finder.find({ root, contentPattern: "port", contentMaxBytes: 0 }),
+    ).rejects.toMatchObject({
+      data: expect.objectContaining({ code: PathfinderErrorCode.INVALID_CONFIG }),
+    });
+  });
+
+  it("should stop at the per-file byte limit", async () => {
+    const finder = new Pathfinder();
+
+    const results = await finder.find({
+      root,
+      include: ["app.yaml"],
+      contentPattern: "debug",
+      contentMaxBytes: 20,
+    });
+    expect(results).toEqual([]);
+
+    const [partial] = await finder.find({
+      root,
+      include: ["app.yaml"],
+      contentPattern: "port",
+      contentMaxBytes: 14,
+    });
+    // The line cut off by the limit is still searched
+    expect(partial.metadata).toMatchObject({
+      contentMatches: [{ line: 2, column: 1, snippet: "port" }],
+      contentTruncated: true,
+    });
+  });
+
+  it("should search loader content", async () => {
+    const loader = new MemoryLoader({
+      "config/app.yaml": "name: app\nport: 8080\n",
+      "config/notes.txt": "nothing here\n",
+    });
+
+    const results = await new Pathfinder({}, { loader }).find({
+      root: "config",
+      contentPattern: "8080",
+    });
+
+    expect(matchesByPath(results)).toEqual({
+      "app.yaml": [{ line: 2, column: 7, snippet: "port: 8080" }],
+    });
+  });
+});
+
+describe("searchContent", () => {
+  const search = async (content: string | Buffer, pattern: string, maxMatches = 100) =>
+    searchContent(
+      Readable.from([Buffer.from(content)]),
+      await compileContentPattern({
+        kind: "literal",
+        value: pattern,
+      }),
+      { maxBytes: 1024 * 1024, maxMatches },
+    );
+
+  it("should report a truncated match list only when more matches exist", async () => {
+    const content = "x\nx\nx\n";
+
+    expect(await search(content, "x", 3)).toMatchObject({ truncated: false });
+    expect(await search(content, "x", 2)).toMatchObject({
+      matches: [{ line: 1 }, { line: 2 }],
+      truncated: true,
+    });
+  });
+
+  it("should search a last line without a newline", async () => {
+    expect((await search("a\nb", "b")).matches).toEqual([{ line: 2, column: 1, snippet: "b" }]);
+  });
+
+  it("should shorten long lines around the match", async () => {
+    const line = `${"a".repeat(300)}needle${"b".repeat(300)}`;
+
+    const [match] = (await search(line, "needle")).matches;
+
+    expect(match.column).toBe(301);
+    expect(match.snippet).toHaveLength(CONTENT_SNIPPET_LENGTH);
+    expect(match.snippet.indexOf("needle")).toBe(40);
+  });
+
+  it("should not search binary content", async () => {
+    expect(await search(Buffer.from([0, 1, 2, 0, 0x6e, 0x65, 0x65, 0x64]), "need")).toEqual({
+      searched: false,
+      matches: [],
+      truncated: false,
+    });
+  });
+});
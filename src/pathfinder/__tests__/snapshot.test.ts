@@ -0,0 +1,206 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getSchemaRegistry } from "../../schema/index.js";
+import { PathfinderErrorCode } from "../errors.js";
+import { Pathfinder } from "../finder.js";
+import { MemoryLoader } from "../loaders/index.js";
+import {
+  diffSnapshots,
+  parseSnapshot,
+  SNAPSHOT_SCHEMA_ID,
+  SNAPSHOT_VERSION,
+  serializeSnapshot,
+  validateSnapshot,
+} from "../snapshot.js";
+import { ChecksumAlgorithm, type PathfinderSnapshot, type SnapshotMetadata } from "../types.js";
+
+let root: string;
+
+const snapshotOf = (entries: Record<string, SnapshotMetadata>): PathfinderSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  root: "/srv/app",
+  createdAt: "2025-11-01T12:00:00.000Z",
+  entries: Object.entries(entries).map(([relativePath, metadata]) => ({ relativePath, metadata })),
+});
+
+const file = (checksum: string, overrides: SnapshotMetadata = {}): SnapshotMetadata => ({
+  size: 10,
+  modified: "2025-11-01T12:00:00.000Z",
+  permissions: "0644",
+  checksum: `xxh3-128:${checksum}`,
+  checksumAlgorithm: ChecksumAlgorithm.XXH3_128,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fs.mkdir(path.join(root, "bin"));
+  await fs.writeFile(path.join(root, "app.js"), "console.log('v1');\n");
+  await fs.writeFile(path.join(root, "bin", "run.sh"), "#!/bin/sh\n", { mode: 0o644 });
+  await fs.writeFile(path.join(root, "old.txt"), "old\n");
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("Pathfinder.snapshot", () => {
+  it("should record size, mtime, permissions and checksum for each file", async () => {
+    const snapshot = await new Pathfinder().snapshot({ root });
+
+    expect(snapshot).toMatchObject({ version: SNAPSHOT_VERSION, root });
+    expect(snapshot.entries.map((entry) => entry.relativePath)).toEqual([
+      "app.js",
+      "bin/run.sh",
+      "old.txt",
+    ]);
+    expect(snapshot.entries[0].metadata).toEqual({
+      size: 19,
+      modified: expect.any(String),
+      permissions: expect.stringMatching(/^0[0-7]{3}$/),
+      checksum: expect.stringMatching(/^xxh3-128:[a-f0-9]{32}$/),
+      checksumAlgorithm: ChecksumAlgorithm.XXH3_128,
+    });
+  });
+
+  it("should diff a later snapshot of the same tree", async () => {
+    const finder = new Pathfinder({ checksumAlgorithm: ChecksumAlgorithm.SHA256 });
+    const before = await finder.snapshot({ root });
+
+    await fs.writeFile(path.join(root, "app.js"), "console.log('v2');\n");
+    await fs.chmod(path.join(root, "bin", "run.sh"), 0o755);
+    await fs.rm(path.join(root, "old.txt"));
+    await fs.writeFile(path.join(root, "new.txt"), "new\n");
+    const after = await finder.snapshot({ root });
+
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.added.map((entry) => entry.relativePath)).toEqual(["new.txt"]);
+    expect(diff.removed.map((entry) => entry.relativePath)).toEqual(["old.txt"]);
+    expect(diff.modified.map((change) => change.relativePath)).toEqual(["app.js"]);
+    expect(diff.modeChanged).toEqual([
+      {
+        relativePath: "bin/run.sh",
+        before: expect.objectContaining({ permissions: "0644" }),
+        after: expect.objectContaining({ permissions: "0755" }),
+      },
+    ]);
+    expect(diff.modified[0].after.checksum).toMatch(/^sha256:/);
+  });
+
+  it("should snapshot loader trees", async () => {
+    const loader = new MemoryLoader({ "site/index.html": "<html></html>\n" });
+
+    const snapshot = await new Pathfinder({}, { loader }).snapshot({ root: "site" });
+
+    expect(snapshot.root).toBe("memory:/site");
+    expect(snapshot.entries).toEqual([
+      {
+        relativePath: "index.html",
+        metadata: expect.objectContaining({ size: 14, checksum: expect.any(String) }),
+      },
+    ]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("should ignore mtime changes when checksums match", () => {
+    const before = snapshotOf({ "a.txt": file("aa") });
+    const after = snapshotOf({ "a.txt": file("aa", { modified: "2025-11-02T00:00:00.000Z" }) });
+
+    expect(diffSnapshots(before, after)).toEqual({
+      added: [],
+      removed: [],
+      modified: [],
+      modeChanged: [],
+    });
+  });
+
+  it("should compare size and mtime when checksums are not comparable", () => {
+    const before = snapshotOf({
+      "a.txt": file("aa"),
+      "b.txt": file("bb", { checksum: undefined, checksumError: "EACCES" }),
+    });
+    const after = snapshotOf({
+      "a.txt": file("cc", { checksumAlgorithm: ChecksumAlgorithm.SHA256 }),
+      "b.txt": file("bb", { checksum: undefined, size: 11 }),
+    });
+
+    expect(diffSnapshots(before, after).modified.map((change) => change.relativePath)).toEqual([
+      "b.txt",
+    ]);
+  });
+
+  it("should report symlink retargeting as a modification", () => {
+    const before = snapshotOf({ current: { isSymlink: true, symlinkTarget: "releases/1" } });
+    const after = snapshotOf({ current: { isSymlink: true, symlinkTarget: "releases/2" } });
+
+    expect(diffSnapshots(before, after).modified).toHaveLength(1);
+  });
+});
+
+describe("snapshot JSON", () => {
+  it("should be described by a registry schema", async () => {
+    const registry = getSchemaRegistry();
+    const metadata = await registry.getSchema(SNAPSHOT_SCHEMA_ID);
+    const schema = JSON.parse(await registry.readSchemaContent(SNAPSHOT_SCHEMA_ID));
+
+    expect(metadata.relativePath).toBe("tsfulmen/pathfinder/v1.0.0/snapshot.schema.json");
+    expect(schema.$id).toBe(
+      "https://schemas.fulmenhq.dev/tsfulmen/pathfinder/v1.0.0/snapshot.schema.json",
+    );
+    expect(schema.properties.version.const).toBe(SNAPSHOT_VERSION);
+  });
+
+  it("should take its metadata fields from the Pathfinder metadata schema", async () => {
+    const registry = getSchemaRegistry();
+    const snapshotSchema = JSON.parse(await registry.readSchemaContent(SNAPSHOT_SCHEMA_ID));
+    const metadataSchema = JSON.parse(
+      await registry.readSchemaContent("pathfinder/v1.0.0/metadata"),
+    );
+
+    expect(snapshotSchema.properties.entries.items.properties.metadata.$ref).toBe(
+      "https://schemas.fulmenhq.dev/crucible/pathfinder/v1.0.0/metadata.schema.json",
+    );
+    expect(metadataSchema.properties.checksumAlgorithm.enum).toEqual(
+      Object.values(ChecksumAlgorithm),
+    );
+    // The referenced checksum pattern applies: unknown algorithms are rejected
+    const result = await validateSnapshot(
+      snapshotOf({ "a.txt": file("aa", { checksum: "md5:0123456789abcdef" }) }),
+    );
+    expect(result.valid).toBe(false);
+  });
+
+  it("should round-trip through serializeSnapshot and parseSnapshot", async () => {
+    const snapshot = await new Pathfinder().snapshot({ root });
+
+    const json = await serializeSnapshot(snapshot);
+
+    expect(await parseSnapshot(json)).toEqual(snapshot);
+    expect((await validateSnapshot(JSON.parse(json))).valid).toBe(true);
+  });
+
+  it("should reject documents that do not match the schema", async () => {
+    const invalid = [
+      "not json",
+      JSON.stringify({ ...snapshotOf({}), version: "2.0.0" }),
+      JSON.stringify(snapshotOf({ "a.txt": { ...file("aa"), permissions: "rw-r--r--" } })),
+      JSON.stringify(snapshotOf({ "a.txt": { ...file("aa"), mimeType: "text/plain" } })),
+    ];
+
+    for (const json of invalid) {
+      await expect(parseSnapshot(json)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: PathfinderErrorCode.VALIDATION_FAILED }),
+      });
+    }
+    await expect(
+      serializeSnapshot({ ...snapshotOf({}), createdAt: "yesterday" }),
+    ).rejects.toMatchObject({
+      data: expect.objectContaining({ code: PathfinderErrorCode.VALIDATION_FAILED }),
+    });
+  });
+});
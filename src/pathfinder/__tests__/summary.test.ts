@@ -0,0 +1,165 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PathfinderErrorCode } from "../errors.js";
+import { Pathfinder } from "../finder.js";
+import { SummaryAccumulator } from "../summary.js";
+import type { PathResult } from "../types.js";
+import { LoaderType } from "../types.js";
+
+let root: string;
+
+const write = async (relativePath: string, size: number) => {
+  const filePath = path.join(root, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, "x".repeat(size));
+};
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fs.writeFile(path.join(root, ".fulmenignore"), "cache/\n");
+  await write("README.txt", 10);
+  await write("dist/app.json", 300);
+  await write("dist/assets/logo.PNG", 500);
+  await write("dist/assets/prices.CSV", 40);
+  await write("src/config.yaml", 120);
+  await write("src/lib/schema.yaml", 80);
+  await write("cache/blob.bin", 10_000);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("Pathfinder.summarize", () => {
+  it("should total bytes per directory, extension and MIME type", async () => {
+    const summary = await new Pathfinder().summarize({ root });
+
+    expect(summary).toMatchObject({ totalBytes: 1050, totalFiles: 6 });
+    expect(summary.directories).toEqual([
+      { key: "dist", bytes: 840, files: 3 },
+      { key: "src", bytes: 200, files: 2 },
+    ]);
+    expect(summary.extensions).toEqual([
+      { key: ".png", bytes: 500, files: 1 },
+      { key: ".json", bytes: 300, files: 1 },
+      { key: ".yaml", bytes: 200, files: 2 },
+      { key: ".csv", bytes: 40, files: 1 },
+      { key: ".txt", bytes: 10, files: 1 },
+    ]);
+    // Without detectContentType, MIME types come from the foundry extension catalog
+    expect(summary.mimeTypes.map((bucket) => bucket.key)).toEqual([
+      "application/octet-stream",
+      "application/json",
+      "application/yaml",
+      "text/csv",
+      "text/plain",
+    ]);
+  });
+
+  it("should aggregate directories down to the requested depth", async () => {
+    const summary = await new Pathfinder().summarize({ root }, { depth: 2 });
+
+    expect(summary.directories.map((bucket) => [bucket.key, bucket.bytes])).toEqual([
+      ["dist", 840],
+      ["dist/assets", 540],
+      ["src", 200],
+      ["src/lib", 80],
+    ]);
+  });
+
+  it("should report the largest files", async () => {
+    const summary = await new Pathfinder().summarize({ root }, { top: 3 });
+
+    expect(
+      summary.largestFiles.map((result) => [result.relativePath, result.metadata?.size]),
+    ).toEqual([
+      ["dist/assets/logo.PNG", 500],
+      ["dist/app.json", 300],
+      ["src/config.yaml", 120],
+    ]);
+  });
+
+  it("should respect query filters and ignore files", async () => {
+    const summary = await new Pathfinder().summarize({ root, include: ["**/*.yaml"] }, { top: 0 });
+
+    expect(summary).toEqual({
+      totalBytes: 200,
+      totalFiles: 2,
+      directories: [{ key: "src", bytes: 200, files: 2 }],
+      extensions: [{ key: ".yaml", bytes: 200, files: 2 }],
+      mimeTypes: [{ key: "application/yaml", bytes: 200, files: 2 }],
+      largestFiles: [],
+    });
+  });
+
+  it("should neither read nor fill the result cache", async () => {
+    const cacheRoot = await fs.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+    const finder = new Pathfinder({ cacheEnabled: true });
+    const query = { root: cacheRoot };
+
+    try {
+      await fs.writeFile(path.join(cacheRoot, "a.txt"), "alpha");
+      await finder.summarize(query);
+      await fs.writeFile(path.join(cacheRoot, "b.txt"), "bravo");
+      expect(await finder.find(query)).toHaveLength(2);
+
+      await fs.writeFile(path.join(cacheRoot, "c.txt"), "charlie");
+      expect(await finder.find(query)).toHaveLength(2);
+      expect(await finder.summarize(query)).toMatchObject({ totalBytes: 17, totalFiles: 3 });
+    } finally {
+      await fs.rm(cacheRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject invalid options", async () => {
+    const finder = new Pathfinder();
+
+    for (const options of [{ depth: -1 }, { top: 1.5 }]) {
+      await expect(finder.summarize({ root }, options)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: PathfinderErrorCode.INVALID_CONFIG }),
+      });
+    }
+  });
+});
+
+describe("SummaryAccumulator", () => {
+  const result = (relativePath: string, size?: number, mimeType?: string): PathResult => ({
+    relativePath,
+    sourcePath: `/${relativePath}`,
+    loaderType: LoaderType.LOCAL,
+    metadata: { size, mimeType },
+  });
+
+  it("should order equal sizes by path regardless of arrival order", async () => {
+    const accumulator = new SummaryAccumulator(1, 2);
+
+    for (const name of ["c", "a", "d", "b"]) {
+      await accumulator.add(result(name, 5));
+    }
+
+    expect(accumulator.summary().largestFiles.map((file) => file.relativePath)).toEqual(["a", "b"]);
+  });
+
+  it("should prefer sniffed MIME types and count files without a size", async () => {
+    const accumulator = new SummaryAccumulator(1, 10);
+
+    await accumulator.add(result("data.json", 4, "application/x-ndjson"));
+    await accumulator.add(result("Makefile"));
+
+    expect(accumulator.summary()).toMatchObject({
+      totalBytes: 4,
+      totalFiles: 2,
+      extensions: [
+        { key: ".json", bytes: 4, files: 1 },
+        { key: "", bytes: 0, files: 1 },
+      ],
+      mimeTypes: [
+        { key: "application/x-ndjson", bytes: 4, files: 1 },
+        { key: "application/octet-stream", bytes: 0, files: 1 },
+      ],
+    });
+  });
+});
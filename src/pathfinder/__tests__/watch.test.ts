@@ -0,0 +1,172 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Pathfinder } from "../finder.js";
+import type { PathfinderWatchCallbacks } from "../types.js";
+import type { PathfinderWatcher } from "../watch.js";
+
+let root: string;
+let watcher: PathfinderWatcher | undefined;
+
+function recorder() {
+  const events: string[] = [];
+  const callbacks: PathfinderWatchCallbacks = {
+    onAdded: (result) => {
+      events.push(`added ${result.relativePath}`);
+    },
+    onChanged: (result) => {
+      events.push(`changed ${result.relativePath}`);
+    },
+    onRemoved: (result) => {
+      events.push(`removed ${result.relativePath}`);
+    },
+  };
+  return { events, callbacks };
+}
+
+beforeEach(async () => {
+  root = await fsp.mkdtemp(path.join(os.tmpdir(), "tsfulmen-pathfinder-"));
+  await fsp.mkdir(path.join(root, "config"));
+  await fsp.writeFile(path.join(root, "config", "app.yaml"), "a: 1\n");
+});
+
+afterEach(async () => {
+  await watcher?.close();
+  watcher = undefined;
+  vi.restoreAllMocks();
+  await fsp.rm(root, { recursive: true, force: true });
+});
+
+describe("Pathfinder.watch", () => {
+  it("should report added, changed and removed files", async () => {
+    const { events, callbacks } = recorder();
+    watcher = await new Pathfinder().watch({ root, include: ["**/*.yaml"] }, callbacks, {
+      debounceMs: 20,
+    });
+
+    await fsp.writeFile(path.join(root, "config", "db.yaml"), "b: 2\n");
+    await vi.waitFor(() => expect(events).toEqual(["added config/db.yaml"]));
+
+    await fsp.writeFile(path.join(root, "config", "app.yaml"), "a: 1\nc: 3\n");
+    await vi.waitFor(() => expect(events).toContain("changed config/app.yaml"));
+
+    await fsp.rm(path.join(root, "config", "db.yaml"));
+    await vi.waitFor(() => expect(events).toContain("removed config/db.yaml"));
+    expect(events).toHaveLength(3);
+  });
+
+  it("should apply the query's include, exclude and ignore rules", async () => {
+    await fsp.writeFile(path.join(root, ".fulmenignore"), "generated/\n");
+    const { events, callbacks } = recorder();
+    watcher = await new Pathfinder().watch(
+      { root, include: ["**/*.yaml"], exclude: ["**/local.yaml"], honorIgnoreFiles: true },
+      callbacks,
+      { debounceMs: 20 },
+    );
+
+    await fsp.mkdir(path.join(root, "generated"));
+    await fsp.writeFile(path.join(root, "generated", "out.yaml"), "x\n");
+    await fsp.writeFile(path.join(root, "config", "local.yaml"), "x\n");
+    await fsp.writeFile(path.join(root, "config", "notes.txt"), "x\n");
+    await fsp.writeFile(path.join(root, "config", "db.yaml"), "x\n");
+
+    await vi.waitFor(() => expect(events).toEqual(["added config/db.yaml"]));
+  });
+
+  it("should poll when asked", async () => {
+    const { events, callbacks } = recorder();
+    watcher = await new Pathfinder().watch({ root }, callbacks, { poll: true, pollInterval: 20 });
+
+    expect(watcher.mode).toBe("poll");
+    await fsp.writeFile(path.join(root, "new.txt"), "x");
+    await vi.waitFor(() => expect(events).toEqual(["added new.txt"]));
+  });
+
+  it("should fall back to polling when recursive fs.watch is unavailable", async () => {
+    vi.spyOn(fs, "watch").mockImplementation(() => {
+      throw Object.assign(new Error("recursive watch unavailable"), {
+        code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM",
+      });
+    });
+    const { events, callbacks } = recorder();
+    watcher = await new Pathfinder().watch({ root }, callbacks, { pollInterval: 20 });
+
+    expect(watcher.mode).toBe("poll");
+    await fsp.rm(path.join(root, "config", "app.yaml"));
+    await vi.waitFor(() => expect(events).toEqual(["removed config/app.yaml"]));
+  });
+
+  it("should stop emitting after close", async () => {
+    const { events, callbacks } = recorder();
+    watcher = await new Pathfinder().watch({ root }, callbacks, { poll: true, pollInterval: 10 });
+
+    await watcher.close();
+    await fsp.writeFile(path.join(root, "late.txt"), "x");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(events).toEqual([]);
+  });
+
+  it("should route callback failures to onError", async () => {
+    const onError = vi.fn();
+    watcher = await new Pathfinder().watch(
+      {
+        root,
+      },
+      {
+        onAdded: () => {
+          throw new Error("boom");
+        },
+        onError,
+      },
+      { debounceMs: 20 },
+    );
+
+    await fsp.writeFile(path.join(root, "new.txt"), "x");
+    await vi.waitFor(() =>
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "boom" }),
+        path.join(root, "new.txt"),
+      ),
+    );
+  });
+
+  it("should invalidate cached results when files change", async () => {
+    const finder = new Pathfinder({ cacheEnabled: true });
+    const { events, callbacks } = recorder();
+    expect(await finder.find({ root })).toHaveLength(1);
+    watcher = await finder.watch({ root }, callbacks, { debounceMs: 20 });
+
+    await fsp.writeFile(path.join(root, "new.txt"), "x");
+    await vi.waitFor(() => expect(events).toEqual(["added new.txt"]));
+
+    expect(await finder.find({ root })).toHaveLength(2);
+  });
+
+  it("should report cache invalidation failures and still emit events", async () => {
+    // A regular file as cacheDir makes every cache write fail
+    const cacheDir = path.join(root, "not-a-dir");
+    await fsp.writeFile(cacheDir, "x");
+    const onError = vi.fn();
+    const { events, callbacks } = recorder();
+    const finder = new Pathfinder({ cacheEnabled: true }, { persistCache: true, cacheDir });
+    watcher = await finder.watch(
+      { root, include: ["**/*.yaml"] },
+      { ...callbacks, onError },
+      { debounceMs: 20 },
+    );
+
+    await fsp.writeFile(path.join(root, "config", "db.yaml"), "b: 2\n");
+    await vi.waitFor(() => expect(events).toEqual(["added config/db.yaml"]));
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: "ENOTDIR" }), root);
+  });
+
+  it("should reject an invalid root", async () => {
+    await expect(
+      new Pathfinder().watch({ root: path.join(root, "missing") }, {}),
+    ).rejects.toMatchObject({ data: expect.objectContaining({ code: "pathfinder.invalid_root" }) });
+  });
+});
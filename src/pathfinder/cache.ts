@@ -0,0 +1,314 @@
+/**
+ * Pathfinder cache - TTL cache for query results and file checksums
+ *
+ * Results are keyed by the normalized query plus the finder settings that shape
+ * them; checksums by resolved path, size, mtime and algorithm, so a changed
+ * file misses naturally. Entries can optionally be persisted to a JSON file.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { isPathWithinRoot } from "./safety.js";
+import type { FileMetadata, PathResult } from "./types.js";
+
+/** Checksum fields cached per file */
+export type CachedChecksum = Pick<FileMetadata, "checksum" | "checksumAlgorithm">;
+
+interface ResultEntry {
+  root: string;
+  results: PathResult[];
+  expiresAt: number | null;
+}
+
+interface ChecksumEntry {
+  path: string;
+  checksum: CachedChecksum;
+  expiresAt: number | null;
+}
+
+/** Default cap on cached result lists */
+export const DEFAULT_MAX_CACHED_RESULTS = 256;
+
+/** Default cap on cached file checksums */
+export const DEFAULT_MAX_CACHED_CHECKSUMS = 100_000;
+
+// Result misses within this window share one write of the cache file
+const SAVE_DELAY_MS = 1_000;
+
+interface PersistedCache {
+  version: 1;
+  results: Array<[string, ResultEntry]>;
+  checksums: Array<[string, ChecksumEntry]>;
+}
+
+export interface PathfinderCacheOptions {
+  /** Entry lifetime in seconds; 0 keeps entries until invalidated */
+  ttl: number;
+
+  /** JSON file to load entries from and save them to */
+  file?: string;
+
+  /** Result lists kept before the least recently used is evicted */
+  maxResults?: number;
+
+  /** Checksums kept before the least recently used is evicted */
+  maxChecksums?: number;
+
+  /** Clock override for tests (ms since epoch) */
+  now?: () => number;
+}
+
+/**
+ * In-memory TTL cache backing Pathfinder's `cacheEnabled` option.
+ *
+ * Both maps are bounded and evict least recently used entries first (Map
+ * insertion order, refreshed on every hit). Persisted writes are debounced:
+ * new results schedule one write of the whole file, which `flush()` or the
+ * process's `beforeExit` forces early.
+ */
+export class PathfinderCache {
+  private readonly ttlMs: number;
+  private readonly file?: string;
+  private readonly now: () => number;
+  private readonly maxResults: number;
+  private readonly maxChecksums: number;
+  private readonly results = new Map<string, ResultEntry>();
+  private readonly checksums = new Map<string, ChecksumEntry>();
+  private loading?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private saveTimer?: NodeJS.Timeout;
+  private readonly flushOnExit = () => {
+    void this.flush().catch(() => {});
+  };
+
+  constructor(options: PathfinderCacheOptions) {
+    this.ttlMs = Math.max(0, options.ttl) * 1000;
+    this.file = options.file;
+    this.now = options.now ?? Date.now;
+    this.maxResults = Math.max(1, options.maxResults ?? DEFAULT_MAX_CACHED_RESULTS);
+    this.maxChecksums = Math.max(1, options.maxChecksums ?? DEFAULT_MAX_CACHED_CHECKSUMS);
+  }
+
+  /**
+   * Load persisted entries once; a missing or unreadable file starts empty.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  /** Cached results for `key`, copied so callers may mutate them */
+  getResults(key: string): PathResult[] | undefined {
+    const entry = this.live(this.results, key);
+    return entry ? structuredClone(entry.results) : undefined;
+  }
+
+  /** Store `results` as given; callers must not mutate them afterwards */
+  setResults(key: string, root: string, results: PathResult[]): void {
+    store(this.results, key, { root, results, expiresAt: this.expiry() }, this.maxResults);
+    this.scheduleSave();
+  }
+
+  getChecksum(
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+    algorithm: string,
+  ): CachedChecksum | undefined {
+    return this.live(this.checksums, checksumKey(filePath, size, mtimeMs, algorithm))?.checksum;
+  }
+
+  setChecksum(
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+    algorithm: string,
+    checksum: CachedChecksum,
+  ): void {
+    store(
+      this.checksums,
+      checksumKey(filePath, size, mtimeMs, algorithm),
+      { path: filePath, checksum, expiresAt: this.expiry() },
+      this.maxChecksums,
+    );
+  }
+
+  /**
+   * Drop entries affected by changes under `root`: result lists whose query
+   * root contains it or lies inside it, and checksums of files inside it.
+   * Without a root, everything is dropped.
+   */
+  async invalidate(root?: string): Promise<void> {
+    if (root === undefined) {
+      this.results.clear();
+      this.checksums.clear();
+    } else {
+      const target = path.resolve(root);
+      for (const [key, entry] of this.results) {
+        if (isPathWithinRoot(target, entry.root) || isPathWithinRoot(entry.root, target)) {
+          this.results.delete(key);
+        }
+      }
+      for (const [key, entry] of this.checksums) {
+        if (isPathWithinRoot(entry.path, target)) {
+          this.checksums.delete(key);
+        }
+      }
+    }
+    await this.flush();
+  }
+
+  /**
+   * Write all entries to the cache file now instead of waiting for the
+   * debounced save. No-op without a cache file.
+   */
+  flush(): Promise<void> {
+    const file = this.file;
+    if (!file) return Promise.resolve();
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      process.off("beforeExit", this.flushOnExit);
+    }
+    this.saving = this.saving.catch(() => {}).then(() => this.writeFile(file));
+    return this.saving;
+  }
+
+  private expiry(): number | null {
+    return this.ttlMs > 0 ? this.now() + this.ttlMs : null;
+  }
+
+  private live<T extends { expiresAt: number | null }>(
+    map: Map<string, T>,
+    key: string,
+  ): T | undefined {
+    const entry = map.get(key);
+    if (!entry) return undefined;
+    map.delete(key);
+    if (entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+    map.set(key, entry);
+    return entry;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.file) return;
+
+    let persisted: PersistedCache;
+    try {
+      persisted = JSON.parse(await fs.readFile(this.file, "utf8")) as PersistedCache;
+    } catch {
+      return;
+    }
+    if (persisted?.version !== 1) return;
+
+    // The file lives outside the process, so every entry is checked before it
+    // is trusted; anything malformed is skipped rather than served
+    const now = this.now();
+    const fresh = (entry: { expiresAt: number | null }) =>
+      entry.expiresAt === null || entry.expiresAt > now;
+    for (const [key, entry] of entries(persisted.results)) {
+      if (isResultEntry(entry) && fresh(entry)) store(this.results, key, entry, this.maxResults);
+    }
+    for (const [key, entry] of entries(persisted.checksums)) {
+      if (isChecksumEntry(entry) && fresh(entry)) {
+        store(this.checksums, key, entry, this.maxChecksums);
+      }
+    }
+  }
+
+  /**
+   * Schedule a write of all entries unless one is already pending. The timer
+   * does not hold the process open; `beforeExit` flushes instead.
+   */
+  private scheduleSave(): void {
+    if (!this.file || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(this.flushOnExit, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+    process.once("beforeExit", this.flushOnExit);
+  }
+
+  /**
+   * Write all entries to the cache file. Writes are serialized and go through
+   * a temp file and rename, so readers never see a partial file.
+   */
+  private async writeFile(file: string): Promise<void> {
+    const persisted: PersistedCache = {
+      version: 1,
+      results: [...this.results],
+      checksums: [...this.checksums],
+    };
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(persisted));
+    await fs.rename(temp, file);
+  }
+}
+
+// Insert as most recently used, evicting the least recently used past `max`
+function store<T>(map: Map<string, T>, key: string, entry: T, max: number): void {
+  map.delete(key);
+  map.set(key, entry);
+  for (const oldest of map.keys()) {
+    if (map.size <= max) break;
+    map.delete(oldest);
+  }
+}
+
+function checksumKey(filePath: string, size: number, mtimeMs: number, algorithm: string): string {
+  return `${algorithm}\0${size}\0${mtimeMs}\0${filePath}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isExpiry(value: unknown): value is number | null {
+  return value === null || typeof value === "number";
+}
+
+// Well-formed [key, entry] pairs of a persisted list; the entry is still unchecked
+function entries(list: unknown): Array<[string, unknown]> {
+  if (!Array.isArray(list)) return [];
+  return list.filter(
+    (pair): pair is [string, unknown] =>
+      Array.isArray(pair) && pair.length === 2 && typeof pair[0] === "string",
+  );
+}
+
+function isResultEntry(entry: unknown): entry is ResultEntry {
+  if (!isRecord(entry) || typeof entry.root !== "string" || !path.isAbsolute(entry.root)) {
+    return false;
+  }
+  const root = entry.root;
+  return (
+    isExpiry(entry.expiresAt) &&
+    Array.isArray(entry.results) &&
+    entry.results.every(
+      (result: unknown) =>
+        isRecord(result) &&
+        typeof result.relativePath === "string" &&
+        typeof result.sourcePath === "string" &&
+        typeof result.loaderType === "string" &&
+        (result.metadata === undefined || isRecord(result.metadata)) &&
+        isPathWithinRoot(result.sourcePath, root),
+    )
+  );
+}
+
+function isChecksumEntry(entry: unknown): entry is ChecksumEntry {
+  return (
+    isRecord(entry) &&
+    typeof entry.path === "string" &&
+    path.isAbsolute(entry.path) &&
+    isExpiry(entry.expiresAt) &&
+    isRecord(entry.checksum) &&
+    typeof entry.checksum.checksum === "string"
+  );
+}
@@ -1,7 +1,12 @@
-import { createReadStream } from "node:fs";
 import path from "node:path";
+import type { Readable } from "node:stream";
 
-import { Algorithm, createStreamHasher } from "../fulhash/index.js";
+import {
+  Algorithm,
+  createStreamHasher,
+  getDefaultHashPool,
+  type HashPool,
+} from "../fulhash/index.js";
 import { ChecksumAlgorithm, type FileMetadata } from "./types.js";
 
 /**
@@ -22,30 +27,22 @@ function toFulHashAlgorithm(algorithm: ChecksumAlgorithm): Algorithm {
 }
 
 /**
- * Calculate the checksum for a single file using FulHash streaming hasher.
+ * Calculate the checksum for a single file on a FulHash worker thread.
  *
  * Returns checksum metadata compatible with Pathfinder metadata schema.
+ * Uses the shared FulHash pool unless one is given.
  */
 export async function calculateChecksum(
   filePath: string,
   algorithm: ChecksumAlgorithm,
+  pool: HashPool = getDefaultHashPool(),
 ): Promise<ChecksumMetadata> {
   const absolutePath = path.resolve(filePath);
 
   try {
-    const hasher = await createStreamHasher({ algorithm: toFulHashAlgorithm(algorithm) });
-    const stream = createReadStream(absolutePath);
-
-    try {
-      for await (const chunk of stream) {
-        hasher.update(chunk as Uint8Array);
-      }
-    } catch (error) {
-      stream.destroy();
-      throw error;
-    }
-
-    const digest = hasher.digest();
+    const digest = await pool.hashFile(absolutePath, {
+      algorithm: toFulHashAlgorithm(algorithm),
+    });
 
     return {
       checksum: `${algorithm}:${digest.hex}`,
@@ -60,13 +57,45 @@ export async function calculateChecksum(
   }
 }
 
+/**
+ * Calculate the checksum of a stream (used for loader results).
+ *
+ * Read errors are reported in `checksumError`, as for files.
+ */
+export async function calculateStreamChecksum(
+  stream: Readable,
+  algorithm: ChecksumAlgorithm,
+): Promise<ChecksumMetadata> {
+  try {
+    const hasher = await createStreamHasher({ algorithm: toFulHashAlgorithm(algorithm) });
+    for await (const chunk of stream) {
+      hasher.update(chunk as Uint8Array);
+    }
+    return {
+      checksum: `${algorithm}:${hasher.digest().hex}`,
+      checksumAlgorithm: algorithm,
+    };
+  } catch (error) {
+    stream.destroy();
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      checksumAlgorithm: algorithm,
+      checksumError: message,
+    };
+  }
+}
+
 /**
  * Calculate checksums for a list of files with a simple concurrency limiter.
+ *
+ * `concurrency` bounds how many files are in flight on the pool's worker
+ * threads (the pool size bounds how many are hashed at once).
  */
 export async function calculateChecksumsBatch(
   filePaths: string[],
   algorithm: ChecksumAlgorithm,
   concurrency: number = 1,
+  pool: HashPool = getDefaultHashPool(),
 ): Promise<Map<string, ChecksumMetadata>> {
   const safeConcurrency = Math.max(1, Math.floor(concurrency));
   const results = new Map<string, ChecksumMetadata>();
@@ -81,7 +110,7 @@ export async function calculateChecksumsBatch(
     while (index < filePaths.length) {
       const currentIndex = index++;
       const filePath = filePaths[currentIndex];
-      const metadata = await calculateChecksum(filePath, algorithm);
+      const metadata = await calculateChecksum(filePath, algorithm, pool);
       results.set(filePath, metadata);
     }
   };
@@ -20,13 +20,15 @@ export const DEFAULT_CONFIG: Partial<PathfinderConfig> = {
   checksumAlgorithm: ChecksumAlgorithm.XXH3_128,
   checksumEncoding: ChecksumEncoding.HEX,
   honorIgnoreFiles: true,
+  excludesFile: false,
+  detectContentType: false,
 };
 
 /**
  * Default ignore file names (checked in order)
  *
  * Pathfinder will look for these files in each directory during traversal.
- * First match wins. .fulmenignore takes precedence over .gitignore.
+ * Rules from earlier files take precedence: .fulmenignore overrides .gitignore.
  */
 export const DEFAULT_IGNORE_FILES = [".fulmenignore", ".gitignore"];
 
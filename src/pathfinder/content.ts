@@ -0,0 +1,136 @@
+/**
+ * Pathfinder content types - MIME type and text encoding sniffing
+ *
+ * Only the first CONTENT_SNIFF_BYTES bytes of a file are read. The foundry
+ * detector and fulencode charset detection classify that sample, with the file
+ * extension as a fallback when content alone only says text/plain.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+
+import { detectMimeType, getMimeTypeByExtension } from "../foundry/mime-types.js";
+import { detectEncoding } from "../fulencode/detect.js";
+import type { FileMetadata } from "./types.js";
+
+/** Bytes read from the start of each file for content sniffing */
+export const CONTENT_SNIFF_BYTES = 512;
+
+// Below this the best encoding candidate is a guess about binary data
+const MIN_ENCODING_CONFIDENCE = 0.5;
+
+/**
+ * Result fragment returned when detecting a file's content type.
+ */
+export type ContentTypeMetadata = Pick<FileMetadata, "mimeType" | "encoding">;
+
+async function readSample(filePath: string): Promise<{ sample: Buffer; truncated: boolean }> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(CONTENT_SNIFF_BYTES + 1);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return {
+      sample: buffer.subarray(0, Math.min(bytesRead, CONTENT_SNIFF_BYTES)),
+      truncated: bytesRead > CONTENT_SNIFF_BYTES,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readStreamSample(stream: Readable): Promise<{ sample: Buffer; truncated: boolean }> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  try {
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk as Uint8Array));
+      length += (chunk as Uint8Array).length;
+      if (length > CONTENT_SNIFF_BYTES) break;
+    }
+  } finally {
+    stream.destroy();
+  }
+  const buffer = Buffer.concat(chunks);
+  return {
+    sample: buffer.subarray(0, CONTENT_SNIFF_BYTES),
+    truncated: buffer.length > CONTENT_SNIFF_BYTES,
+  };
+}
+
+/**
+ * Drop a UTF-8 sequence cut off by the end of a truncated sample, so the
+ * cut does not make valid UTF-8 look invalid.
+ */
+function trimPartialUtf8(sample: Buffer): Buffer {
+  for (let back = 1; back <= Math.min(3, sample.length); back++) {
+    const byte = sample[sample.length - back];
+    if ((byte & 0xc0) === 0x80) continue;
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return length > back ? sample.subarray(0, sample.length - back) : sample;
+  }
+  return sample;
+}
+
+/**
+ * Detect the MIME type and text encoding of a file from its first
+ * CONTENT_SNIFF_BYTES bytes.
+ *
+ * The MIME type comes from the foundry detector; when content alone gives
+ * nothing more specific than text/plain, a known file extension wins. The
+ * encoding is set when the sample reads as text.
+ */
+export async function detectContentType(filePath: string): Promise<ContentTypeMetadata> {
+  const { sample, truncated } = await readSample(filePath);
+  return detectSampleContentType(sample, truncated, filePath);
+}
+
+/**
+ * Same as detectContentType() for a loader stream; the stream is destroyed
+ * once the sample has been read.
+ */
+export async function detectStreamContentType(
+  stream: Readable,
+  fileName: string,
+): Promise<ContentTypeMetadata> {
+  const { sample, truncated } = await readStreamSample(stream);
+  return detectSampleContentType(sample, truncated, fileName);
+}
+
+async function detectSampleContentType(
+  sample: Buffer,
+  truncated: boolean,
+  fileName: string,
+): Promise<ContentTypeMetadata> {
+  const metadata: ContentTypeMetadata = {};
+
+  const sniffed = sample.length > 0 ? await detectMimeType(sample) : null;
+  const byExtension =
+    !sniffed || sniffed.mime === "text/plain"
+      ? await getMimeTypeByExtension(path.extname(fileName))
+      : null;
+  const mimeType = byExtension ?? sniffed;
+  if (mimeType) {
+    metadata.mimeType = mimeType.mime;
+  }
+
+  const [best] = detectEncoding(truncated ? trimPartialUtf8(sample) : sample);
+  if (best && best.confidence >= MIN_ENCODING_CONFIDENCE) {
+    metadata.encoding = best.format;
+  }
+
+  return metadata;
+}
+
+/**
+ * Check a MIME type against filter patterns: exact types (case-insensitive)
+ * or `type/*` wildcards.
+ */
+export function matchesMimeType(mimeType: string | undefined, patterns: string[]): boolean {
+  if (!mimeType) return false;
+  const mime = mimeType.toLowerCase();
+  return patterns.some((pattern) => {
+    const wanted = pattern.toLowerCase();
+    return wanted.endsWith("/*") ? mime.startsWith(wanted.slice(0, -1)) : mime === wanted;
+  });
+}
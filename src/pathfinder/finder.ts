@@ -5,31 +5,63 @@
  * pattern support, optional symlink following, and constraint enforcement.
  */
 
-import type { Stats } from "node:fs";
+import { createReadStream, type Stats } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { Readable } from "node:stream";
 
 import fg, { type Options as FastGlobOptions } from "fast-glob";
+import picomatch from "picomatch";
 
+import { getFulmenCacheDir } from "../config/paths.js";
 import { FulmenError, generateCorrelationId } from "../errors/index.js";
 import type { SeverityName } from "../errors/severity.js";
+import { getDefaultHashPool, type HashPool } from "../fulhash/index.js";
 import type { Logger } from "../logging/logger.js";
 import { metrics as defaultMetrics } from "../telemetry/index.js";
 import type { MetricsRegistry } from "../telemetry/registry.js";
-import { calculateChecksum } from "./checksum.js";
+import { PathfinderCache } from "./cache.js";
+import { type ChecksumMetadata, calculateChecksum, calculateStreamChecksum } from "./checksum.js";
 import { DEFAULT_CONFIG, DEFAULT_IGNORE_FILES } from "./constants.js";
+import {
+  type ContentTypeMetadata,
+  detectContentType,
+  detectStreamContentType,
+  matchesMimeType,
+} from "./content.js";
 import { createPathfinderError, PathfinderErrorCode } from "./errors.js";
 import { IgnoreMatcher } from "./ignore.js";
+import { normalizeLoaderPath } from "./loaders/common.js";
 import {
   type ConstraintEvaluation,
   enforcePathConstraints,
   isPathWithinRoot,
   toPosixPath,
 } from "./safety.js";
+import {
+  type ContentMatchMetadata,
+  type ContentPatternSpec,
+  type ContentSearchLimits,
+  compileContentPattern,
+  DEFAULT_CONTENT_MAX_BYTES,
+  DEFAULT_CONTENT_MAX_MATCHES,
+  type LineMatcher,
+  searchContent,
+  toContentPatternSpec,
+} from "./search.js";
+import { createSnapshot } from "./snapshot.js";
+import { DEFAULT_SUMMARY_DEPTH, DEFAULT_SUMMARY_TOP, SummaryAccumulator } from "./summary.js";
 import type {
+  LoaderEntry,
   PathfinderConfig,
   PathfinderExecuteOptions,
+  PathfinderLoader,
   PathfinderQuery,
+  PathfinderSnapshot,
+  PathfinderSummary,
+  PathfinderSummaryOptions,
+  PathfinderWatchCallbacks,
+  PathfinderWatchOptions,
   PathResult,
 } from "./types.js";
 import {
@@ -39,11 +71,20 @@ import {
   type FileMetadata,
   LoaderType,
 } from "./types.js";
+import { PathfinderWatcher } from "./watch.js";
 
 export interface PathfinderOptions {
   logger?: Logger;
   correlationId?: string;
   metrics?: MetricsRegistry;
+  /** Worker pool for checksums (default: the shared FulHash pool) */
+  hashPool?: HashPool;
+  /** Persist the cache (when `cacheEnabled`) to `<cacheDir>/pathfinder/cache.json` */
+  persistCache?: boolean;
+  /** Directory for the persisted cache (default: `getFulmenCacheDir()`) */
+  cacheDir?: string;
+  /** Discover files through this loader instead of the local filesystem */
+  loader?: PathfinderLoader;
 }
 
 /**
@@ -59,6 +100,8 @@ interface ResolvedPathfinderConfig {
   checksumEncoding: ChecksumEncoding;
   constraint?: PathfinderConfig["constraint"];
   honorIgnoreFiles: boolean;
+  excludesFile: string | boolean;
+  detectContentType: boolean;
 }
 
 /**
@@ -75,6 +118,23 @@ interface NormalizedPathfinderQuery {
   followSymlinks: boolean;
   includeHidden: boolean;
   honorIgnoreFiles: boolean;
+  calculateChecksums: boolean;
+  /** MIME type filter; empty matches everything */
+  mimeTypes: string[];
+  /** Content search, when the query has a contentPattern */
+  contentSearch?: { pattern: ContentPatternSpec } & ContentSearchLimits;
+}
+
+// Loader paths are mapped under the filesystem root so IgnoreMatcher can
+// resolve them like local paths
+const VIRTUAL_ROOT = path.resolve("/");
+
+function toVirtualPath(loaderPath: string): string {
+  return path.join(VIRTUAL_ROOT, ...loaderPath.split("/"));
+}
+
+function fromVirtualPath(virtualPath: string): string {
+  return toPosixPath(path.relative(VIRTUAL_ROOT, virtualPath));
 }
 
 /**
@@ -85,12 +145,44 @@ export class Pathfinder {
   private readonly logger?: Logger;
   private readonly correlationId: string;
   private readonly metrics: MetricsRegistry;
+  private readonly hashPool: HashPool;
+  private readonly cache?: PathfinderCache;
+  private readonly loader?: PathfinderLoader;
 
   constructor(config?: PathfinderConfig, options: PathfinderOptions = {}) {
     this.config = this.normalizeConfig(config);
     this.logger = options.logger;
     this.correlationId = options.correlationId ?? generateCorrelationId();
     this.metrics = options.metrics ?? defaultMetrics;
+    this.hashPool = options.hashPool ?? getDefaultHashPool();
+    this.loader = options.loader;
+
+    if (this.config.cacheEnabled) {
+      const cacheDir = options.cacheDir ?? getFulmenCacheDir();
+      this.cache = new PathfinderCache({
+        ttl: this.config.cacheTTL,
+        file: options.persistCache ? path.join(cacheDir, "pathfinder", "cache.json") : undefined,
+      });
+    }
+  }
+
+  /**
+   * Drop cached results and checksums affected by changes under `root`
+   * (everything when omitted). No-op unless `cacheEnabled` is set.
+   */
+  async invalidate(root?: string): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.load();
+    await this.cache.invalidate(root);
+    this.log("debug", "Pathfinder cache invalidated", { root });
+  }
+
+  /**
+   * Write the persisted cache now. Saves are otherwise debounced and flushed
+   * when the process is about to exit. No-op unless `persistCache` is set.
+   */
+  async flushCache(): Promise<void> {
+    await this.cache?.flush();
   }
 
   private log(
@@ -249,6 +341,125 @@ export class Pathfinder {
     }
   }
 
+  /**
+   * Watch a query for changes.
+   *
+   * Resolves once the baseline scan is done; from then on `callbacks` receive
+   * added, changed and removed results matching the query under the same
+   * rules as `find()`. Call `close()` on the returned watcher to stop.
+   * Changes also invalidate cached results for the root when `cacheEnabled`.
+   */
+  async watch(
+    query: PathfinderQuery,
+    callbacks: PathfinderWatchCallbacks,
+    options: PathfinderWatchOptions = {},
+  ): Promise<PathfinderWatcher> {
+    try {
+      const normalizedQuery = await this.normalizeQuery(query);
+      this.validateConstraintCompatibility(normalizedQuery);
+
+      const executeOptions: PathfinderExecuteOptions = { errorCallback: callbacks.onError };
+      const watcher = new PathfinderWatcher(
+        {
+          root: normalizedQuery.root,
+          scan: async () => {
+            const results: PathResult[] = [];
+            for await (const result of this.discover(normalizedQuery, executeOptions)) {
+              results.push(result);
+            }
+            return results;
+          },
+          invalidate: () => this.invalidate(normalizedQuery.root),
+          log: (level, message, context) => this.log(level, message, context),
+        },
+        callbacks,
+        // Loaders have no change notifications to subscribe to
+        this.loader ? { ...options, poll: true } : options,
+      );
+      await watcher.start();
+      return watcher;
+    } catch (error) {
+      throw this.wrapAndLogError(error, PathfinderErrorCode.TRAVERSAL_FAILED, "medium", {
+        operation: "watch",
+      });
+    }
+  }
+
+  /**
+   * Capture the files matching a query as a serializable snapshot.
+   *
+   * Checksums are always calculated with `checksumAlgorithm`, whether or not
+   * `calculateChecksums` is set, and cached query results are not used.
+   * Compare snapshots with `diffSnapshots()`.
+   */
+  async snapshot(
+    query: PathfinderQuery,
+    options: PathfinderExecuteOptions = {},
+  ): Promise<PathfinderSnapshot> {
+    try {
+      const normalizedQuery: NormalizedPathfinderQuery = {
+        ...(await this.normalizeQuery(query)),
+        calculateChecksums: true,
+      };
+      this.validateConstraintCompatibility(normalizedQuery);
+
+      const results: PathResult[] = [];
+      for await (const result of this.discover(normalizedQuery, options)) {
+        results.push(result);
+      }
+
+      const root = this.loader
+        ? this.loader.sourcePath(normalizedQuery.root)
+        : normalizedQuery.root;
+      return createSnapshot(root, results);
+    } catch (error) {
+      throw this.wrapAndLogError(error, PathfinderErrorCode.TRAVERSAL_FAILED, "medium", {
+        operation: "snapshot",
+      });
+    }
+  }
+
+  /**
+   * Summarize disk usage of the files matching a query.
+   *
+   * Results are folded into the summary as they are streamed from the walk
+   * and are not kept, so memory stays bounded however many files match, and
+   * cached query results are neither read nor written. Sizes are totalled per
+   * directory down to `depth`, per extension and per MIME type (sniffed with
+   * `detectContentType`, otherwise by extension).
+   */
+  async summarize(
+    query: PathfinderQuery,
+    options: PathfinderSummaryOptions = {},
+  ): Promise<PathfinderSummary> {
+    const { depth = DEFAULT_SUMMARY_DEPTH, top = DEFAULT_SUMMARY_TOP, ...executeOptions } = options;
+    for (const [name, value] of Object.entries({ depth, top })) {
+      if (!Number.isInteger(value) || value < 0) {
+        this.throwError(
+          PathfinderErrorCode.INVALID_CONFIG,
+          `Pathfinder summary ${name} must be a non-negative integer`,
+          "high",
+          { [name]: value },
+        );
+      }
+    }
+
+    try {
+      const normalizedQuery = await this.normalizeQuery(query);
+      this.validateConstraintCompatibility(normalizedQuery);
+
+      const accumulator = new SummaryAccumulator(depth, top);
+      for await (const result of this.discover(normalizedQuery, executeOptions)) {
+        await accumulator.add(result);
+      }
+      return accumulator.summary();
+    } catch (error) {
+      throw this.wrapAndLogError(error, PathfinderErrorCode.TRAVERSAL_FAILED, "medium", {
+        operation: "summarize",
+      });
+    }
+  }
+
   /**
    * Discover files lazily via async iteration.
    */
@@ -259,8 +470,75 @@ export class Pathfinder {
     const normalizedQuery = await this.normalizeQuery(query);
     this.validateConstraintCompatibility(normalizedQuery);
 
+    // Loader results are not cached: a loader has no stable identity to key them by
+    if (!this.cache || this.loader) {
+      yield* this.discover(normalizedQuery, options);
+      return;
+    }
+
+    const cache = this.cache;
+    await cache.load();
+    const key = this.cacheKey(normalizedQuery);
+    const cached = cache.getResults(key);
+    if (cached) {
+      this.log("debug", "Pathfinder cache hit", { root: normalizedQuery.root });
+      for (const result of cached) {
+        await this.dispatchResult(result, options);
+        yield result;
+      }
+      return;
+    }
+
+    // Results of a traversal that hit recoverable errors are not cached, so
+    // the errors are reported again on the next find.
+    let failed = false;
+    const errorCallback = options.errorCallback;
+    const tracked: PathfinderExecuteOptions = errorCallback
+      ? {
+          ...options,
+          errorCallback: (error, failedPath) => {
+            failed = true;
+            return errorCallback(error, failedPath);
+          },
+        }
+      : options;
+
+    const results: PathResult[] = [];
+    for await (const result of this.discover(normalizedQuery, tracked)) {
+      results.push(structuredClone(result));
+      yield result;
+    }
+
+    if (!failed) {
+      cache.setResults(key, normalizedQuery.root, results);
+    }
+  }
+
+  /**
+   * Run a normalized query against the filesystem or loader, bypassing the result cache.
+   */
+  private async *discover(
+    normalizedQuery: NormalizedPathfinderQuery,
+    options: PathfinderExecuteOptions,
+  ): AsyncIterable<PathResult> {
+    let contentMatcher: LineMatcher | undefined;
+    if (normalizedQuery.contentSearch) {
+      try {
+        contentMatcher = await compileContentPattern(normalizedQuery.contentSearch.pattern);
+      } catch (error) {
+        throw this.wrapAndLogError(error, PathfinderErrorCode.INVALID_CONFIG, "high", {
+          operation: "compileContentPattern",
+        });
+      }
+    }
+
+    if (this.loader) {
+      yield* this.discoverWithLoader(normalizedQuery, this.loader, contentMatcher, options);
+      return;
+    }
+
     const ignoreMatcher = normalizedQuery.honorIgnoreFiles
-      ? new IgnoreMatcher(normalizedQuery.root)
+      ? new IgnoreMatcher(normalizedQuery.root, { excludesFile: this.config.excludesFile })
       : undefined;
 
     const globOptions: FastGlobOptions = {
@@ -269,7 +547,9 @@ export class Pathfinder {
       dot: normalizedQuery.includeHidden,
       onlyFiles: true,
       followSymbolicLinks: normalizedQuery.followSymlinks,
-      unique: true,
+      // fast-glob dedupes by remembering every match; only overlapping
+      // patterns can produce duplicates
+      unique: normalizedQuery.include.length > 1,
       ignore: normalizedQuery.exclude,
     };
 
@@ -277,17 +557,12 @@ export class Pathfinder {
       globOptions.deep = normalizedQuery.maxDepth;
     }
 
-    let matches: string[];
-    try {
-      matches = await fg(normalizedQuery.include, globOptions);
-    } catch (error) {
-      throw this.wrapAndLogError(error, PathfinderErrorCode.TRAVERSAL_FAILED, "medium", {
-        root: normalizedQuery.root,
-        operation: "glob",
-      });
-    }
+    // Filtering by MIME type needs the content type even when not reporting it
+    const filterByMime = normalizedQuery.mimeTypes.length > 0;
+    const sniffContent = this.config.detectContentType || filterByMime;
+    const pending: Promise<PathResult | null>[] = [];
 
-    for (const candidatePath of matches) {
+    for await (const candidatePath of this.glob(normalizedQuery, globOptions)) {
       const lstat = await this.safeLstat(candidatePath, options);
       if (!lstat) continue;
 
@@ -362,7 +637,7 @@ export class Pathfinder {
       }
 
       const relativePosix = toPosixPath(relativeFromRoot);
-      if (ignoreMatcher && (await ignoreMatcher.shouldIgnore(candidatePath, relativePosix))) {
+      if (ignoreMatcher && (await ignoreMatcher.shouldIgnore(candidatePath))) {
         this.log("debug", "Excluded by ignore matcher", {
           path: candidatePath,
           relativePath: relativePosix,
@@ -412,24 +687,211 @@ export class Pathfinder {
         statsForMetadata = resolvedStats ?? lstat;
       }
 
-      const metadata = await this.buildMetadata(
-        candidatePath,
-        evaluationPath,
-        statsForMetadata,
-        lstat.isSymbolicLink(),
-      );
+      const building = (async (): Promise<PathResult | null> => {
+        let contentType: ContentTypeMetadata | undefined;
+        if (sniffContent) {
+          contentType = await this.detectContentType(evaluationPath);
+          if (filterByMime && !matchesMimeType(contentType.mimeType, normalizedQuery.mimeTypes)) {
+            this.log("debug", "Excluded by MIME type filter", {
+              path: candidatePath,
+              mimeType: contentType.mimeType,
+            });
+            return null;
+          }
+        }
 
-      const result: PathResult = {
-        relativePath: relativePosix,
-        sourcePath: candidatePath,
-        logicalPath: relativePosix,
-        loaderType: this.config.loaderType,
-        metadata,
-      };
+        let matchMetadata: ContentMatchMetadata | null | undefined;
+        if (contentMatcher && normalizedQuery.contentSearch) {
+          const { maxBytes } = normalizedQuery.contentSearch;
+          matchMetadata = await this.searchContent(
+            // One byte past the limit tells a truncated search from a complete one
+            () => createReadStream(evaluationPath, { end: maxBytes }),
+            candidatePath,
+            contentMatcher,
+            normalizedQuery.contentSearch,
+          );
+          if (!matchMetadata) return null;
+        }
 
-      await this.dispatchResult(result, options);
-      yield result;
+        const metadata = await this.buildMetadata(
+          candidatePath,
+          evaluationPath,
+          statsForMetadata,
+          lstat.isSymbolicLink(),
+          normalizedQuery.calculateChecksums,
+        );
+        Object.assign(metadata, contentType, matchMetadata);
+        return {
+          relativePath: relativePosix,
+          sourcePath: candidatePath,
+          logicalPath: relativePosix,
+          loaderType: this.config.loaderType,
+          metadata,
+        };
+      })();
+      // A failure can land before this result's turn; mark the rejection
+      // handled now, it is still surfaced when the result is awaited below.
+      building.catch(() => {});
+      pending.push(building);
+
+      // Up to maxWorkers results build (and hash) concurrently; they are still
+      // dispatched and yielded in discovery order.
+      yield* this.drain(pending, this.config.maxWorkers - 1, options);
+    }
+
+    yield* this.drain(pending, 0, options);
+  }
+
+  /**
+   * Stream glob matches as the walk finds them, so discovery never holds the
+   * full match list. Walk failures are wrapped as TRAVERSAL_FAILED; errors
+   * thrown by the consumer pass through untouched.
+   */
+  private async *glob(
+    normalizedQuery: NormalizedPathfinderQuery,
+    globOptions: FastGlobOptions,
+  ): AsyncIterable<string> {
+    try {
+      for await (const match of fg.stream(normalizedQuery.include, globOptions)) {
+        yield match as string;
+      }
+    } catch (error) {
+      throw this.wrapAndLogError(error, PathfinderErrorCode.TRAVERSAL_FAILED, "medium", {
+        root: normalizedQuery.root,
+        operation: "glob",
+      });
+    }
+  }
+
+  /**
+   * Walk a loader's entries for a normalized query, applying the same
+   * include/exclude, hidden-file, depth and ignore-file rules as local
+   * discovery. Path constraints do not apply to loader paths.
+   */
+  private async *discoverWithLoader(
+    normalizedQuery: NormalizedPathfinderQuery,
+    loader: PathfinderLoader,
+    contentMatcher: LineMatcher | undefined,
+    options: PathfinderExecuteOptions,
+  ): AsyncIterable<PathResult> {
+    const isIncluded = picomatch(normalizedQuery.include, { dot: normalizedQuery.includeHidden });
+    const isExcluded =
+      normalizedQuery.exclude.length > 0
+        ? picomatch(normalizedQuery.exclude, { dot: true })
+        : () => false;
+    const ignoreMatcher = normalizedQuery.honorIgnoreFiles
+      ? new IgnoreMatcher(toVirtualPath(normalizedQuery.root), {
+          excludesFile: this.config.excludesFile,
+          fileSystem: {
+            readFile: (filePath) => this.readLoaderText(loader, fromVirtualPath(filePath)),
+            exists: async (filePath) => (await loader.stat(fromVirtualPath(filePath))) !== null,
+          },
+        })
+      : undefined;
+
+    const filterByMime = normalizedQuery.mimeTypes.length > 0;
+    const sniffContent = this.config.detectContentType || filterByMime;
+    const pending: Promise<PathResult | null>[] = [];
+
+    for await (const entry of loader.list(normalizedQuery.root)) {
+      if (entry.type === "directory") continue;
+      if (entry.type === "symlink" && !normalizedQuery.followSymlinks) continue;
+
+      const relativePath = normalizedQuery.root
+        ? entry.path.slice(normalizedQuery.root.length + 1)
+        : entry.path;
+      if (
+        normalizedQuery.maxDepth > 0 &&
+        relativePath.split("/").length > normalizedQuery.maxDepth
+      ) {
+        continue;
+      }
+      if (!isIncluded(relativePath) || isExcluded(relativePath)) continue;
+
+      if (ignoreMatcher) {
+        if (DEFAULT_IGNORE_FILES.includes(path.posix.basename(entry.path))) continue;
+        if (await ignoreMatcher.shouldIgnore(toVirtualPath(entry.path))) {
+          this.log("debug", "Excluded by ignore matcher", { path: entry.path, relativePath });
+          continue;
+        }
+      }
+
+      const building = (async (): Promise<PathResult | null> => {
+        let contentType: ContentTypeMetadata | undefined;
+        if (sniffContent && entry.type === "file") {
+          contentType = await this.detectLoaderContentType(loader, entry.path);
+          if (filterByMime && !matchesMimeType(contentType.mimeType, normalizedQuery.mimeTypes)) {
+            return null;
+          }
+        } else if (filterByMime) {
+          return null;
+        }
+
+        let matchMetadata: ContentMatchMetadata | null | undefined;
+        if (contentMatcher && normalizedQuery.contentSearch) {
+          if (entry.type !== "file") return null;
+          matchMetadata = await this.searchContent(
+            () => loader.open(entry.path),
+            loader.sourcePath(entry.path),
+            contentMatcher,
+            normalizedQuery.contentSearch,
+          );
+          if (!matchMetadata) return null;
+        }
+
+        const metadata = await this.buildLoaderMetadata(
+          loader,
+          entry,
+          normalizedQuery.calculateChecksums,
+        );
+        Object.assign(metadata, contentType, matchMetadata);
+        return {
+          relativePath,
+          sourcePath: loader.sourcePath(entry.path),
+          logicalPath: relativePath,
+          loaderType: loader.type,
+          metadata,
+        };
+      })();
+      building.catch(() => {});
+      pending.push(building);
+
+      yield* this.drain(pending, this.config.maxWorkers - 1, options);
     }
+
+    yield* this.drain(pending, 0, options);
+  }
+
+  /**
+   * Await queued results in discovery order until at most `keep` remain,
+   * dispatching and yielding each one that was not filtered out.
+   */
+  private async *drain(
+    pending: Promise<PathResult | null>[],
+    keep: number,
+    options: PathfinderExecuteOptions,
+  ): AsyncIterable<PathResult> {
+    while (pending.length > keep) {
+      const result = await (pending.shift() as Promise<PathResult | null>);
+      if (result) {
+        await this.dispatchResult(result, options);
+        yield result;
+      }
+    }
+  }
+
+  /**
+   * Cache key covering the query and every setting that shapes its results.
+   */
+  private cacheKey(query: NormalizedPathfinderQuery): string {
+    return JSON.stringify({
+      query,
+      loaderType: this.config.loaderType,
+      checksumAlgorithm: this.config.checksumAlgorithm,
+      detectContentType: this.config.detectContentType,
+      excludesFile: this.config.excludesFile,
+      constraint: this.config.constraint ?? null,
+    });
   }
 
   /**
@@ -451,6 +913,8 @@ export class Pathfinder {
       checksumEncoding: merged.checksumEncoding ?? ChecksumEncoding.HEX,
       constraint: merged.constraint,
       honorIgnoreFiles: merged.honorIgnoreFiles ?? true,
+      excludesFile: merged.excludesFile ?? false,
+      detectContentType: merged.detectContentType ?? false,
     };
   }
 
@@ -467,7 +931,67 @@ export class Pathfinder {
       );
     }
 
-    const absoluteRoot = path.resolve(query.root);
+    const { root: absoluteRoot, realRoot } = this.loader
+      ? await this.resolveLoaderRoot(query.root, this.loader)
+      : await this.resolveLocalRoot(query.root);
+
+    const include = query.include && query.include.length > 0 ? [...query.include] : ["**/*"];
+    const exclude = query.exclude ? [...query.exclude] : [];
+    const maxDepth = query.maxDepth ?? 0;
+
+    if (maxDepth < 0) {
+      this.throwError(
+        PathfinderErrorCode.INVALID_CONFIG,
+        "Pathfinder maxDepth must be >= 0",
+        "high",
+        { maxDepth },
+      );
+    }
+
+    return {
+      root: absoluteRoot,
+      realRoot,
+      include,
+      exclude,
+      maxDepth,
+      followSymlinks: query.followSymlinks ?? false,
+      includeHidden: query.includeHidden ?? false,
+      honorIgnoreFiles: query.honorIgnoreFiles ?? this.config.honorIgnoreFiles,
+      calculateChecksums: this.config.calculateChecksums,
+      mimeTypes: query.mimeTypes ? [...query.mimeTypes] : [],
+      contentSearch: this.normalizeContentSearch(query),
+    };
+  }
+
+  /**
+   * Validate a query's content search settings and apply their defaults.
+   */
+  private normalizeContentSearch(
+    query: PathfinderQuery,
+  ): NormalizedPathfinderQuery["contentSearch"] {
+    if (query.contentPattern === undefined) {
+      return undefined;
+    }
+
+    const maxBytes = query.contentMaxBytes ?? DEFAULT_CONTENT_MAX_BYTES;
+    const maxMatches = query.contentMaxMatches ?? DEFAULT_CONTENT_MAX_MATCHES;
+    if (!(maxBytes > 0) || !(maxMatches > 0)) {
+      this.throwError(
+        PathfinderErrorCode.INVALID_CONFIG,
+        "Pathfinder contentMaxBytes and contentMaxMatches must be > 0",
+        "high",
+        { contentMaxBytes: maxBytes, contentMaxMatches: maxMatches },
+      );
+    }
+
+    return { pattern: toContentPatternSpec(query.contentPattern), maxBytes, maxMatches };
+  }
+
+  /**
+   * Resolve a local root directory to its absolute and real paths.
+   */
+  private async resolveLocalRoot(root: string): Promise<{ root: string; realRoot: string }> {
+    const absoluteRoot = path.resolve(root);
 
     let stats: Stats;
     try {
@@ -498,29 +1022,46 @@ export class Pathfinder {
       });
     }
 
-    const include = query.include && query.include.length > 0 ? [...query.include] : ["**/*"];
-    const exclude = query.exclude ? [...query.exclude] : [];
-    const maxDepth = query.maxDepth ?? 0;
+    return { root: absoluteRoot, realRoot };
+  }
 
-    if (maxDepth < 0) {
+  /**
+   * Normalize a root within the loader and check that it is a directory.
+   */
+  private async resolveLoaderRoot(
+    root: string,
+    loader: PathfinderLoader,
+  ): Promise<{ root: string; realRoot: string }> {
+    const loaderRoot = normalizeLoaderPath(root);
+    if (loaderRoot === null) {
       this.throwError(
-        PathfinderErrorCode.INVALID_CONFIG,
-        "Pathfinder maxDepth must be >= 0",
+        PathfinderErrorCode.INVALID_ROOT,
+        `Pathfinder root escapes the loader: ${root}`,
         "high",
-        { maxDepth },
+        { root },
       );
     }
 
-    return {
-      root: absoluteRoot,
-      realRoot,
-      include,
-      exclude,
-      maxDepth,
-      followSymlinks: query.followSymlinks ?? false,
-      includeHidden: query.includeHidden ?? false,
-      honorIgnoreFiles: query.honorIgnoreFiles ?? this.config.honorIgnoreFiles,
-    };
+    let entry: LoaderEntry | null;
+    try {
+      entry = await loader.stat(loaderRoot);
+    } catch (error) {
+      throw this.wrapAndLogError(error, PathfinderErrorCode.INVALID_ROOT, "high", {
+        root: loader.sourcePath(loaderRoot),
+        operation: "stat",
+      });
+    }
+
+    if (entry?.type !== "directory") {
+      this.throwError(
+        PathfinderErrorCode.INVALID_ROOT,
+        `Pathfinder root must be a directory: ${loader.sourcePath(loaderRoot)}`,
+        "high",
+        { root: loader.sourcePath(loaderRoot) },
+      );
+    }
+
+    return { root: loaderRoot, realRoot: loaderRoot };
   }
 
   /**
@@ -528,7 +1069,8 @@ export class Pathfinder {
    */
   private validateConstraintCompatibility(query: NormalizedPathfinderQuery): void {
     const constraint = this.config.constraint;
-    if (!constraint) {
+    // Constraints bound filesystem paths; loader paths are virtual
+    if (!constraint || this.loader) {
       return;
     }
 
@@ -570,11 +1112,133 @@ export class Pathfinder {
     }
   }
 
+  private async detectLoaderContentType(
+    loader: PathfinderLoader,
+    entryPath: string,
+  ): Promise<ContentTypeMetadata> {
+    try {
+      return await detectStreamContentType(await loader.open(entryPath), entryPath);
+    } catch (error) {
+      this.log("warn", "Content type detection failed", {
+        path: loader.sourcePath(entryPath),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
+  private async buildLoaderMetadata(
+    loader: PathfinderLoader,
+    entry: LoaderEntry,
+    calculateChecksums: boolean,
+  ): Promise<FileMetadata> {
+    const metadata: FileMetadata = {};
+    if (entry.size !== undefined) {
+      metadata.size = entry.size;
+    }
+    if (entry.modified && Number.isFinite(entry.modified.valueOf())) {
+      metadata.modified = entry.modified.toISOString();
+    }
+    if (entry.mode !== undefined) {
+      metadata.permissions = this.formatPermissions(entry.mode);
+    }
+    if (entry.type === "symlink") {
+      metadata.isSymlink = true;
+      metadata.symlinkTarget = entry.symlinkTarget;
+      return metadata;
+    }
+
+    if (calculateChecksums) {
+      const algorithm = this.config.checksumAlgorithm ?? ChecksumAlgorithm.XXH3_128;
+      let checksumMetadata: ChecksumMetadata;
+      try {
+        checksumMetadata = await calculateStreamChecksum(await loader.open(entry.path), algorithm);
+      } catch (error) {
+        checksumMetadata = {
+          checksumAlgorithm: algorithm,
+          checksumError: error instanceof Error ? error.message : String(error),
+        };
+      }
+      if (checksumMetadata.checksumError) {
+        this.log("warn", "Checksum calculation failed", {
+          path: loader.sourcePath(entry.path),
+          algorithm,
+          error: checksumMetadata.checksumError,
+        });
+      }
+      Object.assign(metadata, checksumMetadata);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Read a text file through a loader; undefined when it does not exist.
+   */
+  private async readLoaderText(
+    loader: PathfinderLoader,
+    entryPath: string,
+  ): Promise<string | undefined> {
+    const entry = await loader.stat(entryPath);
+    if (entry?.type !== "file") return undefined;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await loader.open(entryPath)) {
+      chunks.push(Buffer.from(chunk as Uint8Array));
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  }
+
+  /**
+   * Search a file for a query's content pattern. Returns the match metadata,
+   * or null when the file is binary, unreadable or has no matching line.
+   */
+  private async searchContent(
+    open: () => Readable | Promise<Readable>,
+    displayPath: string,
+    matcher: LineMatcher,
+    limits: ContentSearchLimits,
+  ): Promise<ContentMatchMetadata | null> {
+    try {
+      const result = await searchContent(await open(), matcher, limits);
+      if (!result.searched) {
+        this.log("debug", "Skipped binary file in content search", { path: displayPath });
+        return null;
+      }
+      if (result.matches.length === 0) {
+        return null;
+      }
+      return { contentMatches: result.matches, contentTruncated: result.truncated };
+    } catch (error) {
+      this.log("warn", "Content search failed", {
+        path: displayPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Sniff a file's MIME type and encoding; a failed read leaves both unset.
+   */
+  private async detectContentType(resolvedPath: string): Promise<ContentTypeMetadata> {
+    try {
+      return await detectContentType(resolvedPath);
+    } catch (error) {
+      this.log("warn", "Content type detection failed", {
+        path: resolvedPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
   private async buildMetadata(
     originalPath: string,
     resolvedPath: string,
     stats: Stats,
     isSymlink: boolean,
+    calculateChecksums: boolean,
   ): Promise<FileMetadata> {
     const metadata: FileMetadata = {};
 
@@ -597,9 +1261,15 @@ export class Pathfinder {
       }
     }
 
-    if (this.config.calculateChecksums) {
+    if (calculateChecksums) {
       const algorithm = this.config.checksumAlgorithm ?? ChecksumAlgorithm.XXH3_128;
-      const checksumMetadata = await calculateChecksum(resolvedPath, algorithm);
+      const cached = this.cache?.getChecksum(resolvedPath, stats.size, stats.mtimeMs, algorithm);
+      if (cached) {
+        Object.assign(metadata, cached);
+        return metadata;
+      }
+
+      const checksumMetadata = await calculateChecksum(resolvedPath, algorithm, this.hashPool);
 
       if (checksumMetadata.checksumError) {
         this.log("warn", "Checksum calculation failed", {
@@ -608,6 +1278,11 @@ export class Pathfinder {
           algorithm,
           error: checksumMetadata.checksumError,
         });
+      } else if (this.cache && checksumMetadata.checksum) {
+        this.cache.setChecksum(resolvedPath, stats.size, stats.mtimeMs, algorithm, {
+          checksum: checksumMetadata.checksum,
+          checksumAlgorithm: checksumMetadata.checksumAlgorithm,
+        });
       }
 
       Object.assign(metadata, checksumMetadata);
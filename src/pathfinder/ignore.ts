@@ -1,229 +1,596 @@
 import { promises as fs } from "node:fs";
+import os from "node:os";
 import path from "node:path";
 
-import picomatch from "picomatch";
-
 import { DEFAULT_IGNORE_FILES } from "./constants.js";
 import { toPosixPath } from "./safety.js";
 
-interface CompiledRule {
-  raw: string;
-  negate: boolean;
-  directory: boolean;
-  pattern: string;
-  matcher: picomatch.Matcher;
+/**
+ * File access used by IgnoreMatcher, so rules can be read through a loader.
+ */
+export interface IgnoreFileSystem {
+  /** Read a text file, resolving undefined when it does not exist */
+  readFile(filePath: string): Promise<string | undefined>;
+
+  /** Whether a file or directory exists */
+  exists(filePath: string): Promise<boolean>;
 }
 
 /**
- * `.fulmenignore` support with directory-level caching.
- *
- * Inspired by gitignore semantics: the last matching rule wins and patterns
- * prefixed with `!` re-include paths. Patterns ending with a slash apply to a
- * directory and all descendants.
+ * IgnoreMatcher options
  */
-export class IgnoreMatcher {
-  private readonly root: string;
-  private readonly ignoreFileNames: string[];
-  private readonly ruleCache = new Map<string, CompiledRule[]>();
-  private readonly aggregateCache = new Map<string, CompiledRule[]>();
+export interface IgnoreMatcherOptions {
+  /**
+   * Ignore files read in each directory (default: DEFAULT_IGNORE_FILES).
+   * Rules from earlier names take precedence over later ones.
+   */
+  ignoreFileNames?: string[];
 
-  constructor(root: string, ignoreFileNames: string[] = DEFAULT_IGNORE_FILES) {
-    this.root = path.resolve(root);
-    this.ignoreFileNames = ignoreFileNames;
-  }
+  /** Honor `info/exclude` in the git directory of each repository (default: true) */
+  gitInfoExclude?: boolean;
 
   /**
-   * Determine whether the relative path should be ignored.
-   *
-   * @param absolutePath - Absolute filesystem path
-   * @param relativePath - Path relative to the finder root (POSIX)
+   * Lowest-precedence excludes file, like git's `core.excludesFile`. `true`
+   * resolves it from git config, falling back to `$XDG_CONFIG_HOME/git/ignore`
+   * (default: none).
    */
-  async shouldIgnore(absolutePath: string, relativePath: string): Promise<boolean> {
-    const directory = path.dirname(path.resolve(absolutePath));
-    const rules = await this.loadAggregateRules(directory);
+  excludesFile?: string | boolean;
 
-    if (rules.length === 0) {
-      return false;
+  /** Match case-insensitively, like git with `core.ignoreCase` (default: false) */
+  ignoreCase?: boolean;
+
+  /** File access (default: the local disk) */
+  fileSystem?: IgnoreFileSystem;
+}
+
+/**
+ * The rule that decided whether a path is ignored
+ */
+export interface IgnoreExplanation {
+  /** Whether the path is ignored (false when a `!` rule re-included it) */
+  ignored: boolean;
+
+  /** Path the rule matched, relative to the root: the path itself or an ignored parent directory */
+  matchedPath: string;
+
+  /** File the rule came from */
+  source: string;
+
+  /** Line of the rule in `source` (1-based) */
+  line: number;
+
+  /** The rule as written, without trailing spaces */
+  pattern: string;
+}
+
+interface CompiledRule {
+  source: string;
+  line: number;
+  pattern: string;
+  negate: boolean;
+  directoryOnly: boolean;
+  /** Patterns without a slash match the last path segment at any depth */
+  matchBasename: boolean;
+  /** Directory (relative to the root) the pattern is relative to */
+  base: string;
+  /** Null for patterns that can never match, such as an unterminated `[` */
+  regex: RegExp | null;
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  cntrl: "\\x00-\\x1f\\x7f",
+  digit: "0-9",
+  graph: "\\x21-\\x7e",
+  lower: "a-z",
+  print: "\\x20-\\x7e",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: " \\t\\n\\r\\f\\v",
+  upper: "A-Z",
+  xdigit: "0-9A-Fa-f",
+};
+
+const escapeRegExp = (char: string) => char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+const escapeClassChar = (char: string) => char.replace(/[\\\]^[-]/g, "\\$&");
+
+/**
+ * Translate a bracket expression starting at `start` (the `[`). Returns the
+ * regex source and the index after the closing `]`, or null when the
+ * expression is unterminated or names an unknown character class.
+ */
+function translateBracket(pattern: string, start: number): { source: string; end: number } | null {
+  let index = start + 1;
+  let negate = false;
+  if (pattern[index] === "!" || pattern[index] === "^") {
+    negate = true;
+    index++;
+  }
+
+  let members = "";
+  // A "]" right after the opening bracket is a literal
+  for (let first = true; index < pattern.length; first = false) {
+    let char = pattern[index];
+    if (char === "]" && !first) {
+      // Brackets never match "/" in pathname mode
+      const source = negate ? `(?![${members}])[^/]` : `(?!/)[${members}]`;
+      return { source, end: index + 1 };
     }
 
-    const posixPath = toPosixPath(relativePath);
-    let ignored = false;
+    if (char === "[" && pattern[index + 1] === ":") {
+      const close = pattern.indexOf(":]", index + 2);
+      if (close < 0) return null;
+      const classMembers = POSIX_CLASSES[pattern.slice(index + 2, close)];
+      if (classMembers === undefined) return null;
+      members += classMembers;
+      index = close + 2;
+      continue;
+    }
 
-    for (const rule of rules) {
-      if (!this.matchesRule(rule, posixPath)) {
-        continue;
+    if (char === "\\") {
+      index++;
+      char = pattern[index];
+      if (char === undefined) return null;
+    }
+    index++;
+
+    if (pattern[index] === "-" && pattern[index + 1] !== undefined && pattern[index + 1] !== "]") {
+      let rangeEnd = pattern[index + 1];
+      index += 2;
+      if (rangeEnd === "\\") {
+        rangeEnd = pattern[index];
+        if (rangeEnd === undefined) return null;
+        index++;
       }
-
-      ignored = !rule.negate;
+      // A reversed range matches nothing
+      if (char <= rangeEnd) {
+        members += `${escapeClassChar(char)}-${escapeClassChar(rangeEnd)}`;
+      }
+      continue;
     }
 
-    return ignored;
+    members += escapeClassChar(char);
   }
 
-  private matchesRule(rule: CompiledRule, posixPath: string): boolean {
-    if (rule.directory) {
-      return posixPath === rule.pattern || posixPath.startsWith(`${rule.pattern}/`);
+  return null;
+}
+
+/**
+ * Compile a wildmatch pattern (git's glob dialect, in pathname mode) to a
+ * regular expression; null when the pattern can never match.
+ *
+ * `*` and `?` do not match `/`, `**` spanning whole segments matches any
+ * number of directories, brackets support ranges, negation and POSIX classes,
+ * and a backslash escapes the next character.
+ */
+export function compileWildmatch(pattern: string, ignoreCase = false): RegExp | null {
+  let source = "";
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    if (char === "*") {
+      let end = index;
+      while (pattern[end] === "*") end++;
+      const wholeSegment =
+        end - index >= 2 &&
+        (index === 0 || pattern[index - 1] === "/") &&
+        (end === pattern.length || pattern[end] === "/");
+      if (wholeSegment && end === pattern.length) {
+        source += ".*";
+        index = end;
+      } else if (wholeSegment) {
+        // "**/" matches zero or more directories
+        source += "(?:.*/)?";
+        index = end + 1;
+      } else {
+        source += "[^/]*";
+        index = end;
+      }
+      continue;
     }
 
-    if (rule.matcher(posixPath)) {
-      return true;
+    if (char === "?") {
+      source += "[^/]";
+      index++;
+      continue;
     }
 
-    if (!rule.pattern.includes("/")) {
-      const basename = posixPath.split("/").pop() ?? posixPath;
-      return rule.matcher(basename);
+    if (char === "[") {
+      const bracket = translateBracket(pattern, index);
+      if (!bracket) return null;
+      source += bracket.source;
+      index = bracket.end;
+      continue;
     }
 
-    return false;
+    if (char === "\\") {
+      // A trailing backslash escapes nothing and never matches
+      if (index + 1 === pattern.length) return null;
+      source += escapeRegExp(pattern[index + 1]);
+      index += 2;
+      continue;
+    }
+
+    source += escapeRegExp(char);
+    index++;
   }
 
-  private async loadAggregateRules(directory: string): Promise<CompiledRule[]> {
-    const normalizedDirectory = this.normalizeDirectory(directory);
+  return new RegExp(`^${source}$`, ignoreCase ? "is" : "s");
+}
+
+/**
+ * Test a path against a wildmatch pattern (see compileWildmatch).
+ */
+export function wildmatch(pattern: string, text: string, ignoreCase = false): boolean {
+  return compileWildmatch(pattern, ignoreCase)?.test(text) ?? false;
+}
 
-    const cachedAggregate = this.aggregateCache.get(normalizedDirectory);
-    if (cachedAggregate) {
-      return cachedAggregate;
+/**
+ * Remove unescaped trailing spaces, as git does for ignore file lines.
+ */
+function trimTrailingSpaces(line: string): string {
+  let lastSpace = -1;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === " ") {
+      if (lastSpace < 0) lastSpace = index;
+      continue;
     }
-
-    if (!this.isWithinRoot(normalizedDirectory)) {
-      this.aggregateCache.set(normalizedDirectory, []);
-      return [];
+    if (char === "\\") {
+      index++;
+      if (index === line.length) return line;
     }
+    lastSpace = -1;
+  }
+  return lastSpace < 0 ? line : line.slice(0, lastSpace);
+}
 
-    const parentDirectory = path.dirname(normalizedDirectory);
-    const parentRules =
-      normalizedDirectory === this.root ? [] : await this.loadAggregateRules(parentDirectory);
-    const localRules = await this.loadRulesForDirectory(normalizedDirectory);
+/**
+ * Parse ignore file content into rules relative to `base`.
+ */
+function parseRules(
+  content: string,
+  source: string,
+  base: string,
+  ignoreCase: boolean,
+): CompiledRule[] {
+  const rules: CompiledRule[] = [];
+  const lines = content.replace(/^\uFEFF/, "").split("\n");
+
+  lines.forEach((rawLine, lineIndex) => {
+    if (rawLine.startsWith("#")) return;
+    const pattern = trimTrailingSpaces(rawLine.replace(/\r$/, ""));
+    if (!pattern) return;
+
+    let body = pattern;
+    const negate = body.startsWith("!");
+    if (negate) body = body.slice(1);
+
+    const directoryOnly = body.endsWith("/");
+    if (directoryOnly) body = body.slice(0, -1);
+
+    const matchBasename = !body.includes("/");
+    if (body.startsWith("/")) body = body.slice(1);
+    if (!body) return;
+
+    rules.push({
+      source,
+      line: lineIndex + 1,
+      pattern,
+      negate,
+      directoryOnly,
+      matchBasename,
+      base,
+      regex: compileWildmatch(body, ignoreCase),
+    });
+  });
+
+  return rules;
+}
 
-    const combined = parentRules.length > 0 ? [...parentRules, ...localRules] : localRules;
+function ruleMatches(rule: CompiledRule, relativePath: string, isDirectory: boolean): boolean {
+  if (!rule.regex || (rule.directoryOnly && !isDirectory)) {
+    return false;
+  }
 
-    this.aggregateCache.set(normalizedDirectory, combined);
-    return combined;
+  let candidate = relativePath;
+  if (rule.base) {
+    if (!relativePath.startsWith(`${rule.base}/`)) return false;
+    candidate = relativePath.slice(rule.base.length + 1);
   }
+  if (rule.matchBasename) {
+    candidate = candidate.slice(candidate.lastIndexOf("/") + 1);
+  }
+
+  return rule.regex.test(candidate);
+}
+
+const parentOf = (relativePath: string) =>
+  relativePath.slice(0, Math.max(0, relativePath.lastIndexOf("/")));
 
-  private async loadRulesForDirectory(directory: string): Promise<CompiledRule[]> {
-    const cachedRules = this.ruleCache.get(directory);
-    if (cachedRules) {
-      return cachedRules;
+/**
+ * Ignore file matching with gitignore semantics (see gitignore(5)).
+ *
+ * Rules are read from the root downwards: each directory's ignore files apply
+ * beneath it and override those of its parents, and the last matching rule
+ * wins. Patterns containing a slash are anchored to their file's directory,
+ * others match a name at any depth; `!` re-includes a path unless a parent
+ * directory is ignored. A directory holding `.git` is a nested repository:
+ * rules from outside stop there and its own `info/exclude` applies.
+ */
+export class IgnoreMatcher {
+  private readonly root: string;
+  private readonly ignoreFileNames: string[];
+  private readonly gitInfoExclude: boolean;
+  private readonly excludesFile: string | boolean;
+  private readonly ignoreCase: boolean;
+  private readonly fileSystem: IgnoreFileSystem;
+  private readonly ruleCache = new Map<string, CompiledRule[]>();
+  private readonly directoryCache = new Map<string, IgnoreExplanation | null>();
+  private excludesContent?: { source: string; content: string } | null;
+
+  constructor(root: string, options: IgnoreMatcherOptions = {}) {
+    this.root = path.resolve(root);
+    this.ignoreFileNames = options.ignoreFileNames ?? DEFAULT_IGNORE_FILES;
+    this.gitInfoExclude = options.gitInfoExclude ?? true;
+    this.excludesFile = options.excludesFile ?? false;
+    this.ignoreCase = options.ignoreCase ?? false;
+    this.fileSystem = options.fileSystem ?? diskFileSystem;
+  }
+
+  /**
+   * Determine whether a path should be ignored.
+   *
+   * @param absolutePath - Absolute path beneath the root
+   * @param isDirectory - Whether the path is a directory (for `dir/` rules)
+   */
+  async shouldIgnore(absolutePath: string, isDirectory = false): Promise<boolean> {
+    return (await this.explain(absolutePath, isDirectory))?.ignored ?? false;
+  }
+
+  /**
+   * Find the rule that decides whether a path is ignored, like
+   * `git check-ignore --verbose`. Returns null when no rule matches.
+   *
+   * @param absolutePath - Absolute path beneath the root
+   * @param isDirectory - Whether the path is a directory (for `dir/` rules)
+   */
+  async explain(absolutePath: string, isDirectory = false): Promise<IgnoreExplanation | null> {
+    const relative = path.relative(this.root, path.resolve(absolutePath));
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      return null;
     }
 
-    const rules: CompiledRule[] = [];
-    const relativePrefix = toRelativePrefix(directory, this.root);
-
-    for (const fileName of this.ignoreFileNames) {
-      const filePath = path.join(directory, fileName);
-
-      let content: string | undefined;
-      try {
-        content = await fs.readFile(filePath, "utf-8");
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-          continue;
-        }
-        throw error;
+    const relativePath = toPosixPath(relative);
+    const segments = relativePath.split("/");
+
+    // Nothing inside an ignored directory can be re-included
+    for (let depth = 1; depth < segments.length; depth++) {
+      const directory = segments.slice(0, depth).join("/");
+      let verdict = this.directoryCache.get(directory);
+      if (verdict === undefined) {
+        verdict = await this.match(directory, true);
+        this.directoryCache.set(directory, verdict);
       }
+      if (verdict?.ignored) {
+        return verdict;
+      }
+    }
 
-      const fileRules = this.parseRules(content, relativePrefix);
-      rules.push(...fileRules);
+    return this.match(relativePath, isDirectory);
+  }
+
+  private async match(
+    relativePath: string,
+    isDirectory: boolean,
+  ): Promise<IgnoreExplanation | null> {
+    const rules = await this.loadRules(parentOf(relativePath));
+
+    for (let index = rules.length - 1; index >= 0; index--) {
+      const rule = rules[index];
+      if (ruleMatches(rule, relativePath, isDirectory)) {
+        return {
+          ignored: !rule.negate,
+          matchedPath: relativePath,
+          source: rule.source,
+          line: rule.line,
+          pattern: rule.pattern,
+        };
+      }
     }
 
-    this.ruleCache.set(directory, rules);
-    return rules;
+    return null;
   }
 
-  private parseRules(content: string, relativePrefix: string): CompiledRule[] {
-    const compiled: CompiledRule[] = [];
+  /**
+   * Rules for the entries of a directory, lowest precedence first.
+   */
+  private async loadRules(directory: string): Promise<CompiledRule[]> {
+    const cached = this.ruleCache.get(directory);
+    if (cached) {
+      return cached;
+    }
 
-    for (const rawLine of content.split(/\r?\n/)) {
-      const trimmed = rawLine.trim();
+    const absoluteDirectory = path.join(this.root, directory);
+    const gitDirectory = await this.findGitDirectory(absoluteDirectory);
 
-      if (!trimmed || trimmed.startsWith("#")) {
-        continue;
+    let rules: CompiledRule[];
+    if (directory === "" || gitDirectory) {
+      rules = await this.loadRepositoryRules(directory, gitDirectory);
+    } else {
+      rules = [...(await this.loadRules(parentOf(directory)))];
+    }
+
+    // Reversed so rules from earlier file names come later and win
+    for (const fileName of [...this.ignoreFileNames].reverse()) {
+      const filePath = path.join(absoluteDirectory, fileName);
+      const content = await this.fileSystem.readFile(filePath);
+      if (content !== undefined) {
+        rules.push(...parseRules(content, filePath, directory, this.ignoreCase));
       }
+    }
+
+    this.ruleCache.set(directory, rules);
+    return rules;
+  }
 
-      let negate = false;
-      let pattern = trimmed;
+  /**
+   * Rules that apply throughout a repository (or the root): the excludes
+   * file, then `info/exclude`.
+   */
+  private async loadRepositoryRules(
+    directory: string,
+    gitDirectory: string | undefined,
+  ): Promise<CompiledRule[]> {
+    const rules: CompiledRule[] = [];
 
-      if (pattern.startsWith("!")) {
-        negate = true;
-        pattern = pattern.slice(1).trim();
-        if (!pattern) continue;
-      }
+    const excludes = await this.loadExcludesFile();
+    if (excludes) {
+      rules.push(...parseRules(excludes.content, excludes.source, directory, this.ignoreCase));
+    }
 
-      let directory = false;
-      if (pattern.endsWith("/")) {
-        directory = true;
-        pattern = pattern.slice(0, -1);
+    if (gitDirectory && this.gitInfoExclude) {
+      const filePath = path.join(gitDirectory, "info", "exclude");
+      const content = await this.fileSystem.readFile(filePath);
+      if (content !== undefined) {
+        rules.push(...parseRules(content, filePath, directory, this.ignoreCase));
       }
+    }
 
-      const normalizedPatternFromFile = pattern.replace(/\\/g, "/");
-      const resolvedPattern = resolvePattern(normalizedPatternFromFile, relativePrefix);
+    return rules;
+  }
 
-      const normalizedPattern = resolvedPattern.pattern;
-      directory = directory || resolvedPattern.directory;
-      const matcher = picomatch(normalizedPattern, {
-        dot: true,
-        matchBase: !normalizedPattern.includes("/"),
-      });
+  /**
+   * Locate the git directory of a repository rooted at `directory`: `.git`
+   * itself, or the target of a `.git` file (worktrees and submodules).
+   * Worktrees share `info/exclude` through their common directory.
+   */
+  private async findGitDirectory(directory: string): Promise<string | undefined> {
+    const dotGit = path.join(directory, ".git");
+    if (!(await this.fileSystem.exists(dotGit))) {
+      return undefined;
+    }
 
-      compiled.push({
-        raw: rawLine,
-        negate,
-        directory,
-        pattern: normalizedPattern,
-        matcher,
-      });
+    const gitFile = await this.fileSystem.readFile(dotGit);
+    const target = gitFile && /^gitdir:\s*(.+?)\s*$/m.exec(gitFile)?.[1];
+    if (!target) {
+      return dotGit;
     }
 
-    return compiled;
+    const gitDirectory = path.resolve(directory, target);
+    const commonDirectory = await this.fileSystem.readFile(path.join(gitDirectory, "commondir"));
+    return commonDirectory ? path.resolve(gitDirectory, commonDirectory.trim()) : gitDirectory;
   }
 
-  private normalizeDirectory(directory: string): string {
-    return path.resolve(directory);
-  }
+  private async loadExcludesFile(): Promise<{ source: string; content: string } | null> {
+    if (this.excludesContent !== undefined) {
+      return this.excludesContent;
+    }
 
-  private isWithinRoot(directory: string): boolean {
-    return isSubPath(directory, this.root);
-  }
-}
+    this.excludesContent = null;
+    const source =
+      this.excludesFile === true
+        ? await resolveGitExcludesFile(this.root, this.fileSystem)
+        : this.excludesFile || undefined;
+    if (source) {
+      // The excludes file lives on the local disk, even when matching a loader
+      const filePath = path.resolve(this.root, source);
+      const content = await diskFileSystem.readFile(filePath);
+      if (content !== undefined) {
+        this.excludesContent = { source: filePath, content };
+      }
+    }
 
-function isSubPath(candidate: string, root: string): boolean {
-  const relative = path.relative(root, candidate);
-  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+    return this.excludesContent;
+  }
 }
 
-function toRelativePrefix(directory: string, root: string): string {
-  const relative = path.relative(root, directory);
-  if (!relative || relative === ".") {
-    return "";
-  }
+const diskFileSystem: IgnoreFileSystem = {
+  async readFile(filePath) {
+    try {
+      return await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === "ENOENT" || code === "ENOTDIR" || code === "EISDIR") {
+        return undefined;
+      }
+      throw error;
+    }
+  },
+  async exists(filePath) {
+    try {
+      await fs.lstat(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
 
-  return toPosixPath(relative);
+function expandHome(value: string): string {
+  return value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value;
 }
 
-function resolvePattern(
-  pattern: string,
-  relativePrefix: string,
-): {
-  pattern: string;
-  directory: boolean;
-} {
-  let directory = false;
-  let normalized = pattern;
+/**
+ * Read `core.excludesFile` from git config text; undefined when unset.
+ */
+export function parseGitConfigExcludesFile(config: string): string | undefined {
+  let section = "";
+  let value: string | undefined;
+
+  for (const rawLine of config.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = /^\[\s*([^\]\s"]+)\s*(?:"[^"]*")?\s*\]/.exec(line);
+    if (header) {
+      // Subsections such as [core "x"] are not the core section
+      section = /"/.test(line) ? "" : header[1].toLowerCase();
+      continue;
+    }
 
-  if (pattern.startsWith("/")) {
-    normalized = pattern.slice(1);
-  } else if (relativePrefix) {
-    normalized = `${relativePrefix}/${pattern}`;
+    const entry = /^excludesfile\s*=\s*(.*)$/i.exec(line);
+    if (section !== "core" || !entry) continue;
+
+    let parsed = "";
+    let quoted = false;
+    for (let index = 0; index < entry[1].length; index++) {
+      const char = entry[1][index];
+      if (char === "\\" && index + 1 < entry[1].length) {
+        const next = entry[1][++index];
+        parsed += next === "t" ? "\t" : next === "n" ? "\n" : next;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if ((char === "#" || char === ";") && !quoted) {
+        break;
+      } else {
+        parsed += char;
+      }
+    }
+    value = parsed.trim();
   }
 
-  if (normalized.endsWith("/")) {
-    directory = true;
-    normalized = normalized.slice(0, -1);
+  return value;
+}
+
+/**
+ * Resolve git's `core.excludesFile` for a repository: the repository config
+ * overrides `~/.gitconfig`, which overrides `$XDG_CONFIG_HOME/git/config`.
+ * Defaults to `$XDG_CONFIG_HOME/git/ignore`.
+ */
+async function resolveGitExcludesFile(root: string, fileSystem: IgnoreFileSystem): Promise<string> {
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  const configs = [
+    await diskFileSystem.readFile(path.join(xdgConfigHome, "git", "config")),
+    await diskFileSystem.readFile(path.join(os.homedir(), ".gitconfig")),
+    await fileSystem.readFile(path.join(root, ".git", "config")),
+  ];
+
+  let excludesFile: string | undefined;
+  for (const config of configs) {
+    excludesFile = (config && parseGitConfigExcludesFile(config)) || excludesFile;
   }
 
-  return {
-    pattern: normalized.replace(/\\/g, "/"),
-    directory,
-  };
+  return expandHome(excludesFile ?? path.join(xdgConfigHome, "git", "ignore"));
 }
@@ -56,19 +56,63 @@ export {
 export type { PathfinderOptions } from "./finder.js";
 // Core exports
 export { Pathfinder } from "./finder.js";
+// Ignore rules
+export {
+  type IgnoreExplanation,
+  type IgnoreFileSystem,
+  IgnoreMatcher,
+  type IgnoreMatcherOptions,
+} from "./ignore.js";
+// Loaders
+export {
+  ArchiveLoader,
+  type ArchiveLoaderOptions,
+  type MemoryFile,
+  MemoryLoader,
+  type S3Credentials,
+  S3Loader,
+  type S3LoaderOptions,
+} from "./loaders/index.js";
 // Repository root discovery
 export { findRepositoryRoot } from "./repoRoot.js";
+// Snapshots
+export {
+  diffSnapshots,
+  parseSnapshot,
+  SNAPSHOT_SCHEMA_ID,
+  SNAPSHOT_VERSION,
+  serializeSnapshot,
+  validateSnapshot,
+} from "./snapshot.js";
+// Disk usage summaries
+export { DEFAULT_SUMMARY_DEPTH, DEFAULT_SUMMARY_TOP } from "./summary.js";
 // Types
 export type {
+  ContentMatch,
+  ContentPattern,
   ErrorCallback,
   FileMetadata,
   FindRepoOptions,
+  LoaderEntry,
   PathfinderConfig,
   PathfinderExecuteOptions,
+  PathfinderLoader,
   PathfinderQuery,
+  PathfinderSnapshot,
+  PathfinderSummary,
+  PathfinderSummaryOptions,
+  PathfinderWatchCallbacks,
+  PathfinderWatchEventType,
+  PathfinderWatchMode,
+  PathfinderWatchOptions,
   PathResult,
   ProgressCallback,
   ResultCallback,
+  SnapshotChange,
+  SnapshotDiff,
+  SnapshotEntry,
+  SnapshotMetadata,
+  SummaryBucket,
 } from "./types.js";
 export {
   ChecksumAlgorithm,
@@ -91,3 +135,4 @@ export {
   validateConfig,
   validatePathResult,
 } from "./validators.js";
+export type { PathfinderWatcher } from "./watch.js";
@@ -0,0 +1,34 @@
+import path from "node:path";
+
+import type { LoaderEntry } from "../types.js";
+
+/**
+ * Normalize a loader path: POSIX separators, no leading "./" or "/", no
+ * trailing slash. Returns null for paths that climb above the top level.
+ */
+export function normalizeLoaderPath(entryPath: string): string | null {
+  const normalized = path.posix.normalize(`/${entryPath.replace(/\\/g, "/")}`);
+  if (normalized.split("/").includes("..")) return null;
+  return normalized.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Whether `entryPath` lies strictly beneath `root` ("" contains everything).
+ */
+export function isBeneath(entryPath: string, root: string): boolean {
+  return root === "" ? entryPath !== "" : entryPath.startsWith(`${root}/`);
+}
+
+/**
+ * Stat an implicit directory: a path with entries beneath it.
+ */
+export function implicitDirectory(
+  entryPath: string,
+  entries: Iterable<LoaderEntry>,
+): LoaderEntry | null {
+  if (entryPath === "") return { path: "", type: "directory" };
+  for (const entry of entries) {
+    if (isBeneath(entry.path, entryPath)) return { path: entryPath, type: "directory" };
+  }
+  return null;
+}
@@ -0,0 +1,7 @@
+/**
+ * Pathfinder loaders - file sources other than the local disk
+ */
+
+export { ArchiveLoader, type ArchiveLoaderOptions } from "./archive.js";
+export { type MemoryFile, MemoryLoader } from "./memory.js";
+export { type S3Credentials, S3Loader, type S3LoaderOptions } from "./s3.js";
@@ -0,0 +1,128 @@
+/**
+ * In-memory loader - a virtual tree of files, mainly for tests
+ */
+
+import { Readable } from "node:stream";
+
+import { createPathfinderError, PathfinderErrorCode } from "../errors.js";
+import { type LoaderEntry, LoaderType, type PathfinderLoader } from "../types.js";
+import { implicitDirectory, isBeneath, normalizeLoaderPath } from "./common.js";
+
+/**
+ * File given to a MemoryLoader along with its metadata
+ */
+export interface MemoryFile {
+  content: string | Uint8Array;
+
+  /** Modification time (default: when the file was set) */
+  modified?: Date;
+
+  /** Unix permission bits (default: 0o644) */
+  mode?: number;
+}
+
+interface StoredFile {
+  data: Buffer;
+  modified: Date;
+  mode: number;
+}
+
+/**
+ * Loader over files held in memory. Directories are implied by file paths.
+ *
+ * @example
+ * ```typescript
+ * const loader = new MemoryLoader({ "config/app.yaml": "port: 8080\n" });
+ * const results = await new Pathfinder({}, { loader }).find({ root: "config" });
+ * ```
+ */
+export class MemoryLoader implements PathfinderLoader {
+  readonly type = LoaderType.LOCAL;
+  private readonly files = new Map<string, StoredFile>();
+
+  constructor(files: Record<string, string | Uint8Array | MemoryFile> = {}) {
+    for (const [entryPath, file] of Object.entries(files)) {
+      if (typeof file === "string" || file instanceof Uint8Array) {
+        this.set(entryPath, file);
+      } else {
+        this.set(entryPath, file.content, file);
+      }
+    }
+  }
+
+  /** Add or replace a file */
+  set(
+    entryPath: string,
+    content: string | Uint8Array,
+    options: Omit<MemoryFile, "content"> = {},
+  ): void {
+    this.files.set(this.key(entryPath), {
+      data: Buffer.from(content),
+      modified: options.modified ?? new Date(),
+      mode: options.mode ?? 0o644,
+    });
+  }
+
+  /** Remove a file; returns whether it existed */
+  delete(entryPath: string): boolean {
+    return this.files.delete(this.key(entryPath));
+  }
+
+  async *list(root: string): AsyncIterable<LoaderEntry> {
+    const paths = [...this.files.keys()].filter((entryPath) => isBeneath(entryPath, root)).sort();
+    for (const entryPath of paths) {
+      const entry = this.entry(entryPath);
+      if (entry) yield entry;
+    }
+  }
+
+  async stat(entryPath: string): Promise<LoaderEntry | null> {
+    return this.entry(entryPath) ?? implicitDirectory(entryPath, this.fileEntries());
+  }
+
+  async open(entryPath: string): Promise<Readable> {
+    const file = this.files.get(entryPath);
+    if (!file) {
+      throw createPathfinderError(
+        PathfinderErrorCode.TRAVERSAL_FAILED,
+        `No such file in memory loader: ${entryPath}`,
+        { severity: "medium", context: { path: entryPath, loader: "memory" } },
+      );
+    }
+    return Readable.from([file.data]);
+  }
+
+  sourcePath(entryPath: string): string {
+    return `memory:/${entryPath}`;
+  }
+
+  private key(entryPath: string): string {
+    const key = normalizeLoaderPath(entryPath);
+    if (!key) {
+      throw createPathfinderError(
+        PathfinderErrorCode.INVALID_CONFIG,
+        `Invalid memory loader path: ${entryPath}`,
+        { severity: "medium", context: { path: entryPath, loader: "memory" } },
+      );
+    }
+    return key;
+  }
+
+  private entry(entryPath: string): LoaderEntry | undefined {
+    const file = this.files.get(entryPath);
+    if (!file) return undefined;
+    return {
+      path: entryPath,
+      type: "file",
+      size: file.data.length,
+      modified: file.modified,
+      mode: file.mode,
+    };
+  }
+
+  private *fileEntries(): Iterable<LoaderEntry> {
+    for (const entryPath of this.files.keys()) {
+      yield { path: entryPath, type: "file" };
+    }
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * S3 loader - browse a bucket (AWS S3, MinIO and other S3-compatible stores) as a tree
+ *
+ * Uses ListObjectsV2, HeadObject and GetObject over `fetch`, signed with
+ * AWS Signature Version 4 when credentials are given.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+
+import { createPathfinderError, PathfinderErrorCode } from "../errors.js";
+import { type LoaderEntry, LoaderType, type PathfinderLoader } from "../types.js";
+import { normalizeLoaderPath } from "./common.js";
+
+const EMPTY_PAYLOAD_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface S3LoaderOptions {
+  /** Service endpoint, e.g. `https://s3.us-east-1.amazonaws.com` or `http://127.0.0.1:9000` */
+  endpoint: string;
+
+  /** Bucket name */
+  bucket: string;
+
+  /** Signing region (default: us-east-1) */
+  region?: string;
+
+  /** Credentials for SigV4 signing; requests are anonymous when omitted */
+  credentials?: S3Credentials;
+
+  /** Key prefix treated as the loader's top level */
+  prefix?: string;
+
+  /** Address the bucket as `<bucket>.<endpoint host>` instead of `<endpoint>/<bucket>` (default: false) */
+  virtualHostedStyle?: boolean;
+
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac("sha256", key).update(value).digest();
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4.
+ *
+ * Returns the headers to send: `headers` plus `x-amz-date`,
+ * `x-amz-content-sha256`, the session token if any, and `authorization`.
+ * Only empty-payload requests (GET/HEAD) are supported.
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  credentials: S3Credentials,
+  region: string,
+  now: Date = new Date(),
+): Record<string, string> {
+  const amzDate = now
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const day = amzDate.slice(0, 8);
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+    ),
+    host: url.host,
+    "x-amz-content-sha256": EMPTY_PAYLOAD_SHA256,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    signed["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const names = Object.keys(signed).sort();
+  const canonicalQuery = [...url.searchParams]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    names.map((name) => `${name}:${signed[name].trim()}\n`).join(""),
+    names.join(";"),
+    EMPTY_PAYLOAD_SHA256,
+  ].join("\n");
+
+  const scope = `${day}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), region), "s3"),
+    "aws4_request",
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host: _host, ...rest } = signed;
+  return {
+    ...rest,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      case "amp":
+        return "&";
+      default:
+        return String.fromCodePoint(
+          entity[1] === "x" ? Number.parseInt(entity.slice(2), 16) : Number(entity.slice(1)),
+        );
+    }
+  });
+}
+
+function xmlTag(xml: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xml);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Loader over the objects of an S3 bucket. "Directories" are key prefixes.
+ *
+ * @example
+ * ```typescript
+ * const loader = new S3Loader({
+ *   endpoint: "http://127.0.0.1:9000",
+ *   bucket: "configs",
+ *   credentials: { accessKeyId: "minio", secretAccessKey: "minio-secret" },
+ * });
+ * const results = await new Pathfinder({}, { loader }).find({ root: "prod" });
+ * ```
+ */
+export class S3Loader implements PathfinderLoader {
+  readonly type = LoaderType.CLOUD;
+  private readonly endpoint: URL;
+  private readonly bucket: string;
+  private readonly region: string;
+  private readonly credentials?: S3Credentials;
+  private readonly prefix: string;
+  private readonly virtualHostedStyle: boolean;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: S3LoaderOptions) {
+    this.endpoint = new URL(options.endpoint);
+    this.bucket = options.bucket;
+    this.region = options.region ?? "us-east-1";
+    this.credentials = options.credentials;
+    this.prefix = normalizeLoaderPath(options.prefix ?? "") ?? "";
+    this.virtualHostedStyle = options.virtualHostedStyle ?? false;
+    this.fetch = options.fetch ?? globalThis.fetch;
+  }
+
+  async *list(root: string): AsyncIterable<LoaderEntry> {
+    const keyPrefix = this.key(root);
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { "list-type": "2" };
+      if (keyPrefix) query.prefix = `${keyPrefix}/`;
+      if (continuationToken) query["continuation-token"] = continuationToken;
+
+      const response = await this.request("GET", "", query);
+      if (!response.ok) throw await this.failure("list", root, response);
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlTag(match[1], "Key");
+        // Keys ending in "/" are folder placeholders
+        if (!key || key.endsWith("/")) continue;
+        const entryPath = this.entryPath(key);
+        if (entryPath === null) continue;
+
+        const size = xmlTag(match[1], "Size");
+        const modified = xmlTag(match[1], "LastModified");
+        yield {
+          path: entryPath,
+          type: "file",
+          size: size === undefined ? undefined : Number(size),
+          modified: modified ? new Date(modified) : undefined,
+        };
+      }
+
+      continuationToken =
+        xmlTag(xml, "IsTruncated") === "true" ? xmlTag(xml, "NextContinuationToken") : undefined;
+    } while (continuationToken);
+  }
+
+  async stat(entryPath: string): Promise<LoaderEntry | null> {
+    if (entryPath === "") return { path: "", type: "directory" };
+
+    const head = await this.request("HEAD", this.key(entryPath));
+    if (head.ok) {
+      const size = head.headers.get("content-length");
+      const modified = head.headers.get("last-modified");
+      return {
+        path: entryPath,
+        type: "file",
+        size: size === null ? undefined : Number(size),
+        modified: modified ? new Date(modified) : undefined,
+      };
+    }
+    if (head.status !== 404) throw await this.failure("stat", entryPath, head);
+
+    const listing = await this.request("GET", "", {
+      "list-type": "2",
+      prefix: `${this.key(entryPath)}/`,
+      "max-keys": "1",
+    });
+    if (!listing.ok) throw await this.failure("stat", entryPath, listing);
+    const xml = await listing.text();
+    return xml.includes("<Contents>") ? { path: entryPath, type: "directory" } : null;
+  }
+
+  async open(entryPath: string): Promise<Readable> {
+    const response = await this.request("GET", this.key(entryPath));
+    if (!response.ok || !response.body) throw await this.failure("open", entryPath, response);
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  sourcePath(entryPath: string): string {
+    return `s3://${this.bucket}/${this.key(entryPath)}`;
+  }
+
+  private key(entryPath: string): string {
+    return [this.prefix, entryPath].filter(Boolean).join("/");
+  }
+
+  private entryPath(key: string): string | null {
+    if (!this.prefix) return key;
+    return key.startsWith(`${this.prefix}/`) ? key.slice(this.prefix.length + 1) : null;
+  }
+
+  private request(method: "GET" | "HEAD", key: string, query: Record<string, string> = {}) {
+    const url = new URL(this.endpoint);
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    const basePath = url.pathname.replace(/\/+$/, "");
+    if (this.virtualHostedStyle) {
+      url.host = `${this.bucket}.${url.host}`;
+      url.pathname = `${basePath}/${encodedKey}`;
+    } else {
+      url.pathname = `${basePath}/${encodeRfc3986(this.bucket)}${key ? `/${encodedKey}` : ""}`;
+    }
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+
+    const headers = this.credentials
+      ? signS3Request(method, url, {}, this.credentials, this.region)
+      : {};
+    return this.fetch(url, { method, headers });
+  }
+
+  private async failure(operation: string, entryPath: string, response: Response) {
+    const body = response.body ? await response.text().catch(() => "") : "";
+    const code = xmlTag(body, "Code");
+    return createPathfinderError(
+      PathfinderErrorCode.TRAVERSAL_FAILED,
+      `S3 ${operation} failed for ${this.sourcePath(entryPath)}: HTTP ${response.status}${code ? ` ${code}` : ""}`,
+      {
+        severity: "medium",
+        context: {
+          loader: "s3",
+          operation,
+          bucket: this.bucket,
+          key: this.key(entryPath),
+          status: response.status,
+          s3Code: code,
+        },
+      },
+    );
+  }
+}
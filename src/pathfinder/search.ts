@@ -0,0 +1,220 @@
+/**
+ * Pathfinder content search - line matching inside discovered files
+ *
+ * Files are streamed and matched line by line, so memory stays bounded by the
+ * longest line rather than the file. Binary files are skipped after a MIME
+ * sniff, and the bytes read and matches recorded per file are capped.
+ */
+
+import type { Readable } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+
+import { detectMimeType } from "../foundry/mime-types.js";
+import { getPattern, getPatternRegex } from "../foundry/patterns.js";
+import { CONTENT_SNIFF_BYTES } from "./content.js";
+import { createPathfinderError, PathfinderErrorCode } from "./errors.js";
+import type { ContentMatch, ContentPattern, FileMetadata } from "./types.js";
+
+/** Default bytes searched per file */
+export const DEFAULT_CONTENT_MAX_BYTES = 1024 * 1024;
+
+/** Default matching lines recorded per file */
+export const DEFAULT_CONTENT_MAX_MATCHES = 100;
+
+/** Maximum snippet length, in characters */
+export const CONTENT_SNIPPET_LENGTH = 160;
+
+// Context kept before the match when a long line is shortened
+const SNIPPET_LEAD = 40;
+
+// Binary formats the foundry detector identifies; content it cannot identify
+// at all is treated as binary too
+const BINARY_MIME_TYPES = new Set(["application/x-protobuf"]);
+
+// Catalog regexes validate whole values (they are anchored), so they are
+// tested against each token of a line rather than the line itself
+const TOKEN_REGEX = /[^\s"'`,;()[\]{}<>=]+/g;
+
+/**
+ * Serializable form of a ContentPattern
+ */
+export type ContentPatternSpec =
+  | { kind: "literal"; value: string }
+  | { kind: "regex"; source: string; flags: string }
+  | { kind: "catalog"; patternId: string };
+
+/**
+ * Result fragment returned when a file matches a content search.
+ */
+export type ContentMatchMetadata = Pick<FileMetadata, "contentMatches" | "contentTruncated">;
+
+/**
+ * Returns the index of the first match in a line, or -1.
+ */
+export type LineMatcher = (line: string) => number;
+
+export interface ContentSearchLimits {
+  maxBytes: number;
+  maxMatches: number;
+}
+
+export interface ContentSearchResult {
+  /** False when the content looked binary and was not searched */
+  searched: boolean;
+  matches: ContentMatch[];
+  /** Whether the search stopped at a limit before the end of the content */
+  truncated: boolean;
+}
+
+export function toContentPatternSpec(pattern: ContentPattern): ContentPatternSpec {
+  if (typeof pattern === "string") {
+    return { kind: "literal", value: pattern };
+  }
+  if (pattern instanceof RegExp) {
+    return { kind: "regex", source: pattern.source, flags: pattern.flags };
+  }
+  return { kind: "catalog", patternId: pattern.patternId };
+}
+
+/**
+ * Compile a content pattern to a line matcher. Catalog patterns must be
+ * regex or literal patterns.
+ */
+export async function compileContentPattern(spec: ContentPatternSpec): Promise<LineMatcher> {
+  switch (spec.kind) {
+    case "literal":
+      return (line) => line.indexOf(spec.value);
+    case "regex": {
+      // Global and sticky flags would make matching depend on lastIndex
+      const regex = new RegExp(spec.source, spec.flags.replace(/[gy]/g, ""));
+      return (line) => line.search(regex);
+    }
+    case "catalog": {
+      const pattern = await getPattern(spec.patternId);
+      if (!pattern) {
+        throw createPathfinderError(
+          PathfinderErrorCode.INVALID_CONFIG,
+          `Unknown foundry pattern for content search: ${spec.patternId}`,
+          { severity: "high", context: { patternId: spec.patternId } },
+        );
+      }
+      if (pattern.kind === "literal") {
+        return (line) => line.indexOf(pattern.pattern);
+      }
+      if (pattern.kind !== "regex") {
+        throw createPathfinderError(
+          PathfinderErrorCode.INVALID_CONFIG,
+          `Foundry pattern ${spec.patternId} is a ${pattern.kind} pattern and cannot search content`,
+          { severity: "high", context: { patternId: spec.patternId, kind: pattern.kind } },
+        );
+      }
+      const regex = (await getPatternRegex(spec.patternId)) as RegExp;
+      return (line) => {
+        for (const token of line.matchAll(TOKEN_REGEX)) {
+          if (regex.test(token[0])) return token.index;
+        }
+        return -1;
+      };
+    }
+  }
+}
+
+function snippet(line: string, index: number): string {
+  if (line.length <= CONTENT_SNIPPET_LENGTH) return line;
+  const start = Math.max(0, Math.min(index - SNIPPET_LEAD, line.length - CONTENT_SNIPPET_LENGTH));
+  return line.slice(start, start + CONTENT_SNIPPET_LENGTH);
+}
+
+/**
+ * Search a stream line by line (as UTF-8) and destroy it when done.
+ *
+ * The first CONTENT_SNIFF_BYTES bytes go through the foundry MIME detector;
+ * binary content is not searched. Reading stops after `maxBytes` bytes, or
+ * once a match beyond `maxMatches` shows the list is incomplete.
+ */
+export async function searchContent(
+  stream: Readable,
+  matcher: LineMatcher,
+  limits: ContentSearchLimits,
+): Promise<ContentSearchResult> {
+  const decoder = new StringDecoder("utf8");
+  const matches: ContentMatch[] = [];
+  let head: Buffer[] | undefined = [];
+  let headLength = 0;
+  let bytesRead = 0;
+  let lineNumber = 0;
+  let carry = "";
+  let truncated = false;
+  let stopped = false;
+
+  // Returns false once the match limit is exceeded
+  const scanLines = (text: string, final: boolean): boolean => {
+    const lines = (carry + text).split("\n");
+    carry = final ? "" : (lines.pop() ?? "");
+    if (final && lines[lines.length - 1] === "") lines.pop();
+
+    for (const raw of lines) {
+      lineNumber++;
+      const line = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+      const index = matcher(line);
+      if (index < 0) continue;
+      if (matches.length >= limits.maxMatches) {
+        truncated = true;
+        return false;
+      }
+      matches.push({ line: lineNumber, column: index + 1, snippet: snippet(line, index) });
+    }
+    return true;
+  };
+
+  const isBinary = async (sample: Buffer): Promise<boolean> => {
+    if (sample.length === 0) return false;
+    const mimeType = await detectMimeType(sample.subarray(0, CONTENT_SNIFF_BYTES));
+    return !mimeType || BINARY_MIME_TYPES.has(mimeType.mime);
+  };
+
+  try {
+    for await (const data of stream) {
+      let chunk = Buffer.from(data as Uint8Array);
+      const remaining = limits.maxBytes - bytesRead;
+      if (chunk.length > remaining) {
+        chunk = chunk.subarray(0, remaining);
+        truncated = true;
+      }
+      bytesRead += chunk.length;
+
+      if (head) {
+        head.push(chunk);
+        headLength += chunk.length;
+        if (headLength < CONTENT_SNIFF_BYTES && !truncated) continue;
+        chunk = Buffer.concat(head);
+        head = undefined;
+        if (await isBinary(chunk)) {
+          return { searched: false, matches: [], truncated: false };
+        }
+      }
+
+      if (!scanLines(decoder.write(chunk), false)) {
+        stopped = true;
+        break;
+      }
+      if (truncated) break;
+    }
+
+    if (head) {
+      const content = Buffer.concat(head);
+      if (await isBinary(content)) {
+        return { searched: false, matches: [], truncated: false };
+      }
+      stopped = !scanLines(decoder.write(content), false);
+    }
+    if (!stopped) {
+      // A line cut off by the byte limit is still searched
+      scanLines(truncated ? "" : decoder.end(), true);
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return { searched: true, matches, truncated };
+}
@@ -0,0 +1,177 @@
+/**
+ * Pathfinder snapshots - serializable tree manifests and their diffs
+ *
+ * A snapshot records the size, mtime, permissions and checksum of every file
+ * a query finds, so a tree can be captured once (say, at deploy time) and
+ * compared later. The JSON form is validated against the
+ * tsfulmen/pathfinder/v1.0.0/snapshot schema on both export and import.
+ */
+
+import { compileSchemaById, validateData } from "../schema/index.js";
+import type { CompiledValidator, SchemaValidationResult } from "../schema/types.js";
+import { createPathfinderError, PathfinderErrorCode } from "./errors.js";
+import type {
+  PathfinderSnapshot,
+  PathResult,
+  SnapshotChange,
+  SnapshotDiff,
+  SnapshotEntry,
+  SnapshotMetadata,
+} from "./types.js";
+
+/** Snapshot format version written by `Pathfinder.snapshot()` */
+export const SNAPSHOT_VERSION = "1.0.0";
+
+const SNAPSHOT_METADATA_FIELDS = [
+  "size",
+  "modified",
+  "permissions",
+  "checksum",
+  "checksumAlgorithm",
+  "checksumError",
+  "isSymlink",
+  "symlinkTarget",
+] as const satisfies readonly (keyof SnapshotMetadata)[];
+
+/** Schema registry ID of the snapshot JSON format */
+export const SNAPSHOT_SCHEMA_ID = "tsfulmen/pathfinder/v1.0.0/snapshot";
+
+let snapshotValidator: Promise<CompiledValidator> | undefined;
+
+// Compiled on first use and shared; a failed compile is retried next time
+function compileSnapshotSchema(): Promise<CompiledValidator> {
+  snapshotValidator ??= compileSchemaById(SNAPSHOT_SCHEMA_ID).catch((error) => {
+    snapshotValidator = undefined;
+    throw error;
+  });
+  return snapshotValidator;
+}
+
+/**
+ * Build a snapshot from query results, keeping only the snapshot metadata fields.
+ */
+export function createSnapshot(root: string, results: PathResult[]): PathfinderSnapshot {
+  const entries = results.map((result): SnapshotEntry => {
+    const metadata: SnapshotMetadata = {};
+    for (const field of SNAPSHOT_METADATA_FIELDS) {
+      if (result.metadata?.[field] !== undefined) {
+        Object.assign(metadata, { [field]: result.metadata[field] });
+      }
+    }
+    return { relativePath: result.relativePath, metadata };
+  });
+  entries.sort((a, b) => (a.relativePath < b.relativePath ? -1 : 1));
+
+  return { version: SNAPSHOT_VERSION, root, createdAt: new Date().toISOString(), entries };
+}
+
+function contentChanged(before: SnapshotMetadata, after: SnapshotMetadata): boolean {
+  if (before.isSymlink || after.isSymlink) {
+    return before.isSymlink !== after.isSymlink || before.symlinkTarget !== after.symlinkTarget;
+  }
+  // Equal checksums mean equal content even if the mtime moved (a fresh deploy
+  // copy); without comparable checksums fall back to size and mtime
+  if (before.checksum && after.checksum && before.checksumAlgorithm === after.checksumAlgorithm) {
+    return before.checksum !== after.checksum;
+  }
+  return before.size !== after.size || before.modified !== after.modified;
+}
+
+/**
+ * Compare two snapshots of the same tree.
+ *
+ * Files are matched by relative path. A file counts as modified when its
+ * checksum changed; when either side has no checksum for the same algorithm,
+ * a change in size or mtime counts instead. Results are sorted by relative path.
+ *
+ * @param before - Older snapshot
+ * @param after - Newer snapshot
+ */
+export function diffSnapshots(before: PathfinderSnapshot, after: PathfinderSnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = { added: [], removed: [], modified: [], modeChanged: [] };
+  const previous = new Map(before.entries.map((entry) => [entry.relativePath, entry]));
+
+  for (const entry of after.entries) {
+    const old = previous.get(entry.relativePath);
+    if (!old) {
+      diff.added.push(entry);
+      continue;
+    }
+    previous.delete(entry.relativePath);
+
+    const change: SnapshotChange = {
+      relativePath: entry.relativePath,
+      before: old.metadata,
+      after: entry.metadata,
+    };
+    if (contentChanged(old.metadata, entry.metadata)) {
+      diff.modified.push(change);
+    }
+    if (old.metadata.permissions !== entry.metadata.permissions) {
+      diff.modeChanged.push(change);
+    }
+  }
+  diff.removed.push(...previous.values());
+
+  for (const list of Object.values(diff) as { relativePath: string }[][]) {
+    list.sort((a, b) => (a.relativePath < b.relativePath ? -1 : 1));
+  }
+  return diff;
+}
+
+/**
+ * Validate a snapshot against the snapshot schema
+ *
+ * @param snapshot - Snapshot to validate
+ * @returns Validation result with diagnostics
+ */
+export async function validateSnapshot(snapshot: unknown): Promise<SchemaValidationResult> {
+  return validateData(snapshot, await compileSnapshotSchema());
+}
+
+async function assertValidSnapshot(snapshot: unknown): Promise<void> {
+  const result = await validateSnapshot(snapshot);
+
+  if (!result.valid) {
+    const messages = result.diagnostics.map((d) => `${d.pointer || "/"} ${d.message}`).join(", ");
+    throw createPathfinderError(
+      PathfinderErrorCode.VALIDATION_FAILED,
+      `Invalid pathfinder snapshot: ${messages}`,
+      {
+        severity: "high",
+        context: { diagnostics: result.diagnostics },
+      },
+    );
+  }
+}
+
+/**
+ * Export a snapshot as JSON, validating it first.
+ *
+ * @throws {FulmenError} With pathfinder.validation_failed code
+ */
+export async function serializeSnapshot(snapshot: PathfinderSnapshot): Promise<string> {
+  await assertValidSnapshot(snapshot);
+  return `${JSON.stringify(snapshot, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate a snapshot exported by `serializeSnapshot()`.
+ *
+ * @throws {FulmenError} With pathfinder.validation_failed code
+ */
+export async function parseSnapshot(json: string): Promise<PathfinderSnapshot> {
+  let snapshot: unknown;
+  try {
+    snapshot = JSON.parse(json);
+  } catch (error) {
+    throw createPathfinderError(
+      PathfinderErrorCode.VALIDATION_FAILED,
+      `Invalid pathfinder snapshot: ${error instanceof Error ? error.message : String(error)}`,
+      { severity: "high" },
+    );
+  }
+
+  await assertValidSnapshot(snapshot);
+  return snapshot as PathfinderSnapshot;
+}
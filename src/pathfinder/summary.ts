@@ -0,0 +1,126 @@
+/**
+ * Pathfinder summaries - disk usage per directory, extension and MIME type
+ *
+ * Results are folded in one at a time and not kept, so the accumulator grows
+ * with the number of directories within the summary depth, extensions, MIME
+ * types and the top-N list rather than with the number of files.
+ */
+
+import path from "node:path";
+
+import { getMimeTypeByExtension } from "../foundry/mime-types.js";
+import type { PathfinderSummary, PathResult, SummaryBucket } from "./types.js";
+
+/** Default directory depth aggregated by `Pathfinder.summarize()` */
+export const DEFAULT_SUMMARY_DEPTH = 1;
+
+/** Default number of largest files reported by `Pathfinder.summarize()` */
+export const DEFAULT_SUMMARY_TOP = 10;
+
+// Reported for files that neither sniffing nor their extension identifies
+const UNKNOWN_MIME_TYPE = "application/octet-stream";
+
+type Counts = Map<string, { bytes: number; files: number }>;
+
+function count(counts: Counts, key: string, size: number): void {
+  const bucket = counts.get(key);
+  if (bucket) {
+    bucket.bytes += size;
+    bucket.files++;
+  } else {
+    counts.set(key, { bytes: size, files: 1 });
+  }
+}
+
+function toBuckets(counts: Counts): SummaryBucket[] {
+  return [...counts]
+    .map(([key, { bytes, files }]) => ({ key, bytes, files }))
+    .sort((a, b) => b.bytes - a.bytes || (a.key < b.key ? -1 : 1));
+}
+
+const sizeOf = (result: PathResult): number => result.metadata?.size ?? 0;
+
+// Largest first; equal sizes by path so the report does not depend on traversal order
+function compareBySize(a: PathResult, b: PathResult): number {
+  return sizeOf(b) - sizeOf(a) || (a.relativePath < b.relativePath ? -1 : 1);
+}
+
+/**
+ * Folds query results into a PathfinderSummary.
+ */
+export class SummaryAccumulator {
+  private totalBytes = 0;
+  private totalFiles = 0;
+  private readonly directories: Counts = new Map();
+  private readonly extensions: Counts = new Map();
+  private readonly mimeTypes: Counts = new Map();
+  private readonly extensionMimeTypes = new Map<string, string>();
+  private readonly largest: PathResult[] = [];
+
+  /**
+   * @param depth - Deepest directory level aggregated
+   * @param top - Number of largest files kept
+   */
+  constructor(
+    private readonly depth: number,
+    private readonly top: number,
+  ) {}
+
+  async add(result: PathResult): Promise<void> {
+    const size = sizeOf(result);
+    this.totalBytes += size;
+    this.totalFiles++;
+
+    const segments = result.relativePath.split("/");
+    const levels = Math.min(this.depth, segments.length - 1);
+    for (let level = 1; level <= levels; level++) {
+      count(this.directories, segments.slice(0, level).join("/"), size);
+    }
+
+    const extension = path.posix.extname(result.relativePath).toLowerCase();
+    count(this.extensions, extension, size);
+    count(this.mimeTypes, result.metadata?.mimeType ?? (await this.mimeTypeOf(extension)), size);
+
+    this.rank(result);
+  }
+
+  summary(): PathfinderSummary {
+    return {
+      totalBytes: this.totalBytes,
+      totalFiles: this.totalFiles,
+      directories: toBuckets(this.directories),
+      extensions: toBuckets(this.extensions),
+      mimeTypes: toBuckets(this.mimeTypes),
+      largestFiles: [...this.largest],
+    };
+  }
+
+  private async mimeTypeOf(extension: string): Promise<string> {
+    let mimeType = this.extensionMimeTypes.get(extension);
+    if (mimeType === undefined) {
+      mimeType = extension
+        ? ((await getMimeTypeByExtension(extension))?.mime ?? UNKNOWN_MIME_TYPE)
+        : UNKNOWN_MIME_TYPE;
+      this.extensionMimeTypes.set(extension, mimeType);
+    }
+    return mimeType;
+  }
+
+  // Insert into the sorted top-N list, dropping whatever falls off the end
+  private rank(result: PathResult): void {
+    const largest = this.largest;
+    const last = largest[largest.length - 1];
+    if (largest.length === this.top && (!last || compareBySize(result, last) >= 0)) {
+      return;
+    }
+
+    let index = largest.length;
+    while (index > 0 && compareBySize(result, largest[index - 1]) < 0) {
+      index--;
+    }
+    largest.splice(index, 0, result);
+    if (largest.length > this.top) {
+      largest.pop();
+    }
+  }
+}
@@ -7,6 +7,8 @@
  * - schemas/crucible-ts/pathfinder/v1.0.0/metadata.schema.json
  */
 
+import type { Readable } from "node:stream";
+
 /**
  * Enforcement levels for path constraints
  *
@@ -78,13 +80,13 @@ export interface PathConstraint {
  * Aligns with schemas/crucible-ts/pathfinder/v1.0.0/finder-config.schema.json.
  */
 export interface PathfinderConfig {
-  /** Maximum number of worker routines for traversal */
+  /** Maximum number of results whose metadata (and checksum) is built concurrently */
   maxWorkers?: number;
 
   /** Enable filesystem metadata/result caching */
   cacheEnabled?: boolean;
 
-  /** Cache time-to-live (seconds) */
+  /** Cache time-to-live (seconds); 0 keeps entries until invalidated */
   cacheTTL?: number;
 
   /** Path constraint applied to traversal */
@@ -104,6 +106,15 @@ export interface PathfinderConfig {
 
   /** Honor .fulmenignore files during traversal */
   honorIgnoreFiles?: boolean;
+
+  /**
+   * Global excludes file applied with the ignore files, like git's
+   * `core.excludesFile`; `true` reads it from git config (default: false)
+   */
+  excludesFile?: string | boolean;
+
+  /** Sniff each result's content to fill `mimeType` and `encoding` metadata */
+  detectContentType?: boolean;
 }
 
 /**
@@ -132,6 +143,44 @@ export interface PathfinderQuery {
 
   /** Honor .fulmenignore files during traversal */
   honorIgnoreFiles?: boolean;
+
+  /**
+   * Only return files with these MIME types (e.g. `application/yaml`, or
+   * `text/*` for a whole top-level type). Implies content type detection.
+   */
+  mimeTypes?: string[];
+
+  /**
+   * Only return text files with a line matching this pattern: a literal
+   * string, a RegExp, or `{ patternId }` naming a foundry catalog pattern.
+   * Matching lines are reported in `metadata.contentMatches`.
+   */
+  contentPattern?: ContentPattern;
+
+  /** Bytes read from each file when searching for `contentPattern` (default: 1 MiB) */
+  contentMaxBytes?: number;
+
+  /** Matching lines recorded per file (default: 100) */
+  contentMaxMatches?: number;
+}
+
+/**
+ * Content search pattern for `PathfinderQuery.contentPattern`
+ */
+export type ContentPattern = string | RegExp | { patternId: string };
+
+/**
+ * A line matching a query's content pattern
+ */
+export interface ContentMatch {
+  /** Line number (1-based) */
+  line: number;
+
+  /** Column of the first match on the line (1-based, UTF-16 code units) */
+  column: number;
+
+  /** The matching line, shortened around the match when long */
+  snippet: string;
 }
 
 /**
@@ -164,6 +213,12 @@ export interface FileMetadata {
   /** Error message when checksum calculation fails */
   checksumError?: string;
 
+  /** Lines matching the query's contentPattern */
+  contentMatches?: ContentMatch[];
+
+  /** Whether the content search stopped at a byte or match limit before the end of the file */
+  contentTruncated?: boolean;
+
   /** User-defined tags associated with the result */
   tags?: string[];
 
@@ -242,6 +297,220 @@ export interface PathfinderExecuteOptions {
   errorCallback?: ErrorCallback;
 }
 
+/**
+ * Kinds of change reported by `Pathfinder.watch()`
+ */
+export type PathfinderWatchEventType = "added" | "changed" | "removed";
+
+/**
+ * How a watcher picks up changes: recursive `fs.watch` or polling
+ */
+export type PathfinderWatchMode = "native" | "poll";
+
+/**
+ * Callbacks for `Pathfinder.watch()`
+ *
+ * `onChanged` fires when a file's metadata (size, mtime, permissions or
+ * checksum) differs from the previous scan. `onRemoved` receives the last
+ * known result for the file.
+ */
+export interface PathfinderWatchCallbacks {
+  /** Invoked when a matching file appears */
+  onAdded?: ResultCallback;
+
+  /** Invoked when a matching file changes */
+  onChanged?: ResultCallback;
+
+  /** Invoked when a matching file is removed or stops matching */
+  onRemoved?: ResultCallback;
+
+  /** Invoked for recoverable errors during rescans and for callback failures */
+  onError?: ErrorCallback;
+}
+
+/**
+ * Options for `Pathfinder.watch()`
+ */
+export interface PathfinderWatchOptions {
+  /** Quiet period (ms) after the last filesystem event before rescanning (default: 100) */
+  debounceMs?: number;
+
+  /** Poll instead of using `fs.watch` (default: false) */
+  poll?: boolean;
+
+  /** Interval (ms) between rescans when polling (default: 1000) */
+  pollInterval?: number;
+}
+
+/**
+ * Metadata recorded for each file in a `PathfinderSnapshot`
+ */
+export type SnapshotMetadata = Pick<
+  FileMetadata,
+  | "size"
+  | "modified"
+  | "permissions"
+  | "checksum"
+  | "checksumAlgorithm"
+  | "checksumError"
+  | "isSymlink"
+  | "symlinkTarget"
+>;
+
+/**
+ * File recorded in a `PathfinderSnapshot`
+ */
+export interface SnapshotEntry {
+  /** Path relative to the snapshot root */
+  relativePath: string;
+
+  metadata: SnapshotMetadata;
+}
+
+/**
+ * Serializable manifest of a tree, produced by `Pathfinder.snapshot()`
+ */
+export interface PathfinderSnapshot {
+  /** Snapshot format version */
+  version: string;
+
+  /** Root the snapshot was taken from */
+  root: string;
+
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+
+  /** Files sorted by relative path */
+  entries: SnapshotEntry[];
+}
+
+/**
+ * A file present in both snapshots whose metadata differs
+ */
+export interface SnapshotChange {
+  relativePath: string;
+
+  before: SnapshotMetadata;
+
+  after: SnapshotMetadata;
+}
+
+/**
+ * Differences between two snapshots, returned by `diffSnapshots()`
+ *
+ * A file whose content and permissions both changed is listed in
+ * `modified` and in `modeChanged`.
+ */
+export interface SnapshotDiff {
+  /** Files only in the newer snapshot */
+  added: SnapshotEntry[];
+
+  /** Files only in the older snapshot */
+  removed: SnapshotEntry[];
+
+  /** Files whose content (checksum, or size and mtime without checksums) changed */
+  modified: SnapshotChange[];
+
+  /** Files whose permissions changed */
+  modeChanged: SnapshotChange[];
+}
+
+/**
+ * Options for `Pathfinder.summarize()`
+ */
+export interface PathfinderSummaryOptions extends PathfinderExecuteOptions {
+  /** Deepest directory level aggregated; 1 is the root's subdirectories (default: 1) */
+  depth?: number;
+
+  /** Number of largest files reported (default: 10) */
+  top?: number;
+}
+
+/**
+ * Byte and file counts for one directory, extension or MIME type
+ */
+export interface SummaryBucket {
+  /** Directory relative path, extension (`""` when none) or MIME type */
+  key: string;
+
+  /** Total size of the files, in bytes */
+  bytes: number;
+
+  /** Number of files */
+  files: number;
+}
+
+/**
+ * Disk usage summary returned by `Pathfinder.summarize()`
+ *
+ * Bucket lists are sorted by bytes, largest first.
+ */
+export interface PathfinderSummary {
+  /** Total size of all matching files, in bytes */
+  totalBytes: number;
+
+  /** Number of matching files */
+  totalFiles: number;
+
+  /** Totals per directory down to the summary depth, including subdirectories */
+  directories: SummaryBucket[];
+
+  /** Totals per lowercased file extension, including the leading dot */
+  extensions: SummaryBucket[];
+
+  /** Totals per MIME type */
+  mimeTypes: SummaryBucket[];
+
+  /** Largest matching files, largest first */
+  largestFiles: PathResult[];
+}
+
+/**
+ * Entry reported by a `PathfinderLoader`
+ */
+export interface LoaderEntry {
+  /** POSIX path from the loader's top level, without a leading slash */
+  path: string;
+
+  /** Entry kind; directories are optional in listings and never become results */
+  type: "file" | "directory" | "symlink";
+
+  /** Size in bytes */
+  size?: number;
+
+  /** Last modification time */
+  modified?: Date;
+
+  /** Unix permission bits */
+  mode?: number;
+
+  /** Target of a symlink entry */
+  symlinkTarget?: string;
+}
+
+/**
+ * Source of files for `Pathfinder` other than the local disk
+ *
+ * Paths passed to and returned by a loader are POSIX paths relative to the
+ * loader's top level ("" is the top level itself).
+ */
+export interface PathfinderLoader {
+  /** Recorded as `PathResult.loaderType` */
+  readonly type: LoaderType;
+
+  /** Yield every entry beneath `root`, recursively, in a stable order */
+  list(root: string): AsyncIterable<LoaderEntry>;
+
+  /** Describe one path, or null when nothing exists there */
+  stat(entryPath: string): Promise<LoaderEntry | null>;
+
+  /** Read a file entry's content */
+  open(entryPath: string): Promise<Readable>;
+
+  /** Location reported as `PathResult.sourcePath` (e.g. `s3://bucket/key`) */
+  sourcePath(entryPath: string): string;
+}
+
 /**
  * Options for repository root discovery
  *
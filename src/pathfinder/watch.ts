@@ -0,0 +1,229 @@
+/**
+ * Pathfinder watch - emits added/changed/removed results as files under a root change
+ *
+ * Filesystem events only trigger a debounced rescan; the rescan runs the same
+ * discovery as `find()`, so include/exclude patterns, `.fulmenignore` files and
+ * path constraints apply to watched results exactly as they do to found ones.
+ */
+
+import fs, { type FSWatcher } from "node:fs";
+
+import type {
+  PathfinderWatchCallbacks,
+  PathfinderWatchEventType,
+  PathfinderWatchMode,
+  PathfinderWatchOptions,
+  PathResult,
+} from "./types.js";
+
+const DEFAULT_DEBOUNCE_MS = 100;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/** Finder hooks a watcher runs on */
+export interface WatchSource {
+  /** Absolute root to watch */
+  root: string;
+
+  /** Run discovery for the watched query */
+  scan: () => Promise<PathResult[]>;
+
+  /** Called after a rescan that produced events, before they are emitted */
+  invalidate: () => Promise<void>;
+
+  /** Finder logger */
+  log: (level: "debug" | "warn", message: string, context?: Record<string, unknown>) => void;
+}
+
+/**
+ * Live watch over a Pathfinder query, returned by `Pathfinder.watch()`.
+ *
+ * Uses recursive `fs.watch` where the platform supports it and falls back
+ * to polling otherwise (or when `poll: true` is set).
+ */
+export class PathfinderWatcher {
+  private readonly source: WatchSource;
+  private readonly callbacks: PathfinderWatchCallbacks;
+  private readonly debounceMs: number;
+  private readonly pollIntervalMs: number;
+  private known = new Map<string, PathResult>();
+  private watcher?: FSWatcher;
+  private timer?: NodeJS.Timeout;
+  private scanning?: Promise<void>;
+  private rescanRequested = false;
+  private closed = false;
+  private currentMode: PathfinderWatchMode = "native";
+
+  constructor(
+    source: WatchSource,
+    callbacks: PathfinderWatchCallbacks,
+    options: PathfinderWatchOptions = {},
+  ) {
+    this.source = source;
+    this.callbacks = callbacks;
+    this.debounceMs = Math.max(0, options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    this.pollIntervalMs = Math.max(1, options.pollInterval ?? DEFAULT_POLL_INTERVAL_MS);
+    if (options.poll) {
+      this.currentMode = "poll";
+    }
+  }
+
+  /** Whether changes are picked up by `fs.watch` or by polling */
+  get mode(): PathfinderWatchMode {
+    return this.currentMode;
+  }
+
+  /**
+   * Take the baseline snapshot and start watching. Files present at this point
+   * are not reported as added.
+   */
+  async start(): Promise<void> {
+    for (const result of await this.source.scan()) {
+      this.known.set(result.sourcePath, result);
+    }
+
+    if (this.currentMode === "native") {
+      try {
+        this.watcher = fs.watch(this.source.root, { recursive: true }, () => this.schedule());
+        this.watcher.on("error", (error) => this.fallBackToPolling(error));
+      } catch (error) {
+        this.fallBackToPolling(error);
+        return;
+      }
+    } else {
+      this.schedule(this.pollIntervalMs);
+    }
+
+    this.source.log("debug", "Pathfinder watch started", {
+      root: this.source.root,
+      mode: this.currentMode,
+      files: this.known.size,
+    });
+  }
+
+  /**
+   * Stop watching. Resolves once any in-flight rescan has finished; no
+   * callbacks fire afterwards.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.watcher?.close();
+    this.watcher = undefined;
+    await this.scanning;
+    this.source.log("debug", "Pathfinder watch closed", { root: this.source.root });
+  }
+
+  private fallBackToPolling(error: unknown): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.closed) return;
+
+    this.currentMode = "poll";
+    this.source.log("warn", "Recursive fs.watch unavailable, polling for changes instead", {
+      root: this.source.root,
+      error: error instanceof Error ? error.message : String(error),
+      pollInterval: this.pollIntervalMs,
+    });
+    this.schedule(this.pollIntervalMs);
+  }
+
+  /**
+   * Queue a rescan after `delay` ms, restarting the countdown on every call
+   * so bursts of events collapse into one rescan.
+   */
+  private schedule(delay = this.debounceMs): void {
+    if (this.closed) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.runScan(), delay);
+  }
+
+  private runScan(): void {
+    if (this.closed) return;
+    if (this.scanning) {
+      this.rescanRequested = true;
+      return;
+    }
+
+    this.scanning = this.rescan()
+      .catch((error) => this.report(error, this.source.root))
+      .finally(() => {
+        this.scanning = undefined;
+        if (this.rescanRequested) {
+          this.rescanRequested = false;
+          this.schedule();
+        } else if (this.currentMode === "poll") {
+          this.schedule(this.pollIntervalMs);
+        }
+      });
+  }
+
+  private async rescan(): Promise<void> {
+    let results: PathResult[];
+    try {
+      results = await this.source.scan();
+    } catch (error) {
+      await this.report(error, this.source.root);
+      return;
+    }
+    if (this.closed) return;
+
+    const events: Array<[PathfinderWatchEventType, PathResult]> = [];
+    const next = new Map<string, PathResult>();
+    for (const result of results) {
+      next.set(result.sourcePath, result);
+      const previous = this.known.get(result.sourcePath);
+      if (!previous) {
+        events.push(["added", result]);
+      } else if (JSON.stringify(previous.metadata) !== JSON.stringify(result.metadata)) {
+        events.push(["changed", result]);
+      }
+    }
+    for (const [sourcePath, result] of this.known) {
+      if (!next.has(sourcePath)) {
+        events.push(["removed", result]);
+      }
+    }
+    this.known = next;
+
+    if (events.length === 0) return;
+    // A cache that cannot be invalidated (e.g. an unwritable cacheDir) must
+    // not swallow the events
+    try {
+      await this.source.invalidate();
+    } catch (error) {
+      await this.report(error, this.source.root);
+    }
+
+    for (const [type, result] of events) {
+      if (this.closed) return;
+      const callback =
+        type === "added"
+          ? this.callbacks.onAdded
+          : type === "changed"
+            ? this.callbacks.onChanged
+            : this.callbacks.onRemoved;
+      try {
+        await callback?.(result);
+      } catch (error) {
+        await this.report(error, result.sourcePath);
+      }
+    }
+  }
+
+  private async report(error: unknown, failedPath: string): Promise<void> {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (!this.callbacks.onError) {
+      this.source.log("warn", "Pathfinder watch error", { path: failedPath, error: err.message });
+      return;
+    }
+    try {
+      await this.callbacks.onError(err, failedPath);
+    } catch (callbackError) {
+      this.source.log("warn", "Pathfinder watch error callback failed", {
+        path: failedPath,
+        error: callbackError instanceof Error ? callbackError.message : String(callbackError),
+      });
+    }
+  }
+}
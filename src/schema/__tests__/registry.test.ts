@@ -83,6 +83,16 @@ describe("Schema Registry", () => {
       }
     });
 
+    it("should index the bundled tsfulmen schemas under a tsfulmen/ prefix", async () => {
+      const bundled = new SchemaRegistry();
+      const schema = await bundled.getSchema("tsfulmen/library/fulpack/v1.0.0/archive-info");
+
+      expect(schema.path).toBe("schemas/tsfulmen/library/fulpack/v1.0.0/archive-info.schema.json");
+      expect(schema.relativePath).toBe("tsfulmen/library/fulpack/v1.0.0/archive-info.schema.json");
+      // Crucible schemas keep their bare IDs alongside
+      expect(await bundled.hasSchema("library/fulpack/v1.0.0/archive-info")).toBe(true);
+    });
+
     it("should throw error for non-existent schema", async () => {
       await registry.discoverSchemas();
 
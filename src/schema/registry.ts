@@ -14,8 +14,22 @@ import type { SchemaFormat, SchemaMetadata, SchemaRegistryOptions } from "./type
  */
 const DEFAULT_PATTERNS = ["**/*.schema.json", "**/*.schema.yaml", "**/*.schema.yml"];
 
-/** Logical namespace of the package's own bundled schemas. */
-const PACKAGE_SCHEMA_BASE = "schemas/crucible-ts/";
+/**
+ * A logical root of bundled schemas and the prefix its schema IDs carry.
+ */
+interface SchemaRoot {
+  base: string;
+  idPrefix: string;
+}
+
+/**
+ * Logical roots of the package's own bundled schemas. Crucible schemas keep bare
+ * IDs; tsfulmen's own schemas live outside the synced tree and get a `tsfulmen/` prefix.
+ */
+const PACKAGE_SCHEMA_ROOTS: readonly SchemaRoot[] = [
+  { base: "schemas/crucible-ts/", idPrefix: "" },
+  { base: "schemas/tsfulmen/", idPrefix: "tsfulmen/" },
+];
 
 /**
  * Schema registry class for managing schema discovery and metadata.
@@ -29,7 +43,7 @@ export class SchemaRegistry {
   private schemas: Map<string, SchemaMetadata> = new Map();
   private options: SchemaRegistryOptions;
   private resolver: AssetResolver | null = null;
-  private logicalBase = "";
+  private roots: readonly SchemaRoot[] = [];
 
   constructor(options: SchemaRegistryOptions = {}) {
     this.options = {
@@ -41,26 +55,36 @@ export class SchemaRegistry {
   }
 
   /**
-   * Resolve the asset source + logical base for the configured mode.
+   * Resolve the asset source + logical roots for the configured mode.
    * - custom `baseDir`: a consumer-owned tree, read directly (patterns relative to it);
-   * - default: the package's bundled crucible-ts schemas (filesystem or embedded).
+   * - default: the package's bundled crucible-ts and tsfulmen schemas (filesystem or embedded).
    */
-  private resolveSource(): { resolver: AssetResolver; logicalBase: string } {
+  private resolveSource(): { resolver: AssetResolver; roots: readonly SchemaRoot[] } {
     if (this.options.baseDir) {
-      return { resolver: resolveAssets({ baseDir: this.options.baseDir }), logicalBase: "" };
+      return {
+        resolver: resolveAssets({ baseDir: this.options.baseDir }),
+        roots: [{ base: "", idPrefix: "" }],
+      };
     }
     ensureSchemaAssetsRegistered();
-    return { resolver: getAssetResolver(), logicalBase: PACKAGE_SCHEMA_BASE };
+    return { resolver: getAssetResolver(), roots: PACKAGE_SCHEMA_ROOTS };
+  }
+
+  /**
+   * Relative path of a logical path (its root's base replaced by the root's ID prefix).
+   */
+  private buildRelativePath(logicalPath: string): string {
+    const root = this.roots.find((candidate) => logicalPath.startsWith(candidate.base));
+    return root ? `${root.idPrefix}${logicalPath.slice(root.base.length)}` : logicalPath;
   }
 
   /**
    * Build logical schema ID from a logical path (strip the base + schema ext).
    */
   private buildSchemaId(logicalPath: string): string {
-    const rel = logicalPath.startsWith(this.logicalBase)
-      ? logicalPath.slice(this.logicalBase.length)
-      : logicalPath;
-    return rel.replace(/\.(schema\.(json|yaml|yml))$/, "").replace(/\\/g, "/");
+    return this.buildRelativePath(logicalPath)
+      .replace(/\.(schema\.(json|yaml|yml))$/, "")
+      .replace(/\\/g, "/");
   }
 
   /**
@@ -86,14 +110,10 @@ export class SchemaRegistry {
         unknown
       >;
 
-      const relativePath = logicalPath.startsWith(this.logicalBase)
-        ? logicalPath.slice(this.logicalBase.length)
-        : logicalPath;
-
       return {
         id: this.buildSchemaId(logicalPath),
         path: logicalPath,
-        relativePath,
+        relativePath: this.buildRelativePath(logicalPath),
         format,
         version: (parsed.$schema as string) || (parsed.version as string),
         description: (parsed.title as string) || (parsed.description as string),
@@ -118,11 +138,11 @@ export class SchemaRegistry {
         return;
       }
 
-      const { resolver, logicalBase } = this.resolveSource();
+      const { resolver, roots } = this.resolveSource();
       this.resolver = resolver;
-      this.logicalBase = logicalBase;
+      this.roots = roots;
 
-      const effectivePatterns = patterns.map((p) => `${logicalBase}${p}`);
+      const effectivePatterns = roots.flatMap((root) => patterns.map((p) => `${root.base}${p}`));
       const logicalPaths = await resolver.list(effectivePatterns);
 
       this.schemas.clear();
@@ -109,7 +109,7 @@ export interface SchemaValidationOptions {
  * Schema registry options
  */
 export interface SchemaRegistryOptions {
-  /** Base directory for schema discovery (defaults to schemas/crucible-ts) */
+  /** Base directory for schema discovery (defaults to the bundled crucible-ts and tsfulmen schemas) */
   baseDir?: string;
   /** File patterns to include (defaults to ['*.schema.json', '*.schema.yaml']) */
   patterns?: string[];
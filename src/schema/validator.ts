@@ -106,8 +106,9 @@ async function loadVocabularySchemas(draft: JsonSchemaDialect): Promise<Record<s
  * Per Canonical URI Resolution Standard (v0.4.2+), crucible-hosted schemas use:
  *   https://schemas.fulmenhq.dev/crucible/<topic>/<version>/<filename>
  *
- * We only embed crucible schemas locally. Other modules (goneat/, enact/, etc.)
- * are not embedded and cannot be resolved offline.
+ * tsfulmen's own schemas resolve under https://schemas.fulmenhq.dev/tsfulmen/.
+ * Other modules (goneat/, enact/, etc.) are not embedded and cannot be resolved
+ * offline.
  */
 async function loadReferencedSchema(uri: string): Promise<Record<string, unknown>> {
   ensureSchemaAssetsRegistered();
@@ -120,7 +121,7 @@ async function loadReferencedSchema(uri: string): Promise<Record<string, unknown
     let relativePath = uri.replace("https://schemas.fulmenhq.dev/", "");
 
     // Strip crucible/ module prefix if present (v0.4.2+ canonical URIs).
-    // Only crucible schemas are embedded; other modules cannot resolve offline.
+    // Only crucible and tsfulmen schemas are embedded; other modules cannot resolve offline.
     if (relativePath.startsWith("crucible/")) {
       relativePath = relativePath.slice("crucible/".length);
     }
@@ -128,6 +129,8 @@ async function loadReferencedSchema(uri: string): Promise<Record<string, unknown
     if (relativePath.startsWith("config/taxonomy/")) {
       const file = relativePath.split("/").pop() || "";
       logicalPath = `config/crucible-ts/taxonomy/${file}`;
+    } else if (relativePath.startsWith("tsfulmen/")) {
+      logicalPath = `schemas/${relativePath}`;
     } else {
       logicalPath = `schemas/crucible-ts/${relativePath}`;
     }
@@ -501,10 +504,12 @@ export async function compileSchemaById(
 
     const normalizedRelativePath = metadata.relativePath.replace(/\\/g, "/");
     if (normalizedRelativePath) {
-      // Per Canonical URI Resolution Standard (v0.4.2+), include crucible/ module prefix
-      aliases.push(
-        new URL(`crucible/${normalizedRelativePath}`, "https://schemas.fulmenhq.dev/").toString(),
-      );
+      // Per Canonical URI Resolution Standard (v0.4.2+), include the module prefix
+      // (tsfulmen's own schemas already carry theirs in the relative path)
+      const modulePath = normalizedRelativePath.startsWith("tsfulmen/")
+        ? normalizedRelativePath
+        : `crucible/${normalizedRelativePath}`;
+      aliases.push(new URL(modulePath, "https://schemas.fulmenhq.dev/").toString());
     }
 
     return compileSchema(content, { aliases });
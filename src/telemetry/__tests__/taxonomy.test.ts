@@ -63,6 +63,14 @@ describe("Taxonomy", () => {
       expect(metric?.name).toBe("config_load_ms");
       expect(metric?.unit).toBe("ms");
     });
+
+    it("includes the fulpack metrics", async () => {
+      expect((await getMetric("fulpack_operations_total"))?.unit).toBe("count");
+      expect((await getMetric("fulpack_operation_ms"))?.unit).toBe("ms");
+      expect((await getMetric("fulpack_entries_processed_total"))?.unit).toBe("count");
+      expect((await getMetric("fulpack_bytes_processed_total"))?.unit).toBe("bytes");
+      expect((await getMetric("fulpack_security_rejections_total"))?.unit).toBe("count");
+    });
   });
 
   describe("getDefaultUnit", () => {
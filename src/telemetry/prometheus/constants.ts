@@ -95,6 +95,20 @@ export const FULHASH_METRICS = {
   OPERATION_MS: "fulhash_operation_ms",
 } as const;
 
+/**
+ * Fulpack module metric names (tsfulmen taxonomy in config/tsfulmen/taxonomy/metrics.yaml)
+ */
+export const FULPACK_METRICS = {
+  // Counters (labels: operation; operations_total adds result, rejections add code)
+  OPERATIONS_TOTAL: "fulpack_operations_total",
+  ENTRIES_PROCESSED_TOTAL: "fulpack_entries_processed_total",
+  BYTES_PROCESSED_TOTAL: "fulpack_bytes_processed_total",
+  SECURITY_REJECTIONS_TOTAL: "fulpack_security_rejections_total",
+
+  // Timing histogram
+  OPERATION_MS: "fulpack_operation_ms",
+} as const;
+
 /**
  * Label values for Prometheus exporter metrics (taxonomy-compliant)
  */
@@ -11,6 +11,7 @@ export {
   EXPORTER_LABELS,
   FOUNDRY_METRICS,
   FULHASH_METRICS,
+  FULPACK_METRICS,
   msToSeconds,
   PROMETHEUS_EXPORTER_METRICS,
 } from "./constants.js";
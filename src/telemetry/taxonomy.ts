@@ -1,7 +1,8 @@
 /**
  * Taxonomy loader for metrics definitions
  *
- * Loads and caches metrics taxonomy from config/crucible-ts/taxonomy/metrics.yaml
+ * Loads and caches metrics taxonomy from config/crucible-ts/taxonomy/metrics.yaml,
+ * merged with tsfulmen's own metrics from config/tsfulmen/taxonomy/metrics.yaml
  * Provides default histogram buckets per ADR-0007
  */
 
@@ -32,6 +33,16 @@ export interface MetricsTaxonomy {
   metrics: MetricDefinition[];
 }
 
+/**
+ * Crucible metrics taxonomy (synced)
+ */
+const CRUCIBLE_TAXONOMY_PATH = "config/crucible-ts/taxonomy/metrics.yaml";
+
+/**
+ * Metrics emitted by tsfulmen modules beyond the Crucible taxonomy
+ */
+const TSFULMEN_TAXONOMY_PATH = "config/tsfulmen/taxonomy/metrics.yaml";
+
 /**
  * Default histogram buckets for _ms metrics (ADR-0007)
  * [1, 5, 10, 50, 100, 500, 1000, 5000, 10000] milliseconds
@@ -81,8 +92,12 @@ class TaxonomyLoader {
       try {
         ensureTelemetryAssetsRegistered();
         const resolver = getAssetResolver();
-        const content = await resolver.read("config/crucible-ts/taxonomy/metrics.yaml");
-        this.taxonomy = parseYaml(content) as MetricsTaxonomy;
+        const crucible = parseYaml(await resolver.read(CRUCIBLE_TAXONOMY_PATH)) as MetricsTaxonomy;
+        const local = parseYaml(await resolver.read(TSFULMEN_TAXONOMY_PATH)) as Pick<
+          MetricsTaxonomy,
+          "metrics"
+        >;
+        this.taxonomy = { ...crucible, metrics: [...crucible.metrics, ...local.metrics] };
 
         return this.taxonomy;
       } catch (err) {
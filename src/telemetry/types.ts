@@ -7,7 +7,8 @@
 
 /**
  * Metric name from taxonomy
- * Aligned with config/crucible-ts/taxonomy/metrics.yaml#/$defs/metricName
+ * Aligned with config/crucible-ts/taxonomy/metrics.yaml#/$defs/metricName,
+ * plus the tsfulmen metrics in config/tsfulmen/taxonomy/metrics.yaml
  * Updated for Crucible v0.2.18 (HTTP server metrics)
  */
 export type MetricName =
@@ -53,6 +54,12 @@ export type MetricName =
   | "fulhash_hash_string_total"
   | "fulhash_bytes_hashed_total"
   | "fulhash_operation_ms"
+  // Fulpack metrics (config/tsfulmen/taxonomy/metrics.yaml)
+  | "fulpack_operations_total"
+  | "fulpack_operation_ms"
+  | "fulpack_entries_processed_total"
+  | "fulpack_bytes_processed_total"
+  | "fulpack_security_rejections_total"
   // HTTP server metrics (v0.2.18)
   | "http_requests_total"
   | "http_request_duration_seconds"
@@ -188,6 +195,12 @@ export function isValidMetricName(name: string): name is MetricName {
     "fulhash_hash_string_total",
     "fulhash_bytes_hashed_total",
     "fulhash_operation_ms",
+    // Fulpack metrics (config/tsfulmen/taxonomy/metrics.yaml)
+    "fulpack_operations_total",
+    "fulpack_operation_ms",
+    "fulpack_entries_processed_total",
+    "fulpack_bytes_processed_total",
+    "fulpack_security_rejections_total",
     // HTTP server metrics
     "http_requests_total",
     "http_request_duration_seconds",
@@ -23,6 +23,9 @@ export default defineConfig({
     "telemetry/prometheus/index": "src/telemetry/prometheus/index.ts",
     "signals/index": "src/signals/index.ts",
     "similarity/index": "src/similarity/index.ts",
+    // Worker-thread scripts, loaded by path at runtime (HashPool locates
+    // dist/fulhash/hash-worker.js) rather than imported, so they have no export.
+    "fulhash/hash-worker": "src/fulhash/hash-worker.ts",
     // Executable CLI entry points (package `bin`). These are intentionally NOT
     // package `exports` — they are runnable commands kept out of the importable
     // library graph so they cannot self-execute and shadow a consumer's program
@@ -30,6 +33,7 @@ export default defineConfig({
     "bin/schema-cli": "src/bin/schema-cli.ts",
     "bin/signals-cli": "src/bin/signals-cli.ts",
     "bin/prometheus-cli": "src/bin/prometheus-cli.ts",
+    "bin/pack-cli": "src/bin/pack-cli.ts",
   },
   format: ["esm"],
   dts: true,